@@ -1,6 +1,6 @@
 """
 AeroDetect server: YOLOv3 (Darknet) inference via OpenCV DNN for aircraft component detection.
-Serves POST /detect with image (JSON body: { "image": "<base64>" }) -> { "items": [{ "label", "bbox": { "x","y","width","height" } }] }.
+Serves POST /detect with image (JSON body: { "image": "<base64>" }) -> { "items": [{ "label", "confidence", "bbox": { "x","y","width","height" } }] }.
 Expects model config and weights at the configured paths (or set AERO_DETECT_DIR / AERO_DETECT_WEIGHTS).
 """
 import os
@@ -139,6 +139,7 @@ def detect(image_bgr):
         label = class_names[class_ids[i]] if class_ids[i] < len(class_names) else f"class_{class_ids[i]}"
         out.append({
             "label": label,
+            "confidence": round(float(confidences[i]), 3),
             "bbox": {"x": round(x, 4), "y": round(y, 4), "width": round(bw_n, 4), "height": round(bh_n, 4)},
         })
     return out
@@ -0,0 +1,198 @@
+/**
+ * KB revision diff: compares two chunk files of the same manual (e.g. Rev 3 and Rev 4 ingests) and
+ * lists which chunks were added, removed or changed, so whoever publishes the new revision knows
+ * which citations, pins and task cards point at content that moved or no longer says the same thing.
+ *
+ *   npm run kb:diff -- old/cessna172-kb.json public/cessna172-kb.json
+ *   npm run kb:diff -- public/kb/o320-ohm.rev11.json public/kb/o320-ohm.json --json > o320-diff.json
+ *
+ * Chunks are matched by id, then by manual + section + title (ingested ids are page-based, so a
+ * chunk whose page shifted gets a new id). The revision field itself is not compared.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import type { KBChunk, KBData } from '../src/lib/knowledgeBase';
+
+const USAGE = `Usage: npm run kb:diff -- <old.json> <new.json> [options]
+
+  --manual <id>   Only compare chunks of this manual ("" = chunks that name none, i.e. the file's own)
+  --json          Print the report as JSON`;
+
+/** Compared in this order; page is reported separately as a move */
+const FIELDS = ['content', 'sectionTitle', 'section', 'figure', 'figureTitle', 'table', 'tables', 'component', 'ata', 'keywords', 'effectivity'] as const;
+
+type Field = (typeof FIELDS)[number];
+
+interface Args {
+  oldFile: string;
+  newFile: string;
+  manual?: string;
+  json: boolean;
+}
+
+interface ChangedChunk {
+  id: string;
+  /** Set when matched by section rather than id */
+  oldId?: string;
+  page: number;
+  oldPage: number;
+  fields: Field[];
+}
+
+interface KBDiff {
+  old: { file: string; revision: string; chunks: number };
+  new: { file: string; revision: string; chunks: number };
+  added: string[];
+  removed: string[];
+  changed: ChangedChunk[];
+  /** Same content on a different page */
+  moved: ChangedChunk[];
+  unchanged: number;
+}
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+function parseArgs(argv: string[]): Args {
+  const files: string[] = [];
+  let manual: string | undefined;
+  let json = false;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--help' || arg === '-h') {
+      console.log(USAGE);
+      process.exit(0);
+    }
+    if (arg === '--json') json = true;
+    else if (arg === '--manual' && i + 1 < argv.length) manual = argv[++i];
+    else if (arg === '--manual') fail(`Missing value for --manual\n\n${USAGE}`);
+    else if (arg.startsWith('--')) fail(`Unexpected argument: ${arg}\n\n${USAGE}`);
+    else files.push(resolve(arg));
+  }
+  if (files.length !== 2) fail(USAGE);
+  return { oldFile: files[0], newFile: files[1], manual, json };
+}
+
+function readKB(file: string): KBData {
+  if (!existsSync(file)) fail(`No such file: ${file}`);
+  const data = JSON.parse(readFileSync(file, 'utf8')) as KBData;
+  if (!Array.isArray(data.chunks)) fail(`Not a KB chunk file: ${file}`);
+  return data;
+}
+
+function sectionKey(chunk: KBChunk): string {
+  return `${chunk.manual ?? ''}\u0000${chunk.section}\u0000${chunk.sectionTitle.toLowerCase()}\u0000${chunk.figure ?? ''}`;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function diffChunks(oldChunks: KBChunk[], newChunks: KBChunk[]): Pick<KBDiff, 'added' | 'removed' | 'changed' | 'moved' | 'unchanged'> {
+  const oldById = new Map(oldChunks.map((c) => [c.id, c]));
+  const pairs: [KBChunk, KBChunk][] = [];
+  const unmatchedNew: KBChunk[] = [];
+  for (const chunk of newChunks) {
+    const old = oldById.get(chunk.id);
+    if (old) {
+      pairs.push([old, chunk]);
+      oldById.delete(chunk.id);
+    } else {
+      unmatchedNew.push(chunk);
+    }
+  }
+
+  // Fall back to section + title for chunks whose id changed; only unambiguous matches count
+  const oldBySection = new Map<string, KBChunk[]>();
+  for (const chunk of oldById.values()) {
+    const key = sectionKey(chunk);
+    oldBySection.set(key, [...(oldBySection.get(key) ?? []), chunk]);
+  }
+  const added: string[] = [];
+  for (const chunk of unmatchedNew) {
+    const candidates = oldBySection.get(sectionKey(chunk));
+    if (candidates?.length === 1) {
+      pairs.push([candidates[0], chunk]);
+      oldById.delete(candidates[0].id);
+      oldBySection.delete(sectionKey(chunk));
+    } else {
+      added.push(chunk.id);
+    }
+  }
+
+  const changed: ChangedChunk[] = [];
+  const moved: ChangedChunk[] = [];
+  let unchanged = 0;
+  for (const [old, chunk] of pairs) {
+    const fields = FIELDS.filter((f) => !sameValue(old[f], chunk[f]));
+    const entry: ChangedChunk = {
+      id: chunk.id,
+      ...(old.id !== chunk.id ? { oldId: old.id } : {}),
+      page: chunk.page,
+      oldPage: old.page,
+      fields,
+    };
+    if (fields.length) changed.push(entry);
+    else if (old.page !== chunk.page) moved.push(entry);
+    else unchanged++;
+  }
+
+  return { added, removed: [...oldById.keys()], changed, moved, unchanged };
+}
+
+function printReport(diff: KBDiff, oldChunks: Map<string, KBChunk>, newChunks: Map<string, KBChunk>): void {
+  const label = (c: KBChunk | undefined) => (c ? `p.${c.page} [${c.section}] ${c.sectionTitle}` : '');
+  console.log(`Old: ${diff.old.file} (revision ${diff.old.revision || '?'}, ${diff.old.chunks} chunks)`);
+  console.log(`New: ${diff.new.file} (revision ${diff.new.revision || '?'}, ${diff.new.chunks} chunks)`);
+  console.log(
+    `\n${diff.changed.length} changed, ${diff.added.length} added, ${diff.removed.length} removed, ${diff.moved.length} moved, ${diff.unchanged} unchanged`,
+  );
+
+  if (diff.changed.length) {
+    console.log('\nChanged:');
+    for (const c of diff.changed) {
+      const page = c.oldPage !== c.page ? ` (was p.${c.oldPage})` : '';
+      const renamed = c.oldId ? ` (was ${c.oldId})` : '';
+      console.log(`  ${c.id}${renamed}  ${label(newChunks.get(c.id))}${page}`);
+      console.log(`      ${c.fields.join(', ')}`);
+    }
+  }
+  if (diff.added.length) {
+    console.log('\nAdded:');
+    for (const id of diff.added) console.log(`  ${id}  ${label(newChunks.get(id))}`);
+  }
+  if (diff.removed.length) {
+    console.log('\nRemoved:');
+    for (const id of diff.removed) console.log(`  ${id}  ${label(oldChunks.get(id))}`);
+  }
+  if (diff.moved.length) {
+    console.log('\nMoved (content unchanged):');
+    for (const c of diff.moved) console.log(`  ${c.id}${c.oldId ? ` (was ${c.oldId})` : ''}  p.${c.oldPage} → p.${c.page}`);
+  }
+}
+
+function main(): void {
+  const args = parseArgs(process.argv.slice(2));
+  const oldKB = readKB(args.oldFile);
+  const newKB = readKB(args.newFile);
+  const pick = (chunks: KBChunk[]) => (args.manual !== undefined ? chunks.filter((c) => (c.manual ?? '') === args.manual) : chunks);
+  const oldChunks = pick(oldKB.chunks);
+  const newChunks = pick(newKB.chunks);
+
+  // Chunks of another manual bundled in the file carry their own revision
+  const revision = (kb: KBData, chunks: KBChunk[]) => chunks.find((c) => c.revision)?.revision ?? kb.manual?.revision ?? '';
+
+  const diff: KBDiff = {
+    old: { file: args.oldFile, revision: revision(oldKB, oldChunks), chunks: oldChunks.length },
+    new: { file: args.newFile, revision: revision(newKB, newChunks), chunks: newChunks.length },
+    ...diffChunks(oldChunks, newChunks),
+  };
+
+  if (args.json) console.log(JSON.stringify(diff, null, 2));
+  else printReport(diff, new Map(oldChunks.map((c) => [c.id, c])), new Map(newChunks.map((c) => [c.id, c])));
+}
+
+main();
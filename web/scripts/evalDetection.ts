@@ -0,0 +1,274 @@
+/**
+ * Detection evaluation CLI: runs a provider over a folder of labelled frames and prints per-class
+ * precision/recall/AP, mAP and label-normalization mismatches. Use it to compare DETECTION_PROMPT
+ * revisions or AeroDetect weights before shipping.
+ *
+ *   npm run eval:detection -- --frames ./eval/frames --provider gemini --save-responses ./eval/gemini.json
+ *   npm run eval:detection -- --frames ./eval/frames --provider recorded --responses ./eval/gemini.json
+ *
+ * Ground truth: YOLO txt files next to the frames (or --labels dir), class ids indexing
+ * aero-detect-server/classes.txt, or a COCO annotations file (--coco).
+ * Keys come from the environment: VITE_GEMINI_API_KEY (dsk-… for Dedalus), VITE_AERODETECT_API_URL.
+ */
+
+import { existsSync, readFileSync, readdirSync, writeFileSync } from 'node:fs';
+import { basename, dirname, extname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import {
+  DETECTION_PROMPT,
+  detectWithAeroDetect,
+  detectWithDedalus,
+  detectWithGemini,
+  filterDetections,
+  type BoundingBox,
+  type DetectedItem,
+} from '../src/lib/detection';
+import { isRateLimitError } from '../src/lib/detectionProviders';
+import { evaluateDetections, type EvalImage, type EvalReport, type GroundTruthBox } from './evalMetrics';
+
+const PROVIDERS = ['aerodetect', 'dedalus', 'gemini', 'recorded'] as const;
+type ProviderId = (typeof PROVIDERS)[number];
+
+/** Pause between calls so a run doesn't trip the shared rate limit (ms) */
+const DEFAULT_DELAY_MS: Record<ProviderId, number> = { aerodetect: 0, dedalus: 4500, gemini: 4000, recorded: 0 };
+const RATE_LIMIT_WAIT_MS = 45_000;
+const RATE_LIMIT_RETRIES = 2;
+const DEFAULT_MIN_CONFIDENCE = 0.35;
+
+const scriptDir = dirname(fileURLToPath(import.meta.url));
+const DEFAULT_CLASSES = resolve(scriptDir, '../../aero-detect-server/classes.txt');
+
+const USAGE = `Usage: npm run eval:detection -- --frames <dir> [options]
+
+  --frames <dir>            Folder of .jpg/.jpeg frames (required)
+  --labels <dir>            YOLO .txt labels (default: same folder as frames)
+  --coco <file>             COCO annotations JSON instead of YOLO labels
+  --classes <file>          Class list for YOLO ids (default: aero-detect-server/classes.txt)
+  --provider <id>           ${PROVIDERS.join(' | ')} (default: aerodetect)
+  --responses <file>        Recorded responses for --provider recorded ({ "<frame file>": DetectedItem[] })
+  --save-responses <file>   Write raw provider responses, to re-score later without API calls
+  --prompt <file>           Detection prompt to use instead of DETECTION_PROMPT (dedalus/gemini)
+  --iou <n>                 IoU threshold for a true positive (default: 0.5)
+  --min-confidence <n>      Confidence filter applied as in the app (default: ${DEFAULT_MIN_CONFIDENCE})
+  --delay <ms>              Pause between provider calls
+  --json <file>             Also write the report as JSON`;
+
+interface Options {
+  frames: string;
+  labels?: string;
+  coco?: string;
+  classes: string;
+  provider: ProviderId;
+  responses?: string;
+  saveResponses?: string;
+  prompt?: string;
+  iou: number;
+  minConfidence: number;
+  delayMs?: number;
+  json?: string;
+}
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+function parseArgs(argv: string[]): Options {
+  const args = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--help' || arg === '-h') {
+      console.log(USAGE);
+      process.exit(0);
+    }
+    if (!arg.startsWith('--') || i + 1 >= argv.length) fail(`Unexpected argument: ${arg}\n\n${USAGE}`);
+    args.set(arg.slice(2), argv[++i]);
+  }
+  const frames = args.get('frames');
+  if (!frames) fail(USAGE);
+  const provider = (args.get('provider') ?? 'aerodetect') as ProviderId;
+  if (!PROVIDERS.includes(provider)) fail(`Unknown provider "${provider}". Use one of: ${PROVIDERS.join(', ')}`);
+  if (provider === 'recorded' && !args.has('responses')) fail('--provider recorded needs --responses <file>');
+  const num = (key: string, fallback: number): number => {
+    const v = args.has(key) ? Number(args.get(key)) : fallback;
+    if (!Number.isFinite(v)) fail(`--${key} must be a number`);
+    return v;
+  };
+  return {
+    frames: resolve(frames),
+    labels: args.has('labels') ? resolve(args.get('labels')!) : undefined,
+    coco: args.has('coco') ? resolve(args.get('coco')!) : undefined,
+    classes: resolve(args.get('classes') ?? DEFAULT_CLASSES),
+    provider,
+    responses: args.get('responses'),
+    saveResponses: args.get('save-responses'),
+    prompt: args.get('prompt'),
+    iou: num('iou', 0.5),
+    minConfidence: num('min-confidence', DEFAULT_MIN_CONFIDENCE),
+    delayMs: args.has('delay') ? num('delay', 0) : undefined,
+    json: args.get('json'),
+  };
+}
+
+/** classes.txt: one class per line, "#" comments and blank lines ignored. */
+function loadClassNames(file: string): string[] {
+  if (!existsSync(file)) fail(`Class list not found: ${file}`);
+  return readFileSync(file, 'utf8')
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .filter((l) => l && !l.startsWith('#'));
+}
+
+/** YOLO line: "<class id> <cx> <cy> <w> <h>", all normalized; converted to top-left boxes. */
+function loadYoloLabels(file: string, classNames: string[]): GroundTruthBox[] {
+  if (!existsSync(file)) return [];
+  const out: GroundTruthBox[] = [];
+  readFileSync(file, 'utf8')
+    .split(/\r?\n/)
+    .forEach((line, i) => {
+      const parts = line.trim().split(/\s+/);
+      if (parts.length < 5 || parts[0] === '') return;
+      const [id, cx, cy, w, h] = parts.map(Number);
+      const className = classNames[id];
+      if (!className || [cx, cy, w, h].some((n) => !Number.isFinite(n))) {
+        fail(`${file}:${i + 1}: invalid YOLO label "${line.trim()}"`);
+      }
+      out.push({ className, bbox: { x: cx - w / 2, y: cy - h / 2, width: w, height: h } });
+    });
+  return out;
+}
+
+interface CocoFile {
+  images: Array<{ id: number; file_name: string; width: number; height: number }>;
+  annotations: Array<{ image_id: number; category_id: number; bbox: [number, number, number, number] }>;
+  categories: Array<{ id: number; name: string }>;
+}
+
+/** COCO pixel boxes → normalized, keyed by frame file name. Class names come from its categories. */
+function loadCoco(file: string): { classNames: string[]; byFile: Map<string, GroundTruthBox[]> } {
+  const coco = JSON.parse(readFileSync(file, 'utf8')) as CocoFile;
+  const categories = new Map(coco.categories.map((c) => [c.id, c.name]));
+  const images = new Map(coco.images.map((img) => [img.id, img]));
+  const byFile = new Map<string, GroundTruthBox[]>(coco.images.map((img) => [basename(img.file_name), []]));
+  for (const a of coco.annotations) {
+    const img = images.get(a.image_id);
+    const className = categories.get(a.category_id);
+    if (!img || !className) continue;
+    const [x, y, w, h] = a.bbox;
+    const bbox: BoundingBox = { x: x / img.width, y: y / img.height, width: w / img.width, height: h / img.height };
+    byFile.get(basename(img.file_name))!.push({ className, bbox });
+  }
+  return { classNames: coco.categories.map((c) => c.name), byFile };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+function createDetector(opts: Options): (file: string, jpegBase64: string) => Promise<DetectedItem[]> {
+  const prompt = opts.prompt ? readFileSync(opts.prompt, 'utf8') : DETECTION_PROMPT;
+  const apiKey = process.env.VITE_GEMINI_API_KEY ?? process.env.GEMINI_API_KEY ?? '';
+  switch (opts.provider) {
+    case 'aerodetect': {
+      const url = process.env.VITE_AERODETECT_API_URL ?? process.env.AERODETECT_API_URL ?? 'http://localhost:5000';
+      return (_file, jpeg) => detectWithAeroDetect(jpeg, url);
+    }
+    case 'dedalus':
+      if (!apiKey.startsWith('dsk-')) fail('Set VITE_GEMINI_API_KEY to a Dedalus key (dsk-…) for --provider dedalus');
+      return (_file, jpeg) => detectWithDedalus(jpeg, apiKey, prompt);
+    case 'gemini':
+      if (!apiKey || apiKey.startsWith('dsk-')) fail('Set VITE_GEMINI_API_KEY to a Google API key for --provider gemini');
+      return (_file, jpeg) => detectWithGemini(jpeg, apiKey, prompt);
+    case 'recorded': {
+      const recorded = JSON.parse(readFileSync(opts.responses!, 'utf8')) as Record<string, DetectedItem[]>;
+      return async (file) => {
+        const items = recorded[file];
+        if (!items) throw new Error(`No recorded response for ${file}`);
+        return items;
+      };
+    }
+  }
+}
+
+async function detectWithRetry(detect: () => Promise<DetectedItem[]>): Promise<DetectedItem[]> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await detect();
+    } catch (e) {
+      if (!isRateLimitError(e) || attempt >= RATE_LIMIT_RETRIES) throw e;
+      console.warn(`  rate limited, waiting ${RATE_LIMIT_WAIT_MS / 1000}s…`);
+      await sleep(RATE_LIMIT_WAIT_MS);
+    }
+  }
+}
+
+function pct(n: number): string {
+  return `${(n * 100).toFixed(1)}%`.padStart(7);
+}
+
+function printReport(report: EvalReport, provider: string): void {
+  console.log(`\n${provider} · ${report.images} frames · IoU ≥ ${report.iouThreshold}\n`);
+  const width = Math.max(5, ...report.classes.map((c) => c.className.length));
+  console.log(`${'class'.padEnd(width)}     GT   pred  precision  recall      AP`);
+  for (const c of report.classes) {
+    console.log(
+      `${c.className.padEnd(width)} ${String(c.groundTruth).padStart(6)} ${String(c.predictions).padStart(6)}    ${pct(c.precision)} ${pct(c.recall)} ${pct(c.ap)}`
+    );
+  }
+  const all = report.overall;
+  console.log(`${'all'.padEnd(width)} ${String(all.groundTruth).padStart(6)} ${String(all.predictions).padStart(6)}    ${pct(all.precision)} ${pct(all.recall)}`);
+  console.log(`\nmAP@${report.iouThreshold}: ${(report.mAP * 100).toFixed(1)}%`);
+  if (report.labelMismatches.length > 0) {
+    console.log('\nLabel mismatches (predicted label on a ground-truth box of another class):');
+    for (const m of report.labelMismatches) console.log(`  ${String(m.count).padStart(4)}× "${m.predicted}" → ${m.expected}`);
+  }
+  if (report.notInTaxonomy.length > 0) {
+    console.log('\nPredicted labels not in the taxonomy (false positives; add synonyms in taxonomy.ts):');
+    for (const u of report.notInTaxonomy) console.log(`  ${String(u.count).padStart(4)}× "${u.label}"`);
+  }
+  if (report.noEvalClass.length > 0) {
+    console.log('\nPredicted components with no eval class (false positives):');
+    for (const u of report.noEvalClass) console.log(`  ${String(u.count).padStart(4)}× "${u.label}"`);
+  }
+}
+
+async function main(): Promise<void> {
+  const opts = parseArgs(process.argv.slice(2));
+  if (!existsSync(opts.frames)) fail(`Frames folder not found: ${opts.frames}`);
+  const coco = opts.coco ? loadCoco(opts.coco) : null;
+  const classNames = coco?.classNames ?? loadClassNames(opts.classes);
+  const frames = readdirSync(opts.frames)
+    .filter((f) => /\.jpe?g$/i.test(f))
+    .sort();
+  if (frames.length === 0) fail(`No .jpg frames in ${opts.frames}`);
+
+  const detect = createDetector(opts);
+  const delayMs = opts.delayMs ?? DEFAULT_DELAY_MS[opts.provider];
+  const responses: Record<string, DetectedItem[]> = {};
+  const images: EvalImage[] = [];
+
+  for (const [i, file] of frames.entries()) {
+    const groundTruth = coco
+      ? coco.byFile.get(file) ?? []
+      : loadYoloLabels(join(opts.labels ?? opts.frames, basename(file, extname(file)) + '.txt'), classNames);
+    const jpeg = readFileSync(join(opts.frames, file)).toString('base64');
+    process.stdout.write(`[${i + 1}/${frames.length}] ${file}`);
+    let raw: DetectedItem[] = [];
+    try {
+      raw = await detectWithRetry(() => detect(file, jpeg));
+      process.stdout.write(` · ${raw.length} detections\n`);
+    } catch (e) {
+      process.stdout.write(` · failed: ${e instanceof Error ? e.message : String(e)}\n`);
+    }
+    responses[file] = raw;
+    images.push({ id: file, groundTruth, predictions: filterDetections(raw, opts.minConfidence) });
+    if (delayMs > 0 && i < frames.length - 1) await sleep(delayMs);
+  }
+
+  if (opts.saveResponses) writeFileSync(opts.saveResponses, JSON.stringify(responses, null, 2));
+  const report = evaluateDetections(images, classNames, opts.iou);
+  printReport(report, opts.provider);
+  if (opts.json) writeFileSync(opts.json, JSON.stringify(report, null, 2));
+}
+
+main().catch((e) => fail(e instanceof Error ? e.stack ?? e.message : String(e)));
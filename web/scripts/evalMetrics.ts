@@ -0,0 +1,203 @@
+/**
+ * Detection metrics for the eval tool: per-class precision/recall and VOC-style average precision
+ * (all-point interpolation) at a fixed IoU threshold, plus a report of predicted labels that don't
+ * map onto the ground-truth class list (unknown to the taxonomy, or a component with no eval class).
+ */
+
+import type { BoundingBox, DetectedItem } from '../src/lib/detection';
+import { canonicalizeLabel, getAncestry, normalizeLabel } from '../src/lib/taxonomy';
+import { iou } from '../src/lib/tracking';
+
+export interface GroundTruthBox {
+  className: string;
+  bbox: BoundingBox;
+}
+
+export interface EvalImage {
+  id: string;
+  groundTruth: GroundTruthBox[];
+  predictions: DetectedItem[];
+}
+
+export interface ClassMetrics {
+  className: string;
+  groundTruth: number;
+  predictions: number;
+  truePositives: number;
+  precision: number;
+  recall: number;
+  ap: number;
+}
+
+/** A prediction that landed on a ground-truth box but under a label that didn't map to its class */
+export interface LabelMismatch {
+  predicted: string;
+  expected: string;
+  count: number;
+}
+
+/** All classes pooled; predictions that map to no class count as false positives */
+export interface OverallMetrics {
+  groundTruth: number;
+  predictions: number;
+  truePositives: number;
+  falsePositives: number;
+  precision: number;
+  recall: number;
+}
+
+export interface EvalReport {
+  iouThreshold: number;
+  images: number;
+  classes: ClassMetrics[];
+  /** Mean AP over classes that have ground truth */
+  mAP: number;
+  overall: OverallMetrics;
+  /** Predicted labels the component taxonomy doesn't know (and no class is named), with how often they occurred */
+  notInTaxonomy: Array<{ label: string; count: number }>;
+  /** Predicted labels of a taxonomy component with no eval class on its ancestry */
+  noEvalClass: Array<{ label: string; count: number }>;
+  labelMismatches: LabelMismatch[];
+}
+
+/**
+ * Map a predicted label onto a class name: via the component taxonomy, to the nearest entry on the
+ * component's ancestry that a class names ("Propeller blade" → propeller when only the assembly is
+ * labelled), otherwise by normalized equality (null if neither matches).
+ */
+export function mapLabelToClass(label: string, classNames: string[]): string | null {
+  const component = canonicalizeLabel(label);
+  if (component) {
+    for (const entry of getAncestry(component.id)) {
+      const className = classNames.find((c) => c === entry.id || canonicalizeLabel(c)?.id === entry.id);
+      if (className) return className;
+    }
+  }
+  const n = normalizeLabel(label);
+  return classNames.find((c) => normalizeLabel(c) === n) ?? null;
+}
+
+/** VOC all-point interpolated AP from precision/recall points ordered by descending confidence. */
+function averagePrecision(recalls: number[], precisions: number[]): number {
+  const r = [0, ...recalls, 1];
+  const p = [0, ...precisions, 0];
+  for (let i = p.length - 2; i >= 0; i--) p[i] = Math.max(p[i], p[i + 1]);
+  let ap = 0;
+  for (let i = 1; i < r.length; i++) ap += (r[i] - r[i - 1]) * p[i];
+  return ap;
+}
+
+function countBy(values: string[]): Map<string, number> {
+  const out = new Map<string, number>();
+  for (const v of values) out.set(v, (out.get(v) ?? 0) + 1);
+  return out;
+}
+
+export function evaluateDetections(
+  images: EvalImage[],
+  classNames: string[],
+  iouThreshold = 0.5,
+  mapLabel: (label: string) => string | null = (label) => mapLabelToClass(label, classNames)
+): EvalReport {
+  const notInTaxonomy: string[] = [];
+  const noEvalClass: string[] = [];
+  const mismatches: string[] = [];
+  const classes: ClassMetrics[] = [];
+
+  // Map every prediction once; unmapped labels are reported and count as false positives overall
+  const mapped = images.map((img) =>
+    img.predictions.map((p) => {
+      const className = mapLabel(p.label);
+      if (!className) (canonicalizeLabel(p.label) ? noEvalClass : notInTaxonomy).push(p.label);
+      return { ...p, className };
+    })
+  );
+
+  for (const className of classNames) {
+    const gtTotal = images.reduce((n, img) => n + img.groundTruth.filter((g) => g.className === className).length, 0);
+    const preds = mapped
+      .flatMap((list, imageIndex) => list.filter((p) => p.className === className).map((p) => ({ ...p, imageIndex })))
+      .sort((a, b) => (b.confidence ?? 1) - (a.confidence ?? 1));
+    if (gtTotal === 0 && preds.length === 0) continue;
+
+    const used = images.map((img) => img.groundTruth.map(() => false));
+    let tp = 0;
+    let fp = 0;
+    const recalls: number[] = [];
+    const precisions: number[] = [];
+    for (const p of preds) {
+      const gts = images[p.imageIndex].groundTruth;
+      let best = -1;
+      let bestIou = iouThreshold;
+      gts.forEach((g, gi) => {
+        if (g.className !== className || used[p.imageIndex][gi]) return;
+        const overlap = iou(p.bbox, g.bbox);
+        if (overlap >= bestIou) {
+          best = gi;
+          bestIou = overlap;
+        }
+      });
+      if (best >= 0) {
+        used[p.imageIndex][best] = true;
+        tp++;
+      } else {
+        fp++;
+      }
+      recalls.push(gtTotal > 0 ? tp / gtTotal : 0);
+      precisions.push(tp / (tp + fp));
+    }
+    classes.push({
+      className,
+      groundTruth: gtTotal,
+      predictions: preds.length,
+      truePositives: tp,
+      precision: preds.length > 0 ? tp / preds.length : 0,
+      recall: gtTotal > 0 ? tp / gtTotal : 0,
+      ap: gtTotal > 0 ? averagePrecision(recalls, precisions) : 0,
+    });
+  }
+
+  // Label mismatches: predictions sitting on a ground-truth box of a class they didn't map to
+  mapped.forEach((list, imageIndex) => {
+    for (const p of list) {
+      let expected: string | null = null;
+      let bestIou = iouThreshold;
+      for (const g of images[imageIndex].groundTruth) {
+        const overlap = iou(p.bbox, g.bbox);
+        if (overlap >= bestIou) {
+          expected = g.className;
+          bestIou = overlap;
+        }
+      }
+      if (expected && expected !== p.className) mismatches.push(`${p.label}\u0000${expected}`);
+    }
+  });
+
+  const scored = classes.filter((c) => c.groundTruth > 0);
+  const groundTruth = images.reduce((n, img) => n + img.groundTruth.length, 0);
+  const predictions = images.reduce((n, img) => n + img.predictions.length, 0);
+  const truePositives = classes.reduce((n, c) => n + c.truePositives, 0);
+  const byCount = (labels: string[]) => [...countBy(labels)].map(([label, count]) => ({ label, count })).sort((a, b) => b.count - a.count);
+  return {
+    iouThreshold,
+    images: images.length,
+    classes,
+    mAP: scored.length > 0 ? scored.reduce((s, c) => s + c.ap, 0) / scored.length : 0,
+    overall: {
+      groundTruth,
+      predictions,
+      truePositives,
+      falsePositives: predictions - truePositives,
+      precision: predictions > 0 ? truePositives / predictions : 0,
+      recall: groundTruth > 0 ? truePositives / groundTruth : 0,
+    },
+    notInTaxonomy: byCount(notInTaxonomy),
+    noEvalClass: byCount(noEvalClass),
+    labelMismatches: [...countBy(mismatches)]
+      .map(([key, count]) => {
+        const [predicted, expected] = key.split('\u0000');
+        return { predicted, expected, count };
+      })
+      .sort((a, b) => b.count - a.count),
+  };
+}
@@ -0,0 +1,232 @@
+/**
+ * Manual ingestion CLI: extracts a manual PDF into KB chunks (see manualIngest.ts), writes them to
+ * public/kb/<id>.json, copies the PDF to public/manuals/ and registers the manual in
+ * public/kb/manifest.json, which the app loads at startup — no code change per manual.
+ *
+ *   npm run kb:ingest -- --pdf ~/manuals/o320-overhaul.pdf --id o320-ohm --name "O-320 OHM" \
+ *     --title "Lycoming O-320 Overhaul Manual" --document-number 60294-12 --aircraft "Cessna 172"
+ *   npm run kb:ingest -- --pdf prop.pdf --id mccauley-prop --name "Prop SM" --title "..." --ata 61 --component propeller
+ *
+ * Re-running with the same --id replaces that manual's chunks and manifest entry.
+ */
+
+import { copyFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import type { Effectivity } from '../src/lib/effectivity';
+import type { KBChunk, KBData, KBManifest, KBManualInfo } from '../src/lib/knowledgeBase';
+import { ingestManual, type PageText } from './manualIngest';
+
+const scriptDir = dirname(fileURLToPath(import.meta.url));
+const PUBLIC_DIR = resolve(scriptDir, '../public');
+const MANIFEST_FILE = resolve(PUBLIC_DIR, 'kb/manifest.json');
+
+const USAGE = `Usage: npm run kb:ingest -- --pdf <file> --id <id> --name <short name> --title <title> [options]
+
+  --pdf <file>              Manual PDF
+  --id <id>                 Manual id (kebab-case; chunk ids and KBChunk.manual)
+  --name <text>             Short name for overlay badges, e.g. "O-320 OHM"
+  --title <text>            Full manual title
+  --document-number <text>  Publisher's document number
+  --revision <text>         Revision / edition
+  --pages <from-to>         Only ingest these PDF pages (e.g. 9-60)
+  --max-chars <n>           Split chunks longer than this at a paragraph (default: 1500)
+  --component <id>          Taxonomy component for chunks that name none (e.g. propeller)
+  --ata <code>              ATA code for chunks without one (e.g. 61)
+  --aircraft <types>        Comma-separated aircraft types the manual covers (e.g. "Cessna 172")
+  --models <models>         Comma-separated models it covers (e.g. 172N,F172N); omit both for any aircraft
+  --pdf-url <path>          Serve the PDF from this URL instead of copying it to public/manuals/
+  --out <file>              Chunk file (default: public/kb/<id>.json)
+  --dry-run                 Print a summary without writing anything`;
+
+interface Args {
+  pdf: string;
+  id: string;
+  name: string;
+  title: string;
+  documentNumber?: string;
+  revision?: string;
+  pages?: [number, number];
+  maxChars?: number;
+  component?: string;
+  ata?: string;
+  effectivity?: Effectivity;
+  pdfUrl?: string;
+  out: string;
+  dryRun: boolean;
+}
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+function parseArgs(argv: string[]): Args {
+  const args = new Map<string, string>();
+  let dryRun = false;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--help' || arg === '-h') {
+      console.log(USAGE);
+      process.exit(0);
+    }
+    if (arg === '--dry-run') {
+      dryRun = true;
+      continue;
+    }
+    if (!arg.startsWith('--') || i + 1 >= argv.length) fail(`Unexpected argument: ${arg}\n\n${USAGE}`);
+    args.set(arg.slice(2), argv[++i]);
+  }
+  const required = (key: string) => args.get(key) ?? fail(`Missing --${key}\n\n${USAGE}`);
+  const id = required('id');
+  if (!/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(id)) fail(`--id must be kebab-case: ${id}`);
+
+  let pages: [number, number] | undefined;
+  const range = args.get('pages');
+  if (range) {
+    const m = range.match(/^(\d+)-(\d+)$/);
+    if (!m || +m[1] < 1 || +m[2] < +m[1]) fail(`--pages must be <from>-<to>: ${range}`);
+    pages = [+m[1], +m[2]];
+  }
+  const list = (key: string) => args.get(key)?.split(',').map((s) => s.trim()).filter(Boolean);
+  const aircraft = list('aircraft');
+  const models = list('models');
+  const effectivity = aircraft?.length || models?.length ? { ...(aircraft?.length ? { aircraft } : {}), ...(models?.length ? { models } : {}) } : undefined;
+
+  const maxChars = args.has('max-chars') ? Number(args.get('max-chars')) : undefined;
+  if (maxChars !== undefined && !(maxChars > 0)) fail(`--max-chars must be a positive number`);
+
+  return {
+    pdf: resolve(required('pdf')),
+    id,
+    name: required('name'),
+    title: required('title'),
+    documentNumber: args.get('document-number'),
+    revision: args.get('revision'),
+    pages,
+    maxChars,
+    component: args.get('component'),
+    ata: args.get('ata'),
+    effectivity,
+    pdfUrl: args.get('pdf-url'),
+    out: resolve(args.get('out') ?? resolve(PUBLIC_DIR, `kb/${id}.json`)),
+    dryRun,
+  };
+}
+
+async function extractPages(file: string, range?: [number, number]): Promise<{ pages: PageText[]; totalPages: number }> {
+  const doc = await getDocument({ data: new Uint8Array(readFileSync(file)), verbosity: 0 }).promise;
+  const [from, to] = range ?? [1, doc.numPages];
+  const pages: PageText[] = [];
+  for (let n = from; n <= Math.min(to, doc.numPages); n++) {
+    const page = await doc.getPage(n);
+    const content = await page.getTextContent();
+    pages.push({
+      page: n,
+      height: page.getViewport({ scale: 1 }).height,
+      runs: content.items
+        .filter((item): item is TextItem => 'str' in item && item.str.trim() !== '')
+        .map((item) => ({ text: item.str, x: item.transform[4], y: item.transform[5], width: item.width, font: item.fontName })),
+    });
+    page.cleanup();
+  }
+  const totalPages = doc.numPages;
+  await doc.destroy();
+  return { pages, totalPages };
+}
+
+/** Chunk files use the same layout as cessna172-kb.json (string arrays, e.g. keywords and table rows, and figure regions on one line). */
+function formatKB(data: KBData): string {
+  const oneLine = (m: string) => m.replace(/\s*\n\s*/g, ' ').replace(/([[{]) /, '$1').replace(/ ([\]}])$/, '$1');
+  return (
+    JSON.stringify(data, null, 2)
+      .replace(/\[\s*\n(?:\s*"(?:[^"\\]|\\.)*",?\n)+\s*\]/g, oneLine)
+      .replace(/"figureRegion": \{[^}]*\}/g, oneLine) + '\n'
+  );
+}
+
+function readManifest(): KBManifest {
+  return existsSync(MANIFEST_FILE) ? (JSON.parse(readFileSync(MANIFEST_FILE, 'utf8')) as KBManifest) : { manuals: [] };
+}
+
+function toPublicUrl(file: string): string {
+  if (!file.startsWith(PUBLIC_DIR + '/')) fail(`--out must be inside ${PUBLIC_DIR} so the app can load it: ${file}`);
+  return file.slice(PUBLIC_DIR.length);
+}
+
+function summarize(chunks: KBChunk[]): void {
+  const components = new Map<string, number>();
+  for (const c of chunks) components.set(c.component, (components.get(c.component) ?? 0) + 1);
+  console.log(`${chunks.length} chunks, ${chunks.filter((c) => c.figure).length} with figures`);
+  console.log(
+    'Components:',
+    [...components.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([id, n]) => `${id} ${n}`)
+      .join(', '),
+  );
+  for (const c of chunks.slice(0, 5)) console.log(`  ${c.id}  [${c.section}] ${c.sectionTitle}  (${c.component}${c.ata ? `, ATA ${c.ata}` : ''})`);
+  if (chunks.length > 5) console.log(`  … ${chunks.length - 5} more`);
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  if (!existsSync(args.pdf)) fail(`No such file: ${args.pdf}`);
+
+  console.log(`Reading ${args.pdf}…`);
+  const { pages, totalPages } = await extractPages(args.pdf, args.pages);
+  if (!pages.some((p) => p.runs.length)) fail('No text found in the PDF (scanned manuals need OCR first)');
+
+  const chunks = ingestManual(pages, {
+    manualId: args.id,
+    maxChars: args.maxChars,
+    defaultComponent: args.component,
+    defaultAta: args.ata,
+    revision: args.revision,
+  });
+  if (!chunks.length) fail('No chunks extracted');
+  summarize(chunks);
+  if (args.dryRun) return;
+
+  const pdfUrl = args.pdfUrl ?? `/manuals/${args.id}.pdf`;
+  if (!args.pdfUrl) {
+    mkdirSync(resolve(PUBLIC_DIR, 'manuals'), { recursive: true });
+    copyFileSync(args.pdf, resolve(PUBLIC_DIR, `manuals/${args.id}.pdf`));
+  }
+
+  const info: KBManualInfo = {
+    id: args.id,
+    name: args.name,
+    title: args.title,
+    ...(args.documentNumber ? { documentNumber: args.documentNumber } : {}),
+    ...(args.revision ? { revision: args.revision } : {}),
+    pdf: pdfUrl,
+    chunks: toPublicUrl(args.out),
+    ...(args.effectivity ? { effectivity: args.effectivity } : {}),
+  };
+  const data: KBData = {
+    manual: {
+      title: args.title,
+      documentNumber: args.documentNumber ?? '',
+      revision: args.revision ?? '',
+      totalPages,
+      pdfFile: pdfUrl,
+    },
+    chunks,
+  };
+  mkdirSync(dirname(args.out), { recursive: true });
+  writeFileSync(args.out, formatKB(data));
+
+  const manifest = readManifest();
+  const existing = manifest.manuals.findIndex((m) => m.id === args.id);
+  if (existing >= 0) manifest.manuals[existing] = info;
+  else manifest.manuals.push(info);
+  mkdirSync(dirname(MANIFEST_FILE), { recursive: true });
+  writeFileSync(MANIFEST_FILE, JSON.stringify(manifest, null, 2) + '\n');
+
+  console.log(`Wrote ${args.out} and registered "${args.id}" in ${MANIFEST_FILE}`);
+}
+
+main().catch((e) => fail(e instanceof Error ? e.stack ?? e.message : String(e)));
@@ -0,0 +1,584 @@
+/**
+ * Manual PDF → KB chunks for the ingestion CLI: rebuilds lines from positioned text runs, drops
+ * running headers/footers, splits at section headings, picks up figure/table captions and tabular
+ * rows (column gaps or dot leaders), and tags each chunk with a taxonomy component, ATA code and
+ * keywords. Tables are also kept as structured rows, and figures get the page region they are drawn
+ * in for cropped previews. Layout heuristics only; review the output before registering a manual.
+ */
+
+import { findAtaReference, normalizeAtaCode } from '../src/lib/ata';
+import { tokenize } from '../src/lib/bm25';
+import type { FigureRegion, KBChunk, KBTable } from '../src/lib/knowledgeBase';
+import { COMPONENT_TAXONOMY, getComponent, getRootComponent, normalizeLabel, type ComponentEntry } from '../src/lib/taxonomy';
+
+/** One positioned text run from the PDF (PDF units, origin bottom-left) */
+export interface TextRun {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  font: string;
+}
+
+export interface PageText {
+  /** 1-based PDF page index (what `#page=` links use) */
+  page: number;
+  height: number;
+  runs: TextRun[];
+}
+
+export interface IngestOptions {
+  manualId: string;
+  /** Split a chunk at the next paragraph once its content is longer than this */
+  maxChars?: number;
+  /** Component for chunks that mention no taxonomy component */
+  defaultComponent?: string;
+  /** ATA code for chunks whose component has none, e.g. "61" for a propeller manual */
+  defaultAta?: string;
+  /** Revision / edition stamped on every chunk, so citations carry it */
+  revision?: string;
+}
+
+const DEFAULT_MAX_CHARS = 1500;
+const MAX_KEYWORDS = 8;
+/** Runs closer than this on one baseline belong to the same line */
+const BASELINE_TOLERANCE = 2;
+/** Horizontal gap that separates table columns rather than words */
+const COLUMN_GAP = 20;
+/** Header/footer bands as a fraction of page height */
+const HEADER_BAND = 0.88;
+const FOOTER_BAND = 0.11;
+/** A band line on this share of pages is running header/footer text */
+const RUNNING_SHARE = 0.3;
+/** Figures are drawn above their caption; less room than this (fraction of page height) is no figure */
+const MIN_FIGURE_HEIGHT = 0.08;
+/** A short line at most this long right above a table names it: "Oil Pressure, psi –" */
+const MAX_TABLE_LABEL = 60;
+
+interface Line {
+  page: number;
+  y: number;
+  text: string;
+  /** Column texts when the line is tabular, else a single cell */
+  cells: string[];
+  /** Text of leading runs set in a non-body font (bold/heading face) */
+  emphasized: string;
+  /** Label and value split at a dot leader: "Maximum sump capacity ...... 6 qts." */
+  leader: boolean;
+}
+
+type Block =
+  | { kind: 'section'; page: number; section: string; title: string }
+  | { kind: 'heading'; page: number; level: 1 | 2; text: string }
+  | { kind: 'figure'; page: number; figure: string; title: string; region: FigureRegion | null }
+  | { kind: 'table'; page: number; table: string; title: string }
+  | { kind: 'rows'; page: number; label: string; rows: string[][] }
+  | { kind: 'text'; page: number; text: string; paragraph: boolean };
+
+const SECTION_RE = /^SECTION\s+(\d+[A-Z]?)\b[\s.:–-]*(.*)$/i;
+const FIGURE_RE = /^(?:Figure|Fig\.)\s+(\d+(?:[-–.]\d+)?[A-Z]?)\b[\s.:–-]*(.*)$/i;
+const TABLE_RE = /^Table\s+(\d+(?:[-–.]\d+)?[A-Z]?)\b[\s.:–-]*(.*)$/i;
+/** "4. COLD WEATHER STARTING." / "11-15. SPARK PLUGS." */
+const NUMBERED_HEADING_RE = /^(\d+(?:-\d+)?)\.\s+([^a-z]*[A-Z][^a-z]*?)\.?$/;
+/** "a." / "(1)" / "1." list item markers */
+const LIST_MARKER_RE = /^(?:[a-z]\.|\(\d+\)|\(?[a-z]\)|\d+\.)\s+/;
+const PAGE_LABEL_RE = /^(?:page\s+)?(?:\d+(?:-\d+)?|[ivxlc]+)$/i;
+const DOT_LEADER_RE = /\s*\.{4,}\s*/;
+const BOILERPLATE_RE = /intentionally left blank/i;
+/** Contents pages: a "Contents" title or the "Page" column heading of a section index */
+const CONTENTS_RE = /^(?:(?:table of )?contents|page)$/i;
+/** Admonition labels; the all-caps text that follows them is body text, not a heading */
+const ADMONITION_RE = /^(?:NOTE|WARNING|CAUTION|IMPORTANT)\b/;
+
+function fontCharCounts(pages: PageText[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const page of pages) for (const run of page.runs) counts.set(run.font, (counts.get(run.font) ?? 0) + run.text.length);
+  return counts;
+}
+
+/** Group runs into lines by baseline, top to bottom, splitting cells at wide gaps and dot leaders. */
+function buildLines(page: PageText, bodyFont: string): Line[] {
+  const runs = page.runs.filter((r) => r.text.trim()).sort((a, b) => b.y - a.y || a.x - b.x);
+  const rows: TextRun[][] = [];
+  for (const run of runs) {
+    const row = rows.find((r) => Math.abs(r[0].y - run.y) <= BASELINE_TOLERANCE);
+    if (row) row.push(run);
+    else rows.push([run]);
+  }
+  return rows.map((row) => {
+    row.sort((a, b) => a.x - b.x);
+    const cells: string[] = [];
+    let current = '';
+    let end = -Infinity;
+    let emphasized = '';
+    let leading = true;
+    for (const run of row) {
+      const text = run.text.replace(/\s+/g, ' ');
+      if (current && run.x - end > COLUMN_GAP) {
+        cells.push(current.trim());
+        current = '';
+      }
+      current += current && run.x - end > 1 && !current.endsWith(' ') ? ` ${text}` : text;
+      end = run.x + run.width;
+      if (leading && run.font !== bodyFont) emphasized += `${emphasized && !emphasized.endsWith(' ') ? ' ' : ''}${text}`;
+      else if (!LIST_MARKER_RE.test(`${text.trim()} `)) leading = false;
+    }
+    if (current.trim()) cells.push(current.trim());
+    const split = cells.flatMap((c) => c.split(DOT_LEADER_RE)).map((c) => c.trim()).filter(Boolean);
+    const leader = cells.some((c) => DOT_LEADER_RE.test(c));
+    return { page: page.page, y: row[0].y, text: split.join(' '), cells: split, emphasized: emphasized.trim(), leader };
+  });
+}
+
+function bandKey(text: string): string {
+  return text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+}
+
+/** "COLD WEATHER STARTING" → "Cold Weather Starting"; words with digits ("O-320", "50-HOUR") keep their digits. */
+export function titleCase(text: string): string {
+  const small = new Set(['a', 'an', 'and', 'as', 'at', 'by', 'for', 'in', 'of', 'on', 'or', 'the', 'to', 'with']);
+  return text
+    .trim()
+    .replace(/[.:–-]+$/, '')
+    .trim()
+    .split(/\s+/)
+    .map((word, i) => {
+      if (/[a-z]/.test(word)) return word;
+      const lower = word.toLowerCase();
+      if (i > 0 && small.has(lower)) return lower;
+      return lower.replace(/(^|[-/(])([a-z])/g, (_, sep: string, ch: string) => sep + ch.toUpperCase());
+    })
+    .join(' ');
+}
+
+function round(fraction: number): number {
+  return Math.round(fraction * 1000) / 1000;
+}
+
+function isAllCaps(text: string): boolean {
+  return /[A-Z]{2}/.test(text) && !/[a-z]/.test(text);
+}
+
+/** Value cells start with a number ("90", "13.556:1", ".028-.080", "500°F (260°C)") or are a dash placeholder */
+function isValueCell(cell: string): boolean {
+  return /^[±~<>+-]?\.?\d/.test(cell) || /^[-–—]{2,}$/.test(cell);
+}
+
+/**
+ * Structure tabular rows: leading rows without values are column headings (stacked heading rows of
+ * the same width are merged cell by cell, others become part of the title); short rows are padded.
+ */
+export function toTable(rows: string[][], label: string): Omit<KBTable, 'table' | 'page'> {
+  const clean = rows.map((row) => row.map((cell) => cell.replace(/^\*+\s*/, '').trim()));
+  let headerCount = clean.findIndex((row) => row.slice(1).some(isValueCell));
+  // No numeric cells at all (e.g. oil grades): headings end where row labels start carrying figures
+  if (headerCount < 0) headerCount = Math.max(0, clean.findIndex((row) => /\d/.test(row[0])));
+  const headers = clean.slice(0, headerCount);
+  const body = clean.slice(headerCount);
+  const width = Math.max(...body.map((row) => row.length), 0);
+
+  // One-cell heading rows name a model or group ("O-320-H"), not columns
+  const titleParts = [label, ...headers.filter((row) => row.length === 1).map((row) => row[0])];
+  const stacked = headers.filter((row) => row.length > 1);
+  let columns = stacked.pop();
+  for (const row of stacked.reverse()) {
+    if (columns && row.length === columns.length) columns = columns.map((cell, i) => `${row[i]} ${cell}`);
+    else titleParts.push(row.join(' '));
+  }
+  if (columns && columns.length < width) columns = [...Array(width - columns.length).fill(''), ...columns];
+  const title = titleParts
+    .filter(Boolean)
+    .join(' ')
+    .replace(/^\*+\s*/, '')
+    .replace(/\s*[–:-]+\s*$/, '')
+    .trim();
+  return {
+    ...(title ? { title } : {}),
+    ...(columns ? { columns } : {}),
+    rows: body.map((row) => (row.length < width ? [...row, ...Array(width - row.length).fill('')] : row)),
+  };
+}
+
+/** Turn page lines into a flat block stream (headings, captions, paragraphs, table rows). */
+function toBlocks(pages: PageText[]): Block[] {
+  const fonts = fontCharCounts(pages);
+  const bodyFont = [...fonts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? '';
+  const pageLines = pages.map((page) => ({ page, lines: buildLines(page, bodyFont) }));
+
+  // Running header/footer text repeats in the top/bottom band of many pages
+  const inBand = (line: Line, height: number) => line.y > height * HEADER_BAND || line.y < height * FOOTER_BAND;
+  const bandCounts = new Map<string, number>();
+  for (const { page, lines } of pageLines) {
+    for (const key of new Set(lines.filter((l) => inBand(l, page.height)).flatMap((l) => l.cells.map(bandKey)))) {
+      bandCounts.set(key, (bandCounts.get(key) ?? 0) + 1);
+    }
+  }
+  const minRepeats = Math.max(2, Math.ceil(pages.length * RUNNING_SHARE));
+  const isRunning = (cell: string) => (bandCounts.get(bandKey(cell)) ?? 0) >= minRepeats;
+  /** Table-of-contents rows end in a page label: "Cold Weather Starting ....... 3-5" */
+  const isContentsRow = (l: Line) => l.cells.length >= 2 && /^\d+-\d+[A-Z]?$/.test(l.cells[l.cells.length - 1]) && /[a-z]/i.test(l.cells[0]);
+
+  const blocks: Block[] = [];
+  for (const { page, lines } of pageLines) {
+    const body = lines.filter((l) => !inBand(l, page.height) && !BOILERPLATE_RE.test(l.text));
+    if (!body.length || lines.some((l) => CONTENTS_RE.test(l.text))) continue;
+    if (body.filter(isContentsRow).length >= Math.max(3, body.length / 2)) continue;
+
+    // The running header names the current section ("SECTION 3" … "OPERATING INSTRUCTIONS")
+    const header = lines.filter((l) => l.y > page.height * HEADER_BAND).flatMap((l) => l.cells);
+    const sectionCell = header.find((c) => SECTION_RE.test(c));
+    if (sectionCell) {
+      const [, section, inline] = sectionCell.match(SECTION_RE)!;
+      const titleCell = header.find((c) => c !== sectionCell && isAllCaps(c) && !isRunning(c));
+      blocks.push({ kind: 'section', page: page.page, section, title: titleCase(inline || titleCell || '') });
+    }
+
+    let tableRows: Line[] = [];
+    /** Short lines right above the current position, which may name a table */
+    let labels: string[] = [];
+    const flushRows = (rows: Line[]) => {
+      if (rows.length >= 2 || (rows.length && rows.every((row) => row.leader))) {
+        for (const row of rows) blocks.push({ kind: 'text', page: row.page, text: row.cells.join(' | '), paragraph: true });
+        // After its text, so the table lands in the same chunk even when the text starts a new one
+        blocks.push({ kind: 'rows', page: page.page, label: labels.join(' '), rows: rows.map((row) => row.cells) });
+        labels = [];
+      } else {
+        for (const row of rows) blocks.push({ kind: 'text', page: row.page, text: row.cells.join(' '), paragraph: false });
+      }
+    };
+    const flushTable = () => {
+      // A dot-leader list followed directly by a column table ("Firing order .... 1-3-2-4", then
+      // "Accessory Drive | Drive Ratio | …") is two tables
+      const split = tableRows.findIndex((row, i) => i >= 2 && row.leader !== tableRows[i - 1].leader);
+      if (split > 0) {
+        flushRows(tableRows.slice(0, split));
+        flushRows(tableRows.slice(split));
+      } else {
+        flushRows(tableRows);
+      }
+      tableRows = [];
+    };
+
+    let prevY: number | null = null;
+    let admonition = false;
+    for (const [i, line] of lines.entries()) {
+      if (inBand(line, page.height)) {
+        // Keep only body text that strayed into the margin, not header/footer cells or page labels
+        const cells = line.cells.filter((c) => !isRunning(c) && !PAGE_LABEL_RE.test(c) && c.split(' ').length > 6);
+        if (!cells.length) continue;
+        line.cells = cells;
+        line.text = cells.join(' ');
+      }
+      if (BOILERPLATE_RE.test(line.text)) continue;
+      const above = prevY;
+      const gap = prevY === null ? Infinity : prevY - line.y;
+      prevY = line.y;
+
+      // A short group label between table rows ("O-320-H") stays in the table
+      const groupLabel = tableRows.length > 0 && line.text.length <= 20 && (lines[i + 1]?.cells.length ?? 0) >= 2;
+      if (line.cells.length >= 2 || groupLabel) {
+        tableRows.push(line);
+        continue;
+      }
+      flushTable();
+
+      const text = line.text;
+      const sentence = /\.$/.test(text) && text.split(' ').length > 4;
+      const label = text.length <= MAX_TABLE_LABEL && !sentence && gap < 40;
+      labels = label ? [...labels.slice(-1), text] : [];
+      if (ADMONITION_RE.test(text) || (admonition && isAllCaps(text))) {
+        admonition = true;
+        blocks.push({ kind: 'text', page: page.page, text, paragraph: gap > 18 || ADMONITION_RE.test(text) });
+        continue;
+      }
+      admonition = false;
+      const section = text.match(SECTION_RE);
+      if (section && isAllCaps(text)) {
+        blocks.push({ kind: 'section', page: page.page, section: section[1], title: titleCase(section[2]) });
+        continue;
+      }
+      const figure = text.match(FIGURE_RE);
+      if (figure) {
+        // The drawing fills the space between the caption and the text above it (or the running header)
+        const top = Math.min(above ?? Infinity, page.height * HEADER_BAND) - 4;
+        const bottom = line.y + 12;
+        const region =
+          (top - bottom) / page.height >= MIN_FIGURE_HEIGHT
+            ? { page: page.page, x: 0.04, y: round(1 - top / page.height), width: 0.92, height: round((top - bottom) / page.height) }
+            : null;
+        blocks.push({ kind: 'figure', page: page.page, figure: figure[1].replace('–', '-'), title: titleCase(figure[2]), region });
+        continue;
+      }
+      const table = text.match(TABLE_RE);
+      if (table) {
+        blocks.push({ kind: 'table', page: page.page, table: table[1].replace('–', '-'), title: titleCase(table[2]) });
+        continue;
+      }
+      if (NUMBERED_HEADING_RE.test(text) || (line.emphasized === text && isAllCaps(text) && /^[A-Z]/.test(text) && text.length <= 80)) {
+        blocks.push({ kind: 'heading', page: page.page, level: 1, text: titleCase(text.replace(/^\d+(?:-\d+)?\.\s+/, '')) });
+        continue;
+      }
+      // Numbered heading with the first sentence run in: "2. 25-HOUR INSPECTION. After the first…"
+      const runIn = line.emphasized.replace(LIST_MARKER_RE, '');
+      if (line.emphasized && text.startsWith(line.emphasized) && runIn.length <= 60) {
+        const rest = text.slice(line.emphasized.length).trim();
+        if (/^\d+(?:-\d+)?\.\s/.test(line.emphasized) && isAllCaps(runIn)) {
+          blocks.push({ kind: 'heading', page: page.page, level: 1, text: titleCase(runIn) });
+          if (rest) blocks.push({ kind: 'text', page: page.page, text: rest, paragraph: true });
+          continue;
+        }
+        // Run-in subheading: "a. Ignition System –" / "Standard Dry Weight –"
+        if (/[–:-]$/.test(runIn) && /^[A-Z]/.test(runIn)) {
+          blocks.push({ kind: 'heading', page: page.page, level: 2, text: titleCase(runIn) });
+          if (rest) blocks.push({ kind: 'text', page: page.page, text: rest, paragraph: true });
+          continue;
+        }
+      }
+      // Wider than normal leading, or a list marker, starts a new paragraph
+      blocks.push({ kind: 'text', page: page.page, text, paragraph: gap > 18 || LIST_MARKER_RE.test(text) });
+    }
+    flushTable();
+  }
+  return blocks;
+}
+
+interface DraftChunk {
+  page: number;
+  section: string;
+  sectionTitle: string;
+  figure: string | null;
+  figureTitle: string | null;
+  figureRegion: FigureRegion | null;
+  table: string | null;
+  tables: KBTable[];
+  paragraphs: string[];
+}
+
+function appendText(draft: DraftChunk, text: string, paragraph: boolean): void {
+  const last = draft.paragraphs.length - 1;
+  if (paragraph || last < 0) {
+    draft.paragraphs.push(text);
+  } else if (/[a-z]-$/i.test(draft.paragraphs[last]) && /^[a-z]/.test(text)) {
+    // Word hyphenated across lines
+    draft.paragraphs[last] = draft.paragraphs[last].slice(0, -1) + text;
+  } else {
+    draft.paragraphs[last] += ` ${text}`;
+  }
+}
+
+function contentLength(draft: DraftChunk): number {
+  return draft.paragraphs.reduce((n, p) => n + p.length + 1, 0);
+}
+
+/** Taxonomy phrases by normalized form, longest first so "oil filter" is counted before "oil" */
+const TAXONOMY_PHRASES = COMPONENT_TAXONOMY.flatMap((entry) =>
+  [entry.displayName, ...entry.synonyms].map((phrase) => ({ entry, phrase: normalizeLabel(phrase) })),
+)
+  .filter((p) => p.phrase.length > 2)
+  .sort((a, b) => b.phrase.split(' ').length - a.phrase.split(' ').length || b.phrase.length - a.phrase.length);
+
+/** Occurrences of taxonomy phrases in the text; each word counts towards one phrase only. */
+function matchTaxonomy(text: string): Map<string, { entry: ComponentEntry; count: number }> {
+  let padded = ` ${normalizeLabel(text)} `;
+  const found = new Map<string, { entry: ComponentEntry; count: number }>();
+  for (const { entry, phrase } of TAXONOMY_PHRASES) {
+    const needle = ` ${phrase} `;
+    let count = 0;
+    while (padded.includes(needle)) {
+      padded = padded.replace(needle, ' | ');
+      count++;
+    }
+    if (count) found.set(phrase, { entry, count: (found.get(phrase)?.count ?? 0) + count });
+  }
+  return found;
+}
+
+/** Most-mentioned taxonomy component (title mentions weigh triple; the whole aircraft/engine only as a last resort). */
+function pickComponent(title: string, content: string): ComponentEntry | null {
+  const scores = new Map<ComponentEntry, number>();
+  for (const [weight, text] of [[3, title], [1, content]] as const) {
+    for (const { entry, count } of matchTaxonomy(text).values()) scores.set(entry, (scores.get(entry) ?? 0) + weight * count);
+  }
+  const ranked = [...scores.entries()].sort((a, b) => {
+    const generalA = !a[0].parent ? 1 : 0;
+    const generalB = !b[0].parent ? 1 : 0;
+    return generalA - generalB || b[1] - a[1];
+  });
+  return ranked[0]?.[0] ?? null;
+}
+
+/** Taxonomy phrases found in the chunk, then its most distinctive terms by TF-IDF across the manual. */
+function pickKeywords(title: string, content: string, docFreq: Map<string, number>, docCount: number): string[] {
+  const keywords: string[] = [];
+  const add = (k: string) => {
+    if (keywords.length < MAX_KEYWORDS && !keywords.some((existing) => existing === k || existing.split(' ').includes(k))) keywords.push(k);
+  };
+  const phrases = [...matchTaxonomy(`${title} ${content}`).entries()].sort((a, b) => b[1].count - a[1].count);
+  for (const [phrase] of phrases.slice(0, MAX_KEYWORDS - 3)) add(phrase);
+
+  // Count de-pluralized terms but list the word as written ("series", not "serie")
+  const tf = new Map<string, number>();
+  const surface = new Map<string, string>();
+  for (const word of `${title} ${title} ${content}`.toLowerCase().split(/[^a-z0-9]+/)) {
+    const [term] = tokenize(word);
+    if (!term || term.length < 4 || /^\d/.test(term)) continue;
+    tf.set(term, (tf.get(term) ?? 0) + 1);
+    const seen = surface.get(term);
+    if (!seen || word.length < seen.length) surface.set(term, word);
+  }
+  const ranked = [...tf.entries()]
+    .map(([term, n]) => ({ term, score: n * Math.log(docCount / (docFreq.get(term) ?? 1)) }))
+    .sort((a, b) => b.score - a.score || a.term.localeCompare(b.term));
+  for (const { term } of ranked) add(surface.get(term) ?? term);
+  return keywords;
+}
+
+/** Chunk a manual's extracted pages into KBChunks (ids `<manualId>-p<page>-<n>`). */
+export function ingestManual(pages: PageText[], options: IngestOptions): KBChunk[] {
+  const maxChars = options.maxChars ?? DEFAULT_MAX_CHARS;
+  const blocks = toBlocks(pages);
+
+  let section = '';
+  let sectionTitle = '';
+  let heading = '';
+  let subheading = '';
+  const drafts: DraftChunk[] = [];
+  let draft: DraftChunk | null = null;
+
+  /** Set when a section starts without a title; its first heading names it */
+  let untitled = false;
+  /** "Table 8-1. Table of Limits" caption waiting for the rows under it */
+  let caption: { table: string; title: string } | null = null;
+
+  // "Trouble-Shooting" + "Trouble-Shooting – Engine" → "Trouble-Shooting – Engine"
+  const titleParts = () =>
+    [sectionTitle, heading, subheading]
+      .flatMap((part) => part.split(' – '))
+      .filter((part, i, parts) => part && parts.indexOf(part) === i);
+  const start = (page: number) => {
+    draft = {
+      page,
+      section,
+      sectionTitle: titleParts().join(' – '),
+      figure: null,
+      figureTitle: null,
+      figureRegion: null,
+      table: null,
+      tables: [],
+      paragraphs: [],
+    };
+    drafts.push(draft);
+    return draft;
+  };
+
+  for (const block of blocks) {
+    switch (block.kind) {
+      case 'section':
+        // Running headers repeat the section on every page; keep the title it was first given
+        if (block.section === section && (sectionTitle || !block.title)) break;
+        section = block.section;
+        sectionTitle = block.title;
+        untitled = !block.title;
+        heading = subheading = '';
+        caption = null;
+        draft = null;
+        break;
+      case 'heading':
+        if (block.level === 1) {
+          if (untitled) {
+            sectionTitle = block.text;
+            untitled = false;
+            draft = null;
+            break;
+          }
+          if (block.text === sectionTitle) break;
+          heading = block.text;
+          subheading = '';
+        } else {
+          subheading = block.text;
+        }
+        caption = null;
+        draft = null;
+        break;
+      case 'figure': {
+        const d: DraftChunk = draft ?? start(block.page);
+        if (!d.figure) {
+          d.figure = block.figure;
+          d.figureTitle = block.title || null;
+          d.figureRegion = block.region;
+        }
+        appendText(d, `Figure ${block.figure}. ${block.title}`.trim(), true);
+        break;
+      }
+      case 'table': {
+        const d: DraftChunk = draft ?? start(block.page);
+        if (!d.table) d.table = block.table;
+        appendText(d, `Table ${block.table}. ${block.title}`.trim(), true);
+        caption = { table: block.table, title: block.title };
+        break;
+      }
+      case 'rows': {
+        const d: DraftChunk = draft ?? start(block.page);
+        const table = toTable(block.rows, caption?.title || block.label);
+        d.tables.push({
+          ...(caption ? { table: caption.table } : {}),
+          ...table,
+          ...(block.page !== d.page ? { page: block.page } : {}),
+        });
+        caption = null;
+        break;
+      }
+      case 'text': {
+        let d: DraftChunk = draft ?? start(block.page);
+        if (block.paragraph && contentLength(d) > maxChars) d = start(block.page);
+        appendText(d, block.text, block.paragraph);
+        break;
+      }
+    }
+  }
+
+  const kept = drafts.filter((d) => d.paragraphs.join(' ').trim().length > 0);
+  const contents = kept.map((d) => d.paragraphs.join('\n'));
+  const docFreq = new Map<string, number>();
+  for (const [i, d] of kept.entries()) {
+    for (const term of new Set(tokenize(`${d.sectionTitle} ${contents[i]}`))) docFreq.set(term, (docFreq.get(term) ?? 0) + 1);
+  }
+
+  // Chunks that name no component fall back to --component, else the system most of the manual is about
+  const picked = kept.map((d, i) => pickComponent(d.sectionTitle, contents[i]));
+  const frequency = new Map<ComponentEntry, number>();
+  for (const entry of picked) {
+    const root = entry && getRootComponent(entry.id);
+    if (root) frequency.set(root, (frequency.get(root) ?? 0) + 1);
+  }
+  const fallback = getComponent(options.defaultComponent) ?? [...frequency.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+
+  const perPage = new Map<number, number>();
+  return kept.map((d, i) => {
+    const content = contents[i];
+    const n = (perPage.get(d.page) ?? 0) + 1;
+    perPage.set(d.page, n);
+    const component = picked[i] ?? fallback;
+    const ata =
+      findAtaReference(`${d.sectionTitle} ${content}`) ??
+      component?.ata ??
+      (options.defaultAta ? normalizeAtaCode(options.defaultAta) : null);
+    return {
+      id: `${options.manualId}-p${d.page}-${n}`,
+      component: component?.id ?? options.defaultComponent ?? options.manualId,
+      ...(ata ? { ata } : {}),
+      keywords: pickKeywords(d.sectionTitle, content, docFreq, kept.length),
+      section: d.section,
+      sectionTitle: d.sectionTitle,
+      page: d.page,
+      ...(options.revision ? { revision: options.revision } : {}),
+      figure: d.figure,
+      figureTitle: d.figureTitle,
+      content,
+      ...(d.table ? { table: d.table } : {}),
+      ...(d.tables.length ? { tables: d.tables } : {}),
+      ...(d.figureRegion ? { figureRegion: d.figureRegion } : {}),
+      manual: options.manualId,
+    };
+  });
+}
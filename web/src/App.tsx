@@ -1,17 +1,44 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { getCameraStream, getVideoDevices, getCameraErrorMessage, captureFrameToJpeg, captureFrameToJpegForDetection } from './lib/camera';
+import { getCameraStream, getVideoDevices, getCameraErrorMessage, captureFrameToJpeg, captureFrameToJpegForDetection, captureGrayFrame } from './lib/camera';
 import { detectItemsInImage, type DetectedItem } from './lib/detection';
-import { mergeWithPrevious, stepDisplayedTowardTarget } from './lib/tracking';
+import {
+  AUTO_PROVIDER,
+  getActiveDetectionProvider,
+  getAeroDetectUrl,
+  getDetectionApiKey,
+  getProviderSelection,
+  getProviderStats,
+  listDetectionProviders,
+  setProviderSelection,
+  subscribeDetectionProviders,
+} from './lib/detectionProviders';
+import { applyMotion, coastTracks, getVisibleTracks, mergeWithPrevious, resetTrackIds, stepDisplayedTowardTarget, type TrackedItem } from './lib/tracking';
+import { MotionEstimator } from './lib/motion';
+import { getDetectionCacheStats, hasCachedDetections, hashVideoFrame } from './lib/detectionCache';
+import { SessionRecorder, downloadSessionRecording, parseSessionRecording, type SessionRecording } from './lib/sessionRecording';
 import { type ItemDetails } from './lib/itemDetails';
 import { fetchItemDetailsFromGemini } from './lib/itemDetailsApi';
-import { askGeminiAboutProduct, FLIGHTSIGHT_HELP_MESSAGE, isHelpIntent } from './lib/voiceQuestion';
+import { askGeminiAboutProduct } from './lib/voiceQuestion';
+import { describeCitations, type VerifiedText } from './lib/citations';
+import { selectAircraft, subscribeKnowledgeBase, type ManualRef } from './lib/knowledgeBase';
 import { speak, isElevenLabsConfigured, unlockAudio } from './lib/elevenlabs';
 import { getVideoNormFromClick, findItemAtPoint } from './lib/hitTest';
 import { getOverlaySnippet } from './lib/overlayRelevance';
+import { getUnmappedLabels } from './lib/taxonomy';
+import { recordDetectedComponents, recordTaskCardChange, registerProfileAircraft, subscribeAircraftRegistry } from './lib/aircraftRegistry';
 import { fetchOverlayRelevance } from './lib/overlayRelevanceApi';
 import type { PersonProfile } from './lib/rag';
-import { PRESET_PROFILES } from './lib/rag';
-import { env, isAeroDetectConfigured, isDedalusApiKey } from './lib/env';
+import { PRESET_PROFILES, loadPinnedRefs, togglePinnedRef, withImportedWork } from './lib/rag';
+import { getCurrentStepIndex, loadTaskCard, recordStepDetections, resolveStepRefs, saveTaskCardProgress, type TaskCard } from './lib/taskCard';
+import {
+  handleProcedureCommand,
+  parseProcedureCommand,
+  procedurePrompt,
+  startProcedure,
+  type ProcedureCommand,
+  type ProcedureState,
+} from './lib/procedureRunner';
+import { env, isDedalusApiKey } from './lib/env';
 import { isDedalusBackoff, DEDALUS_BACKOFF_MS, setDedalus429 } from './lib/dedalusRateLimit';
 import { OverlayCanvas } from './components/OverlayCanvas';
 import { ItemDetailPanel } from './components/ItemDetailPanel';
@@ -19,11 +46,17 @@ import { VoiceAnswerPopup } from './components/VoiceAnswerPopup';
 import { ProfilesPanel } from './components/ProfilesPanel';
 import { HealthActionPanel } from './components/HealthActionPanel';
 import { CopilotNotification } from './components/CopilotNotification';
+import { ReplayViewer } from './components/ReplayViewer';
+import { ManualViewerPanel } from './components/ManualViewerPanel';
+import { ManualBrowserPanel } from './components/ManualBrowserPanel';
+import { TaskCardPanel } from './components/TaskCardPanel';
+import { TaskCardScanPanel } from './components/TaskCardScanPanel';
+import { AircraftPanel } from './components/AircraftPanel';
+import { ProcedureBanner } from './components/ProcedureBanner';
+import { DetectionSettingsForm } from './components/DetectionSettingsForm';
 
-// Detection frequency: keep Dedalus under RPM limit (429); Google free tier strict; AeroDetect local.
-const DETECTION_INTERVAL_DEDALUS_MS = 4500; // ~13/min to leave headroom for overlay + details
-const DETECTION_INTERVAL_GEMINI_MS = 10000;
-const DETECTION_INTERVAL_AERODETECT_MS = 1500;
+/** Visited manual references kept for the viewer's Back button */
+const MANUAL_HISTORY_LIMIT = 20;
 
 export default function App() {
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -36,38 +69,83 @@ export default function App() {
   const [metaGlassesConnected, setMetaGlassesConnected] = useState(false);
   const [raybanVideoUrl, setRaybanVideoUrl] = useState<string | null>(null);
   const raybanVideoUrlRef = useRef<string | null>(null);
-  const [currentProfile, setCurrentProfile] = useState<PersonProfile | null>(() => PRESET_PROFILES[0] ?? null);
+  const [currentProfile, setCurrentProfile] = useState<PersonProfile | null>(() => (PRESET_PROFILES[0] ? withImportedWork(PRESET_PROFILES[0]) : null));
   const [showProfiles, setShowProfiles] = useState(false);
   const [notification, setNotification] = useState('');
   const [detectedItems, setDetectedItems] = useState<DetectedItem[]>([]);
-  const [displayedItems, setDisplayedItems] = useState<DetectedItem[]>([]);
-  const targetItemsRef = useRef<DetectedItem[]>([]);
-  const [focusedItem, setFocusedItem] = useState<string | null>(null);
+  // All tracks (incl. tentative); only confirmed tracks are drawn and selectable
+  const [tracks, setTracks] = useState<TrackedItem[]>([]);
+  const displayedItems = useMemo(() => getVisibleTracks(tracks), [tracks]);
+  const [focusedTrackId, setFocusedTrackId] = useState<string | null>(null);
+  const focusedItem = displayedItems.find((t) => t.trackId === focusedTrackId)?.label ?? null;
   const [itemDetails, setItemDetails] = useState<ItemDetails | null>(null);
   const [detailsLoading, setDetailsLoading] = useState(false);
-  const [voicePopup, setVoicePopup] = useState<{ question: string; answer: string; productName: string } | null>(null);
+  const [voicePopup, setVoicePopup] = useState<{ question: string; answer: VerifiedText; productName: string } | null>(null);
   const [voiceListening, setVoiceListening] = useState(false);
   const [voiceLoading, setVoiceLoading] = useState(false);
   const [overlayRelevanceMap, setOverlayRelevanceMap] = useState<Record<string, string>>({});
   // Flightsight voice assistant: "Flightsight" / "Hey Flightsight" → ask specialized questions → ElevenLabs speaks
   const [flightsightActive, setFlightsightActive] = useState(false);
-  const [flightsightPhase, setFlightsightPhase] = useState<'wake' | 'command' | 'speaking'>('wake');
+  const [flightsightPhase, setFlightsightPhase] = useState<'wake' | 'command' | 'speaking' | 'procedure'>('wake');
   const flightsightRecognitionRef = useRef<SpeechRecognition | null>(null);
+  // Session recording (frames + detections + tracks) for offline replay
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [replayRecording, setReplayRecording] = useState<SessionRecording | null>(null);
+  // In-app manual viewer: visited references (last = shown); closing keeps them for Back
+  const [manualHistory, setManualHistory] = useState<ManualRef[]>([]);
+  const [manualViewerOpen, setManualViewerOpen] = useState(false);
+  const [showManualBrowser, setShowManualBrowser] = useState(false);
+  /** Manual pages pinned to the current profile's task */
+  const [pinnedRefs, setPinnedRefs] = useState<ManualRef[]>([]);
+  /** Current profile's task card with its sign-offs */
+  const [taskCard, setTaskCard] = useState<TaskCard | null>(null);
+  const [showTaskCard, setShowTaskCard] = useState(false);
+  /** Frame of a paper task card being read (base64 JPEG); null when not scanning */
+  const [scanImage, setScanImage] = useState<string | null>(null);
+  const taskCardRef = useRef<TaskCard | null>(null);
+  taskCardRef.current = taskCard;
+  const [showAircraft, setShowAircraft] = useState(false);
+  // Aircraft registry: re-render on history changes so the overlay's "Last inspected" stays current
+  const [aircraftRegistryVersion, setAircraftRegistryVersion] = useState(0);
+  useEffect(() => subscribeAircraftRegistry(() => setAircraftRegistryVersion((v) => v + 1)), []);
+  // Guided procedure over the task card on the Flightsight voice channel; null when not running
+  const [procedure, setProcedure] = useState<ProcedureState | null>(null);
+  const [procedureMessage, setProcedureMessage] = useState('');
+  const procedureRef = useRef<ProcedureState | null>(null);
+  procedureRef.current = procedure;
 
   const detectionTimerRef = useRef<number>(0);
-  const displayedItemsRef = useRef<DetectedItem[]>([]);
+  /** Optical-flow estimator of the smooth-follow loop; detection rounds mark its in-flight shifts stale */
+  const motionRef = useRef<MotionEstimator | null>(null);
+  const displayedItemsRef = useRef<TrackedItem[]>([]);
+  const tracksRef = useRef<TrackedItem[]>([]);
+  tracksRef.current = tracks;
   const lastAutoSelectedSingleRef = useRef<string | null>(null);
   displayedItemsRef.current = displayedItems;
 
   const hasActiveVideo = Boolean(stream || (cameraSource === 'rayban' && raybanVideoUrl));
 
+  // Task card step to work on (the guided procedure's, while it runs); its component is highlighted in the overlay
+  const currentStep = useMemo(() => {
+    const index = procedure ? procedure.stepIndex : taskCard ? getCurrentStepIndex(taskCard) : -1;
+    return taskCard && index >= 0 ? { step: taskCard.steps[index], number: index + 1 } : null;
+  }, [taskCard, procedure]);
+
   const overlaySnippets = useMemo(() => {
     const out: Record<string, ReturnType<typeof getOverlaySnippet>> = {};
     for (const item of displayedItems) {
-      out[item.label] = getOverlaySnippet(item.label, currentProfile, overlayRelevanceMap[item.label]);
+      out[item.trackId] = getOverlaySnippet(item.label, currentProfile, overlayRelevanceMap[item.label], currentStep);
     }
     return out;
-  }, [displayedItems, currentProfile, overlayRelevanceMap]);
+  }, [displayedItems, currentProfile, overlayRelevanceMap, currentStep, aircraftRegistryVersion]);
+
+  // Manual citations must match the aircraft being worked on: reload the KB for its type/model/serial
+  const aircraftType = currentProfile?.workContext?.aircraftType;
+  const aircraftSerial = currentProfile?.workContext?.aircraftSerial;
+  useEffect(() => {
+    selectAircraft({ aircraftType, aircraftSerial });
+  }, [aircraftType, aircraftSerial]);
 
   useEffect(() => {
     if (!currentProfile) {
@@ -145,7 +223,103 @@ export default function App() {
     }
   }, [stream, raybanVideoUrl, hasActiveVideo]);
 
+  const finishRecording = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorderRef.current = null;
+    setIsRecording(false);
+    downloadSessionRecording(recorder.stop());
+  }, []);
+
+  const openManualRef = useCallback((ref: ManualRef) => {
+    setManualHistory((history) => {
+      const last = history[history.length - 1];
+      if (last && last.pdfUrl === ref.pdfUrl && last.chunkId === ref.chunkId) return history;
+      return [...history, ref].slice(-MANUAL_HISTORY_LIMIT);
+    });
+    setManualViewerOpen(true);
+  }, []);
+
+  const closeManualViewer = useCallback(() => setManualViewerOpen(false), []);
+
+  useEffect(() => {
+    setPinnedRefs(currentProfile ? loadPinnedRefs(currentProfile.id) : []);
+    setTaskCard(loadTaskCard(currentProfile));
+    if (currentProfile) registerProfileAircraft(currentProfile);
+  }, [currentProfile]);
+
+  // Step refs cite KB chunks: resolve them again once the KB (re)loads
+  useEffect(() => subscribeKnowledgeBase(() => setTaskCard((card) => (card ? resolveStepRefs(card) : card))), []);
+
+  // Sign-offs and closed cards go into the aircraft's maintenance history
+  const aircraftTailNumber = currentProfile?.workContext?.aircraftTailNumber;
+  const updateTaskCard = useCallback(
+    (card: TaskCard) => {
+      recordTaskCardChange(aircraftTailNumber, taskCardRef.current, card);
+      taskCardRef.current = card;
+      setTaskCard(card);
+      saveTaskCardProgress(card);
+    },
+    [aircraftTailNumber]
+  );
+
+  // Components in view are logged on the aircraft being worked on
+  useEffect(() => {
+    recordDetectedComponents(aircraftTailNumber, detectedItems.map((item) => item.label));
+  }, [detectedItems]);
+
+  // Detections verify the current step, and complete locate/access steps
+  useEffect(() => {
+    if (!taskCard || detectedItems.length === 0) return;
+    const next = recordStepDetections(taskCard, detectedItems.map((item) => item.label), Date.now());
+    if (next === taskCard) return;
+    updateTaskCard(next);
+    const index = getCurrentStepIndex(taskCard);
+    const advanced = getCurrentStepIndex(next) !== index;
+    // A guided procedure waiting on this step moves on by itself (not while it is speaking)
+    if (advanced && procedureRef.current?.stepIndex === index && flightsightRecognitionRef.current) {
+      applyProcedureCommandRef.current('next');
+      return;
+    }
+    setNotification(`Step ${index + 1} ${advanced ? 'done' : 'verified'}: ${taskCard.steps[index].component} in view`);
+  }, [detectedItems]);
+
+  const togglePin = useCallback(
+    (ref: ManualRef) => {
+      if (currentProfile) setPinnedRefs(togglePinnedRef(currentProfile.id, ref));
+    },
+    [currentProfile],
+  );
+
+  // Full resolution and higher quality than detection frames: the card's small print has to stay legible
+  const captureTaskCard = useCallback(() => {
+    const frame = videoRef.current ? captureFrameToJpeg(videoRef.current, 0.85) : null;
+    if (frame) setScanImage(frame);
+    else setNotification('No camera frame yet: point the camera at the task card and try again');
+  }, []);
+
+  // A recording starts from a fresh tracker so replays (which start at t1) are deterministic
+  const startRecording = useCallback(() => {
+    setTracks([]);
+    resetTrackIds();
+    setFocusedTrackId(null);
+    recorderRef.current = new SessionRecorder(performance.now());
+    setIsRecording(true);
+  }, []);
+
+  const handleRecordingUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    file
+      .text()
+      .then((text) => setReplayRecording(parseSessionRecording(text)))
+      .catch((err) => setError(err instanceof Error ? err.message : 'Could not load recording'));
+  }, []);
+
   const stopCamera = useCallback(() => {
+    finishRecording();
     stream?.getTracks().forEach((t) => t.stop());
     setStream(null);
     if (raybanVideoUrlRef.current) {
@@ -154,14 +328,38 @@ export default function App() {
     }
     setRaybanVideoUrl(null);
     setDetectedItems([]);
-    setDisplayedItems([]);
-    targetItemsRef.current = [];
-    setFocusedItem(null);
+    setTracks([]);
+    resetTrackIds();
+    setFocusedTrackId(null);
     setItemDetails(null);
-  }, [stream]);
+  }, [stream, finishRecording]);
 
-  // Run detection when we have an active video and AeroDetect/Gemini
-  const detectionActive = Boolean(hasActiveVideo && (isAeroDetectConfigured() || env.geminiApiKey));
+  // Detection provider registry: re-render on selection/stats changes so the panel shows the live backend
+  const [providerSelection, setProviderSelectionState] = useState(() => getProviderSelection());
+  const [detectionApiKey, setDetectionApiKey] = useState(() => getDetectionApiKey());
+  const [aeroDetectUrl, setAeroDetectUrl] = useState(() => getAeroDetectUrl());
+  const [, setProviderStatsVersion] = useState(0);
+  useEffect(
+    () =>
+      subscribeDetectionProviders(() => {
+        setProviderSelectionState(getProviderSelection());
+        setDetectionApiKey(getDetectionApiKey());
+        setAeroDetectUrl(getAeroDetectUrl());
+        setProviderStatsVersion((v) => v + 1);
+      }),
+    []
+  );
+  const [showDetectionSettings, setShowDetectionSettings] = useState(false);
+  const availableProviders = listDetectionProviders().filter((p) => p.isAvailable(detectionApiKey));
+  const activeProvider = getActiveDetectionProvider(detectionApiKey);
+  // Failover to a provider with another cadence restarts the interval below, like a settings change
+  const detectionIntervalMs = activeProvider?.intervalMs ?? 10000;
+  const activeProviderStats = activeProvider ? getProviderStats(activeProvider.id) : null;
+  const cacheStats = getDetectionCacheStats();
+  const unmappedLabels = getUnmappedLabels();
+
+  // Run detection when we have an active video and at least one available provider
+  const detectionActive = Boolean(hasActiveVideo && availableProviders.length > 0);
   const [detectionError, setDetectionError] = useState<string | null>(null);
   useEffect(() => {
     if (!detectionActive) return;
@@ -169,55 +367,93 @@ export default function App() {
     if (!video) return;
     setDetectionError(null);
     const runDetection = async () => {
-      if (!isAeroDetectConfigured() && isDedalusBackoff(DEDALUS_BACKOFF_MS)) {
-        return; // skip while in 429 backoff
+      const provider = getActiveDetectionProvider(getDetectionApiKey());
+      if (!provider) return;
+      // Remote providers: hash the view so a stationary camera reuses the last result (no API call)
+      const frameHash = provider.local ? null : hashVideoFrame(video);
+      if (!provider.local && isDedalusBackoff(DEDALUS_BACKOFF_MS) && !(frameHash && hasCachedDetections(frameHash, provider.id))) {
+        return; // skip while in 429 backoff unless the cache can answer
       }
-      const jpeg = isAeroDetectConfigured()
+      const jpeg = provider.local
         ? captureFrameToJpeg(video)
         : captureFrameToJpegForDetection(video, 640, 0.4);
       if (!jpeg) return;
       try {
-        const items = await detectItemsInImage(jpeg, env.geminiApiKey);
+        const items = await detectItemsInImage(jpeg, getDetectionApiKey(), frameHash);
         setDetectedItems(items);
-        targetItemsRef.current = items;
-        setDisplayedItems((prev) => mergeWithPrevious(prev, items));
+        const now = performance.now();
+        motionRef.current?.invalidateBefore(now);
+        const recorder = recorderRef.current;
+        const recorded = recorder?.recordDetection(video, items, provider.id, now) ?? null;
+        setTracks((prev) => {
+          const next = mergeWithPrevious(prev, items, now);
+          if (recorder && recorded) recorder.setDetectionTracks(recorded, next);
+          return next;
+        });
       } catch (e) {
         setDetectedItems([]);
-        targetItemsRef.current = [];
-        setDisplayedItems([]);
         const msg = e instanceof Error ? e.message : 'Detection failed';
+        const now = performance.now();
+        motionRef.current?.invalidateBefore(now);
+        // Recorded as a failed round so a replay coasts the tracks at the same tick
+        const recorder = recorderRef.current;
+        const recorded = recorder?.recordDetection(video, [], provider.id, now, msg) ?? null;
+        // Failed tick counts as one miss: confirmed tracks coast instead of vanishing on every error
+        setTracks((prev) => {
+          const next = coastTracks(prev, now);
+          if (recorder && recorded) recorder.setDetectionTracks(recorded, next);
+          return next;
+        });
         setDetectionError(msg.includes('429') ? 'Dedalus rate limit (429). Pausing 45s.' : msg);
         if (msg.includes('429') || msg.includes('rate limit') || msg.includes('Too Many')) {
           setDedalus429();
         }
       }
     };
-    const intervalMs = isAeroDetectConfigured()
-      ? DETECTION_INTERVAL_AERODETECT_MS
-      : isDedalusApiKey(env.geminiApiKey)
-        ? DETECTION_INTERVAL_DEDALUS_MS
-        : DETECTION_INTERVAL_GEMINI_MS;
     runDetection();
-    detectionTimerRef.current = window.setInterval(runDetection, intervalMs) as unknown as number;
+    detectionTimerRef.current = window.setInterval(runDetection, detectionIntervalMs) as unknown as number;
     return () => {
       if (detectionTimerRef.current) clearInterval(detectionTimerRef.current);
     };
-  }, [detectionActive, hasActiveVideo]);
+  }, [detectionActive, hasActiveVideo, providerSelection, detectionApiKey, aeroDetectUrl, detectionIntervalMs]);
 
-  // Smooth follow: every frame lerp displayed boxes toward latest detection
+  // Smooth follow: every frame ease displayed boxes toward each track's motion prediction,
+  // and shift them by optical flow (Web Worker) so boxes follow head movement between detections
   useEffect(() => {
     if (!detectionActive) return;
+    const motion = new MotionEstimator();
+    motionRef.current = motion;
     let rafId: number;
-    const tick = () => {
-      setDisplayedItems((prev) => stepDisplayedTowardTarget(prev, targetItemsRef.current));
+    const tick = (now: number) => {
+      setTracks((prev) => (prev.length ? stepDisplayedTowardTarget(prev, now) : prev));
+      const video = videoRef.current;
+      const current = tracksRef.current;
+      if (video) recorderRef.current?.recordFrame(video, now);
+      if (video && motion.available && !motion.pending && current.length > 0) {
+        const frame = captureGrayFrame(video);
+        if (frame) {
+          motion
+            .estimate(frame, current.map((t) => ({ id: t.trackId, bbox: t.bbox })), now)
+            .then((result) => {
+              if (!result) return;
+              recorderRef.current?.recordMotion(result.shifts, performance.now());
+              setTracks((prev) => applyMotion(prev, result.shifts));
+            });
+        }
+      }
       rafId = requestAnimationFrame(tick);
     };
     rafId = requestAnimationFrame(tick);
-    return () => cancelAnimationFrame(rafId);
+    return () => {
+      cancelAnimationFrame(rafId);
+      motion.dispose();
+      motionRef.current = null;
+    };
   }, [detectionActive]);
 
-  const showItemDetails = useCallback((label: string, imageBase64?: string) => {
-    setFocusedItem(label);
+  const showItemDetails = useCallback((item: TrackedItem, imageBase64?: string) => {
+    const { label } = item;
+    setFocusedTrackId(item.trackId);
     setItemDetails({ name: label });
     setDetailsLoading(true);
     fetchItemDetailsFromGemini(label, currentProfile, imageBase64)
@@ -242,12 +478,12 @@ export default function App() {
         lastAutoSelectedSingleRef.current = null;
         return;
       }
-      const label = items[0].label;
-      if (lastAutoSelectedSingleRef.current === label) return;
-      lastAutoSelectedSingleRef.current = label;
+      const { trackId } = items[0];
+      if (lastAutoSelectedSingleRef.current === trackId) return;
+      lastAutoSelectedSingleRef.current = trackId;
       const video = videoRef.current;
       const snapshot = video ? captureFrameToJpeg(video, 0.65) : undefined;
-      showItemDetailsRef.current(label, snapshot ?? undefined);
+      showItemDetailsRef.current(items[0], snapshot ?? undefined);
     }, AUTO_SINGLE_INTERVAL_MS);
     return () => clearInterval(id);
   }, [detectionActive]);
@@ -261,7 +497,7 @@ export default function App() {
       const item = findItemAtPoint(displayedItems, norm.x, norm.y);
       if (item) {
         const snapshot = captureFrameToJpeg(video, 0.65);
-        showItemDetails(item.label, snapshot ?? undefined);
+        showItemDetails(item, snapshot ?? undefined);
       }
     },
     [displayedItems, showItemDetails]
@@ -307,7 +543,10 @@ export default function App() {
       setFlightsightPhase('speaking');
       const { componentContext, profile } = flightsightContextRef.current;
       askGeminiAboutProduct(transcript, componentContext, profile)
-        .then((answer) => speak(answer))
+        .then((answer) => {
+          if (answer.unsupported.length) setNotification(`Removed unverified page references: ${describeCitations(answer.unsupported)}`);
+          return speak(answer.text);
+        })
         .catch((err) => {
           const msg = err instanceof Error ? err.message : 'Something went wrong. Try again.';
           setNotification(msg);
@@ -339,6 +578,11 @@ export default function App() {
 
   const startFlightsightWakeListeningRef = useRef<() => void>(() => {});
   const startFlightsightWakeListening = useCallback(() => {
+    // During a guided procedure the channel listens for step commands (and still the wake word)
+    if (procedureRef.current) {
+      startProcedureListeningRef.current();
+      return;
+    }
     const SpeechRecognitionAPI =
       (typeof window !== 'undefined' && (window.SpeechRecognition || window.webkitSpeechRecognition)) || null;
     if (!SpeechRecognitionAPI) return;
@@ -378,6 +622,113 @@ export default function App() {
   }, [stopFlightsightRecognition, startFlightsightCommandListening]);
   startFlightsightWakeListeningRef.current = startFlightsightWakeListening;
 
+  /** Speak, then listen again: for step commands while the procedure runs, else for the wake word. */
+  const speakThenListen = useCallback((text: string) => {
+    setFlightsightPhase('speaking');
+    speak(text)
+      .catch((e) => setNotification('Voice: ' + (e instanceof Error ? e.message : 'Playback failed.')))
+      .finally(() => {
+        if (!procedureRef.current) setFlightsightPhase('wake');
+        startFlightsightWakeListeningRef.current?.();
+      });
+  }, []);
+
+  const applyProcedureCommandRef = useRef<(command: ProcedureCommand) => void>(() => {});
+  const applyProcedureCommand = useCallback(
+    (command: ProcedureCommand) => {
+      const state = procedureRef.current;
+      const card = taskCardRef.current;
+      const profile = flightsightContextRef.current.profile;
+      if (!state || !card || !profile) return;
+      const result = handleProcedureCommand(state, card, profile, command);
+      if (result.card !== card) updateTaskCard(result.card);
+      const next = result.state.finished ? null : result.state;
+      procedureRef.current = next;
+      setProcedure(next);
+      setProcedureMessage(result.say);
+      if (!next) setNotification(result.say);
+      stopFlightsightRecognition();
+      speakThenListen(result.say);
+    },
+    [updateTaskCard, stopFlightsightRecognition, speakThenListen],
+  );
+  applyProcedureCommandRef.current = applyProcedureCommand;
+
+  const startProcedureListeningRef = useRef<() => void>(() => {});
+  const startProcedureListening = useCallback(() => {
+    const SpeechRecognitionAPI =
+      (typeof window !== 'undefined' && (window.SpeechRecognition || window.webkitSpeechRecognition)) || null;
+    if (!SpeechRecognitionAPI) return;
+    stopFlightsightRecognition();
+    const rec = new SpeechRecognitionAPI();
+    flightsightRecognitionRef.current = rec;
+    rec.continuous = true;
+    rec.interimResults = true;
+    rec.lang = 'en-US';
+    setFlightsightPhase('procedure');
+    rec.onresult = (event: SpeechRecognitionEvent) => {
+      const results = event.results;
+      if (!results?.length) return;
+      const last = results[results.length - 1];
+      if (!last.isFinal) return;
+      const transcript = (last[0]?.transcript ?? '').trim();
+      if (/flightsight/i.test(transcript)) {
+        // A question mid-procedure: answer it, then come back to the step (see startFlightsightWakeListening)
+        stopFlightsightRecognition();
+        setFlightsightPhase('speaking');
+        speak('What would you like to know?')
+          .then(() => {
+            setFlightsightPhase('command');
+            startFlightsightCommandListening();
+          })
+          .catch(() => startProcedureListeningRef.current());
+        return;
+      }
+      const command = parseProcedureCommand(transcript);
+      if (command) applyProcedureCommandRef.current(command);
+    };
+    rec.onerror = (event: Event & { error?: string }) => {
+      const err = (event as { error?: string }).error;
+      if (err === 'not-allowed' || err === 'audio-capture') {
+        flightsightRecognitionRef.current = null;
+        setNotification('Microphone not available: guided procedure paused. Say commands after re-enabling the mic.');
+      }
+    };
+    rec.onend = () => {
+      // Recognition stops after a long silence: keep listening while the procedure runs
+      if (flightsightRecognitionRef.current !== rec) return;
+      flightsightRecognitionRef.current = null;
+      if (procedureRef.current) startProcedureListeningRef.current();
+    };
+    try {
+      rec.start();
+    } catch (_) {}
+  }, [stopFlightsightRecognition, startFlightsightCommandListening]);
+  startProcedureListeningRef.current = startProcedureListening;
+
+  const startGuidedProcedure = useCallback(() => {
+    const card = taskCardRef.current;
+    if (!card || !currentProfile) return;
+    unlockAudio();
+    if (typeof window === 'undefined' || !(window.SpeechRecognition || window.webkitSpeechRecognition)) {
+      setNotification('Voice not supported. Use Chrome, Edge, or Safari.');
+      return;
+    }
+    const state = startProcedure(card, currentProfile);
+    if (state.finished) {
+      setNotification(procedurePrompt(state, card));
+      return;
+    }
+    procedureRef.current = state;
+    setProcedure(state);
+    setShowTaskCard(false);
+    setFlightsightActive(true);
+    stopFlightsightRecognition();
+    const say = procedurePrompt(state, card);
+    setProcedureMessage('');
+    speakThenListen(say);
+  }, [currentProfile, stopFlightsightRecognition, speakThenListen]);
+
   const startFlightsight = useCallback(() => {
     unlockAudio();
     if (!env.dedalusVoiceApiKey) {
@@ -393,6 +744,8 @@ export default function App() {
   }, [startFlightsightWakeListening]);
 
   const stopFlightsight = useCallback(() => {
+    procedureRef.current = null;
+    setProcedure(null);
     stopFlightsightRecognition();
     setFlightsightActive(false);
     setFlightsightPhase('wake');
@@ -404,6 +757,11 @@ export default function App() {
     return () => stopFlightsightRecognition();
   }, [flightsightActive, stopFlightsightRecognition]);
 
+  // A guided procedure belongs to the profile's task card: switching profiles ends it
+  useEffect(() => {
+    if (procedureRef.current) stopFlightsight();
+  }, [currentProfile, stopFlightsight]);
+
   const startVoiceQuestion = useCallback(async () => {
     unlockAudio();
     const componentName = itemDetails?.name ?? focusedItem ?? 'No component selected';
@@ -440,8 +798,8 @@ export default function App() {
         askGeminiAboutProduct(transcript, componentName, currentProfile)
           .then((answer) => {
             setVoicePopup({ question: transcript, answer, productName: componentName });
-            setItemDetails((prev) => (prev ? { ...prev, voiceAnswer: answer } : null));
-            speak(answer).catch((e) => setNotification('Voice: ' + (e instanceof Error ? e.message : 'failed')));
+            setItemDetails((prev) => (prev ? { ...prev, voiceAnswer: answer.text, voiceAnswerRefs: answer.refs } : null));
+            speak(answer.text).catch((e) => setNotification('Voice: ' + (e instanceof Error ? e.message : 'failed')));
           })
           .catch((err) => setNotification(err instanceof Error ? err.message : 'Voice answer failed'))
           .finally(() => {
@@ -662,6 +1020,19 @@ export default function App() {
           >
             Start camera
           </button>
+          <div style={{ marginTop: 12 }}>
+            <label style={{ fontSize: 12, color: '#888', cursor: 'pointer', textDecoration: 'underline' }}>
+              Replay a recorded session
+              <input type="file" accept="application/json,.json" onChange={handleRecordingUpload} style={{ display: 'none' }} aria-label="Load session recording" />
+            </label>
+            <button
+              type="button"
+              onClick={() => setShowManualBrowser(true)}
+              style={{ marginLeft: 16, padding: 0, background: 'none', border: 'none', fontSize: 12, color: '#888', cursor: 'pointer', textDecoration: 'underline' }}
+            >
+              Browse manuals
+            </button>
+          </div>
           {error && <p style={{ color: '#ff8866', marginTop: 16, textAlign: 'left' }}>{error}</p>}
         </div>
       ) : (
@@ -682,7 +1053,7 @@ export default function App() {
               width={videoSize.w}
               height={videoSize.h}
               items={displayedItems}
-              focusedLabel={focusedItem}
+              focusedTrackId={focusedTrackId}
               snippets={overlaySnippets}
             />
           </div>
@@ -732,7 +1103,7 @@ export default function App() {
             </>
           )}
           {currentProfile && (
-            <HealthActionPanel itemDetails={itemDetails} currentProfile={currentProfile} />
+            <HealthActionPanel itemDetails={itemDetails} currentProfile={currentProfile} pinnedRefs={pinnedRefs} onOpenManualRef={openManualRef} />
           )}
           {/* Top bar: camera source + profile */}
           <div
@@ -807,6 +1178,22 @@ export default function App() {
               </button>
             </div>
             <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+              <button
+                type="button"
+                onClick={isRecording ? finishRecording : startRecording}
+                title={isRecording ? 'Stop and download the session recording' : 'Record frames, detections and tracking for offline replay'}
+                style={{
+                  padding: '6px 14px',
+                  background: isRecording ? 'rgba(255,60,60,0.3)' : 'rgba(255,255,255,0.08)',
+                  color: isRecording ? '#ff8888' : '#ccc',
+                  border: `1px solid ${isRecording ? 'rgba(255,100,100,0.5)' : 'rgba(255,255,255,0.12)'}`,
+                  borderRadius: 10,
+                  fontSize: 12,
+                  cursor: 'pointer',
+                }}
+              >
+                {isRecording ? '● Save recording' : 'Record'}
+              </button>
               <button
                 type="button"
                 onClick={stopCamera}
@@ -822,6 +1209,75 @@ export default function App() {
               >
                 Stop camera
               </button>
+              <button
+                type="button"
+                onClick={captureTaskCard}
+                title="Photograph a paper task card or work order to load its WO, aircraft and task items"
+                style={{
+                  padding: '8px 14px',
+                  background: 'rgba(255,255,255,0.08)',
+                  border: '1px solid rgba(255,255,255,0.12)',
+                  borderRadius: 10,
+                  color: '#e0e0e0',
+                  fontSize: 13,
+                  cursor: 'pointer',
+                }}
+              >
+                🧾 Scan card
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowAircraft(true)}
+                title="Aircraft record and maintenance history"
+                style={{
+                  padding: '8px 14px',
+                  background: 'rgba(255,255,255,0.08)',
+                  border: '1px solid rgba(255,255,255,0.12)',
+                  borderRadius: 10,
+                  color: '#e0e0e0',
+                  fontSize: 13,
+                  cursor: 'pointer',
+                }}
+              >
+                ✈ {aircraftTailNumber ?? 'Aircraft'}
+              </button>
+              {taskCard && (
+                <button
+                  type="button"
+                  onClick={() => setShowTaskCard(true)}
+                  title={currentStep ? currentStep.step.instruction : 'Task card complete'}
+                  style={{
+                    maxWidth: 260,
+                    padding: '8px 14px',
+                    background: currentStep ? 'rgba(255,255,255,0.08)' : 'rgba(0,255,136,0.2)',
+                    border: '1px solid rgba(255,255,255,0.12)',
+                    borderRadius: 10,
+                    color: '#e0e0e0',
+                    fontSize: 13,
+                    cursor: 'pointer',
+                    whiteSpace: 'nowrap',
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                  }}
+                >
+                  📋 {currentStep ? `Step ${currentStep.number}/${taskCard.steps.length}: ${currentStep.step.instruction}` : 'Task card complete'}
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => setShowManualBrowser(true)}
+                style={{
+                  padding: '8px 14px',
+                  background: 'rgba(255,255,255,0.08)',
+                  border: '1px solid rgba(255,255,255,0.12)',
+                  borderRadius: 10,
+                  color: '#e0e0e0',
+                  fontSize: 13,
+                  cursor: 'pointer',
+                }}
+              >
+                📖 Manuals
+              </button>
               <button
                 type="button"
                 onClick={() => setShowProfiles(true)}
@@ -852,7 +1308,9 @@ export default function App() {
                   }}
                 >
                   {flightsightActive
-                    ? flightsightPhase === 'wake'
+                    ? flightsightPhase === 'procedure'
+                      ? 'Procedure: say "done" or "next"'
+                      : flightsightPhase === 'wake'
                       ? "Listening for \"Flightsight\"…"
                       : flightsightPhase === 'command'
                         ? 'Ask your question…'
@@ -864,11 +1322,12 @@ export default function App() {
           </div>
           <ItemDetailPanel
             details={itemDetails}
-            onClose={() => { setItemDetails(null); setFocusedItem(null); }}
+            onClose={() => { setItemDetails(null); setFocusedTrackId(null); }}
             onAskVoice={startVoiceQuestion}
             isVoiceLoading={voiceListening || voiceLoading}
             detailsLoading={detailsLoading}
             currentProfile={currentProfile}
+            onOpenManualRef={openManualRef}
           />
           {/* Always show detection panel when camera is on */}
           {showProfiles && (
@@ -896,17 +1355,69 @@ export default function App() {
                 zIndex: 10,
               }}
             >
-              <div style={{ fontSize: 11, color: '#00ff88', marginBottom: 6 }}>
-                {cameraSource === 'rayban'
-                  ? (detectionActive
-                    ? (raybanVideoUrl ? `Aircraft video · ${detectedItems.length} components` : `AR glasses · ${detectedItems.length} components`)
-                    : 'Waiting for feed or upload…')
-                  : detectionActive
-                    ? `${isAeroDetectConfigured() ? 'AeroDetect' : isDedalusApiKey(env.geminiApiKey) ? 'Dedalus' : 'Gemini'} · ${detectedItems.length} components`
-                    : 'Detection off'}
+              <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 11, color: '#00ff88', marginBottom: 6 }}>
+                <span>
+                  {cameraSource === 'rayban'
+                    ? (detectionActive
+                      ? (raybanVideoUrl ? `Aircraft video · ${detectedItems.length} components` : `AR glasses · ${detectedItems.length} components`)
+                      : 'Waiting for feed or upload…')
+                    : detectionActive
+                      ? `${activeProvider?.name ?? 'Detection'} · ${detectedItems.length} components`
+                      : 'Detection off'}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setShowDetectionSettings((v) => !v)}
+                  title="Detection backend settings"
+                  aria-label="Detection backend settings"
+                  style={{ background: 'none', border: 'none', color: '#888', fontSize: 12, padding: 0, cursor: 'pointer' }}
+                >
+                  ⚙
+                </button>
               </div>
+              {showDetectionSettings && <DetectionSettingsForm onDone={() => setShowDetectionSettings(false)} />}
+              {availableProviders.length > 1 && (
+                <select
+                  value={providerSelection}
+                  onChange={(e) => setProviderSelection(e.target.value)}
+                  aria-label="Detection provider"
+                  style={{
+                    display: 'block',
+                    width: '100%',
+                    padding: '3px 6px',
+                    marginBottom: 6,
+                    background: 'rgba(0,0,0,0.4)',
+                    color: '#ccc',
+                    border: '1px solid rgba(255,255,255,0.12)',
+                    borderRadius: 6,
+                    fontSize: 11,
+                  }}
+                >
+                  <option value={AUTO_PROVIDER}>Auto (failover)</option>
+                  {availableProviders.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {detectionActive && activeProviderStats?.avgLatencyMs != null && (
+                <div style={{ fontSize: 10, color: '#666', marginBottom: 4 }}>
+                  {Math.round(activeProviderStats.avgLatencyMs)} ms avg · {activeProviderStats.failures}/{activeProviderStats.calls} failed
+                  {!activeProvider?.local && cacheStats.hits > 0 && <> · {cacheStats.hits} cached</>}
+                </div>
+              )}
+              {unmappedLabels.length > 0 && (
+                <div
+                  style={{ fontSize: 10, color: '#666', marginBottom: 4 }}
+                  title={unmappedLabels.map((u) => `${u.label} (${u.count})`).join('\n')}
+                >
+                  Not in taxonomy: {unmappedLabels.slice(0, 3).map((u) => `"${u.label}" ×${u.count}`).join(', ')}
+                  {unmappedLabels.length > 3 && ` +${unmappedLabels.length - 3}`}
+                </div>
+              )}
               {!detectionActive && cameraSource !== 'rayban' && (
-                <div style={{ fontSize: 11, color: '#888' }}>Set AeroDetect URL or Gemini API key in .env</div>
+                <div style={{ fontSize: 11, color: '#888' }}>Set an AeroDetect URL or API key (⚙) or in .env</div>
               )}
               {cameraSource === 'rayban' && detectionActive && (
                 <div style={{ fontSize: 10, color: '#666', marginBottom: 4 }}>Analyzing aircraft feed</div>
@@ -920,22 +1431,22 @@ export default function App() {
               {displayedItems.length > 0 && (
                 <>
                   <div style={{ fontSize: 11, color: '#888', marginBottom: 4 }}>Tap to inspect</div>
-                  {displayedItems.slice(0, 8).map((item, i) => (
+                  {displayedItems.slice(0, 8).map((item) => (
                     <button
                       type="button"
-                      key={`${item.label}-${i}`}
+                      key={item.trackId}
                       onClick={() => {
                       const video = videoRef.current;
                       const snapshot = video ? captureFrameToJpeg(video, 0.65) : undefined;
-                      showItemDetails(item.label, snapshot ?? undefined);
+                      showItemDetails(item, snapshot ?? undefined);
                     }}
                       style={{
                         display: 'block',
                         width: '100%',
                         padding: '4px 8px',
                         marginBottom: 2,
-                        background: focusedItem === item.label ? '#00ff88' : 'transparent',
-                        color: focusedItem === item.label ? '#000' : '#fff',
+                        background: focusedTrackId === item.trackId ? '#00ff88' : 'transparent',
+                        color: focusedTrackId === item.trackId ? '#000' : '#fff',
                         border: 'none',
                         borderRadius: 4,
                         textAlign: 'left',
@@ -956,11 +1467,68 @@ export default function App() {
               answer={voicePopup.answer}
               productName={voicePopup.productName}
               onClose={() => setVoicePopup(null)}
+              onOpenManualRef={(ref) => {
+                setVoicePopup(null);
+                openManualRef(ref);
+              }}
+            />
+          )}
+          {procedure && taskCard && (
+            <ProcedureBanner
+              card={taskCard}
+              state={procedure}
+              message={procedureMessage}
+              listening={flightsightPhase === 'procedure'}
+              onStop={() => {
+                stopFlightsight();
+                speak('Procedure guidance stopped.').catch(() => {});
+              }}
             />
           )}
           <CopilotNotification message={notification} />
         </>
       )}
+      {scanImage && (
+        <TaskCardScanPanel
+          image={scanImage}
+          currentProfile={currentProfile}
+          onApply={(p) => {
+            setCurrentProfile(p);
+            setScanImage(null);
+            setNotification(`Loaded ${p.workContext?.workOrderNumber ?? 'task card'}: ${p.taskCardItems.length} task items`);
+          }}
+          onRetake={captureTaskCard}
+          onClose={() => setScanImage(null)}
+        />
+      )}
+      {showAircraft && <AircraftPanel currentProfile={currentProfile} onClose={() => setShowAircraft(false)} />}
+      {showTaskCard && taskCard && (
+        <TaskCardPanel
+          card={taskCard}
+          currentProfile={currentProfile}
+          onChange={updateTaskCard}
+          onStartProcedure={hasActiveVideo && !procedure ? startGuidedProcedure : undefined}
+          onOpenManualRef={openManualRef}
+          onClose={() => setShowTaskCard(false)}
+        />
+      )}
+      {showManualBrowser && (
+        <ManualBrowserPanel
+          currentProfile={currentProfile}
+          pinnedRefs={pinnedRefs}
+          onTogglePin={togglePin}
+          onOpenManualRef={openManualRef}
+          onClose={() => setShowManualBrowser(false)}
+        />
+      )}
+      {manualViewerOpen && manualHistory.length > 0 && (
+        <ManualViewerPanel
+          history={manualHistory}
+          onBack={() => setManualHistory((history) => history.slice(0, -1))}
+          onClose={closeManualViewer}
+        />
+      )}
+      {replayRecording && <ReplayViewer recording={replayRecording} onClose={() => setReplayRecording(null)} />}
     </div>
   );
 }
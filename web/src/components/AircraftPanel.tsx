@@ -0,0 +1,333 @@
+import React, { useEffect, useState } from 'react';
+import {
+  formatHistoryDate,
+  getAircraft,
+  getAircraftHistory,
+  listAircraft,
+  recordFinding,
+  saveAircraft,
+  subscribeAircraftRegistry,
+  type Aircraft,
+  type AircraftEventKind,
+} from '../lib/aircraftRegistry';
+import { PRESET_PROFILES, loadCustomProfiles, type PersonProfile } from '../lib/rag';
+
+const glassStyle: React.CSSProperties = {
+  background: 'rgba(20, 20, 24, 0.75)',
+  backdropFilter: 'blur(16px)',
+  WebkitBackdropFilter: 'blur(16px)',
+  border: '1px solid rgba(255, 255, 255, 0.08)',
+  borderRadius: 16,
+  color: '#e8e8e8',
+};
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: 8,
+  background: 'rgba(0,0,0,0.3)',
+  border: '1px solid rgba(255,255,255,0.1)',
+  borderRadius: 8,
+  color: '#fff',
+  fontSize: 13,
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  borderRadius: 8,
+  border: '1px solid rgba(255,255,255,0.12)',
+  background: 'rgba(255,255,255,0.06)',
+  color: '#e0e0e0',
+  fontSize: 12,
+  cursor: 'pointer',
+};
+
+const EVENT_LABELS: Record<AircraftEventKind, { icon: string; label: string; color: string }> = {
+  inspected: { icon: '✓', label: 'Inspected', color: '#00ff88' },
+  finding: { icon: '⚠', label: 'Finding', color: '#ffaa00' },
+  task_card: { icon: '📋', label: 'Task card closed', color: '#fff' },
+  detected: { icon: '◎', label: 'Seen', color: '#888' },
+};
+
+const HISTORY_FILTERS: { value: AircraftEventKind | 'all'; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'inspected', label: 'Inspections' },
+  { value: 'finding', label: 'Findings' },
+  { value: 'task_card', label: 'Task cards' },
+  { value: 'detected', label: 'Seen' },
+];
+
+/** Aircraft record fields as edited in the form */
+interface AircraftForm {
+  model: string;
+  serial: string;
+  engineSerial: string;
+  totalTimeHours: string;
+  propTimeHours: string;
+}
+
+function toForm(a: Aircraft): AircraftForm {
+  return {
+    model: a.model ?? '',
+    serial: a.serial ?? '',
+    engineSerial: a.engineSerial ?? '',
+    totalTimeHours: a.totalTimeHours != null ? String(a.totalTimeHours) : '',
+    propTimeHours: a.propTimeHours != null ? String(a.propTimeHours) : '',
+  };
+}
+
+/** Hours from the form: undefined when empty, an error message when not a number */
+function parseHours(value: string, label: string): number | undefined {
+  if (!value.trim()) return undefined;
+  const hours = Number(value.replace(',', '.'));
+  if (!Number.isFinite(hours) || hours < 0) throw new Error(`${label} must be a number of hours`);
+  return hours;
+}
+
+const FORM_FIELDS: { key: keyof AircraftForm; label: string; placeholder: string }[] = [
+  { key: 'model', label: 'Model', placeholder: 'Cessna 172N' },
+  { key: 'serial', label: 'Serial number', placeholder: '17270123' },
+  { key: 'engineSerial', label: 'Engine serial', placeholder: 'L-12345-27A' },
+  { key: 'totalTimeHours', label: 'Total time (h)', placeholder: '4312.5' },
+  { key: 'propTimeHours', label: 'Prop time (h)', placeholder: '812' },
+];
+
+interface AircraftPanelProps {
+  /** Opens on this profile's aircraft; findings are recorded as this profile */
+  currentProfile: PersonProfile | null;
+  onClose: () => void;
+}
+
+/** Aircraft registry: per-tail record (model, serials, times), linked profiles and work orders, and maintenance history. */
+export function AircraftPanel({ currentProfile, onClose }: AircraftPanelProps) {
+  // The registry lives in module memory; bumped to re-render when it changes
+  const [, setVersion] = useState(0);
+  useEffect(() => subscribeAircraftRegistry(() => setVersion((v) => v + 1)), []);
+
+  const aircraftList = listAircraft();
+  const [selectedTail, setSelectedTail] = useState<string | null>(() => getAircraft(currentProfile?.workContext?.aircraftTailNumber)?.tailNumber ?? null);
+  const selected = getAircraft(selectedTail ?? undefined) ?? aircraftList[0];
+  const [form, setForm] = useState<AircraftForm | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<AircraftEventKind | 'all'>('all');
+  const [findingText, setFindingText] = useState('');
+  const [findingComponent, setFindingComponent] = useState('');
+  const [adding, setAdding] = useState(false);
+  const [newTail, setNewTail] = useState('');
+  const [newModel, setNewModel] = useState('');
+
+  const profileNames = new Map([...PRESET_PROFILES, ...loadCustomProfiles()].map((p) => [p.id, p.name]));
+  const history = selected ? getAircraftHistory(selected.tailNumber).filter((e) => filter === 'all' || e.kind === filter) : [];
+
+  const selectAircraft = (tail: string) => {
+    setSelectedTail(tail);
+    setForm(null);
+    setFormError(null);
+  };
+
+  const saveForm = () => {
+    if (!selected || !form) return;
+    try {
+      saveAircraft({
+        tailNumber: selected.tailNumber,
+        model: form.model.trim() || undefined,
+        serial: form.serial.trim() || undefined,
+        engineSerial: form.engineSerial.trim() || undefined,
+        totalTimeHours: parseHours(form.totalTimeHours, 'Total time'),
+        propTimeHours: parseHours(form.propTimeHours, 'Prop time'),
+      });
+      setForm(null);
+      setFormError(null);
+    } catch (e) {
+      setFormError(e instanceof Error ? e.message : 'Could not save');
+    }
+  };
+
+  const addAircraft = () => {
+    try {
+      const created = saveAircraft({ tailNumber: newTail, model: newModel.trim() || undefined });
+      setAdding(false);
+      setNewTail('');
+      setNewModel('');
+      selectAircraft(created.tailNumber);
+    } catch (e) {
+      setFormError(e instanceof Error ? e.message : 'Could not add the aircraft');
+    }
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 40,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: 'rgba(0,0,0,0.5)',
+        padding: 24,
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          ...glassStyle,
+          width: '100%',
+          maxWidth: 560,
+          maxHeight: '90vh',
+          overflow: 'auto',
+          padding: 24,
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 16 }}>
+          <h2 style={{ margin: 0, fontSize: 18, fontWeight: 600, color: '#fff' }}>Aircraft</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close"
+            style={{ background: 'none', border: 'none', color: '#888', fontSize: 22, cursor: 'pointer' }}
+          >
+            ×
+          </button>
+        </div>
+
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, marginBottom: 16 }}>
+          {aircraftList.map((a) => (
+            <button
+              type="button"
+              key={a.tailNumber}
+              onClick={() => selectAircraft(a.tailNumber)}
+              style={{
+                ...buttonStyle,
+                background: selected?.tailNumber === a.tailNumber ? 'rgba(0, 255, 136, 0.2)' : buttonStyle.background,
+                borderColor: selected?.tailNumber === a.tailNumber ? 'rgba(0,255,136,0.5)' : 'rgba(255,255,255,0.12)',
+              }}
+            >
+              {a.tailNumber}
+              {a.model ? <span style={{ color: '#888' }}> · {a.model}</span> : null}
+            </button>
+          ))}
+          <button type="button" onClick={() => setAdding((v) => !v)} style={{ ...buttonStyle, borderStyle: 'dashed', color: '#888' }}>
+            + Add aircraft
+          </button>
+        </div>
+
+        {adding && (
+          <div style={{ display: 'flex', gap: 6, marginBottom: 16 }}>
+            <input type="text" placeholder="Tail number" value={newTail} onChange={(e) => setNewTail(e.target.value)} style={{ ...inputStyle, flex: 1 }} />
+            <input type="text" placeholder="Model (optional)" value={newModel} onChange={(e) => setNewModel(e.target.value)} style={{ ...inputStyle, flex: 1 }} />
+            <button type="button" onClick={addAircraft} disabled={!newTail.trim()} style={{ ...buttonStyle, opacity: newTail.trim() ? 1 : 0.5 }}>
+              Add
+            </button>
+          </div>
+        )}
+        {formError && <p style={{ fontSize: 12, color: '#ff8866', margin: '0 0 12px 0' }}>{formError}</p>}
+
+        {!selected ? (
+          <p style={{ fontSize: 13, color: '#888' }}>
+            No aircraft yet. Aircraft are added when a profile with a tail number is selected, or add one here.
+          </p>
+        ) : (
+          <>
+            <div style={{ border: '1px solid rgba(255,255,255,0.08)', borderRadius: 12, padding: 12, marginBottom: 16 }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
+                <span style={{ fontSize: 16, fontWeight: 600, color: '#fff' }}>{selected.tailNumber}</span>
+                {!form && (
+                  <button type="button" onClick={() => setForm(toForm(selected))} style={buttonStyle}>
+                    Edit
+                  </button>
+                )}
+              </div>
+              {form ? (
+                <>
+                  {FORM_FIELDS.map(({ key, label, placeholder }) => (
+                    <label key={key} style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 6 }}>
+                      <span style={{ width: 110, fontSize: 11, color: '#888', flexShrink: 0 }}>{label}</span>
+                      <input type="text" placeholder={placeholder} value={form[key]} onChange={(e) => setForm({ ...form, [key]: e.target.value })} style={inputStyle} />
+                    </label>
+                  ))}
+                  <div style={{ display: 'flex', gap: 6, marginTop: 8 }}>
+                    <button type="button" onClick={saveForm} style={{ ...buttonStyle, background: '#00ff88', color: '#000', border: 'none', fontWeight: 600 }}>
+                      Save
+                    </button>
+                    <button type="button" onClick={() => { setForm(null); setFormError(null); }} style={buttonStyle}>
+                      Cancel
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <div style={{ display: 'grid', gridTemplateColumns: '110px 1fr', rowGap: 4, fontSize: 12 }}>
+                  {FORM_FIELDS.map(({ key, label }) => (
+                    <React.Fragment key={key}>
+                      <span style={{ color: '#888' }}>{label}</span>
+                      <span style={{ color: '#ddd' }}>{toForm(selected)[key] || '—'}</span>
+                    </React.Fragment>
+                  ))}
+                  <span style={{ color: '#888' }}>Technicians</span>
+                  <span style={{ color: '#ddd' }}>{selected.profileIds.map((id) => profileNames.get(id) ?? id).join(', ') || '—'}</span>
+                  <span style={{ color: '#888' }}>Work orders</span>
+                  <span style={{ color: '#ddd' }}>{selected.workOrders.join(', ') || '—'}</span>
+                </div>
+              )}
+            </div>
+
+            <div style={{ fontSize: 11, color: '#888', marginBottom: 6 }}>Record a finding{currentProfile ? ` as ${currentProfile.name}` : ''}</div>
+            <div style={{ display: 'flex', gap: 6, marginBottom: 16 }}>
+              <input type="text" placeholder="Component (optional)" value={findingComponent} onChange={(e) => setFindingComponent(e.target.value)} style={{ ...inputStyle, width: 150, flexShrink: 0 }} />
+              <input type="text" placeholder="e.g. Chafed ignition lead near #3 cylinder" value={findingText} onChange={(e) => setFindingText(e.target.value)} style={{ ...inputStyle, flex: 1 }} />
+              <button
+                type="button"
+                disabled={!findingText.trim()}
+                onClick={() => {
+                  recordFinding(selected.tailNumber, findingText, currentProfile, findingComponent);
+                  setFindingText('');
+                  setFindingComponent('');
+                }}
+                style={{ ...buttonStyle, opacity: findingText.trim() ? 1 : 0.5 }}
+              >
+                Add
+              </button>
+            </div>
+
+            <div style={{ display: 'flex', gap: 6, marginBottom: 8 }}>
+              {HISTORY_FILTERS.map((f) => (
+                <button
+                  type="button"
+                  key={f.value}
+                  onClick={() => setFilter(f.value)}
+                  style={{ ...buttonStyle, padding: '4px 8px', fontSize: 11, background: filter === f.value ? 'rgba(255,255,255,0.16)' : buttonStyle.background }}
+                >
+                  {f.label}
+                </button>
+              ))}
+            </div>
+            {history.length === 0 ? (
+              <p style={{ fontSize: 12, color: '#666' }}>No history yet.</p>
+            ) : (
+              history.map((e) => {
+                const kind = EVENT_LABELS[e.kind];
+                return (
+                  <div key={e.id} style={{ display: 'flex', gap: 8, fontSize: 12, padding: '6px 0', borderTop: '1px solid rgba(255,255,255,0.05)' }}>
+                    <span style={{ width: 76, flexShrink: 0, color: '#888' }}>{formatHistoryDate(e.at)}</span>
+                    <span style={{ width: 14, flexShrink: 0, color: kind.color }} title={kind.label}>
+                      {kind.icon}
+                    </span>
+                    <span style={{ flex: 1, color: '#ddd', lineHeight: 1.4 }}>
+                      {e.component ? <strong style={{ color: '#fff' }}>{e.component}</strong> : null}
+                      {e.component && e.text ? ' — ' : ''}
+                      {e.text ?? (e.component ? '' : kind.label)}
+                      <span style={{ color: '#777' }}>
+                        {e.workOrderNumber ? ` · ${e.workOrderNumber}` : ''}
+                        {e.profileName ? ` · ${e.profileName}` : ''}
+                      </span>
+                    </span>
+                  </div>
+                );
+              })
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
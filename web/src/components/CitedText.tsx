@@ -0,0 +1,25 @@
+import { linkCitations } from '../lib/citations';
+import type { ManualRef } from '../lib/knowledgeBase';
+import { ManualRefLink } from './ManualRefLink';
+
+interface CitedTextProps {
+  text: string;
+  /** Verified pages; citations of them in the text become links, anything else stays plain text */
+  refs: ManualRef[];
+  onOpenRef?: (ref: ManualRef) => void;
+}
+
+/** Answer text with its verified page citations ("O-320 OM p.26") rendered as manual links. */
+export function CitedText({ text, refs, onOpenRef }: CitedTextProps) {
+  return (
+    <>
+      {linkCitations(text, refs).map((segment, i) =>
+        typeof segment === 'string' ? (
+          <span key={i}>{segment}</span>
+        ) : (
+          <ManualRefLink key={i} manualRef={segment.ref} compact onOpenRef={onOpenRef} />
+        ),
+      )}
+    </>
+  );
+}
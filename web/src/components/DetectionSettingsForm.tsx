@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { getDetectionSettings, setDetectionSettings } from '../lib/detectionProviders';
+
+const inputStyle: React.CSSProperties = {
+  display: 'block',
+  width: '100%',
+  padding: '3px 6px',
+  marginBottom: 6,
+  background: 'rgba(0,0,0,0.4)',
+  color: '#ccc',
+  border: '1px solid rgba(255,255,255,0.12)',
+  borderRadius: 6,
+  fontSize: 11,
+};
+
+interface DetectionSettingsFormProps {
+  onDone: () => void;
+}
+
+/** AeroDetect URL and vision API key for the detection panel; saved in the browser, no rebuild needed. */
+export function DetectionSettingsForm({ onDone }: DetectionSettingsFormProps) {
+  const [settings] = useState(getDetectionSettings);
+  const [aeroDetectUrl, setAeroDetectUrl] = useState(settings.aeroDetectUrl ?? '');
+  const [apiKey, setApiKey] = useState(settings.apiKey ?? '');
+
+  return (
+    <div style={{ marginBottom: 6 }}>
+      <div style={{ fontSize: 10, color: '#888', marginBottom: 2 }}>AeroDetect URL</div>
+      <input type="url" placeholder="http://192.168.1.20:8000" value={aeroDetectUrl} onChange={(e) => setAeroDetectUrl(e.target.value)} style={inputStyle} />
+      <div style={{ fontSize: 10, color: '#888', marginBottom: 2 }}>Gemini or Dedalus API key</div>
+      <input type="password" placeholder="Empty: use .env" value={apiKey} onChange={(e) => setApiKey(e.target.value)} style={inputStyle} />
+      <div style={{ display: 'flex', gap: 6 }}>
+        <button
+          type="button"
+          onClick={() => {
+            setDetectionSettings({ aeroDetectUrl, apiKey });
+            onDone();
+          }}
+          style={{ flex: 1, padding: '3px 6px', background: '#00ff88', color: '#000', border: 'none', borderRadius: 6, fontSize: 11, fontWeight: 600, cursor: 'pointer' }}
+        >
+          Save
+        </button>
+        <button
+          type="button"
+          onClick={onDone}
+          style={{ padding: '3px 6px', background: 'rgba(255,255,255,0.1)', color: '#ccc', border: 'none', borderRadius: 6, fontSize: 11, cursor: 'pointer' }}
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
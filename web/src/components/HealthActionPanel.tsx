@@ -1,6 +1,10 @@
 import React from 'react';
 import type { ItemDetails } from '../lib/itemDetails';
+import type { ManualRef } from '../lib/knowledgeBase';
 import type { PersonProfile } from '../lib/rag';
+import { parseAtaCode } from '../lib/ata';
+import { canonicalizeLabel } from '../lib/taxonomy';
+import { ManualRefLink } from './ManualRefLink';
 
 const glassStyle: React.CSSProperties = {
   background: 'rgba(18, 20, 24, 0.82)',
@@ -16,6 +20,9 @@ interface HealthActionPanelProps {
   itemDetails: ItemDetails | null;
   /** Current technician profile for context-aware guidance */
   currentProfile: PersonProfile | null;
+  /** Manual pages pinned to the task in the manual browser */
+  pinnedRefs?: ManualRef[];
+  onOpenManualRef?: (ref: ManualRef) => void;
 }
 
 /** Component name lower for matching. */
@@ -24,8 +31,23 @@ function componentMatch(name: string, ...keywords: string[]): boolean {
   return keywords.some((k) => n.includes(k));
 }
 
-/** Categorize aircraft component for context-aware guidance. */
-function getComponentCategory(name: string): 'engine' | 'airframe' | 'landing_gear' | 'avionics' | 'fuel_system' | 'control_surface' | 'electrical' | 'other' {
+type ComponentCategory = 'engine' | 'airframe' | 'landing_gear' | 'avionics' | 'fuel_system' | 'control_surface' | 'electrical' | 'other';
+
+/** Guidance category per ATA chapter */
+const ATA_CATEGORIES: Record<string, ComponentCategory> = {
+  '20': 'airframe', '51': 'airframe', '52': 'airframe', '53': 'airframe', '55': 'airframe', '56': 'airframe', '57': 'airframe',
+  '61': 'engine', '71': 'engine', '73': 'engine', '74': 'engine', '75': 'engine', '76': 'engine', '77': 'engine', '78': 'engine', '79': 'engine', '80': 'engine', '85': 'engine',
+  '32': 'landing_gear',
+  '27': 'control_surface',
+  '28': 'fuel_system',
+  '24': 'electrical', '33': 'electrical',
+  '22': 'avionics', '23': 'avionics', '31': 'avionics', '34': 'avionics', '37': 'avionics',
+};
+
+/** Categorize aircraft component for context-aware guidance (by ATA chapter; text match for untagged names). */
+function getComponentCategory(name: string, ata?: string): ComponentCategory {
+  const chapter = parseAtaCode(ata ?? canonicalizeLabel(name)?.ata ?? '')?.chapter;
+  if (chapter) return ATA_CATEGORIES[chapter] ?? 'other';
   const n = name.toLowerCase();
   if (n.match(/engine|cowling|cylinder|piston|crankshaft|camshaft|magneto|carburetor|spark plug|oil filter|exhaust|propeller|alternator/)) return 'engine';
   if (n.match(/wing|fuselage|strut|skin|rivet|spar|rib|bulkhead|firewall/)) return 'airframe';
@@ -40,12 +62,12 @@ function getComponentCategory(name: string): 'engine' | 'airframe' | 'landing_ge
 /** Generate actionable maintenance guidance based on component and technician context. */
 function getActionableBullets(details: ItemDetails, profile: PersonProfile | null): string[] {
   const bullets: string[] = [];
-  const { name, safetyInfo, procedures, specs: _specs } = details;
+  const { name, safetyInfo, procedures, specs: _specs, ata } = details;
   void _specs;
   const wc = profile?.workContext;
   const certifications = profile?.certifications ?? [];
   const safetyReqs = profile?.safetyRequirements ?? [];
-  const category = getComponentCategory(name ?? '');
+  const category = getComponentCategory(name ?? '', ata);
 
   // —— 1. Safety warnings (always first) ——
   if (safetyInfo && safetyInfo.length > 0) {
@@ -142,7 +164,7 @@ function getActionableBullets(details: ItemDetails, profile: PersonProfile | nul
   return bullets;
 }
 
-export function HealthActionPanel({ itemDetails, currentProfile }: HealthActionPanelProps) {
+export function HealthActionPanel({ itemDetails, currentProfile, pinnedRefs, onOpenManualRef }: HealthActionPanelProps) {
   if (!currentProfile) return null;
 
   const wc = currentProfile.workContext;
@@ -212,6 +234,16 @@ export function HealthActionPanel({ itemDetails, currentProfile }: HealthActionP
               Set up a technician profile with aircraft type, work order, and task card to get context-aware maintenance guidance.
             </p>
           )}
+          {pinnedRefs && pinnedRefs.length > 0 && (
+            <>
+              <div style={{ fontSize: 12, color: '#fff', fontWeight: 600, margin: '12px 0 6px' }}>Pinned References</div>
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6 }}>
+                {pinnedRefs.map((ref) => (
+                  <ManualRefLink key={`${ref.manualName}:${ref.page}:${ref.chunkId}`} manualRef={ref} compact onOpenRef={onOpenManualRef} />
+                ))}
+              </div>
+            </>
+          )}
         </>
       )}
     </div>
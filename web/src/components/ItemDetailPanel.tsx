@@ -3,6 +3,15 @@ import type { ItemDetails } from '../lib/itemDetails';
 import type { PersonProfile } from '../lib/rag';
 import { getIngredientExplanation } from '../lib/ingredientExplanation';
 import type { ManualRef } from '../lib/knowledgeBase';
+import { formatAta } from '../lib/ata';
+import { KnowledgeBaseNotice } from './KnowledgeBaseNotice';
+import { ManualRefLink } from './ManualRefLink';
+import { ManualFigure } from './ManualFigure';
+import { CitedText } from './CitedText';
+import { describeCitations } from '../lib/citations';
+
+/** Width of figure crops: the panel width less its padding */
+const FIGURE_WIDTH = 320;
 
 interface ItemDetailPanelProps {
   details: ItemDetails | null;
@@ -11,49 +20,11 @@ interface ItemDetailPanelProps {
   isVoiceLoading?: boolean;
   detailsLoading?: boolean;
   currentProfile?: PersonProfile | null;
+  /** Open a manual reference in the in-app viewer (links open the PDF in a new tab without it) */
+  onOpenManualRef?: (ref: ManualRef) => void;
 }
 
-function ManualRefLink({ manualRef: mRef, compact }: { manualRef: ManualRef; compact?: boolean }) {
-  const fig = mRef.figure ? `, Fig ${mRef.figure}` : '';
-  const mName = mRef.manualName || 'SM';
-  const label = compact
-    ? `${mName} p.${mRef.page}${fig}`
-    : `[${mName}] Section ${mRef.section}: ${mRef.sectionTitle} — p.${mRef.page}${fig}`;
-  return (
-    <a
-      href={mRef.pdfUrl}
-      target="_blank"
-      rel="noopener noreferrer"
-      onClick={(e) => {
-        e.stopPropagation();
-      }}
-      style={{
-        display: 'inline-flex',
-        alignItems: 'center',
-        gap: 6,
-        padding: compact ? '3px 8px' : '6px 12px',
-        background: 'rgba(0, 150, 255, 0.12)',
-        border: '1px solid rgba(0, 150, 255, 0.3)',
-        borderRadius: 8,
-        color: '#4da6ff',
-        fontSize: compact ? 11 : 12,
-        fontWeight: 500,
-        textDecoration: 'none',
-        cursor: 'pointer',
-        transition: 'background 0.15s',
-      }}
-      onMouseEnter={(e) => { (e.target as HTMLElement).style.background = 'rgba(0, 150, 255, 0.25)'; }}
-      onMouseLeave={(e) => { (e.target as HTMLElement).style.background = 'rgba(0, 150, 255, 0.12)'; }}
-      title={`Open Cessna 172 SM page ${mRef.page}${mRef.figureTitle ? ` — ${mRef.figureTitle}` : ''}`}
-    >
-      <span style={{ fontSize: compact ? 12 : 14 }}>📖</span>
-      {label}
-    </a>
-  );
-}
-
-export function ItemDetailPanel({ details, onClose, onAskVoice, isVoiceLoading, detailsLoading, currentProfile: _currentProfile }: ItemDetailPanelProps) {
-  void _currentProfile; // reserved for future use
+export function ItemDetailPanel({ details, onClose, onAskVoice, isVoiceLoading, detailsLoading, currentProfile, onOpenManualRef }: ItemDetailPanelProps) {
   const [procedurePopup, setProcedurePopup] = useState<{ procedure: string; explanation: string } | null>(null);
   const [procedureLoading, setProcedureLoading] = useState<string | null>(null);
 
@@ -84,9 +55,17 @@ export function ItemDetailPanel({ details, onClose, onAskVoice, isVoiceLoading,
     installationNotes,
     adReferences,
     voiceAnswer,
+    voiceAnswerRefs,
     compatibilitySummary,
     manualRefs,
+    manualTables,
+    unsupportedCitations,
+    ungroundedValues,
+    ata,
   } = details;
+  // Limits published in the manual replace the model's summary of them
+  const hasManualLimits = manualTables?.some((t) => t.kind === 'limits') ?? false;
+  const figureRefs = (manualRefs ?? []).filter((r) => r.figureRegion).slice(0, 2);
 
   const section = (label: string, children: React.ReactNode, accent?: boolean) => (
     <div style={{ marginBottom: 14 }}>
@@ -133,6 +112,9 @@ export function ItemDetailPanel({ details, onClose, onAskVoice, isVoiceLoading,
           {partNumber && !detailsLoading && (
             <div style={{ fontSize: 12, color: '#4da6ff', marginTop: 3, fontFamily: 'monospace' }}>{partNumber}</div>
           )}
+          {ata && !detailsLoading && (
+            <div style={{ fontSize: 11, color: '#99a', marginTop: 3 }} title="ATA iSpec 2200 chapter-section">{formatAta(ata)}</div>
+          )}
         </div>
         <button
           type="button"
@@ -166,9 +148,87 @@ export function ItemDetailPanel({ details, onClose, onAskVoice, isVoiceLoading,
           <div style={{ fontSize: 10, color: '#4da6ff', textTransform: 'uppercase', letterSpacing: '0.08em', marginBottom: 8, fontWeight: 600 }}>
             📖 Service Manual References
           </div>
+          <KnowledgeBaseNotice />
+          {manualRefs.some((r) => r.superseded) && (
+            <div style={{ color: '#ffaa00', fontSize: 12, marginBottom: 8, lineHeight: 1.4 }}>
+              ⚠️ Some pages are from a superseded manual revision. Check them against the current revision
+              {currentProfile?.certifications.includes('ia_inspector') ? ' before signing off the inspection.' : ' before use.'}
+            </div>
+          )}
           <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
             {manualRefs.slice(0, 4).map((mRef, i) => (
-              <ManualRefLink key={`${mRef.page}-${i}`} manualRef={mRef} />
+              <ManualRefLink key={`${mRef.page}-${i}`} manualRef={mRef} onOpenRef={onOpenManualRef} />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* The model cited pages it was never given: removed from the text, listed so nobody goes looking */}
+      {!detailsLoading && unsupportedCitations && unsupportedCitations.length > 0 && (
+        <div style={{ color: '#ffaa00', fontSize: 12, marginBottom: 16, lineHeight: 1.4 }}>
+          ⚠️ Removed page references the manual search did not return: {describeCitations(unsupportedCitations)}. Don't rely on them.
+        </div>
+      )}
+
+      {/* Grounded mode: values the model gave that the manual pages don't state */}
+      {!detailsLoading && ungroundedValues && ungroundedValues.length > 0 && (
+        <div style={{ color: '#ffaa00', fontSize: 12, marginBottom: 16, lineHeight: 1.4 }}>
+          ⚠️ Not in loaded manuals: {ungroundedValues.join(', ')}.
+          {manualRefs?.[0] && (
+            <>
+              {' '}Closest section: <ManualRefLink manualRef={manualRefs[0]} compact onOpenRef={onOpenManualRef} />
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Torque & limits straight from the manual's tables */}
+      {!detailsLoading && manualTables && manualTables.length > 0 && (
+        <div style={{ marginBottom: 16 }}>
+          <div style={{ fontSize: 10, color: '#667', textTransform: 'uppercase', letterSpacing: '0.08em', marginBottom: 6, fontWeight: 600 }}>
+            🔧 Torque &amp; Limits (manual)
+          </div>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 10 }}>
+            {manualTables.slice(0, 4).map(({ table, ref }, i) => (
+              <div key={`${ref.chunkId}-${i}`} style={{ padding: 10, background: 'rgba(255,255,255,0.03)', border: '1px solid rgba(255,255,255,0.08)', borderRadius: 10 }}>
+                <div style={{ fontSize: 12, color: '#e0e0e0', fontWeight: 600, marginBottom: 6 }}>
+                  {[table.table ? `Table ${table.table}` : null, table.title].filter(Boolean).join(' — ')}
+                </div>
+                <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 11, color: '#ccc' }}>
+                  {table.columns && (
+                    <thead>
+                      <tr>
+                        {table.columns.map((col, c) => (
+                          <th key={c} style={{ textAlign: c ? 'right' : 'left', color: '#667', fontWeight: 600, padding: '2px 4px' }}>{col}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                  )}
+                  <tbody>
+                    {table.rows.map((row, r) => (
+                      <tr key={r} style={{ borderTop: '1px solid rgba(255,255,255,0.05)' }}>
+                        {row.map((cell, c) => (
+                          <td key={c} style={{ textAlign: c ? 'right' : 'left', padding: '3px 4px', color: c ? '#00ff88' : '#bbb', fontFamily: c ? 'monospace' : undefined }}>{cell}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <div style={{ marginTop: 6 }}>
+                  <ManualRefLink manualRef={ref} compact onOpenRef={onOpenManualRef} />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {!detailsLoading && figureRefs.length > 0 && (
+        <div style={{ marginBottom: 16 }}>
+          <div style={{ fontSize: 10, color: '#667', textTransform: 'uppercase', letterSpacing: '0.08em', marginBottom: 6, fontWeight: 600 }}>Figures</div>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 10 }}>
+            {figureRefs.map((mRef) => (
+              <ManualFigure key={`${mRef.chunkId}-${mRef.figure}`} manualRef={mRef} width={FIGURE_WIDTH} onOpenRef={onOpenManualRef} />
             ))}
           </div>
         </div>
@@ -185,7 +245,7 @@ export function ItemDetailPanel({ details, onClose, onAskVoice, isVoiceLoading,
 
       {!detailsLoading && manufacturer && section('Manufacturer', manufacturer)}
       {!detailsLoading && specs && section('Specifications',
-        [specs.material, specs.weight ? `Weight: ${specs.weight}` : null, specs.serviceLife ? `Service life: ${specs.serviceLife}` : null, specs.operatingLimits ? `Limits: ${specs.operatingLimits}` : null].filter(Boolean).join(' · ')
+        [specs.material, specs.weight ? `Weight: ${specs.weight}` : null, specs.serviceLife ? `Service life: ${specs.serviceLife}` : null, specs.operatingLimits && !hasManualLimits ? `Limits: ${specs.operatingLimits}` : null].filter(Boolean).join(' · ')
       )}
 
       {!detailsLoading && safetyInfo && safetyInfo.length > 0 && (
@@ -253,7 +313,7 @@ export function ItemDetailPanel({ details, onClose, onAskVoice, isVoiceLoading,
         </div>
       )}
 
-      {!detailsLoading && installationNotes && section('Installation', installationNotes)}
+      {!detailsLoading && installationNotes && section('Installation', <CitedText text={installationNotes} refs={manualRefs ?? []} onOpenRef={onOpenManualRef} />)}
       {!detailsLoading && adReferences && Object.keys(adReferences).length > 0 && section('AD / Service Bulletins', Object.entries(adReferences).map(([k, v]) => `${k}: ${v}`).join('; '), true)}
       {!detailsLoading && compatibilitySummary && section('Compatibility', compatibilitySummary, true)}
 
@@ -284,7 +344,7 @@ export function ItemDetailPanel({ details, onClose, onAskVoice, isVoiceLoading,
           </button>
           {voiceAnswer && (
             <div style={{ marginTop: 10, padding: 10, background: 'rgba(0,0,0,0.25)', borderRadius: 8, fontSize: 12, color: '#bbb', lineHeight: 1.5 }}>
-              {voiceAnswer}
+              <CitedText text={voiceAnswer} refs={voiceAnswerRefs ?? []} onOpenRef={onOpenManualRef} />
             </div>
           )}
         </div>
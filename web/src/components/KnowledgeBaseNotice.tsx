@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+import { isKnowledgeBaseDegraded, subscribeKnowledgeBase } from '../lib/knowledgeBase';
+
+/** Shown over manual pages while the manual registry failed to load and effectivity filtering is off. */
+export function KnowledgeBaseNotice({ margin = '0 0 8px 0' }: { margin?: string }) {
+  const [degraded, setDegraded] = useState(isKnowledgeBaseDegraded);
+  useEffect(() => subscribeKnowledgeBase(() => setDegraded(isKnowledgeBaseDegraded())), []);
+  if (!degraded) return null;
+  return (
+    <div style={{ color: '#ffaa00', fontSize: 12, margin, lineHeight: 1.4 }}>
+      ⚠️ Manual registry unavailable: pages are not filtered by aircraft effectivity and may be for another model or serial. Check each page applies to this aircraft.
+    </div>
+  );
+}
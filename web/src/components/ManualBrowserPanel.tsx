@@ -0,0 +1,331 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { getManualRef, getManuals, loadKnowledgeBase, searchKB, type KBChunk, type ManualRef } from '../lib/knowledgeBase';
+import { isPinnedRef, type PersonProfile } from '../lib/rag';
+import { KnowledgeBaseNotice } from './KnowledgeBaseNotice';
+import { ManualRefLink } from './ManualRefLink';
+
+const glassStyle: React.CSSProperties = {
+  background: 'rgba(20, 20, 24, 0.75)',
+  backdropFilter: 'blur(16px)',
+  WebkitBackdropFilter: 'blur(16px)',
+  border: '1px solid rgba(255, 255, 255, 0.08)',
+  borderRadius: 16,
+  color: '#e8e8e8',
+};
+
+const chipStyle: React.CSSProperties = {
+  padding: '5px 10px',
+  borderRadius: 8,
+  border: '1px solid rgba(255,255,255,0.08)',
+  fontSize: 12,
+  cursor: 'pointer',
+};
+
+const MAX_RESULTS = 25;
+/** Characters of chunk text shown around the first query match */
+const SNIPPET_LENGTH = 160;
+
+interface ManualSection {
+  key: string;
+  section: string;
+  title: string;
+  chunks: KBChunk[];
+}
+
+interface ManualTree {
+  id: string;
+  name: string;
+  title: string;
+  sections: ManualSection[];
+}
+
+/** Loaded chunks by manual, then section (numeric order), pages ascending. */
+function buildTree(chunks: KBChunk[]): ManualTree[] {
+  return getManuals()
+    .map((manual) => {
+      const sections = new Map<string, ManualSection>();
+      for (const chunk of chunks) {
+        if (chunk.manual !== manual.id) continue;
+        const key = `${manual.id}:${chunk.section}`;
+        let section = sections.get(key);
+        if (!section) {
+          // "Engine – Extreme Weather" → "Engine": the section's own title, without the sub-topic
+          section = { key, section: chunk.section, title: chunk.sectionTitle.split(' – ')[0], chunks: [] };
+          sections.set(key, section);
+        }
+        section.chunks.push(chunk);
+      }
+      for (const section of sections.values()) section.chunks.sort((a, b) => a.page - b.page);
+      return {
+        id: manual.id,
+        name: manual.name,
+        title: manual.title,
+        sections: [...sections.values()].sort((a, b) => parseFloat(a.section) - parseFloat(b.section) || a.section.localeCompare(b.section)),
+      };
+    })
+    .filter((manual) => manual.sections.length > 0);
+}
+
+/** Chunk text around the first query word it contains (the start of the text when none). */
+function snippet(content: string, query: string): string {
+  const text = content.replace(/\s+/g, ' ');
+  const lower = text.toLowerCase();
+  const hit = query
+    .toLowerCase()
+    .split(/[^a-z0-9-]+/)
+    .filter((w) => w.length > 2)
+    .map((w) => lower.indexOf(w))
+    .filter((i) => i >= 0)
+    .sort((a, b) => a - b)[0];
+  const start = hit === undefined ? 0 : Math.max(0, hit - SNIPPET_LENGTH / 4);
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+}
+
+interface ChunkRowProps {
+  chunk: KBChunk;
+  query?: string;
+  pinned: ManualRef[];
+  canPin: boolean;
+  onTogglePin: (ref: ManualRef) => void;
+  onOpenRef: (ref: ManualRef) => void;
+}
+
+function ChunkRow({ chunk, query, pinned, canPin, onTogglePin, onOpenRef }: ChunkRowProps) {
+  const ref = getManualRef(chunk);
+  const isPinned = isPinnedRef(pinned, ref);
+  return (
+    <div style={{ padding: '8px 0', borderBottom: '1px solid rgba(255,255,255,0.05)' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+        <button
+          type="button"
+          onClick={() => onOpenRef(ref)}
+          style={{ flex: 1, minWidth: 0, background: 'none', border: 'none', padding: 0, textAlign: 'left', color: '#e8e8e8', fontSize: 13, cursor: 'pointer' }}
+        >
+          {chunk.figureTitle || chunk.sectionTitle}
+          <span style={{ color: '#888', fontSize: 11 }}>
+            {' '}· {chunk.component} · p.{chunk.page}
+            {chunk.figure ? `, Fig ${chunk.figure}` : ''}
+          </span>
+        </button>
+        {canPin && (
+          <button
+            type="button"
+            onClick={() => onTogglePin(ref)}
+            title={isPinned ? 'Unpin from the current task' : 'Pin to the current task'}
+            style={{
+              ...chipStyle,
+              padding: '3px 8px',
+              fontSize: 11,
+              background: isPinned ? 'rgba(0, 255, 136, 0.2)' : 'rgba(255,255,255,0.06)',
+              color: isPinned ? '#00ff88' : '#aaa',
+            }}
+          >
+            {isPinned ? '📌 Pinned' : 'Pin to task'}
+          </button>
+        )}
+      </div>
+      {query && <div style={{ fontSize: 11, color: '#999', marginTop: 4, lineHeight: 1.4 }}>{snippet(chunk.content, query)}</div>}
+    </div>
+  );
+}
+
+interface ManualBrowserPanelProps {
+  /** Pins go to this profile's task; none without a profile */
+  currentProfile: PersonProfile | null;
+  pinnedRefs: ManualRef[];
+  onTogglePin: (ref: ManualRef) => void;
+  onOpenManualRef: (ref: ManualRef) => void;
+  onClose: () => void;
+}
+
+/**
+ * Browse and search the loaded manuals without a detection: a section tree per manual, full-text
+ * search (the KB's BM25F ranking) with a manual filter, and pins to the current task.
+ */
+export function ManualBrowserPanel({ currentProfile, pinnedRefs, onTogglePin, onOpenManualRef, onClose }: ManualBrowserPanelProps) {
+  const [chunks, setChunks] = useState<KBChunk[] | null>(null);
+  const [query, setQuery] = useState('');
+  /** KBManualInfo.id, '' = all manuals */
+  const [manualFilter, setManualFilter] = useState('');
+  const [results, setResults] = useState<KBChunk[]>([]);
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set());
+
+  useEffect(() => {
+    let cancelled = false;
+    loadKnowledgeBase().then((kb) => !cancelled && setChunks(kb.chunks));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const trimmed = query.trim();
+  useEffect(() => {
+    if (!trimmed) {
+      setResults([]);
+      return;
+    }
+    let cancelled = false;
+    searchKB(trimmed, MAX_RESULTS, manualFilter ? { manual: manualFilter } : {}).then((result) => !cancelled && setResults(result.chunks));
+    return () => {
+      cancelled = true;
+    };
+  }, [trimmed, manualFilter]);
+
+  const tree = useMemo(() => buildTree(chunks ?? []), [chunks]);
+  const shownTree = manualFilter ? tree.filter((m) => m.id === manualFilter) : tree;
+
+  const toggleSection = (key: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const rowProps = { pinned: pinnedRefs, canPin: currentProfile !== null, onTogglePin, onOpenRef: onOpenManualRef };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 40,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: 'rgba(0,0,0,0.5)',
+        padding: 24,
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          ...glassStyle,
+          width: '100%',
+          maxWidth: 560,
+          height: '90vh',
+          display: 'flex',
+          flexDirection: 'column',
+          padding: 24,
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 16 }}>
+          <h2 style={{ margin: 0, fontSize: 18, fontWeight: 600, color: '#fff' }}>Manuals</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close"
+            style={{ background: 'none', border: 'none', color: '#888', fontSize: 22, cursor: 'pointer' }}
+          >
+            ×
+          </button>
+        </div>
+        <KnowledgeBaseNotice margin="0 0 10px 0" />
+
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search manuals (e.g. spark plug torque, oil pressure)"
+          aria-label="Search manuals"
+          autoFocus
+          style={{
+            width: '100%',
+            padding: 10,
+            marginBottom: 10,
+            background: 'rgba(0,0,0,0.3)',
+            border: '1px solid rgba(255,255,255,0.1)',
+            borderRadius: 8,
+            color: '#fff',
+            fontSize: 14,
+            boxSizing: 'border-box',
+          }}
+        />
+        <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap', marginBottom: 12 }}>
+          {[{ id: '', name: 'All manuals' }, ...tree].map((m) => (
+            <button
+              type="button"
+              key={m.id || 'all'}
+              onClick={() => setManualFilter(m.id)}
+              style={{
+                ...chipStyle,
+                background: manualFilter === m.id ? 'rgba(0, 255, 136, 0.2)' : 'rgba(255,255,255,0.06)',
+                borderColor: manualFilter === m.id ? 'rgba(0,255,136,0.5)' : 'rgba(255,255,255,0.08)',
+                color: '#fff',
+              }}
+            >
+              {m.name}
+            </button>
+          ))}
+        </div>
+
+        <div style={{ flex: 1, minHeight: 0, overflow: 'auto' }}>
+          {currentProfile && pinnedRefs.length > 0 && !trimmed && (
+            <div style={{ marginBottom: 16 }}>
+              <div style={{ fontSize: 11, color: '#00ff88', textTransform: 'uppercase', letterSpacing: '0.08em', marginBottom: 8 }}>
+                Pinned to {currentProfile.workContext?.workOrderNumber ?? `${currentProfile.name}'s task`}
+              </div>
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6 }}>
+                {pinnedRefs.map((ref) => (
+                  <span key={`${ref.manualName}:${ref.page}:${ref.chunkId}`} style={{ display: 'inline-flex', alignItems: 'center', gap: 4 }}>
+                    <ManualRefLink manualRef={ref} compact onOpenRef={onOpenManualRef} />
+                    <button
+                      type="button"
+                      onClick={() => onTogglePin(ref)}
+                      aria-label={`Unpin ${ref.manualName || 'SM'} p.${ref.page}`}
+                      style={{ background: 'none', border: 'none', color: '#888', fontSize: 14, cursor: 'pointer', padding: 0 }}
+                    >
+                      ×
+                    </button>
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {chunks === null ? (
+            <p style={{ fontSize: 13, color: '#888' }}>Loading manuals…</p>
+          ) : trimmed ? (
+            results.length > 0 ? (
+              results.map((chunk) => <ChunkRow key={chunk.id} chunk={chunk} query={trimmed} {...rowProps} />)
+            ) : (
+              <p style={{ fontSize: 13, color: '#888' }}>No manual pages match &quot;{trimmed}&quot;.</p>
+            )
+          ) : shownTree.length === 0 ? (
+            <p style={{ fontSize: 13, color: '#888' }}>No manuals are loaded for this aircraft.</p>
+          ) : (
+            shownTree.map((manual) => (
+              <div key={manual.id} style={{ marginBottom: 16 }}>
+                <div style={{ fontSize: 13, fontWeight: 600, color: '#4da6ff', marginBottom: 6 }}>
+                  📖 {manual.name} <span style={{ color: '#888', fontWeight: 400, fontSize: 11 }}>{manual.title}</span>
+                </div>
+                {manual.sections.map((section) => (
+                  <div key={section.key}>
+                    <button
+                      type="button"
+                      onClick={() => toggleSection(section.key)}
+                      aria-expanded={expanded.has(section.key)}
+                      style={{ display: 'block', width: '100%', padding: '6px 0', background: 'none', border: 'none', textAlign: 'left', color: '#ccc', fontSize: 13, cursor: 'pointer' }}
+                    >
+                      {expanded.has(section.key) ? '▾' : '▸'} Section {section.section}: {section.title}
+                      <span style={{ color: '#666', fontSize: 11 }}> ({section.chunks.length})</span>
+                    </button>
+                    {expanded.has(section.key) && (
+                      <div style={{ paddingLeft: 16 }}>
+                        {section.chunks.map((chunk) => (
+                          <ChunkRow key={chunk.id} chunk={chunk} {...rowProps} />
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { useEffect, useState } from 'react';
+import { withPage, type ManualRef } from '../lib/knowledgeBase';
+import { manualPdfUrl, renderFigureImage } from '../lib/manualPdf';
+
+interface ManualFigureProps {
+  manualRef: ManualRef;
+  /** Display width in CSS pixels */
+  width: number;
+  /** Open the figure's page in the in-app viewer */
+  onOpenRef?: (ref: ManualRef) => void;
+}
+
+/** A cited figure cropped out of the manual PDF (ManualRef.figureRegion), captioned with its number and page. */
+export function ManualFigure({ manualRef: mRef, width, onOpenRef }: ManualFigureProps) {
+  const [src, setSrc] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+  const region = mRef.figureRegion ?? null;
+  const page = region?.page ?? mRef.page;
+  const url = manualPdfUrl(mRef);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSrc(null);
+    setFailed(false);
+    renderFigureImage(url, page, region, width)
+      .then((image) => !cancelled && setSrc(image))
+      .catch(() => !cancelled && setFailed(true));
+    return () => {
+      cancelled = true;
+    };
+  }, [url, page, region, width]);
+
+  // No PDF served for this manual: the reference chips still link the page
+  if (failed) return null;
+
+  const figureRef = withPage(mRef, page);
+  const caption = `Fig ${mRef.figure ?? ''}${mRef.figureTitle ? ` — ${mRef.figureTitle}` : ''}`;
+  return (
+    <a
+      href={figureRef.pdfUrl}
+      target="_blank"
+      rel="noopener noreferrer"
+      onClick={(e) => {
+        if (onOpenRef && !e.metaKey && !e.ctrlKey && !e.shiftKey) {
+          e.preventDefault();
+          onOpenRef(figureRef);
+        }
+      }}
+      title={`Open ${mRef.manualName || 'SM'} page ${page}`}
+      style={{ display: 'block', textDecoration: 'none', color: 'inherit' }}
+    >
+      {src ? (
+        <img src={src} alt={caption} style={{ display: 'block', width, maxWidth: '100%', borderRadius: 8, background: '#fff' }} />
+      ) : (
+        <div style={{ width, maxWidth: '100%', height: 90, borderRadius: 8, background: 'rgba(255,255,255,0.04)', color: '#667', fontSize: 11, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+          Rendering figure…
+        </div>
+      )}
+      <div style={{ fontSize: 11, color: '#99a', marginTop: 4, lineHeight: 1.35 }}>
+        {caption} · {mRef.manualName || 'SM'} p.{page}
+      </div>
+    </a>
+  );
+}
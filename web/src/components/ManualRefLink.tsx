@@ -0,0 +1,54 @@
+import { describeSuperseded, formatRevision, type ManualRef } from '../lib/knowledgeBase';
+
+interface ManualRefLinkProps {
+  manualRef: ManualRef;
+  compact?: boolean;
+  /** Open in the in-app viewer; without it (or with a modifier key) the PDF opens in a new tab */
+  onOpenRef?: (ref: ManualRef) => void;
+}
+
+/** Citation chip for a manual page: "[Cessna SM] Section 2: … — p.377, Fig 2-4". */
+export function ManualRefLink({ manualRef: mRef, compact, onOpenRef }: ManualRefLinkProps) {
+  const fig = mRef.figure ? `, Fig ${mRef.figure}` : '';
+  const mName = mRef.manualName || 'SM';
+  const label = compact
+    ? `${mName} p.${mRef.page}${fig}`
+    : `[${mName}] Section ${mRef.section}: ${mRef.sectionTitle} — p.${mRef.page}${fig}${mRef.ata ? ` · ATA ${mRef.ata}` : ''}${mRef.revision ? ` · ${formatRevision(mRef.revision)}` : ''}`;
+  const stale = describeSuperseded(mRef);
+  return (
+    <a
+      href={mRef.pdfUrl}
+      target="_blank"
+      rel="noopener noreferrer"
+      onClick={(e) => {
+        e.stopPropagation();
+        if (onOpenRef && !e.metaKey && !e.ctrlKey && !e.shiftKey) {
+          e.preventDefault();
+          onOpenRef(mRef);
+        }
+      }}
+      style={{
+        display: 'inline-flex',
+        alignItems: 'center',
+        gap: 6,
+        padding: compact ? '3px 8px' : '6px 12px',
+        background: 'rgba(0, 150, 255, 0.12)',
+        border: `1px solid ${stale ? 'rgba(255, 170, 0, 0.6)' : 'rgba(0, 150, 255, 0.3)'}`,
+        borderRadius: 8,
+        color: '#4da6ff',
+        fontSize: compact ? 11 : 12,
+        fontWeight: 500,
+        textDecoration: 'none',
+        cursor: 'pointer',
+        transition: 'background 0.15s',
+      }}
+      onMouseEnter={(e) => { (e.target as HTMLElement).style.background = 'rgba(0, 150, 255, 0.25)'; }}
+      onMouseLeave={(e) => { (e.target as HTMLElement).style.background = 'rgba(0, 150, 255, 0.12)'; }}
+      title={`Open ${mName} page ${mRef.page}${mRef.figureTitle ? ` — ${mRef.figureTitle}` : ''}${stale ? ` (${stale})` : ''}`}
+    >
+      <span style={{ fontSize: compact ? 12 : 14 }}>{stale ? '⚠️' : '📖'}</span>
+      {label}
+      {stale && !compact && <span style={{ color: '#ffaa00', fontSize: 11 }}>superseded</span>}
+    </a>
+  );
+}
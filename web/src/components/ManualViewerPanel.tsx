@@ -0,0 +1,335 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import { describeSuperseded, getChunkById, type ManualRef } from '../lib/knowledgeBase';
+import { findPassageRects, loadManualPdf, manualPdfUrl, type HighlightRect } from '../lib/manualPdf';
+
+interface ManualViewerPanelProps {
+  /** Visited references, most recent last; the viewer shows the last one */
+  history: ManualRef[];
+  onBack: () => void;
+  onClose: () => void;
+}
+
+/** Relative to fit-to-width */
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 4;
+const ZOOM_STEP = 1.25;
+
+const buttonStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  background: 'rgba(255,255,255,0.08)',
+  border: '1px solid rgba(255,255,255,0.12)',
+  borderRadius: 10,
+  color: '#e0e0e0',
+  fontSize: 12,
+  cursor: 'pointer',
+};
+
+function clampZoom(zoom: number): number {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+}
+
+/**
+ * Embedded manual viewer: opens the cited page, highlights the cited passage, pinch / ctrl+wheel
+ * zoom, and a back-stack of visited references so technicians never leave the AR view.
+ */
+export function ManualViewerPanel({ history, onBack, onClose }: ManualViewerPanelProps) {
+  const ref = history[history.length - 1];
+  const previous = history.length > 1 ? history[history.length - 2] : null;
+  const url = manualPdfUrl(ref);
+  const [doc, setDoc] = useState<PDFDocumentProxy | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [page, setPage] = useState(ref.page);
+  const [pageInput, setPageInput] = useState(String(ref.page));
+  const [zoom, setZoom] = useState(1);
+  /** Live pinch factor applied as a CSS transform until the page re-renders at the new zoom */
+  const [pinch, setPinch] = useState(1);
+  const [containerWidth, setContainerWidth] = useState(0);
+  const [rendered, setRendered] = useState<{ width: number; height: number; scale: number } | null>(null);
+  const [highlights, setHighlights] = useState<HighlightRect[]>([]);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const zoomRef = useRef(zoom);
+  zoomRef.current = zoom;
+  const scrolledTo = useRef<HighlightRect[] | null>(null);
+
+  // Each reference opens at its cited page, fit to width
+  useEffect(() => {
+    setPage(ref.page);
+    setZoom(1);
+  }, [ref]);
+
+  useEffect(() => setPageInput(String(page)), [page]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setDoc(null);
+    setError(null);
+    loadManualPdf(url)
+      .then((d) => !cancelled && setDoc(d))
+      .catch((e) => !cancelled && setError(e instanceof Error ? e.message : 'Could not load manual'));
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setContainerWidth(el.clientWidth));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!doc || !canvas || !containerWidth) return;
+    let cancelled = false;
+    let task: RenderTask | null = null;
+    (async () => {
+      const pdfPage = await doc.getPage(Math.min(Math.max(page, 1), doc.numPages));
+      if (cancelled) return;
+      const base = pdfPage.getViewport({ scale: 1 });
+      const scale = (Math.max(containerWidth - 24, 200) / base.width) * zoom;
+      const viewport = pdfPage.getViewport({ scale: scale * (window.devicePixelRatio || 1) });
+      // Render off screen so the current page stays visible until the new one is ready
+      const offscreen = document.createElement('canvas');
+      offscreen.width = Math.floor(viewport.width);
+      offscreen.height = Math.floor(viewport.height);
+      task = pdfPage.render({ canvas: offscreen, viewport });
+      await task.promise;
+      if (cancelled) return;
+      canvas.width = offscreen.width;
+      canvas.height = offscreen.height;
+      canvas.getContext('2d')?.drawImage(offscreen, 0, 0);
+      canvas.style.width = `${base.width * scale}px`;
+      canvas.style.height = `${base.height * scale}px`;
+      setRendered({ width: base.width * scale, height: base.height * scale, scale });
+      setPinch(1);
+    })().catch((e) => {
+      if (!cancelled && e?.name !== 'RenderingCancelledException') setError(e instanceof Error ? e.message : 'Could not render page');
+    });
+    return () => {
+      cancelled = true;
+      task?.cancel();
+    };
+  }, [doc, page, zoom, containerWidth]);
+
+  // Highlight the cited chunk's text on its page
+  useEffect(() => {
+    setHighlights([]);
+    if (!doc || page !== ref.page) return;
+    const chunk = ref.chunkId ? getChunkById(ref.chunkId) : undefined;
+    if (!chunk) return;
+    let cancelled = false;
+    doc
+      .getPage(page)
+      .then((p) => findPassageRects(p, chunk.content))
+      .then((rects) => !cancelled && setHighlights(rects))
+      .catch((e) => console.warn('Passage highlight failed:', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [doc, page, ref]);
+
+  // Scroll the passage into view once per highlight
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el || !rendered || !highlights.length || scrolledTo.current === highlights) return;
+    scrolledTo.current = highlights;
+    el.scrollTo({ top: Math.max(0, Math.min(...highlights.map((r) => r.y)) * rendered.scale - 80), behavior: 'smooth' });
+  }, [highlights, rendered]);
+
+  // Two-finger pinch and trackpad pinch (ctrl+wheel); one finger keeps native scrolling
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    let startDistance: number | null = null;
+    let factor = 1;
+    const distance = (t: TouchList) => Math.hypot(t[0].clientX - t[1].clientX, t[0].clientY - t[1].clientY);
+    const onTouchStart = (e: TouchEvent) => {
+      if (e.touches.length === 2) {
+        startDistance = distance(e.touches);
+        factor = 1;
+      }
+    };
+    const onTouchMove = (e: TouchEvent) => {
+      if (!startDistance || e.touches.length !== 2) return;
+      e.preventDefault();
+      factor = clampZoom(zoomRef.current * (distance(e.touches) / startDistance)) / zoomRef.current;
+      setPinch(factor);
+    };
+    const onTouchEnd = (e: TouchEvent) => {
+      if (!startDistance || e.touches.length >= 2) return;
+      startDistance = null;
+      const next = clampZoom(zoomRef.current * factor);
+      if (Math.abs(next - zoomRef.current) < 0.01) setPinch(1);
+      else setZoom(next);
+    };
+    const onWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey) return;
+      e.preventDefault();
+      setZoom((z) => clampZoom(z * Math.exp(-e.deltaY / 200)));
+    };
+    el.addEventListener('touchstart', onTouchStart, { passive: true });
+    el.addEventListener('touchmove', onTouchMove, { passive: false });
+    el.addEventListener('touchend', onTouchEnd);
+    el.addEventListener('touchcancel', onTouchEnd);
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => {
+      el.removeEventListener('touchstart', onTouchStart);
+      el.removeEventListener('touchmove', onTouchMove);
+      el.removeEventListener('touchend', onTouchEnd);
+      el.removeEventListener('touchcancel', onTouchEnd);
+      el.removeEventListener('wheel', onWheel);
+    };
+  }, []);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const numPages = doc?.numPages ?? 0;
+  const goToPage = (n: number) => {
+    if (numPages && n >= 1 && n <= numPages) setPage(n);
+    else setPageInput(String(page));
+  };
+  const stale = describeSuperseded(ref);
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 45,
+        display: 'flex',
+        flexDirection: 'column',
+        background: 'rgba(10, 12, 16, 0.96)',
+        color: '#e8e8e8',
+      }}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Manual viewer"
+    >
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 10,
+          padding: '10px 16px',
+          background: 'rgba(0,0,0,0.35)',
+          borderBottom: '1px solid rgba(255,255,255,0.06)',
+        }}
+      >
+        <button
+          type="button"
+          onClick={onBack}
+          disabled={!previous}
+          title={previous ? `Back to ${previous.manualName || 'SM'} p.${previous.page}` : undefined}
+          style={{ ...buttonStyle, opacity: previous ? 1 : 0.4, cursor: previous ? 'pointer' : 'default' }}
+        >
+          ← {previous ? `${previous.manualName || 'SM'} p.${previous.page}` : 'Back'}
+        </button>
+        <div style={{ flex: 1, minWidth: 0 }}>
+          <div style={{ fontSize: 13, fontWeight: 600, color: '#4da6ff', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+            📖 {ref.manualName || 'SM'} · Section {ref.section}: {ref.sectionTitle}
+          </div>
+          <div style={{ fontSize: 11, color: '#888' }}>
+            Cited p.{ref.page}
+            {ref.figure ? ` · Fig ${ref.figure}` : ''}
+            {stale && <span style={{ color: '#ffaa00' }}> · ⚠️ {stale}</span>}
+          </div>
+        </div>
+        <button type="button" onClick={onClose} style={buttonStyle}>
+          Close
+        </button>
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '8px 16px', flexWrap: 'wrap', fontSize: 12 }}>
+        <button type="button" onClick={() => goToPage(page - 1)} disabled={page <= 1} style={buttonStyle} aria-label="Previous page">
+          ‹
+        </button>
+        <input
+          value={pageInput}
+          inputMode="numeric"
+          onChange={(e) => setPageInput(e.target.value.replace(/\D/g, ''))}
+          onBlur={() => goToPage(Number(pageInput))}
+          onKeyDown={(e) => e.key === 'Enter' && goToPage(Number(pageInput))}
+          aria-label="Page"
+          style={{
+            width: 48,
+            padding: '5px 6px',
+            background: 'rgba(0,0,0,0.4)',
+            color: '#fff',
+            border: '1px solid rgba(255,255,255,0.12)',
+            borderRadius: 6,
+            textAlign: 'center',
+            fontSize: 12,
+          }}
+        />
+        <span style={{ color: '#888' }}>/ {numPages || '…'}</span>
+        <button type="button" onClick={() => goToPage(page + 1)} disabled={!numPages || page >= numPages} style={buttonStyle} aria-label="Next page">
+          ›
+        </button>
+        {page !== ref.page && (
+          <button type="button" onClick={() => setPage(ref.page)} style={{ ...buttonStyle, color: '#4da6ff' }}>
+            Cited page
+          </button>
+        )}
+        <span style={{ marginLeft: 'auto', display: 'flex', gap: 6, alignItems: 'center' }}>
+          <button type="button" onClick={() => setZoom((z) => clampZoom(z / ZOOM_STEP))} style={buttonStyle} aria-label="Zoom out">
+            −
+          </button>
+          <button type="button" onClick={() => setZoom(1)} style={buttonStyle} title="Fit to width">
+            {Math.round(zoom * pinch * 100)}%
+          </button>
+          <button type="button" onClick={() => setZoom((z) => clampZoom(z * ZOOM_STEP))} style={buttonStyle} aria-label="Zoom in">
+            +
+          </button>
+          <a href={ref.pdfUrl} target="_blank" rel="noopener noreferrer" style={{ color: '#888', fontSize: 11, marginLeft: 6 }}>
+            Open PDF
+          </a>
+        </span>
+      </div>
+
+      <div ref={scrollRef} style={{ position: 'relative', flex: 1, minHeight: 0, overflow: 'auto', padding: 12, touchAction: 'pan-x pan-y' }}>
+        {error && <p style={{ color: '#ff8866' }}>{error}</p>}
+        {!doc && !error && <p style={{ color: '#888' }}>Loading manual…</p>}
+        <div
+          style={{
+            position: 'relative',
+            width: rendered?.width,
+            height: rendered?.height,
+            margin: '0 auto',
+            transform: pinch !== 1 ? `scale(${pinch})` : undefined,
+            transformOrigin: 'top center',
+            display: doc && !error ? 'block' : 'none',
+          }}
+        >
+          <canvas ref={canvasRef} style={{ display: 'block', background: '#fff' }} />
+          {rendered &&
+            highlights.map((r, i) => (
+              <div
+                key={i}
+                style={{
+                  position: 'absolute',
+                  left: r.x * rendered.scale - 2,
+                  top: r.y * rendered.scale - 1,
+                  width: r.width * rendered.scale + 4,
+                  height: r.height * rendered.scale + 2,
+                  background: 'rgba(255, 221, 0, 0.35)',
+                  mixBlendMode: 'multiply',
+                  borderRadius: 2,
+                  pointerEvents: 'none',
+                }}
+              />
+            ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,17 +1,20 @@
 import { useEffect, useRef } from 'react';
-import type { DetectedItem } from '../lib/detection';
+import type { TrackedItem } from '../lib/tracking';
 import type { OverlaySnippet } from '../lib/overlayRelevance';
 
+/** Below this confidence the box is dashed and the tag turns amber: the model is guessing. */
+const LOW_CONFIDENCE = 0.6;
+
 interface OverlayCanvasProps {
   width: number;
   height: number;
-  items: DetectedItem[];
-  focusedLabel: string | null;
-  /** Per-label emphasis and badge/line from RAG profile */
+  items: TrackedItem[];
+  focusedTrackId: string | null;
+  /** Per-track emphasis and badge/line from RAG profile, keyed by trackId */
   snippets?: Record<string, OverlaySnippet>;
 }
 
-export function OverlayCanvas({ width, height, items, focusedLabel, snippets = {} }: OverlayCanvasProps) {
+export function OverlayCanvas({ width, height, items, focusedTrackId, snippets = {} }: OverlayCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
   useEffect(() => {
@@ -23,8 +26,8 @@ export function OverlayCanvas({ width, height, items, focusedLabel, snippets = {
     ctx.clearRect(0, 0, width, height);
 
     for (const item of items) {
-      const isFocused = item.label === focusedLabel;
-      const snip = snippets[item.label];
+      const isFocused = item.trackId === focusedTrackId;
+      const snip = snippets[item.trackId];
       const emphasis = snip?.emphasis ?? 'none';
       const hasEmphasis = emphasis === 'high' || (emphasis === 'medium' || isFocused);
 
@@ -33,13 +36,33 @@ export function OverlayCanvas({ width, height, items, focusedLabel, snippets = {
       const w = item.bbox.width * width;
       const h = item.bbox.height * height;
 
-      const strokeColor = isFocused ? '#00ff88' : hasEmphasis ? 'rgba(0, 255, 136, 0.95)' : 'rgba(0, 255, 136, 0.6)';
-      const lineWidth = isFocused ? 4 : hasEmphasis ? 3 : 2;
+      const confidence = item.confidence;
+      const isLowConfidence = confidence != null && confidence < LOW_CONFIDENCE;
+      // The current task card step's component stands out in white
+      const isCurrentStep = Boolean(snip?.currentStep);
+      const strokeColor = isCurrentStep ? '#ffffff' : isFocused ? '#00ff88' : hasEmphasis ? 'rgba(0, 255, 136, 0.95)' : 'rgba(0, 255, 136, 0.6)';
+      const lineWidth = isFocused || isCurrentStep ? 4 : hasEmphasis ? 3 : 2;
       ctx.strokeStyle = strokeColor;
       ctx.lineWidth = lineWidth;
-      ctx.strokeRect(x, y, w, h);
+      // Box opacity follows confidence; dashed when the model is unsure
+      ctx.globalAlpha = confidence != null ? 0.35 + 0.65 * confidence : 1;
+      ctx.setLineDash(isLowConfidence ? [6, 4] : []);
+      if (item.polygon) {
+        // Outline instead of the box: a strut's box covers half the frame
+        ctx.beginPath();
+        item.polygon.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x * width, p.y * height) : ctx.lineTo(p.x * width, p.y * height)));
+        ctx.closePath();
+        ctx.fillStyle = isFocused ? 'rgba(0, 255, 136, 0.18)' : 'rgba(0, 255, 136, 0.08)';
+        ctx.fill();
+        ctx.stroke();
+      } else {
+        ctx.strokeRect(x, y, w, h);
+      }
+      ctx.setLineDash([]);
+      ctx.globalAlpha = 1;
 
-      const labelText = item.label.slice(0, 20);
+      const confidenceText = confidence != null ? ` ${Math.round(confidence * 100)}%` : '';
+      const labelText = item.label.slice(0, 20) + confidenceText;
       const badge = snip?.badge;
       const line = snip?.line;
       ctx.font = '13px system-ui, sans-serif';
@@ -47,7 +70,7 @@ export function OverlayCanvas({ width, height, items, focusedLabel, snippets = {
       let topOffset = 0;
       if (badge) {
         const badgeW = Math.max(ctx.measureText(badge).width + 10, 60);
-        ctx.fillStyle = 'rgba(0, 255, 136, 0.9)';
+        ctx.fillStyle = isCurrentStep ? 'rgba(255, 255, 255, 0.95)' : 'rgba(0, 255, 136, 0.9)';
         ctx.fillRect(x, y - 38, badgeW, 18);
         ctx.fillStyle = '#000';
         ctx.fillText(badge, x + 5, y - 25);
@@ -56,7 +79,7 @@ export function OverlayCanvas({ width, height, items, focusedLabel, snippets = {
       ctx.fillStyle = 'rgba(0,0,0,0.65)';
       const tw = ctx.measureText(labelText).width;
       ctx.fillRect(x, y - 22 - topOffset, tw + 8, 20);
-      ctx.fillStyle = '#00ff88';
+      ctx.fillStyle = isLowConfidence ? '#ffaa00' : '#00ff88';
       ctx.fillText(labelText, x + 4, y - 8 - topOffset);
 
       if (line) {
@@ -66,13 +89,26 @@ export function OverlayCanvas({ width, height, items, focusedLabel, snippets = {
         const lw = Math.min(ctx.measureText(displayLine).width + 14, w + 40);
         // Use blue tint for manual references, green for other relevance
         const isManualRef = line.includes(' p.') && /\b(SM|OM|Cessna|O-320)\b/.test(line);
+        // Amber when the cited page is from a superseded manual revision
+        const isSuperseded = isManualRef && snip?.manualRef?.superseded;
         ctx.fillStyle = isManualRef ? 'rgba(0, 30, 60, 0.82)' : 'rgba(0,0,0,0.75)';
         ctx.fillRect(x, y + h + 2, lw, 18);
-        ctx.fillStyle = isManualRef ? 'rgba(77, 166, 255, 0.95)' : 'rgba(0,255,136,0.95)';
-        ctx.fillText(isManualRef ? `📖 ${displayLine}` : displayLine, x + 5, y + h + 14);
+        ctx.fillStyle = isSuperseded ? 'rgba(255, 170, 0, 0.95)' : isManualRef ? 'rgba(77, 166, 255, 0.95)' : 'rgba(0,255,136,0.95)';
+        ctx.fillText(isManualRef ? `${isSuperseded ? '⚠️' : '📖'} ${displayLine}` : displayLine, x + 5, y + h + 14);
+      }
+
+      if (snip?.lastInspected) {
+        // Below the manual line (or in its place): when this part was last signed off on this aircraft
+        const text = `Last inspected ${snip.lastInspected}`;
+        const top = y + h + 2 + (line ? 20 : 0);
+        ctx.font = '11px system-ui, sans-serif';
+        ctx.fillStyle = 'rgba(0,0,0,0.75)';
+        ctx.fillRect(x, top, ctx.measureText(text).width + 10, 18);
+        ctx.fillStyle = 'rgba(220,220,220,0.95)';
+        ctx.fillText(text, x + 5, top + 12);
       }
     }
-  }, [width, height, items, focusedLabel, snippets]);
+  }, [width, height, items, focusedTrackId, snippets]);
 
   return (
     <canvas
@@ -0,0 +1,66 @@
+import type { ProcedureState } from '../lib/procedureRunner';
+import type { TaskCard } from '../lib/taskCard';
+
+interface ProcedureBannerProps {
+  card: TaskCard;
+  state: ProcedureState;
+  /** Last thing the runner said, e.g. why a sign-off was refused */
+  message: string;
+  /** Listening for a command (not speaking) */
+  listening: boolean;
+  onStop: () => void;
+}
+
+/** Guided procedure status over the camera view: the safety item to confirm or the current step, and the voice commands. */
+export function ProcedureBanner({ card, state, message, listening, onStop }: ProcedureBannerProps) {
+  const safety = state.pendingSafety[0];
+  const step = card.steps[state.stepIndex];
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        bottom: 24,
+        left: '50%',
+        transform: 'translateX(-50%)',
+        width: 'min(560px, calc(100% - 32px))',
+        padding: '12px 16px',
+        background: 'rgba(18,20,24,0.88)',
+        backdropFilter: 'blur(16px)',
+        WebkitBackdropFilter: 'blur(16px)',
+        border: `1px solid ${safety ? 'rgba(255,170,0,0.6)' : 'rgba(255,255,255,0.25)'}`,
+        borderRadius: 14,
+        color: '#e8e8e8',
+        zIndex: 14,
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'flex-start', gap: 10 }}>
+        <div style={{ flex: 1, minWidth: 0 }}>
+          {safety ? (
+            <div style={{ fontSize: 14, fontWeight: 600, color: '#ffaa00' }}>
+              ⚠️ Confirm before starting: {safety.item}
+              {safety.notes ? <span style={{ fontWeight: 400, color: '#ccc' }}> ({safety.notes})</span> : null}
+            </div>
+          ) : step ? (
+            <div style={{ fontSize: 14, fontWeight: 600, color: '#fff', lineHeight: 1.4 }}>
+              Step {state.stepIndex + 1}/{card.steps.length}: {step.instruction}
+              {step.rii && <span style={{ marginLeft: 6, fontSize: 10, color: '#000', background: '#ffaa00', borderRadius: 4, padding: '1px 5px' }}>RII</span>}
+            </div>
+          ) : null}
+          {!safety && step?.torque && <div style={{ fontSize: 12, color: '#ccc', marginTop: 4 }}>Torque: {step.torque}</div>}
+          {message && <div style={{ fontSize: 11, color: '#999', marginTop: 6, lineHeight: 1.4 }}>{message}</div>}
+          <div style={{ fontSize: 11, color: listening ? '#00ff88' : '#888', marginTop: 6 }}>
+            {listening ? '🎙 Say ' : 'Speaking… then say '}
+            {safety ? '"confirmed"' : '"done", "next", "repeat"'} · "stop procedure" · "Flightsight" for a question
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={onStop}
+          style={{ padding: '6px 12px', background: 'rgba(255,255,255,0.08)', border: '1px solid rgba(255,255,255,0.12)', borderRadius: 8, color: '#ccc', fontSize: 12, cursor: 'pointer' }}
+        >
+          Stop
+        </button>
+      </div>
+    </div>
+  );
+}
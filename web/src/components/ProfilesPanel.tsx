@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import type { PersonProfile } from '../lib/rag';
-import { PRESET_PROFILES, loadCustomProfiles, saveCustomProfiles, type Certification } from '../lib/rag';
+import { PRESET_PROFILES, getAnswerMode, loadCustomProfiles, saveAnswerMode, saveCustomProfiles, withImportedWork, type AnswerMode, type Certification } from '../lib/rag';
+import { applyWorkOrderImport, parseWorkOrders, planWorkOrderImport, type WorkOrderImportPlan } from '../lib/workOrderImport';
 
 const CERTIFICATION_OPTIONS: { value: Certification; label: string }[] = [
   { value: 'ap_mechanic', label: 'A&P Mechanic' },
@@ -13,6 +14,11 @@ const CERTIFICATION_OPTIONS: { value: Certification; label: string }[] = [
   { value: 'welding_certified', label: 'Welding Certified' },
 ];
 
+const ANSWER_MODE_OPTIONS: { value: AnswerMode; label: string; hint: string }[] = [
+  { value: 'grounded', label: 'Grounded', hint: 'Torque, gaps, pressures and limits only from the loaded manuals; otherwise "not in loaded manuals"' },
+  { value: 'open', label: 'Open', hint: 'Manual data first, general knowledge where the manuals are silent' },
+];
+
 const glassStyle: React.CSSProperties = {
   background: 'rgba(20, 20, 24, 0.75)',
   backdropFilter: 'blur(16px)',
@@ -22,6 +28,67 @@ const glassStyle: React.CSSProperties = {
   color: '#e8e8e8',
 };
 
+const ISSUE_COLORS = { error: '#ff8866', warning: '#ffaa00' };
+
+/** Dry run of a work order import: what goes to which profile, and every row issue. Nothing is saved until Import. */
+function ImportPreview({ plan, fileName, onApply, onCancel }: { plan: WorkOrderImportPlan; fileName: string; onApply: () => void; onCancel: () => void }) {
+  const issues = [...plan.issues].sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+  return (
+    <div style={{ marginTop: 10, border: '1px solid rgba(255,255,255,0.1)', borderRadius: 12, padding: 12 }}>
+      <div style={{ fontSize: 12, color: '#fff', fontWeight: 600, marginBottom: 4 }}>Preview: {fileName}</div>
+      <div style={{ fontSize: 11, color: '#888', marginBottom: 8 }}>Dry run — nothing is saved until you import.</div>
+      {plan.actions.map(({ workOrder, action, profileName }) => (
+        <div key={workOrder.workOrderNumber} style={{ fontSize: 12, padding: '6px 0', borderTop: '1px solid rgba(255,255,255,0.06)' }}>
+          <div style={{ color: '#fff' }}>
+            {workOrder.workOrderNumber}
+            {workOrder.tailNumber ? ` · ${workOrder.tailNumber}` : ''}
+            {workOrder.aircraftType ? ` · ${workOrder.aircraftType}` : ''}
+            <span style={{ color: action === 'create' ? '#00ff88' : '#ccc' }}> → {action === 'create' ? `new profile ${profileName}` : profileName}</span>
+          </div>
+          <div style={{ fontSize: 11, color: '#888', marginTop: 2 }}>
+            {workOrder.steps.length} steps{workOrder.steps.some((s) => s.rii) ? ` (${workOrder.steps.filter((s) => s.rii).length} RII)` : ''} · {workOrder.squawks.length} squawks · {workOrder.source}
+          </div>
+        </div>
+      ))}
+      {issues.length > 0 && (
+        <div style={{ maxHeight: 160, overflow: 'auto', marginTop: 8, paddingTop: 8, borderTop: '1px solid rgba(255,255,255,0.06)' }}>
+          {issues.map((issue, i) => (
+            <div key={i} style={{ fontSize: 11, color: ISSUE_COLORS[issue.severity], marginBottom: 4, lineHeight: 1.4 }}>
+              {issue.severity === 'error' ? '✕' : '⚠'} {issue.where}: {issue.message}
+            </div>
+          ))}
+        </div>
+      )}
+      <div style={{ display: 'flex', gap: 8, marginTop: 10 }}>
+        <button
+          type="button"
+          onClick={onApply}
+          disabled={plan.actions.length === 0}
+          style={{
+            flex: 1,
+            padding: 10,
+            background: plan.actions.length ? '#00ff88' : 'rgba(255,255,255,0.1)',
+            color: plan.actions.length ? '#000' : '#666',
+            border: 'none',
+            borderRadius: 8,
+            fontWeight: 600,
+            cursor: plan.actions.length ? 'pointer' : 'default',
+          }}
+        >
+          Import {plan.actions.length} work order{plan.actions.length === 1 ? '' : 's'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          style={{ padding: 10, background: 'rgba(255,255,255,0.1)', color: '#ccc', border: 'none', borderRadius: 8, cursor: 'pointer' }}
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
 interface ProfilesPanelProps {
   currentProfile: PersonProfile | null;
   onSelectProfile: (p: PersonProfile) => void;
@@ -39,10 +106,43 @@ export function ProfilesPanel({ currentProfile, onSelectProfile, onClose }: Prof
   const [newNotes, setNewNotes] = useState('');
   const [newAircraftType, setNewAircraftType] = useState('');
   const [newTailNumber, setNewTailNumber] = useState('');
+  const [newSerial, setNewSerial] = useState('');
   const [newMaintenanceType, setNewMaintenanceType] = useState('');
   const [newWorkNotes, setNewWorkNotes] = useState('');
+  /** null = the default for the chosen certifications */
+  const [newAnswerMode, setNewAnswerMode] = useState<AnswerMode | null>(null);
+  // Answer modes live in localStorage; bumped to re-render after a change
+  const [, setAnswerModeVersion] = useState(0);
+  const currentAnswerMode = getAnswerMode(currentProfile);
+  const [importPlan, setImportPlan] = useState<WorkOrderImportPlan | null>(null);
+  const [importFileName, setImportFileName] = useState('');
+  const [importMessage, setImportMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const allProfiles = [...PRESET_PROFILES, ...customProfiles].map(withImportedWork);
 
-  const allProfiles = [...PRESET_PROFILES, ...customProfiles];
+  const previewImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImportMessage(null);
+    setImportFileName(file.name);
+    file
+      .text()
+      .then((text) => parseWorkOrders(text, file.name))
+      .then((result) => setImportPlan(planWorkOrderImport(result, allProfiles, currentProfile)))
+      .catch((err) => setImportMessage({ text: err instanceof Error ? err.message : 'Could not read the file', error: true }));
+  };
+
+  const applyImport = () => {
+    if (!importPlan) return;
+    const imported = applyWorkOrderImport(importPlan, allProfiles);
+    setCustomProfiles(loadCustomProfiles());
+    setImportPlan(null);
+    setImportMessage({ text: `Imported ${imported.length} work order${imported.length === 1 ? '' : 's'} from ${importFileName}`, error: false });
+    // The current profile's work changed: hand the new version to the app
+    const current = imported.find((p) => p.id === currentProfile?.id);
+    if (current) onSelectProfile(current);
+  };
 
   const toggleCertification = (v: Certification) => {
     setNewCertifications((prev) => (prev.includes(v) ? prev.filter((x) => x !== v) : [...prev, v]));
@@ -68,11 +168,13 @@ export function ProfilesPanel({ currentProfile, onSelectProfile, onClose }: Prof
       safetyRequirements,
       taskCardItems,
       notes: newNotes.trim() || undefined,
+      answerMode: newAnswerMode ?? undefined,
       workContext:
-        newAircraftType.trim() || newTailNumber.trim() || maintenanceType.length > 0 || newWorkNotes.trim()
+        newAircraftType.trim() || newTailNumber.trim() || newSerial.trim() || maintenanceType.length > 0 || newWorkNotes.trim()
           ? {
               aircraftType: newAircraftType.trim() || undefined,
               aircraftTailNumber: newTailNumber.trim() || undefined,
+              aircraftSerial: newSerial.trim() || undefined,
               maintenanceType: maintenanceType.length > 0 ? maintenanceType : undefined,
               workNotes: newWorkNotes.trim() || undefined,
             }
@@ -90,8 +192,10 @@ export function ProfilesPanel({ currentProfile, onSelectProfile, onClose }: Prof
     setNewNotes('');
     setNewAircraftType('');
     setNewTailNumber('');
+    setNewSerial('');
     setNewMaintenanceType('');
     setNewWorkNotes('');
+    setNewAnswerMode(null);
     onSelectProfile(profile);
   };
 
@@ -155,7 +259,7 @@ export function ProfilesPanel({ currentProfile, onSelectProfile, onClose }: Prof
                 {p.certifications.length ? `${p.certifications.join(', ')} · ` : ''}
                 {p.experienceLevel ? 'Senior · ' : ''}
                 {p.safetyRequirements.length ? `${p.safetyRequirements.length} safety items · ` : ''}
-                {p.taskCardItems.length ? `${p.taskCardItems.length} on task card` : ''}
+                {p.taskCard ? `${p.taskCard.steps.length}-step task card` : p.taskCardItems.length ? `${p.taskCardItems.length} on task card` : ''}
               </div>
               {p.workContext && (p.workContext.aircraftType || p.workContext.workOrderNumber || p.workContext.maintenanceType?.length || p.workContext.workNotes) && (
                 <div style={{ fontSize: 10, color: '#666', marginTop: 6, paddingTop: 6, borderTop: '1px solid rgba(255,255,255,0.06)' }}>
@@ -167,6 +271,61 @@ export function ProfilesPanel({ currentProfile, onSelectProfile, onClose }: Prof
             </button>
           ))}
         </div>
+        {currentProfile && (
+          <div style={{ marginBottom: 20 }}>
+            <div style={{ fontSize: 11, color: '#888', marginBottom: 6 }}>Answer mode for {currentProfile.name}</div>
+            <div style={{ display: 'flex', gap: 6 }}>
+              {ANSWER_MODE_OPTIONS.map((o) => (
+                <button
+                  type="button"
+                  key={o.value}
+                  title={o.hint}
+                  onClick={() => {
+                    saveAnswerMode(currentProfile.id, o.value);
+                    setAnswerModeVersion((v) => v + 1);
+                  }}
+                  style={{
+                    flex: 1,
+                    padding: '8px 10px',
+                    background: currentAnswerMode === o.value ? 'rgba(0, 255, 136, 0.2)' : 'rgba(255,255,255,0.06)',
+                    border: `1px solid ${currentAnswerMode === o.value ? 'rgba(0,255,136,0.5)' : 'rgba(255,255,255,0.08)'}`,
+                    borderRadius: 8,
+                    color: '#fff',
+                    fontSize: 12,
+                    cursor: 'pointer',
+                  }}
+                >
+                  {o.label}
+                </button>
+              ))}
+            </div>
+            <div style={{ fontSize: 11, color: '#666', marginTop: 6 }}>
+              {ANSWER_MODE_OPTIONS.find((o) => o.value === currentAnswerMode)?.hint}
+            </div>
+          </div>
+        )}
+        <div style={{ marginBottom: 20 }}>
+          <label
+            style={{
+              display: 'block',
+              padding: 10,
+              textAlign: 'center',
+              background: 'rgba(255,255,255,0.06)',
+              border: '1px dashed rgba(255,255,255,0.2)',
+              borderRadius: 12,
+              color: '#888',
+              fontSize: 13,
+              cursor: 'pointer',
+            }}
+          >
+            ⇪ Import work orders (CSV / JSON from the MRO system)
+            <input type="file" accept=".csv,.json,text/csv,application/json" onChange={previewImport} style={{ display: 'none' }} aria-label="Import work orders" />
+          </label>
+          {importMessage && (
+            <p style={{ fontSize: 12, color: importMessage.error ? '#ff8866' : '#00ff88', margin: '8px 0 0 0' }}>{importMessage.text}</p>
+          )}
+          {importPlan && <ImportPreview plan={importPlan} fileName={importFileName} onApply={applyImport} onCancel={() => setImportPlan(null)} />}
+        </div>
         {!adding ? (
           <button
             type="button"
@@ -223,6 +382,14 @@ export function ProfilesPanel({ currentProfile, onSelectProfile, onClose }: Prof
               />
               <span style={{ fontSize: 13 }}>Senior technician / lead mechanic</span>
             </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 12, cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={(newAnswerMode ?? (newCertifications.includes('ia_inspector') ? 'grounded' : 'open')) === 'grounded'}
+                onChange={(e) => setNewAnswerMode(e.target.checked ? 'grounded' : 'open')}
+              />
+              <span style={{ fontSize: 13 }}>Grounded answers (specs only from the loaded manuals)</span>
+            </label>
             <input
               type="text"
               placeholder="Safety requirements (e.g. Safety glasses, Hearing protection)"
@@ -285,6 +452,21 @@ export function ProfilesPanel({ currentProfile, onSelectProfile, onClose }: Prof
                 color: '#fff',
               }}
             />
+            <input
+              type="text"
+              placeholder="Serial number (optional, for manual effectivity)"
+              value={newSerial}
+              onChange={(e) => setNewSerial(e.target.value)}
+              style={{
+                width: '100%',
+                padding: 10,
+                marginBottom: 8,
+                background: 'rgba(0,0,0,0.3)',
+                border: '1px solid rgba(255,255,255,0.1)',
+                borderRadius: 8,
+                color: '#fff',
+              }}
+            />
             <input
               type="text"
               placeholder="Maintenance type (e.g. scheduled, inspection, AD compliance)"
@@ -0,0 +1,176 @@
+import { useEffect, useState } from 'react';
+import type { SessionRecording } from '../lib/sessionRecording';
+import { replaySession, type ReplayResult } from '../lib/sessionReplay';
+import { OverlayCanvas } from './OverlayCanvas';
+
+interface ReplayViewerProps {
+  recording: SessionRecording;
+  onClose: () => void;
+}
+
+/** Plays a recorded session offline: recorded frames with the replayed tracker output drawn on top. */
+export function ReplayViewer({ recording, onClose }: ReplayViewerProps) {
+  const [result, setResult] = useState<ReplayResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [frameSize, setFrameSize] = useState({ w: 320, h: 180 });
+
+  useEffect(() => {
+    let cancelled = false;
+    replaySession(recording)
+      .then((r) => {
+        if (cancelled) return;
+        setResult(r);
+        setIndex(0);
+        setPlaying(r.frames.length > 1);
+      })
+      .catch((e) => !cancelled && setError(e instanceof Error ? e.message : 'Replay failed'));
+    return () => {
+      cancelled = true;
+    };
+  }, [recording]);
+
+  // Advance at the recorded pace
+  useEffect(() => {
+    if (!playing || !result) return;
+    const frames = result.frames;
+    if (index >= frames.length - 1) {
+      setPlaying(false);
+      return;
+    }
+    const id = window.setTimeout(() => setIndex((i) => i + 1), frames[index + 1].t - frames[index].t);
+    return () => clearTimeout(id);
+  }, [playing, index, result]);
+
+  const frame = result?.frames[index] ?? null;
+  const mismatches = result?.mismatches ?? [];
+  const recentMismatches = frame ? mismatches.filter((m) => m.t <= frame.t).slice(-5) : [];
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 40,
+        display: 'flex',
+        flexDirection: 'column',
+        background: '#000',
+      }}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Session replay"
+    >
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 12,
+          padding: '12px 16px',
+          background: 'rgba(0,0,0,0.35)',
+          borderBottom: '1px solid rgba(255,255,255,0.06)',
+        }}
+      >
+        <span style={{ fontSize: 11, color: '#888', textTransform: 'uppercase', letterSpacing: '0.08em' }}>Replay</span>
+        <span style={{ fontSize: 12, color: '#ccc' }}>{recording.startedAt ? new Date(recording.startedAt).toLocaleString() : 'Recorded session'}</span>
+        {result && (
+          <span style={{ fontSize: 12, color: mismatches.length ? '#ffaa00' : '#00ff88' }}>
+            {mismatches.length ? `${mismatches.length} tracking mismatches` : 'Tracking matches recording'}
+          </span>
+        )}
+        <button
+          type="button"
+          onClick={onClose}
+          style={{
+            marginLeft: 'auto',
+            padding: '6px 14px',
+            background: 'rgba(255,255,255,0.08)',
+            border: '1px solid rgba(255,255,255,0.12)',
+            borderRadius: 10,
+            color: '#e0e0e0',
+            fontSize: 12,
+            cursor: 'pointer',
+          }}
+        >
+          Close
+        </button>
+      </div>
+      <div style={{ position: 'relative', flex: 1, minHeight: 0 }}>
+        {error && <p style={{ color: '#ff8866', padding: 16 }}>{error}</p>}
+        {!result && !error && <p style={{ color: '#888', padding: 16 }}>Replaying session…</p>}
+        {frame && (
+          <>
+            <img
+              src={`data:image/jpeg;base64,${frame.jpeg}`}
+              alt="Recorded frame"
+              onLoad={(e) => setFrameSize({ w: e.currentTarget.naturalWidth, h: e.currentTarget.naturalHeight })}
+              style={{ width: '100%', height: '100%', objectFit: 'contain' }}
+            />
+            <div style={{ position: 'absolute', inset: 0, pointerEvents: 'none' }}>
+              <OverlayCanvas width={frameSize.w} height={frameSize.h} items={frame.tracks} focusedTrackId={null} />
+            </div>
+          </>
+        )}
+        {recentMismatches.length > 0 && (
+          <div
+            style={{
+              position: 'absolute',
+              left: 16,
+              bottom: 16,
+              maxWidth: 360,
+              padding: 10,
+              background: 'rgba(18,20,24,0.78)',
+              border: '1px solid rgba(255,170,0,0.3)',
+              borderRadius: 12,
+              fontSize: 11,
+              color: '#ffcc66',
+            }}
+          >
+            {recentMismatches.map((m, i) => (
+              <div key={`${m.detection}-${i}`}>
+                {(m.t / 1000).toFixed(1)}s · {m.message}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+      {result && result.frames.length > 0 && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: 12, padding: '10px 16px', background: 'rgba(0,0,0,0.35)' }}>
+          <button
+            type="button"
+            onClick={() => {
+              if (!playing && index >= result.frames.length - 1) setIndex(0);
+              setPlaying((p) => !p);
+            }}
+            style={{
+              padding: '6px 14px',
+              background: playing ? 'rgba(0,255,136,0.25)' : 'rgba(255,255,255,0.08)',
+              border: '1px solid rgba(0,255,136,0.4)',
+              borderRadius: 8,
+              color: '#00ff88',
+              fontSize: 12,
+              cursor: 'pointer',
+            }}
+          >
+            {playing ? 'Pause' : 'Play'}
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={result.frames.length - 1}
+            value={index}
+            onChange={(e) => {
+              setPlaying(false);
+              setIndex(Number(e.target.value));
+            }}
+            aria-label="Replay position"
+            style={{ flex: 1 }}
+          />
+          <span style={{ fontSize: 11, color: '#888', minWidth: 48, textAlign: 'right' }}>
+            {frame ? `${(frame.t / 1000).toFixed(1)}s` : ''}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,330 @@
+import React, { useState } from 'react';
+import type { ManualRef } from '../lib/knowledgeBase';
+import { PRESET_PROFILES, loadCustomProfiles, type PersonProfile } from '../lib/rag';
+import {
+  canInspectRii,
+  getCurrentStepIndex,
+  isStepComplete,
+  isStepDone,
+  resetTaskCard,
+  signOffBlocker,
+  signOffStep,
+  type SignOffRole,
+  type StepSignOff,
+  type TaskCard,
+  type TaskCardStep,
+} from '../lib/taskCard';
+import { ManualRefLink } from './ManualRefLink';
+
+const glassStyle: React.CSSProperties = {
+  background: 'rgba(20, 20, 24, 0.75)',
+  backdropFilter: 'blur(16px)',
+  WebkitBackdropFilter: 'blur(16px)',
+  border: '1px solid rgba(255, 255, 255, 0.08)',
+  borderRadius: 16,
+  color: '#e8e8e8',
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '5px 10px',
+  borderRadius: 8,
+  border: '1px solid rgba(255,255,255,0.12)',
+  background: 'rgba(255,255,255,0.06)',
+  color: '#e0e0e0',
+  fontSize: 12,
+  cursor: 'pointer',
+};
+
+function formatSignOff(signOff: StepSignOff): string {
+  const at = new Date(signOff.at);
+  return `${signOff.name} · ${at.toLocaleDateString()} ${at.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+}
+
+interface StepRowProps {
+  step: TaskCardStep;
+  number: number;
+  isCurrent: boolean;
+  card: TaskCard;
+  profile: PersonProfile | null;
+  /** Signs RII inspections; another profile than the mechanic */
+  inspector: PersonProfile | null;
+  /** The inspector's confirmation is open on this step */
+  confirmingInspection: boolean;
+  onConfirmInspection: (step: TaskCardStep | null) => void;
+  onSignOff: (step: TaskCardStep, role: SignOffRole) => void;
+  onOpenManualRef: (ref: ManualRef) => void;
+}
+
+function SignOffLine({ label, signOff, blocker, onSign }: { label: string; signOff?: StepSignOff; blocker: string | null; onSign: () => void }) {
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 12, marginTop: 4 }}>
+      <span style={{ width: 72, color: '#888' }}>{label}</span>
+      {signOff ? (
+        <span style={{ color: '#00ff88' }}>✓ {formatSignOff(signOff)}</span>
+      ) : (
+        <button type="button" onClick={onSign} disabled={blocker !== null} title={blocker ?? undefined} style={{ ...buttonStyle, opacity: blocker ? 0.45 : 1, cursor: blocker ? 'default' : 'pointer' }}>
+          Sign off
+        </button>
+      )}
+      {!signOff && blocker && <span style={{ color: '#666', fontSize: 11 }}>{blocker}</span>}
+    </div>
+  );
+}
+
+/** "Mike (Cessna 172 Annual)" is confirmed by "Mike" or the full name */
+function isOwnName(typed: string, profile: PersonProfile): boolean {
+  const wanted = typed.trim().toLowerCase();
+  return Boolean(wanted) && (wanted === profile.name.toLowerCase() || wanted === profile.name.replace(/\s*\(.*\)\s*$/, '').trim().toLowerCase());
+}
+
+/** The inspector signs on the mechanic's device: they type their own name to confirm the inspection was theirs. */
+function InspectorConfirm({ inspector, onConfirm, onCancel }: { inspector: PersonProfile; onConfirm: () => void; onCancel: () => void }) {
+  const [typed, setTyped] = useState('');
+  const confirmed = isOwnName(typed, inspector);
+  return (
+    <div style={{ marginTop: 6, padding: 8, borderRadius: 8, background: 'rgba(255,170,0,0.08)', border: '1px solid rgba(255,170,0,0.3)', fontSize: 12, color: '#ccc' }}>
+      <div style={{ marginBottom: 6 }}>
+        {inspector.name}: type your name to sign that you inspected this step yourself. Only the inspector may do this.
+      </div>
+      <div style={{ display: 'flex', gap: 6 }}>
+        <input
+          value={typed}
+          onChange={(e) => setTyped(e.target.value)}
+          placeholder="Inspector's name"
+          aria-label="Inspector's name"
+          autoFocus
+          style={{ flex: 1, padding: '4px 6px', background: 'rgba(0,0,0,0.4)', color: '#ddd', border: '1px solid rgba(255,255,255,0.12)', borderRadius: 6, fontSize: 12 }}
+        />
+        <button type="button" onClick={onConfirm} disabled={!confirmed} style={{ ...buttonStyle, opacity: confirmed ? 1 : 0.45, cursor: confirmed ? 'pointer' : 'default' }}>
+          Sign as inspector
+        </button>
+        <button type="button" onClick={onCancel} style={buttonStyle}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function StepRow({ step, number, isCurrent, card, profile, inspector, confirmingInspection, onConfirmInspection, onSignOff, onOpenManualRef }: StepRowProps) {
+  const complete = isStepComplete(step);
+  const done = isStepDone(step);
+  return (
+    <div
+      style={{
+        padding: 12,
+        marginBottom: 8,
+        borderRadius: 12,
+        background: isCurrent ? 'rgba(255,255,255,0.08)' : 'rgba(255,255,255,0.03)',
+        border: `1px solid ${isCurrent ? 'rgba(255,255,255,0.35)' : 'rgba(255,255,255,0.06)'}`,
+        opacity: complete && !isCurrent ? 0.7 : 1,
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'baseline', gap: 8 }}>
+        <span style={{ fontSize: 12, fontWeight: 600, color: complete ? '#00ff88' : isCurrent ? '#fff' : '#888' }}>{complete ? '✓' : `${number}.`}</span>
+        <span style={{ flex: 1, fontSize: 13, color: '#fff', lineHeight: 1.4 }}>{step.instruction}</span>
+        {step.rii && (
+          <span title="Required inspection item: a second, qualified inspector signs" style={{ fontSize: 10, fontWeight: 700, color: '#000', background: '#ffaa00', borderRadius: 4, padding: '1px 5px' }}>
+            RII
+          </span>
+        )}
+      </div>
+      <div style={{ paddingLeft: 20 }}>
+        {step.component && (
+          <div style={{ fontSize: 11, color: '#888', marginTop: 4 }}>
+            Component: {step.component}
+            {step.detectedAt ? <span style={{ color: '#00ff88' }}> · seen in view {new Date(step.detectedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span> : isCurrent ? ' · point the camera at it' : ''}
+          </div>
+        )}
+        {step.torque && (
+          <div style={{ fontSize: 12, color: '#ccc', marginTop: 4 }}>
+            <strong style={{ color: '#00ff88' }}>Torque:</strong> {step.torque}
+          </div>
+        )}
+        {step.tools?.length ? <div style={{ fontSize: 12, color: '#aaa', marginTop: 4 }}>Tools: {step.tools.join(', ')}</div> : null}
+        {step.refs?.length ? (
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, marginTop: 6 }}>
+            {step.refs.map((ref) => (
+              <ManualRefLink key={`${ref.manualName}:${ref.page}`} manualRef={ref} compact onOpenRef={onOpenManualRef} />
+            ))}
+          </div>
+        ) : null}
+        {step.completeOnDetection && !step.mechanicSignOff ? (
+          done ? null : <div style={{ fontSize: 11, color: '#888', marginTop: 4 }}>Completes when the component is detected</div>
+        ) : (
+          <SignOffLine
+            label="Mechanic"
+            signOff={step.mechanicSignOff}
+            blocker={profile ? signOffBlocker(card, step.id, 'mechanic', profile) : 'Select a technician profile'}
+            onSign={() => onSignOff(step, 'mechanic')}
+          />
+        )}
+        {step.rii && (
+          <SignOffLine
+            label="Inspector"
+            signOff={step.inspectorSignOff}
+            blocker={inspector ? signOffBlocker(card, step.id, 'inspector', inspector) : 'Select an inspector'}
+            // Signing as someone other than the current profile takes that person's confirmation
+            onSign={() => (inspector && inspector.id !== profile?.id ? onConfirmInspection(step) : onSignOff(step, 'inspector'))}
+          />
+        )}
+        {step.rii && confirmingInspection && inspector && !step.inspectorSignOff && (
+          <InspectorConfirm inspector={inspector} onConfirm={() => onSignOff(step, 'inspector')} onCancel={() => onConfirmInspection(null)} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface TaskCardPanelProps {
+  card: TaskCard;
+  /** Signs off steps as the mechanic; RII inspections are signed by the inspector picked in the panel */
+  currentProfile: PersonProfile | null;
+  onChange: (card: TaskCard) => void;
+  onOpenManualRef: (ref: ManualRef) => void;
+  /** Start the hands-free guided procedure; omitted when it can't run (no camera, already running) */
+  onStartProcedure?: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Task card: ordered steps with refs, tools and torque; mechanic and RII inspector sign-offs. The
+ * mechanic signs as the current profile; the inspector is another IA/RTS profile picked here, since
+ * an RII can't be inspected by the mechanic who did the work, and confirms by typing their own name.
+ */
+export function TaskCardPanel({ card, currentProfile, onChange, onOpenManualRef, onStartProcedure, onClose }: TaskCardPanelProps) {
+  const [error, setError] = useState<string | null>(null);
+  const [confirmReset, setConfirmReset] = useState(false);
+  const currentIndex = getCurrentStepIndex(card);
+  const completed = card.steps.filter(isStepComplete).length;
+  const hasRii = card.steps.some((s) => s.rii);
+  const inspectors = [...PRESET_PROFILES, ...loadCustomProfiles()].filter(canInspectRii);
+  // Someone other than the current profile (usually the mechanic on this card), when there is one
+  const [inspectorId, setInspectorId] = useState(() => (inspectors.find((p) => p.id !== currentProfile?.id) ?? inspectors[0])?.id ?? '');
+  const inspector = inspectors.find((p) => p.id === inspectorId) ?? null;
+  const [confirmingStepId, setConfirmingStepId] = useState<string | null>(null);
+
+  const signOff = (step: TaskCardStep, role: SignOffRole) => {
+    const signer = role === 'inspector' ? inspector : currentProfile;
+    if (!signer) return;
+    try {
+      onChange(signOffStep(card, step.id, role, signer));
+      setError(null);
+      setConfirmingStepId(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Sign-off failed');
+    }
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 40,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: 'rgba(0,0,0,0.5)',
+        padding: 24,
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          ...glassStyle,
+          width: '100%',
+          maxWidth: 520,
+          maxHeight: '90vh',
+          overflow: 'auto',
+          padding: 24,
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 4 }}>
+          <h2 style={{ margin: 0, fontSize: 18, fontWeight: 600, color: '#fff' }}>{card.title}</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close"
+            style={{ background: 'none', border: 'none', color: '#888', fontSize: 22, cursor: 'pointer' }}
+          >
+            ×
+          </button>
+        </div>
+        <p style={{ fontSize: 12, color: '#888', margin: '0 0 16px 0' }}>
+          {card.workOrderNumber ? `${card.workOrderNumber} · ` : ''}
+          {completed}/{card.steps.length} steps complete
+          {currentIndex < 0 ? ' · card complete' : ''}
+          {currentProfile ? ` · signing as ${currentProfile.name}` : ''}
+        </p>
+        {hasRii && (
+          <label style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 12, color: '#888', margin: '-8px 0 16px 0' }}>
+            RII inspector
+            <select
+              value={inspectorId}
+              onChange={(e) => {
+                setInspectorId(e.target.value);
+                setConfirmingStepId(null);
+              }}
+              style={{ flex: 1, padding: '4px 6px', background: 'rgba(0,0,0,0.4)', color: '#ddd', border: '1px solid rgba(255,255,255,0.12)', borderRadius: 6, fontSize: 12 }}
+            >
+              {inspectors.length === 0 && <option value="">No IA or RTS-authorized profile</option>}
+              {inspectors.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        {onStartProcedure && currentProfile && currentIndex >= 0 && (
+          <button
+            type="button"
+            onClick={onStartProcedure}
+            style={{ ...buttonStyle, width: '100%', padding: '10px 12px', marginBottom: 12, background: 'rgba(0,255,136,0.2)', borderColor: 'rgba(0,255,136,0.5)', color: '#fff', fontSize: 13 }}
+          >
+            ▶ Guided procedure (voice) from step {currentIndex + 1}
+          </button>
+        )}
+        {error && <p style={{ color: '#ff8866', fontSize: 12, margin: '0 0 12px 0' }}>{error}</p>}
+        {card.steps.map((step, i) => (
+          <StepRow
+            key={step.id}
+            step={step}
+            number={i + 1}
+            isCurrent={i === currentIndex}
+            card={card}
+            profile={currentProfile}
+            inspector={inspector}
+            confirmingInspection={confirmingStepId === step.id}
+            onConfirmInspection={(s) => setConfirmingStepId(s?.id ?? null)}
+            onSignOff={signOff}
+            onOpenManualRef={onOpenManualRef}
+          />
+        ))}
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 8, marginTop: 12 }}>
+          {confirmReset && (
+            <button type="button" onClick={() => setConfirmReset(false)} style={buttonStyle}>
+              Keep
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => {
+              if (!confirmReset) {
+                setConfirmReset(true);
+                return;
+              }
+              setConfirmReset(false);
+              onChange(resetTaskCard(card));
+            }}
+            style={{ ...buttonStyle, color: confirmReset ? '#ff8888' : '#aaa' }}
+          >
+            {confirmReset ? 'Clear all sign-offs' : 'Reset card'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import React, { useEffect, useState } from 'react';
+import type { PersonProfile } from '../lib/rag';
+import { applyTaskCardScan, hasScanResult, scanClearedSignOffs, scanTaskCard, type TaskCardScan } from '../lib/taskCardScan';
+
+const glassStyle: React.CSSProperties = {
+  background: 'rgba(20, 20, 24, 0.75)',
+  backdropFilter: 'blur(16px)',
+  WebkitBackdropFilter: 'blur(16px)',
+  border: '1px solid rgba(255, 255, 255, 0.08)',
+  borderRadius: 16,
+  color: '#e8e8e8',
+};
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: 8,
+  background: 'rgba(0,0,0,0.3)',
+  border: '1px solid rgba(255,255,255,0.1)',
+  borderRadius: 8,
+  color: '#fff',
+  fontSize: 13,
+};
+
+/** Scan fields as edited in the form; lists are comma- or line-separated text */
+interface ScanForm {
+  workOrderNumber: string;
+  tailNumber: string;
+  aircraftType: string;
+  aircraftSerial: string;
+  maintenanceType: string;
+  taskItems: string;
+  notes: string;
+}
+
+function toForm(scan: TaskCardScan): ScanForm {
+  return {
+    workOrderNumber: scan.workOrderNumber ?? '',
+    tailNumber: scan.tailNumber ?? '',
+    aircraftType: scan.aircraftType ?? '',
+    aircraftSerial: scan.aircraftSerial ?? '',
+    maintenanceType: scan.maintenanceType.join(', '),
+    taskItems: scan.taskItems.join('\n'),
+    notes: scan.notes ?? '',
+  };
+}
+
+function fromForm(form: ScanForm) {
+  return {
+    workOrderNumber: form.workOrderNumber.trim() || undefined,
+    tailNumber: form.tailNumber.trim().toUpperCase() || undefined,
+    aircraftType: form.aircraftType.trim() || undefined,
+    aircraftSerial: form.aircraftSerial.trim() || undefined,
+    maintenanceType: form.maintenanceType.split(/[,;]\s*|\n/).map((s) => s.trim()).filter(Boolean),
+    taskItems: form.taskItems.split('\n').map((s) => s.trim()).filter(Boolean),
+    notes: form.notes.trim() || undefined,
+  };
+}
+
+const FIELDS: { key: Exclude<keyof ScanForm, 'taskItems' | 'notes'>; label: string }[] = [
+  { key: 'workOrderNumber', label: 'Work order' },
+  { key: 'tailNumber', label: 'Tail number' },
+  { key: 'aircraftType', label: 'Aircraft type' },
+  { key: 'aircraftSerial', label: 'Serial number' },
+  { key: 'maintenanceType', label: 'Maintenance type' },
+];
+
+interface TaskCardScanPanelProps {
+  /** Captured frame (base64 JPEG) of the task card */
+  image: string;
+  /** Profile the scanned work is applied to */
+  currentProfile: PersonProfile | null;
+  /** Called with the profile after the checked scan was applied and saved */
+  onApply: (profile: PersonProfile) => void;
+  /** Capture a new frame (the panel reads it again) */
+  onRetake: () => void;
+  onClose: () => void;
+}
+
+/** Reads a photographed task card, then lets the technician check and correct it before applying. */
+export function TaskCardScanPanel({ image, currentProfile, onApply, onRetake, onClose }: TaskCardScanPanelProps) {
+  const [scan, setScan] = useState<TaskCardScan | null>(null);
+  const [form, setForm] = useState<ScanForm | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setScan(null);
+    setForm(null);
+    setError(null);
+    scanTaskCard(image)
+      .then((result) => {
+        if (cancelled) return;
+        setScan(result);
+        setForm(toForm(result));
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : 'Could not read the task card');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [image]);
+
+  const edited = form ? fromForm(form) : null;
+  const canApply = Boolean(currentProfile && edited && hasScanResult(edited));
+  const clearedSignOffs = currentProfile && edited ? scanClearedSignOffs(currentProfile, edited) : 0;
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 40,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: 'rgba(0,0,0,0.5)',
+        padding: 24,
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          ...glassStyle,
+          width: '100%',
+          maxWidth: 480,
+          maxHeight: '90vh',
+          overflow: 'auto',
+          padding: 24,
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 }}>
+          <h2 style={{ margin: 0, fontSize: 18, fontWeight: 600, color: '#fff' }}>Scan Task Card</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close"
+            style={{ background: 'none', border: 'none', color: '#888', fontSize: 22, cursor: 'pointer' }}
+          >
+            ×
+          </button>
+        </div>
+        <img
+          src={`data:image/jpeg;base64,${image}`}
+          alt="Captured task card"
+          style={{ width: '100%', maxHeight: 180, objectFit: 'contain', borderRadius: 8, background: '#000', marginBottom: 12 }}
+        />
+        {!scan && !error && <p style={{ fontSize: 13, color: '#888', margin: '0 0 12px 0' }}>Reading the card…</p>}
+        {error && <p style={{ fontSize: 12, color: '#ff8866', margin: '0 0 12px 0' }}>{error}</p>}
+        {scan && form && (
+          <>
+            <p style={{ fontSize: 11, color: '#888', margin: '0 0 4px 0' }}>
+              Read by {scan.readBy}. Check every value against the card before applying.
+            </p>
+            {scan.fallbackReason && (
+              <p style={{ fontSize: 11, color: '#ffaa00', margin: '0 0 4px 0' }}>Vision model unavailable ({scan.fallbackReason}); on-device text detection is less reliable.</p>
+            )}
+            {!hasScanResult(scan) && (
+              <p style={{ fontSize: 12, color: '#ffaa00', margin: '0 0 4px 0' }}>Nothing was read. Hold the card flat and closer, then retake — or type the values in.</p>
+            )}
+            <div style={{ marginTop: 10 }}>
+              {FIELDS.map(({ key, label }) => (
+                <label key={key} style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 6 }}>
+                  <span style={{ width: 110, fontSize: 11, color: '#888', flexShrink: 0 }}>{label}</span>
+                  <input type="text" value={form[key]} onChange={(e) => setForm({ ...form, [key]: e.target.value })} style={inputStyle} />
+                </label>
+              ))}
+              <div style={{ fontSize: 11, color: '#888', margin: '10px 0 4px 0' }}>Task items (one per line, in card order)</div>
+              <textarea
+                value={form.taskItems}
+                onChange={(e) => setForm({ ...form, taskItems: e.target.value })}
+                rows={Math.min(8, Math.max(3, form.taskItems.split('\n').length + 1))}
+                style={{ ...inputStyle, resize: 'vertical' }}
+              />
+              <div style={{ fontSize: 11, color: '#888', margin: '10px 0 4px 0' }}>Squawk / remarks</div>
+              <input type="text" value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} style={inputStyle} />
+            </div>
+            {clearedSignOffs > 0 && (
+              <p style={{ fontSize: 12, color: '#ffaa00', margin: '8px 0 0 0' }}>
+                {clearedSignOffs} signed-off task {clearedSignOffs === 1 ? 'item is' : 'items are'} not on this card; applying clears {clearedSignOffs === 1 ? 'its sign-off' : 'their sign-offs'}.
+              </p>
+            )}
+          </>
+        )}
+        <div style={{ display: 'flex', gap: 8, marginTop: 16 }}>
+          <button
+            type="button"
+            disabled={!canApply}
+            onClick={() => {
+              if (currentProfile && edited) onApply(applyTaskCardScan(currentProfile, edited));
+            }}
+            style={{
+              flex: 1,
+              padding: 10,
+              background: canApply ? '#00ff88' : 'rgba(255,255,255,0.1)',
+              color: canApply ? '#000' : '#666',
+              border: 'none',
+              borderRadius: 8,
+              fontWeight: 600,
+              cursor: canApply ? 'pointer' : 'default',
+            }}
+          >
+            {currentProfile ? `Apply to ${currentProfile.name}` : 'Select a technician profile'}
+          </button>
+          <button
+            type="button"
+            onClick={onRetake}
+            style={{ padding: 10, background: 'rgba(255,255,255,0.1)', color: '#ccc', border: 'none', borderRadius: 8, cursor: 'pointer' }}
+          >
+            Retake
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
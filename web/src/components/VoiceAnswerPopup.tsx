@@ -1,11 +1,18 @@
+import { describeCitations, type VerifiedText } from '../lib/citations';
+import type { ManualRef } from '../lib/knowledgeBase';
+import { CitedText } from './CitedText';
+import { KnowledgeBaseNotice } from './KnowledgeBaseNotice';
+
 interface VoiceAnswerPopupProps {
   question: string;
-  answer: string;
+  answer: VerifiedText;
   productName: string | null;
   onClose: () => void;
+  /** Open a cited page in the in-app viewer */
+  onOpenManualRef?: (ref: ManualRef) => void;
 }
 
-export function VoiceAnswerPopup({ question, answer, productName, onClose }: VoiceAnswerPopupProps) {
+export function VoiceAnswerPopup({ question, answer, productName, onClose, onOpenManualRef }: VoiceAnswerPopupProps) {
   return (
     <div
       style={{
@@ -62,8 +69,14 @@ export function VoiceAnswerPopup({ question, answer, productName, onClose }: Voi
           </p>
         )}
         <p style={{ fontSize: 15, color: '#e8e8e8', lineHeight: 1.55, margin: 0 }}>
-          {answer}
+          <CitedText text={answer.text} refs={answer.refs} onOpenRef={onOpenManualRef} />
         </p>
+        {answer.refs.length > 0 && <KnowledgeBaseNotice margin="12px 0 0" />}
+        {answer.unsupported.length > 0 && (
+          <p style={{ fontSize: 12, color: '#ffaa00', lineHeight: 1.45, margin: '12px 0 0' }}>
+            ⚠️ Removed page references that are not among the manual pages retrieved for this question: {describeCitations(answer.unsupported)}
+          </p>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,267 @@
+/**
+ * Aircraft registry: one record per tail number (model, serials, airframe and propeller time) linked
+ * to the profiles and work orders that worked on it, with a maintenance history per tail — components
+ * seen by detection, inspections (signed-off task card steps), findings, and completed task cards.
+ * The overlay reads the history for "Last inspected" dates. Records live in memory and are mirrored
+ * to IndexedDB; reads before the stored ones have loaded just come back empty.
+ */
+
+import { idbGetAll, idbPut, openDatabase } from './idb';
+import type { PersonProfile, WorkContext } from './rag';
+import { isStepComplete, matchesTaskItem, type TaskCard, type TaskCardStep } from './taskCard';
+import { canonicalizeLabel } from './taxonomy';
+
+export interface Aircraft {
+  /** Registration, uppercase (the key) */
+  tailNumber: string;
+  /** Aircraft type/model, e.g. "Cessna 172N" */
+  model?: string;
+  serial?: string;
+  engineSerial?: string;
+  /** Airframe total time, hours */
+  totalTimeHours?: number;
+  /** Propeller time, hours */
+  propTimeHours?: number;
+  /** Profiles that have worked on it, by id */
+  profileIds: string[];
+  /** Work order numbers, oldest first */
+  workOrders: string[];
+  updatedAt: number;
+}
+
+/** detected: seen in the camera view; inspected: a task card step on it was signed off; finding: noted by the technician; task_card: a card closed */
+export type AircraftEventKind = 'detected' | 'inspected' | 'finding' | 'task_card';
+
+export interface AircraftEvent {
+  id: string;
+  tailNumber: string;
+  /** ms since epoch */
+  at: number;
+  kind: AircraftEventKind;
+  /** Taxonomy ID of the component, when it maps to one */
+  componentId?: string;
+  /** Component as labelled or named on the step */
+  component?: string;
+  /** Finding text, step instruction or task card title */
+  text?: string;
+  workOrderNumber?: string;
+  profileId?: string;
+  profileName?: string;
+}
+
+const DB_NAME = 'flightsight_aircraft';
+const AIRCRAFT_STORE = 'aircraft';
+const HISTORY_STORE = 'history';
+/** A component in view is logged at most this often per tail (detection runs every few seconds) */
+const DETECTION_EVENT_INTERVAL_MS = 60 * 60_000;
+
+const aircraft = new Map<string, Aircraft>();
+/** Events per tail, oldest first */
+const history = new Map<string, AircraftEvent[]>();
+const listeners = new Set<() => void>();
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function getDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, 1, (db) => {
+      if (!db.objectStoreNames.contains(AIRCRAFT_STORE)) db.createObjectStore(AIRCRAFT_STORE, { keyPath: 'tailNumber' });
+      if (!db.objectStoreNames.contains(HISTORY_STORE)) db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+    });
+  }
+  return dbPromise;
+}
+
+function persist(store: string, value: Aircraft | AircraftEvent): void {
+  getDb()
+    .then((db) => idbPut(db, store, value))
+    .catch((e) => console.warn('Aircraft registry write failed:', e));
+}
+
+function notify(): void {
+  listeners.forEach((l) => l());
+}
+
+/** Re-render on registry changes; returns the unsubscribe function. */
+export function subscribeAircraftRegistry(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/** "n12345 " → "N12345"; the registry key. */
+export function normalizeTailNumber(tail: string): string {
+  return tail.trim().toUpperCase().replace(/\s+/g, '');
+}
+
+/** Load stored aircraft and history into memory. */
+async function loadAircraftRegistry(): Promise<void> {
+  if (typeof indexedDB === 'undefined') return; // Node (eval scripts) or a browser without IndexedDB
+  try {
+    const db = await getDb();
+    const [storedAircraft, storedEvents] = await Promise.all([idbGetAll<Aircraft>(db, AIRCRAFT_STORE), idbGetAll<AircraftEvent>(db, HISTORY_STORE)]);
+    for (const a of storedAircraft) if (!aircraft.has(a.tailNumber)) aircraft.set(a.tailNumber, a);
+    for (const e of storedEvents.sort((a, b) => a.at - b.at)) {
+      const events = history.get(e.tailNumber) ?? [];
+      // Events recorded before the load finished stay, in time order
+      if (!events.some((x) => x.id === e.id)) events.push(e);
+      history.set(e.tailNumber, events.sort((a, b) => a.at - b.at));
+    }
+    notify();
+  } catch (e) {
+    console.warn('Aircraft registry load failed:', e);
+  }
+}
+
+/** Registered aircraft, most recently updated first. */
+export function listAircraft(): Aircraft[] {
+  return [...aircraft.values()].sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function getAircraft(tailNumber: string | undefined): Aircraft | undefined {
+  return tailNumber ? aircraft.get(normalizeTailNumber(tailNumber)) : undefined;
+}
+
+/** Create or update an aircraft; returns the stored record. */
+export function saveAircraft(update: Partial<Aircraft> & { tailNumber: string }): Aircraft {
+  const tailNumber = normalizeTailNumber(update.tailNumber);
+  if (!tailNumber) throw new Error('Tail number is required');
+  const existing = aircraft.get(tailNumber);
+  const next: Aircraft = { profileIds: [], workOrders: [], ...existing, ...update, tailNumber, updatedAt: Date.now() };
+  aircraft.set(tailNumber, next);
+  persist(AIRCRAFT_STORE, next);
+  notify();
+  return next;
+}
+
+/**
+ * Register the profile's aircraft from its work context and link the profile and work order to it.
+ * Model and serial fill in from the work context only where the record has none. No-op without a tail.
+ */
+export function registerProfileAircraft(profile: PersonProfile): Aircraft | undefined {
+  const wc: WorkContext | undefined = profile.workContext;
+  if (!wc?.aircraftTailNumber) return undefined;
+  const existing = getAircraft(wc.aircraftTailNumber);
+  const profileIds = existing?.profileIds ?? [];
+  const workOrders = existing?.workOrders ?? [];
+  const linked = profileIds.includes(profile.id) && (!wc.workOrderNumber || workOrders.includes(wc.workOrderNumber));
+  if (existing && linked && (existing.model || !wc.aircraftType) && (existing.serial || !wc.aircraftSerial)) return existing;
+  return saveAircraft({
+    tailNumber: wc.aircraftTailNumber,
+    model: existing?.model || wc.aircraftType,
+    serial: existing?.serial || wc.aircraftSerial,
+    profileIds: profileIds.includes(profile.id) ? profileIds : [...profileIds, profile.id],
+    workOrders: wc.workOrderNumber && !workOrders.includes(wc.workOrderNumber) ? [...workOrders, wc.workOrderNumber] : workOrders,
+  });
+}
+
+/** The tail's history, newest first. */
+export function getAircraftHistory(tailNumber: string): AircraftEvent[] {
+  return [...(history.get(normalizeTailNumber(tailNumber)) ?? [])].reverse();
+}
+
+function addEvent(event: Omit<AircraftEvent, 'id'>): AircraftEvent {
+  const tailNumber = normalizeTailNumber(event.tailNumber);
+  const stored: AircraftEvent = { ...event, tailNumber, id: `${tailNumber}-${event.at}-${Math.random().toString(36).slice(2, 8)}` };
+  history.set(tailNumber, [...(history.get(tailNumber) ?? []), stored]);
+  persist(HISTORY_STORE, stored);
+  return stored;
+}
+
+function componentIdFor(label: string): string | undefined {
+  return canonicalizeLabel(label)?.id;
+}
+
+/** Whether an event is about the labelled component: same taxonomy ID, else the same text. */
+function eventMatches(event: AircraftEvent, label: string, componentId: string | undefined): boolean {
+  if (componentId && event.componentId) return componentId === event.componentId;
+  return event.component?.toLowerCase() === label.toLowerCase();
+}
+
+/** Log components in view on the tail, each at most once an hour. */
+export function recordDetectedComponents(tailNumber: string | undefined, labels: string[], at = Date.now()): void {
+  if (!tailNumber || labels.length === 0) return;
+  const events = history.get(normalizeTailNumber(tailNumber)) ?? [];
+  let added = false;
+  for (const label of new Set(labels)) {
+    const componentId = componentIdFor(label);
+    const recent = events.some((e) => e.kind === 'detected' && at - e.at < DETECTION_EVENT_INTERVAL_MS && eventMatches(e, label, componentId));
+    if (recent) continue;
+    addEvent({ tailNumber, at, kind: 'detected', componentId, component: label });
+    added = true;
+  }
+  if (added) notify();
+}
+
+/** A finding (squawk, discrepancy) on the tail, by the profile. */
+export function recordFinding(tailNumber: string, text: string, profile: PersonProfile | null, component?: string, at = Date.now()): AircraftEvent {
+  if (!text.trim()) throw new Error('Finding text is required');
+  const event = addEvent({
+    tailNumber,
+    at,
+    kind: 'finding',
+    text: text.trim(),
+    ...(component?.trim() ? { component: component.trim(), componentId: componentIdFor(component) } : {}),
+    workOrderNumber: profile?.workContext?.workOrderNumber,
+    profileId: profile?.id,
+    profileName: profile?.name,
+  });
+  notify();
+  return event;
+}
+
+function signedStepEvent(tailNumber: string, card: TaskCard, step: TaskCardStep, signOff: NonNullable<TaskCardStep['mechanicSignOff']>, rii: boolean) {
+  return {
+    tailNumber,
+    at: Date.parse(signOff.at),
+    kind: 'inspected' as const,
+    componentId: step.component ? componentIdFor(step.component) : undefined,
+    component: step.component,
+    text: rii ? `RII: ${step.instruction}` : step.instruction,
+    workOrderNumber: card.workOrderNumber,
+    profileId: signOff.profileId,
+    profileName: signOff.name,
+  };
+}
+
+/**
+ * Log what a task card change did on the tail: each new mechanic or inspector sign-off is an
+ * inspection of the step's component, and the card closing is a task card event.
+ */
+export function recordTaskCardChange(tailNumber: string | undefined, before: TaskCard | null, after: TaskCard): void {
+  if (!tailNumber || (before && before.id !== after.id)) return;
+  let added = false;
+  after.steps.forEach((step, i) => {
+    const prev = before?.steps[i];
+    if (step.mechanicSignOff && !prev?.mechanicSignOff) {
+      addEvent(signedStepEvent(tailNumber, after, step, step.mechanicSignOff, false));
+      added = true;
+    }
+    if (step.inspectorSignOff && !prev?.inspectorSignOff) {
+      addEvent(signedStepEvent(tailNumber, after, step, step.inspectorSignOff, true));
+      added = true;
+    }
+  });
+  const complete = after.steps.length > 0 && after.steps.every(isStepComplete);
+  const wasComplete = Boolean(before && before.steps.length > 0 && before.steps.every(isStepComplete));
+  if (complete && !wasComplete) {
+    addEvent({ tailNumber, at: Date.now(), kind: 'task_card', text: after.title, workOrderNumber: after.workOrderNumber });
+    added = true;
+  }
+  if (added) notify();
+}
+
+/** When the labelled component was last inspected on the tail (a signed-off step on it), or null. */
+export function getLastInspected(tailNumber: string | undefined, label: string): number | null {
+  if (!tailNumber) return null;
+  const events = history.get(normalizeTailNumber(tailNumber)) ?? [];
+  // Matched like task card items: a step on an assembly covers its parts
+  const last = [...events].reverse().find((e) => e.kind === 'inspected' && e.component && matchesTaskItem(label, e.component));
+  return last?.at ?? null;
+}
+
+/** Local calendar date, "2026-03-02". */
+export function formatHistoryDate(at: number): string {
+  const d = new Date(at);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+loadAircraftRegistry();
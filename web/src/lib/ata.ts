@@ -0,0 +1,148 @@
+/**
+ * ATA iSpec 2200 chapter/section numbering, the system shops file work orders and logbook entries
+ * under ("61-10 Propeller Assembly", "74 Ignition"). Codes are "CC" or "CC-SS"; "-00" is the
+ * chapter's general section. Reciprocating engine internals use chapter 85 as in iSpec 2200 and
+ * the FAA JASC code table.
+ */
+
+export interface AtaCode {
+  chapter: string;
+  /** Two-digit section, undefined for a bare chapter */
+  section?: string;
+}
+
+/** Chapter titles for the chapters a light piston single uses */
+export const ATA_CHAPTERS: Record<string, string> = {
+  '05': 'Time Limits / Maintenance Checks',
+  '06': 'Dimensions and Areas',
+  '07': 'Lifting and Shoring',
+  '08': 'Leveling and Weighing',
+  '09': 'Towing and Taxiing',
+  '10': 'Parking, Mooring, Storage and Return to Service',
+  '11': 'Placards and Markings',
+  '12': 'Servicing',
+  '20': 'Standard Practices – Airframe',
+  '21': 'Air Conditioning',
+  '22': 'Auto Flight',
+  '23': 'Communications',
+  '24': 'Electrical Power',
+  '25': 'Equipment / Furnishings',
+  '26': 'Fire Protection',
+  '27': 'Flight Controls',
+  '28': 'Fuel',
+  '30': 'Ice and Rain Protection',
+  '31': 'Indicating / Recording Systems',
+  '32': 'Landing Gear',
+  '33': 'Lights',
+  '34': 'Navigation',
+  '35': 'Oxygen',
+  '37': 'Vacuum',
+  '51': 'Standard Practices and Structures – General',
+  '52': 'Doors',
+  '53': 'Fuselage',
+  '55': 'Stabilizers',
+  '56': 'Windows',
+  '57': 'Wings',
+  '61': 'Propellers',
+  '71': 'Power Plant',
+  '73': 'Engine Fuel and Control',
+  '74': 'Ignition',
+  '75': 'Air',
+  '76': 'Engine Controls',
+  '77': 'Engine Indicating',
+  '78': 'Exhaust',
+  '79': 'Oil',
+  '80': 'Starting',
+  '85': 'Reciprocating Engine',
+};
+
+/** Section titles for the sections the taxonomy and KB are tagged with */
+export const ATA_SECTIONS: Record<string, string> = {
+  '05-20': 'Scheduled Maintenance Checks',
+  '12-10': 'Replenishing',
+  '12-20': 'Scheduled Servicing',
+  '24-30': 'DC Generation',
+  '27-10': 'Aileron and Tab',
+  '27-20': 'Rudder and Tab',
+  '27-30': 'Elevator and Tab',
+  '27-50': 'Flaps',
+  '28-10': 'Storage',
+  '28-20': 'Distribution',
+  '32-10': 'Main Gear',
+  '32-20': 'Nose Gear',
+  '32-40': 'Wheels and Brakes',
+  '32-50': 'Steering',
+  '33-40': 'Exterior Lighting',
+  '34-10': 'Flight Environment Data',
+  '37-10': 'Distribution',
+  '52-10': 'Passenger / Crew',
+  '57-40': 'Attach Fittings',
+  '61-10': 'Propeller Assembly',
+  '71-10': 'Cowling',
+  '71-20': 'Mounts',
+  '71-60': 'Air Intakes',
+  '73-10': 'Distribution',
+  '74-10': 'Electrical Power Supply',
+  '74-20': 'Distribution',
+  '75-20': 'Cooling',
+  '77-20': 'Temperature',
+  '78-10': 'Collector / Nozzle',
+  '79-20': 'Distribution',
+  '79-30': 'Indicating',
+  '80-10': 'Cranking',
+};
+
+/** Parse "61", "61-10", "6110" or "ATA 61-10" (null if it isn't an ATA code). */
+export function parseAtaCode(code: string): AtaCode | null {
+  const m = code.trim().match(/^(?:ata\s*)?(\d{2})(?:[-\s]?(\d{2}))?(?:-\d{2})?$/i);
+  if (!m) return null;
+  return m[2] ? { chapter: m[1], section: m[2] } : { chapter: m[1] };
+}
+
+/** Normalized "CC" / "CC-SS" form, or null. */
+export function normalizeAtaCode(code: string): string | null {
+  const parsed = parseAtaCode(code);
+  if (!parsed) return null;
+  return parsed.section ? `${parsed.chapter}-${parsed.section}` : parsed.chapter;
+}
+
+export function getAtaChapterTitle(code: string): string | undefined {
+  const parsed = parseAtaCode(code);
+  return parsed ? ATA_CHAPTERS[parsed.chapter] : undefined;
+}
+
+/** Section title when known and not the general section, otherwise the chapter title. */
+export function getAtaTitle(code: string): string | undefined {
+  const parsed = parseAtaCode(code);
+  if (!parsed) return undefined;
+  const section = parsed.section && parsed.section !== '00' ? ATA_SECTIONS[`${parsed.chapter}-${parsed.section}`] : undefined;
+  return section ?? ATA_CHAPTERS[parsed.chapter];
+}
+
+/** "ATA 61-10 Propellers – Propeller Assembly" */
+export function formatAta(code: string): string {
+  const normalized = normalizeAtaCode(code);
+  if (!normalized) return code;
+  const chapterTitle = getAtaChapterTitle(normalized);
+  const title = getAtaTitle(normalized);
+  const titles = chapterTitle && title && title !== chapterTitle ? `${chapterTitle} – ${title}` : title;
+  return titles ? `ATA ${normalized} ${titles}` : `ATA ${normalized}`;
+}
+
+/**
+ * Whether a tagged code falls under a filter: chapter filter "61" matches "61-10" and "61-20",
+ * section filter "61-10" matches only that section. A "-00" filter means the whole chapter.
+ */
+export function matchesAta(code: string | undefined | null, filter: string): boolean {
+  if (!code) return false;
+  const c = parseAtaCode(code);
+  const f = parseAtaCode(filter);
+  if (!c || !f || c.chapter !== f.chapter) return false;
+  return !f.section || f.section === '00' || c.section === f.section;
+}
+
+/** ATA reference spoken or typed in free text ("ATA 79", "chapter 61-10"), normalized; null if none. */
+export function findAtaReference(text: string): string | null {
+  const m = text.match(/\b(?:ata|chapter)\s+(\d{2}(?:[-\s]\d{2})?)\b/i);
+  return m ? normalizeAtaCode(m[1].replace(/\s/, '-')) : null;
+}
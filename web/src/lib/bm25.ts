@@ -0,0 +1,113 @@
+/**
+ * BM25F ranking over an inverted index. Each document has several text fields with their own boost
+ * and length normalization (a hit in a chunk's component name is worth more than one in its body);
+ * field term frequencies are combined before BM25 saturation, as in Robertson & Zaragoza's BM25F.
+ */
+
+import { normalizeLabel } from './taxonomy';
+
+export interface BM25Field<T> {
+  name: string;
+  /** Weight of a term occurrence in this field relative to body text (1) */
+  boost: number;
+  /** Length normalization strength 0-1 (0 = ignore field length) */
+  b?: number;
+  text: (doc: T) => string;
+}
+
+export interface BM25Hit<T> {
+  doc: T;
+  index: number;
+  score: number;
+}
+
+export interface BM25Index<T> {
+  readonly size: number;
+  /** Documents with a positive score for any query term, best first (ties keep document order) */
+  search(query: string): BM25Hit<T>[];
+  /** Per-document scores for the query, aligned with the documents passed at build time */
+  scores(query: string): Float64Array;
+}
+
+/** Term frequency saturation */
+const K1 = 1.2;
+const DEFAULT_B = 0.75;
+
+/** Question filler that would otherwise match half the manual */
+const STOP_WORDS = new Set(['a', 'about', 'an', 'and', 'are', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'has', 'have', 'how', 'i', 'in', 'is', 'it', 'its', 'my', 'of', 'on', 'or', 'should', 'that', 'the', 'there', 'this', 'to', 'was', 'what', 'when', 'where', 'which', 'with']);
+
+/** Lowercased terms without stop words, de-pluralized the same way as taxonomy labels. */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w && !STOP_WORDS.has(w))
+    .map(normalizeLabel);
+}
+
+interface Posting {
+  doc: number;
+  /** Term frequency per field */
+  tf: number[];
+}
+
+export function buildBM25Index<T>(docs: T[], fields: BM25Field<T>[]): BM25Index<T> {
+  const postings = new Map<string, Posting[]>();
+  const lengths = docs.map(() => new Array<number>(fields.length).fill(0));
+  const totalLength = new Array<number>(fields.length).fill(0);
+
+  docs.forEach((doc, d) => {
+    fields.forEach((field, f) => {
+      const terms = tokenize(field.text(doc));
+      lengths[d][f] = terms.length;
+      totalLength[f] += terms.length;
+      for (const term of terms) {
+        let list = postings.get(term);
+        if (!list) {
+          list = [];
+          postings.set(term, list);
+        }
+        let posting = list[list.length - 1];
+        if (!posting || posting.doc !== d) {
+          posting = { doc: d, tf: new Array<number>(fields.length).fill(0) };
+          list.push(posting);
+        }
+        posting.tf[f]++;
+      }
+    });
+  });
+
+  const avgLength = totalLength.map((total) => (docs.length > 0 ? total / docs.length : 0) || 1);
+
+  function scores(query: string): Float64Array {
+    const out = new Float64Array(docs.length);
+    for (const term of new Set(tokenize(query))) {
+      const list = postings.get(term);
+      if (!list) continue;
+      const idf = Math.log(1 + (docs.length - list.length + 0.5) / (list.length + 0.5));
+      for (const { doc, tf } of list) {
+        let weighted = 0;
+        fields.forEach((field, f) => {
+          if (tf[f] === 0) return;
+          const b = field.b ?? DEFAULT_B;
+          weighted += (field.boost * tf[f]) / (1 - b + (b * lengths[doc][f]) / avgLength[f]);
+        });
+        out[doc] += (idf * weighted) / (K1 + weighted);
+      }
+    }
+    return out;
+  }
+
+  return {
+    size: docs.length,
+    scores,
+    search(query) {
+      const s = scores(query);
+      const hits: BM25Hit<T>[] = [];
+      s.forEach((score, index) => {
+        if (score > 0) hits.push({ doc: docs[index], index, score });
+      });
+      return hits.sort((a, b) => b.score - a.score || a.index - b.index);
+    },
+  };
+}
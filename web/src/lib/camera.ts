@@ -75,6 +75,15 @@ export function captureFrameToJpeg(
   }
 }
 
+/** Fit video dimensions inside maxSize (longest side), never upscaling. */
+function scaledSize(w: number, h: number, maxSize: number): { dw: number; dh: number } {
+  const scale = maxSize / Math.max(w, h);
+  return {
+    dw: scale >= 1 ? w : Math.round(w * scale),
+    dh: scale >= 1 ? h : Math.round(h * scale),
+  };
+}
+
 /** Capture at smaller size for faster detection (less data, faster API). */
 export function captureFrameToJpegForDetection(
   video: HTMLVideoElement,
@@ -84,9 +93,7 @@ export function captureFrameToJpegForDetection(
   if (video.readyState < 2 || video.videoWidth === 0) return null;
   const w = video.videoWidth;
   const h = video.videoHeight;
-  const scale = maxSize / Math.max(w, h);
-  const dw = scale >= 1 ? w : Math.round(w * scale);
-  const dh = scale >= 1 ? h : Math.round(h * scale);
+  const { dw, dh } = scaledSize(w, h, maxSize);
   const canvas = document.createElement('canvas');
   canvas.width = dw;
   canvas.height = dh;
@@ -99,3 +106,41 @@ export function captureFrameToJpegForDetection(
     return null;
   }
 }
+
+/** Downscaled 8-bit luminance frame for CPU motion estimation and frame hashing. */
+export interface GrayFrame {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+let grayCanvas: HTMLCanvasElement | null = null;
+
+/**
+ * Capture a small grayscale frame (same downscaling as captureFrameToJpegForDetection).
+ * Reuses one canvas since this runs every animation frame.
+ */
+export function captureGrayFrame(video: HTMLVideoElement, maxSize = 160): GrayFrame | null {
+  if (video.readyState < 2 || video.videoWidth === 0) return null;
+  const w = video.videoWidth;
+  const h = video.videoHeight;
+  const { dw, dh } = scaledSize(w, h, maxSize);
+  if (!grayCanvas) grayCanvas = document.createElement('canvas');
+  if (grayCanvas.width !== dw) grayCanvas.width = dw;
+  if (grayCanvas.height !== dh) grayCanvas.height = dh;
+  const ctx = grayCanvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(video, 0, 0, w, h, 0, 0, dw, dh);
+  let rgba: Uint8ClampedArray;
+  try {
+    rgba = ctx.getImageData(0, 0, dw, dh).data;
+  } catch {
+    return null; // tainted canvas (cross-origin video)
+  }
+  const data = new Uint8Array(dw * dh);
+  for (let i = 0, p = 0; i < data.length; i++, p += 4) {
+    // Rec. 601 luma, integer approximation
+    data[i] = (rgba[p] * 77 + rgba[p + 1] * 150 + rgba[p + 2] * 29) >> 8;
+  }
+  return { width: dw, height: dh, data };
+}
@@ -0,0 +1,273 @@
+/**
+ * Citation check for LLM answers: finds page citations ("per Cessna SM p.377, Fig 15-2",
+ * "O-320 OM Section 3, p.26", "pp. 12-13") in answer text and keeps only those that point at a page
+ * of the chunks retrieved for the prompt. Anything else — a page the model was never shown, a figure
+ * not on it, a manual outside the KB — is removed from the text (with its sentence, when the sentence
+ * is built around it) and reported, since a made-up page reference sends a technician to the wrong
+ * procedure.
+ */
+
+import { getManualRef, getManuals, withPage, type KBChunk, type ManualRef } from './knowledgeBase';
+
+export interface Citation {
+  /** As written in the answer */
+  text: string;
+  start: number;
+  end: number;
+  /** Where the page marker ("p.26") starts; text between start and here names the manual */
+  pageStart: number;
+  /** KB manual the citation names (ManualRef.manualName); undefined when it names none, or several match */
+  manualName?: string;
+  /** Names a manual that is not in the KB, e.g. "IPC p.45" */
+  unknownManual: boolean;
+  /** Cited pages; a range is expanded */
+  pages: number[];
+  figure?: string;
+}
+
+export interface VerifiedText {
+  /** The text with unsupported citations removed, and with any sentence that is built around one */
+  text: string;
+  /** Retrieved pages the text cites, one per manual page */
+  refs: ManualRef[];
+  /** Citations that point at no retrieved page */
+  unsupported: Citation[];
+}
+
+/** A piece of cited text: plain text, or a verified citation to render as a link */
+export type CitedSegment = string | { text: string; ref: ManualRef };
+
+/** "p.377", "p. 26", "pp. 12-13", "page 34", "pages 12–13", with an optional ", Fig 15-2" */
+const PAGE_RE = /\b(?:pp?\.|[Pp]ages?\b)\s*(\d{1,4})(?:\s*[-–]\s*(\d{1,4}))?(?:,?\s*Fig(?:ure)?\.?\s*(\d+[A-Z]?[-–]\d+[A-Z]?))?/g;
+/** Up to five capitalized words or numbers right before the page: "Cessna SM", "O-320 OM Section 3," */
+const LEAD_RE = /(?:[A-Z0-9][\w'’.-]*,?\s+){1,5}$/;
+/** Lead-in removed with an unsupported citation */
+const CONNECTOR_RE = /\b(?:per|see|ref\.?|refer to|according to|in|from)\s+(?:the\s+)?$/i;
+/** Document types a citation may name that aren't necessarily in the KB ("IPC p.45") */
+const DOCUMENT_ABBREVIATIONS = new Set(['AMM', 'CMM', 'IPC', 'IPL', 'MM', 'OHM', 'OM', 'POH', 'AFM', 'SM', 'SRM', 'WDM', 'SB', 'SL', 'SI', 'TCDS']);
+/** Words in a manual name or title that don't tell manuals apart */
+const GENERIC_WORDS = new Set(['manual', 'series', 'section', 'the', 'of', 'and']);
+/** Longest page range expanded; a wider one is a typo, checked by its ends */
+const MAX_RANGE = 20;
+
+interface ManualKeys {
+  name: string;
+  keys: Set<string>;
+}
+
+function keyTokens(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/['’-]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t && !GENERIC_WORDS.has(t) && !/^\d{1,2}$/.test(t));
+}
+
+/** Names, titles and document numbers of the KB manuals (plus any name only a ref carries). */
+function manualKeys(names: Iterable<string>): ManualKeys[] {
+  const byName = new Map<string, ManualKeys>();
+  for (const manual of getManuals()) {
+    byName.set(manual.name, { name: manual.name, keys: new Set(keyTokens(`${manual.name} ${manual.title} ${manual.documentNumber ?? ''}`)) });
+  }
+  for (const name of names) {
+    if (!byName.has(name)) byName.set(name, { name, keys: new Set(keyTokens(name)) });
+  }
+  return [...byName.values()];
+}
+
+/** A KB manual's name/title word or a known document abbreviation; units ("PSI", "RPM") are neither. */
+function isManualWord(word: string, manuals: ManualKeys[]): boolean {
+  const token = keyTokens(word)[0];
+  return DOCUMENT_ABBREVIATIONS.has(word.replace(/[,.]$/, '')) || /^Manual\b/.test(word) || (token !== undefined && manuals.some((m) => m.keys.has(token)));
+}
+
+function resolveManual(words: string[], manuals: ManualKeys[]): { manualName?: string; unknownManual: boolean } {
+  if (!words.length) return { unknownManual: false };
+  const tokens = keyTokens(words.join(' '));
+  const scored = manuals
+    .map((m) => ({ name: m.name, score: tokens.filter((t) => m.keys.has(t)).length }))
+    .sort((a, b) => b.score - a.score);
+  if (!scored.length || scored[0].score === 0) return { unknownManual: true };
+  // "O-320 OM" vs "O-320 OHM": a tie names neither for sure; match by page alone
+  if (scored[1]?.score === scored[0].score) return { unknownManual: false };
+  return { manualName: scored[0].name, unknownManual: false };
+}
+
+/** Page citations in the text, resolved against the KB manuals (and the given manual names). */
+export function findCitations(text: string, manualNames: Iterable<string> = []): Citation[] {
+  const manuals = manualKeys(manualNames);
+  const citations: Citation[] = [];
+  for (const m of text.matchAll(PAGE_RE)) {
+    const markerStart = m.index ?? 0;
+    // Only the current sentence can name the manual
+    const before = text.slice(0, markerStart).split(/[.;:!?]\s+|\n/).pop() ?? '';
+    const lead = before.match(LEAD_RE)?.[0] ?? '';
+    const words = lead.trim().split(/\s+/).filter(Boolean);
+    // Drop sentence words ahead of the manual name: "Torque Cessna SM p.12" → "Cessna SM"
+    const first = words.findIndex((w) => isManualWord(w, manuals));
+    const named = first < 0 ? [] : words.slice(first);
+    const start = first < 0 ? markerStart : markerStart - lead.length + lead.indexOf(named[0]);
+
+    const from = Number(m[1]);
+    const to = m[2] ? Number(m[2]) : from;
+    const pages = to > from && to - from <= MAX_RANGE ? Array.from({ length: to - from + 1 }, (_, i) => from + i) : to > from ? [from, to] : [from];
+    const end = markerStart + m[0].length;
+    citations.push({
+      text: text.slice(start, end),
+      start,
+      end,
+      pageStart: markerStart,
+      ...resolveManual(named, manuals),
+      pages,
+      ...(m[3] ? { figure: m[3].replace('–', '-') } : {}),
+    });
+  }
+  return citations;
+}
+
+/** Pages a chunk covers: its own, and those of its tables and figure */
+function chunkPages(chunk: KBChunk): Set<number> {
+  return new Set([chunk.page, ...(chunk.tables ?? []).map((t) => t.page ?? chunk.page), ...(chunk.figureRegion ? [chunk.figureRegion.page] : [])]);
+}
+
+/** The retrieved page a citation points at, or null when it is unsupported. */
+function supportingRef(citation: Citation, chunks: { chunk: KBChunk; ref: ManualRef }[]): ManualRef | null {
+  if (citation.unknownManual) return null;
+  const candidates = chunks.filter(({ ref }) => !citation.manualName || ref.manualName === citation.manualName);
+  if (citation.figure && !candidates.some(({ chunk }) => chunk.figure?.replace('–', '-') === citation.figure)) return null;
+  for (const page of citation.pages) {
+    const hit = candidates.find(({ chunk }) => chunkPages(chunk).has(page));
+    if (hit) return withPage(hit.ref, page);
+  }
+  return null;
+}
+
+/** Sentence ends; not the dot of "p. 26", "Fig. 3" or "ref." */
+const SENTENCE_END_RE = /(?<!\b(?:pp?|Figs?|[Rr]ef|approx))[.!?](?=\s|$)|\n/g;
+/** Between two citations of one list: "page 377 and pages 400-402" */
+const LIST_JOIN_RE = /^\s*,?\s*(?:and|or)\s+$/;
+
+/** [start, end) of the sentence around pos, with its end punctuation and trailing space */
+function sentenceAround(text: string, pos: number): [number, number] {
+  let start = 0;
+  for (const m of text.matchAll(SENTENCE_END_RE)) {
+    const at = m.index ?? 0;
+    if (at >= pos) {
+      const end = at + m[0].length;
+      return [start, end + (text.slice(end).match(/^[ \t]*/)?.[0].length ?? 0)];
+    }
+    start = at + m[0].length;
+  }
+  return [start, text.length];
+}
+
+/**
+ * Where an unsupported citation can come out without breaking the sentence: as a parenthetical,
+ * with its lead-in ("per", "see") at the end of a clause, or as one item of a list of citations.
+ * Null when the sentence is built around it ("SM p.999 says so", "refer to page 377 and p.999").
+ * When the manual name didn't resolve to one KB manual only the page marker goes: the words before
+ * it may not be a manual name at all.
+ */
+function inlineRange(text: string, citation: Citation, all: Citation[], unsupported: Set<Citation>): [number, number] | null {
+  const whole = Boolean(citation.manualName) || citation.start === citation.pageStart;
+  let start = whole ? citation.start : citation.pageStart;
+  let end = citation.end;
+  if (whole) {
+    const listed = all.filter((c) => !unsupported.has(c));
+    const previous = listed.find((c) => c.end <= start && LIST_JOIN_RE.test(text.slice(c.end, start)));
+    if (previous) return [previous.end, end];
+    const next = listed.find((c) => c.start >= end && LIST_JOIN_RE.test(text.slice(end, c.start)));
+    if (next) return [start, next.start];
+  }
+  const connector = whole ? text.slice(0, start).match(CONNECTOR_RE) : null;
+  if (connector) start -= connector[0].length;
+  const before = text.slice(0, start);
+  const after = text.slice(end);
+  if (/\(\s*$/.test(before) && /^\s*\)/.test(after)) return [text.lastIndexOf('(', start), text.indexOf(')', end) + 1];
+  // "(SM p.998 and SM p.999)": nothing left in the parentheses once their citations go
+  const open = text.lastIndexOf('(', start);
+  const close = text.indexOf(')', end);
+  if (open > text.lastIndexOf(')', start) && close >= 0) {
+    let inner = text.slice(open + 1, close);
+    for (const c of [...unsupported].filter((c) => c.start > open && c.end <= close).sort((a, b) => b.start - a.start)) {
+      inner = inner.slice(0, c.start - open - 1) + inner.slice(c.end - open - 1);
+    }
+    if (/^(?:[\s,;]|\b(?:and|or|see|per|ref|also)\b)*$/i.test(inner)) return [open, close + 1];
+  }
+  const clauseEnds = /^\s*(?:[,;:)]|[.!?](?=\s|$)|$)/.test(after);
+  const sentenceStarts = /(?:^|[.!?]\s+|\n)\s*$/.test(before);
+  // "60-90 PSI p.11": a page marker tacked onto the statement, unlike "on page 11" or "and p.11"
+  const tacked = !whole || (/^pp?\./.test(text.slice(start, end)) && !/\b(?:and|or|on|at|to|of)\s*$/i.test(before));
+  return clauseEnds && !sentenceStarts && (connector || tacked || /[,;]\s*$/.test(before)) ? [start, end] : null;
+}
+
+/** Remove unsupported citations; a sentence that can't stand without its citation is removed whole. */
+function stripCitations(text: string, all: Citation[], unsupported: Citation[]): string {
+  const unsupportedSet = new Set(unsupported);
+  const sentences: [number, number][] = [];
+  const inline: [number, number][] = [];
+  for (const c of unsupported) {
+    const range = inlineRange(text, c, all, unsupportedSet);
+    if (range) inline.push(range);
+    else sentences.push(sentenceAround(text, c.start));
+  }
+  const inDropped = ([start]: [number, number]) => sentences.some(([s, e]) => start >= s && start < e);
+  const ranges = [...sentences, ...inline.filter((r) => !inDropped(r))].sort((a, b) => b[0] - a[0]);
+  let out = text;
+  let limit = Infinity;
+  for (const [start, end] of ranges) {
+    // Sentences are merged when two citations drop the same one
+    if (start >= limit) continue;
+    out = out.slice(0, start) + out.slice(Math.min(end, limit));
+    limit = start;
+  }
+  return out
+    .replace(/\(\s*[;,]\s*/g, '(')
+    .replace(/\s*[;,]\s*\)/g, ')')
+    .replace(/\(\s*\)/g, '')
+    .replace(/[ \t]+([,.;:)])/g, '$1')
+    .replace(/,(\s*[.;])/g, '$1')
+    .replace(/[ \t]{2,}/g, ' ')
+    .trim();
+}
+
+/**
+ * Check the citations in an answer against the chunks retrieved for its prompt: verified ones come
+ * back as refs (deduplicated by manual and page), unsupported ones are removed from the text and listed.
+ */
+export function verifyCitations(text: string, chunks: KBChunk[]): VerifiedText {
+  const retrieved = chunks.map((chunk) => ({ chunk, ref: getManualRef(chunk) }));
+  const citations = findCitations(text, retrieved.map(({ ref }) => ref.manualName ?? 'SM'));
+  const refs: ManualRef[] = [];
+  const unsupported: Citation[] = [];
+  for (const citation of citations) {
+    const ref = supportingRef(citation, retrieved);
+    if (!ref) {
+      unsupported.push(citation);
+    } else if (!refs.some((r) => r.manualName === ref.manualName && r.page === ref.page)) {
+      refs.push(ref);
+    }
+  }
+  return { text: unsupported.length ? stripCitations(text, citations, unsupported) : text, refs, unsupported };
+}
+
+/** Split text at its citations so verified ones (those matching one of the refs) can be rendered as links. */
+export function linkCitations(text: string, refs: ManualRef[]): CitedSegment[] {
+  if (!refs.length) return [text];
+  const segments: CitedSegment[] = [];
+  let pos = 0;
+  for (const citation of findCitations(text, refs.map((r) => r.manualName ?? 'SM'))) {
+    const ref = refs.find((r) => (!citation.manualName || r.manualName === citation.manualName) && citation.pages.includes(r.page));
+    if (!ref || citation.unknownManual) continue;
+    if (citation.start > pos) segments.push(text.slice(pos, citation.start));
+    segments.push({ text: citation.text, ref });
+    pos = citation.end;
+  }
+  if (pos < text.length) segments.push(text.slice(pos));
+  return segments;
+}
+
+/** "SM p.999, O-320 OM p.12" — for telling the user what was removed. */
+export function describeCitations(citations: Citation[]): string {
+  return citations.map((c) => c.text.replace(/\s+/g, ' ')).join(', ');
+}
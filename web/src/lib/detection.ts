@@ -1,10 +1,15 @@
 /**
  * Component detection: AeroDetect YOLO, Dedalus (Gemini via Dedalus), or Google Gemini REST.
  * Identifies aircraft parts and components in camera frames.
+ * Each backend is a provider in the detection registry (see detectionProviders.ts).
  */
 
-import { env, isAeroDetectConfigured, isDedalusApiKey } from './env';
-import { setDedalus429 } from './dedalusRateLimit';
+import { env, isDedalusApiKey } from './env';
+import { isDedalusBackoff, setDedalus429 } from './dedalusRateLimit';
+import { getActiveDetectionProvider, getAeroDetectUrl, registerDetectionProvider, runDetectionProviders } from './detectionProviders';
+import { lookupCachedDetections, storeCachedDetections, type FrameHash } from './detectionCache';
+import { normalizePolygon } from './polygon';
+import { canonicalizeDetections, isGenericLabel, isNonComponentLabel } from './taxonomy';
 
 export interface BoundingBox {
   x: number; // top-left, normalized 0-1
@@ -13,14 +18,25 @@ export interface BoundingBox {
   height: number;
 }
 
+/** Outline of the part, normalized 0-1 like BoundingBox (see polygon.ts) */
+export type Polygon = Array<{ x: number; y: number }>;
+
 export interface DetectedItem {
   label: string;
   bbox: BoundingBox;
+  /** Outline when the backend returns one; thin diagonal parts are hit-tested and drawn by it */
+  polygon?: Polygon;
+  /** Model certainty 0-1 (YOLO score or model-reported); undefined if the backend doesn't report one */
+  confidence?: number;
+  /** Canonical taxonomy ID (see taxonomy.ts); undefined if the label couldn't be mapped */
+  componentId?: string;
+  /** Label as the model returned it, when `label` was replaced by the canonical display name */
+  rawLabel?: string;
 }
 
 /** Call AeroDetect server POST /detect with base64 image. */
-async function detectWithAeroDetect(jpegBase64: string): Promise<DetectedItem[]> {
-  const base = env.aeroDetectApiUrl.replace(/\/$/, '');
+export async function detectWithAeroDetect(jpegBase64: string, baseUrl = getAeroDetectUrl()): Promise<DetectedItem[]> {
+  const base = baseUrl.replace(/\/$/, '');
   const res = await fetch(`${base}/detect`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
@@ -30,13 +46,13 @@ async function detectWithAeroDetect(jpegBase64: string): Promise<DetectedItem[]>
     const err = await res.text();
     throw new Error(`AeroDetect error: ${res.status} ${err}`);
   }
-  const data = (await res.json()) as { items?: Array<{ label: string; bbox: BoundingBox }>; error?: string };
+  const data = (await res.json()) as { items?: Array<{ label: string; bbox: BoundingBox; confidence?: number; polygon?: unknown }>; error?: string };
   if (data.error) throw new Error(data.error);
   const items = data.items ?? [];
-  return items.map((o) => ({ label: o.label, bbox: normalizeBbox(o.bbox) }));
+  return items.map((o) => toDetectedItem(o.label, o.bbox, o.confidence, o.polygon));
 }
 
-const DETECTION_PROMPT = `You are an aircraft maintenance expert analyzing a single image of a Cessna 172 (or similar general aviation aircraft). Identify ONLY components you can clearly see and are CONFIDENT about. Be conservative — it is better to miss a component than to label something incorrectly.
+export const DETECTION_PROMPT = `You are an aircraft maintenance expert analyzing a single image of a Cessna 172 (or similar general aviation aircraft). Identify ONLY components you can clearly see and are CONFIDENT about. Be conservative — it is better to miss a component than to label something incorrectly.
 
 RULES:
 - Only label components you can positively identify with high confidence
@@ -45,13 +61,15 @@ RULES:
 - Maximum 8 components per image — focus on the most prominent and clearly visible ones
 - If you see a Cessna 172 or similar aircraft, identify the aircraft type in your first label
 
-Respond with ONLY a JSON array. Each element: { "label": "specific component name", "bbox": { "x": 0-1, "y": 0-1, "width": 0-1, "height": 0-1 } }.
-Normalized coordinates: x,y = top-left corner, width/height = size. Be precise with bounding boxes — they should tightly fit the component.`;
+Respond with ONLY a JSON array. Each element: { "label": "specific component name", "confidence": 0-1, "bbox": { "x": 0-1, "y": 0-1, "width": 0-1, "height": 0-1 }, "polygon": [[x, y], ...] }.
+Normalized coordinates: x,y = top-left corner, width/height = size. Be precise with bounding boxes — they should tightly fit the component.
+"polygon" is the component's outline as 4–16 normalized [x, y] points in order around its edge. Include it for thin, diagonal or irregular parts (wing strut, fuel line, control cable, exhaust stack, antenna) where the box would cover much more than the part; omit it otherwise.
+"confidence" is how sure you are of the label (1 = certain, 0.5 = plausible guess). Be honest — technicians rely on it for safety-relevant parts.`;
 
 const DEDALUS_BASE = 'https://api.dedaluslabs.ai';
 
-/** Call Dedalus (OpenAI-compatible) with Gemini for vision. */
-async function detectWithDedalus(jpegBase64: string, apiKey: string): Promise<DetectedItem[]> {
+/** Send an image and prompt to Gemini via Dedalus (OpenAI-compatible); returns the model's text. */
+export async function askDedalusVision(jpegBase64: string, apiKey: string, prompt: string, maxTokens = 2048): Promise<string> {
   const res = await fetch(`${DEDALUS_BASE}/v1/chat/completions`, {
     method: 'POST',
     headers: {
@@ -64,12 +82,12 @@ async function detectWithDedalus(jpegBase64: string, apiKey: string): Promise<De
         {
           role: 'user',
           content: [
-            { type: 'text', text: DETECTION_PROMPT },
+            { type: 'text', text: prompt },
             { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${jpegBase64}` } },
           ],
         },
       ],
-      max_tokens: 1024,
+      max_tokens: maxTokens,
       temperature: 0.1,
     }),
   });
@@ -79,8 +97,13 @@ async function detectWithDedalus(jpegBase64: string, apiKey: string): Promise<De
     throw new Error(`Dedalus error: ${res.status} ${errText.slice(0, 200)}`);
   }
   const data = (await res.json()) as { choices?: Array<{ message?: { content?: string } }> };
-  const text = data.choices?.[0]?.message?.content?.trim() ?? '[]';
-  return parseDetectionJson(text);
+  return data.choices?.[0]?.message?.content?.trim() ?? '';
+}
+
+/** Call Dedalus (OpenAI-compatible) with Gemini for vision. */
+export async function detectWithDedalus(jpegBase64: string, apiKey: string, prompt = DETECTION_PROMPT): Promise<DetectedItem[]> {
+  const text = await askDedalusVision(jpegBase64, apiKey, prompt, 2048); // room for polygons
+  return parseDetectionJson(text || '[]');
 }
 
 function parseDetectionJson(text: string): DetectedItem[] {
@@ -90,33 +113,33 @@ function parseDetectionJson(text: string): DetectedItem[] {
     const arr = Array.isArray(parsed) ? parsed : [];
     return arr
       .filter(
-        (o): o is { label: string; bbox: BoundingBox } =>
+        (o): o is { label: string; bbox: BoundingBox; confidence?: unknown; polygon?: unknown } =>
           o != null &&
           typeof o === 'object' &&
           typeof (o as { label?: unknown }).label === 'string' &&
           typeof (o as { bbox?: unknown }).bbox === 'object'
       )
-      .map((o) => ({ label: o.label, bbox: normalizeBbox(o.bbox) }));
+      .map((o) => toDetectedItem(o.label, o.bbox, o.confidence, o.polygon));
   } catch {
     return [];
   }
 }
 
-/** Call Google Gemini REST for bounding boxes. */
-async function detectWithGemini(jpegBase64: string, apiKey: string): Promise<DetectedItem[]> {
+/** Send an image and prompt to Google Gemini REST with a JSON response; returns the model's text. */
+export async function askGeminiVision(jpegBase64: string, apiKey: string, prompt: string, maxTokens = 2048): Promise<string> {
   const url = `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`;
   const body = {
     contents: [
       {
         parts: [
-          { text: DETECTION_PROMPT },
+          { text: prompt },
           { inlineData: { mimeType: 'image/jpeg', data: jpegBase64 } },
         ],
       },
     ],
     generationConfig: {
       temperature: 0.1,
-      maxOutputTokens: 1024,
+      maxOutputTokens: maxTokens,
       responseMimeType: 'application/json',
     },
   };
@@ -144,39 +167,110 @@ async function detectWithGemini(jpegBase64: string, apiKey: string): Promise<Det
   const data = (await res.json()) as {
     candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
   };
-  const text = data.candidates?.[0]?.content?.parts?.[0]?.text?.trim() ?? '[]';
-  return parseDetectionJson(text);
+  return data.candidates?.[0]?.content?.parts?.[0]?.text?.trim() ?? '';
 }
 
-/** Filter out obviously bad detections: too small, too large, or generic labels. */
-function filterDetections(items: DetectedItem[]): DetectedItem[] {
-  const GENERIC_LABELS = new Set(['metal', 'panel', 'tube', 'wire', 'hose', 'part', 'component', 'piece', 'object', 'thing', 'item', 'surface', 'structure', 'sky', 'ground', 'grass', 'concrete', 'building', 'person', 'tool']);
+/** Call Google Gemini REST for bounding boxes. */
+export async function detectWithGemini(jpegBase64: string, apiKey: string, prompt = DETECTION_PROMPT): Promise<DetectedItem[]> {
+  const text = await askGeminiVision(jpegBase64, apiKey, prompt, 2048); // room for polygons
+  return parseDetectionJson(text || '[]');
+}
+
+/** Filter out obviously bad detections: too small, too large, generic labels, or below the confidence threshold. */
+export function filterDetections(items: DetectedItem[], minConfidence = env.detectionMinConfidence): DetectedItem[] {
   return items.filter((item) => {
     // Reject tiny boxes (less than 2% of image in either dimension)
     if (item.bbox.width < 0.02 || item.bbox.height < 0.02) return false;
     // Reject boxes that cover almost the entire image (>95%)
     if (item.bbox.width > 0.95 && item.bbox.height > 0.95) return false;
-    // Reject generic labels
-    const lower = item.label.toLowerCase().trim();
-    if (GENERIC_LABELS.has(lower)) return false;
-    if (lower.length < 3) return false;
+    // Reject generic labels and scene content
+    if (isGenericLabel(item.label) || isNonComponentLabel(item.label)) return false;
+    if (item.label.trim().length < 3) return false;
+    // Reject low-confidence guesses (items without a reported confidence are kept)
+    if (item.confidence != null && item.confidence < minConfidence) return false;
     return true;
   });
 }
 
+registerDetectionProvider({
+  id: 'aerodetect',
+  name: 'AeroDetect',
+  priority: 10,
+  intervalMs: 1500,
+  local: true,
+  isAvailable: () => Boolean(getAeroDetectUrl()),
+  detect: (jpegBase64) => detectWithAeroDetect(jpegBase64),
+});
+
+registerDetectionProvider({
+  id: 'dedalus',
+  name: 'Dedalus',
+  priority: 20,
+  intervalMs: 4500, // ~13/min to leave headroom for overlay + details
+  isAvailable: (apiKey) => isDedalusApiKey(apiKey),
+  detect: (jpegBase64, apiKey) => {
+    // Shared Dedalus backoff: fail fast so the registry can fall over instead of hitting 429 again
+    if (isDedalusBackoff()) return Promise.reject(new Error('Dedalus rate limit (429) backoff'));
+    return detectWithDedalus(jpegBase64, apiKey);
+  },
+});
+
+registerDetectionProvider({
+  id: 'gemini',
+  name: 'Gemini',
+  priority: 30,
+  intervalMs: 10000,
+  isAvailable: (apiKey) => Boolean(apiKey) && !isDedalusApiKey(apiKey),
+  detect: (jpegBase64, apiKey) => detectWithGemini(jpegBase64, apiKey),
+});
+
+/**
+ * Ask the configured vision model about an image (Dedalus for a Dedalus key, else Gemini REST), for
+ * reads other than component detection, e.g. a scanned task card. Returns the model's text and name.
+ */
+export async function askVisionModel(jpegBase64: string, apiKey: string, prompt: string, maxTokens = 1024): Promise<{ text: string; model: string }> {
+  if (isDedalusApiKey(apiKey)) {
+    if (isDedalusBackoff()) throw new Error('Dedalus rate limit (429) backoff');
+    return { text: await askDedalusVision(jpegBase64, apiKey, prompt, maxTokens), model: 'Gemini via Dedalus' };
+  }
+  if (!apiKey) throw new Error('No vision model configured. Set a Gemini or Dedalus API key in .env');
+  return { text: await askGeminiVision(jpegBase64, apiKey, prompt, maxTokens), model: 'Gemini' };
+}
+
+/**
+ * Detect components with the selected provider (failing over to the others), then filter and map
+ * labels onto the component taxonomy.
+ * With a frame hash, a near-identical recent frame's result is reused instead of calling a remote
+ * provider (see detectionCache.ts); local providers are always called.
+ */
 export async function detectItemsInImage(
   jpegBase64: string,
-  apiKey: string
+  apiKey: string,
+  frameHash?: FrameHash | null
 ): Promise<DetectedItem[]> {
-  let items: DetectedItem[];
-  if (isAeroDetectConfigured()) {
-    items = await detectWithAeroDetect(jpegBase64);
-  } else if (isDedalusApiKey(apiKey)) {
-    items = await detectWithDedalus(jpegBase64, apiKey);
-  } else {
-    items = await detectWithGemini(jpegBase64, apiKey);
+  const active = getActiveDetectionProvider(apiKey);
+  const useCache = frameHash != null && active != null && !active.local;
+  if (useCache) {
+    const cached = lookupCachedDetections(frameHash, active.id);
+    if (cached) return canonicalizeDetections(filterDetections(cached));
   }
-  return filterDetections(items);
+  const { items, provider } = await runDetectionProviders(jpegBase64, apiKey);
+  if (useCache && !provider.local) storeCachedDetections(frameHash, items, provider.id);
+  return canonicalizeDetections(filterDetections(items));
+}
+
+function toDetectedItem(label: string, bbox: BoundingBox, confidence: unknown, polygon: unknown): DetectedItem {
+  const item: DetectedItem = { label, bbox: normalizeBbox(bbox), confidence: normalizeConfidence(confidence) };
+  const outline = normalizePolygon(polygon);
+  if (outline) item.polygon = outline;
+  return item;
+}
+
+/** Clamp to 0-1; accepts percentages (e.g. 85) from models that ignore the 0-1 instruction. */
+function normalizeConfidence(c: unknown): number | undefined {
+  const n = typeof c === 'string' ? Number(c) : c;
+  if (typeof n !== 'number' || !Number.isFinite(n) || n < 0) return undefined;
+  return Math.min(1, n > 1 ? n / 100 : n);
 }
 
 function normalizeBbox(b: { x?: number; y?: number; width?: number; height?: number }): BoundingBox {
@@ -0,0 +1,210 @@
+/**
+ * Detection result cache keyed by a perceptual frame hash, so a camera held on the same cowling for
+ * minutes doesn't spend the shared Dedalus/Gemini rate limit re-detecting an unchanged scene.
+ * Frames are hashed with a 256-bit difference hash (dHash); a cached result is reused when the
+ * Hamming distance to its frame is small. Entries live in memory and are mirrored to IndexedDB so
+ * a reload during a long inspection starts warm. Only remote providers are cached, and each
+ * provider only reuses its own results: switching backends re-detects instead of replaying another
+ * model's boxes and labels.
+ */
+
+import type { DetectedItem } from './detection';
+import { captureGrayFrame, type GrayFrame } from './camera';
+import { idbClear, idbDelete, idbGetAll, idbPut, openDatabase } from './idb';
+
+/** 16×16 dHash packed into eight 32-bit words */
+export type FrameHash = number[];
+
+interface CacheEntry {
+  /** Provider id and hex form of the hash (IndexedDB key) */
+  key: string;
+  hash: FrameHash;
+  /** Raw provider output; confidence filtering is re-applied on read so threshold changes take effect */
+  items: DetectedItem[];
+  providerId: string;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+export interface DetectionCacheStats {
+  entries: number;
+  hits: number;
+  misses: number;
+}
+
+const DB_NAME = 'flightsight_detection_cache';
+const STORE = 'entries';
+const HASH_GRID = 16;
+/** Longest side of the frame the hash is computed from */
+const HASH_FRAME_SIZE = 96;
+/** Max differing bits (of 256) for two frames to count as the same view; ~5% tolerates sensor noise and exposure drift */
+const MAX_HAMMING_DISTANCE = 12;
+/** Results older than this are re-detected even if the view is unchanged (panels get opened, parts removed) */
+const ENTRY_TTL_MS = 10 * 60_000;
+const MAX_ENTRIES = 200;
+
+const entries = new Map<string, CacheEntry>();
+let hits = 0;
+let misses = 0;
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function getDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, 1, (db) => {
+      if (!db.objectStoreNames.contains(STORE)) db.createObjectStore(STORE, { keyPath: 'key' });
+    });
+  }
+  return dbPromise;
+}
+
+function persist(entry: CacheEntry): void {
+  getDb()
+    .then((db) => idbPut(db, STORE, entry))
+    .catch((e) => console.warn('Detection cache write failed:', e));
+}
+
+function forget(key: string): void {
+  entries.delete(key);
+  getDb()
+    .then((db) => idbDelete(db, STORE, key))
+    .catch(() => {});
+}
+
+/** Load persisted entries into memory. Lookups before this resolves simply miss. */
+async function loadDetectionCache(): Promise<void> {
+  if (typeof indexedDB === 'undefined') return; // Node (eval scripts) or a browser without IndexedDB
+  try {
+    const db = await getDb();
+    const stored = await idbGetAll<CacheEntry>(db, STORE);
+    const now = Date.now();
+    for (const e of stored) {
+      if (now - e.createdAt > ENTRY_TTL_MS) forget(e.key);
+      else if (!entries.has(e.key)) entries.set(e.key, e);
+    }
+  } catch (e) {
+    console.warn('Detection cache unavailable, using memory only:', e);
+  }
+}
+
+// Preload on import
+loadDetectionCache();
+
+/** Mean luminance of each cell of a cols×rows grid over the frame. */
+function cellMeans(frame: GrayFrame, cols: number, rows: number): Float32Array {
+  const out = new Float32Array(cols * rows);
+  for (let r = 0; r < rows; r++) {
+    const y0 = Math.floor((r * frame.height) / rows);
+    const y1 = Math.max(y0 + 1, Math.floor(((r + 1) * frame.height) / rows));
+    for (let c = 0; c < cols; c++) {
+      const x0 = Math.floor((c * frame.width) / cols);
+      const x1 = Math.max(x0 + 1, Math.floor(((c + 1) * frame.width) / cols));
+      let sum = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) sum += frame.data[y * frame.width + x];
+      }
+      out[r * cols + c] = sum / ((y1 - y0) * (x1 - x0));
+    }
+  }
+  return out;
+}
+
+/** Difference hash: one bit per horizontally adjacent cell pair (left brighter than right). */
+export function computeFrameHash(frame: GrayFrame): FrameHash {
+  const cols = HASH_GRID + 1;
+  const means = cellMeans(frame, cols, HASH_GRID);
+  const words = new Array<number>((HASH_GRID * HASH_GRID) / 32).fill(0);
+  let bit = 0;
+  for (let r = 0; r < HASH_GRID; r++) {
+    for (let c = 0; c < HASH_GRID; c++, bit++) {
+      if (means[r * cols + c] > means[r * cols + c + 1]) words[bit >> 5] |= 1 << (bit & 31);
+    }
+  }
+  return words.map((w) => w >>> 0);
+}
+
+/** Hash the current video frame (null if the video isn't ready or the canvas is tainted). */
+export function hashVideoFrame(video: HTMLVideoElement): FrameHash | null {
+  const frame = captureGrayFrame(video, HASH_FRAME_SIZE);
+  return frame ? computeFrameHash(frame) : null;
+}
+
+function popcount(n: number): number {
+  n -= (n >>> 1) & 0x55555555;
+  n = (n & 0x33333333) + ((n >>> 2) & 0x33333333);
+  return (((n + (n >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+export function hammingDistance(a: FrameHash, b: FrameHash): number {
+  let d = 0;
+  for (let i = 0; i < a.length; i++) d += popcount((a[i] ^ b[i]) >>> 0);
+  return d;
+}
+
+function entryKey(hash: FrameHash, providerId: string): string {
+  return `${providerId}:${hash.map((w) => w.toString(16).padStart(8, '0')).join('')}`;
+}
+
+function findEntry(hash: FrameHash, providerId: string, now: number): CacheEntry | null {
+  let best: CacheEntry | null = null;
+  let bestDistance = MAX_HAMMING_DISTANCE + 1;
+  for (const e of entries.values()) {
+    if (e.providerId !== providerId || now - e.createdAt > ENTRY_TTL_MS) continue;
+    const d = hammingDistance(hash, e.hash);
+    if (d < bestDistance) {
+      best = e;
+      bestDistance = d;
+    }
+  }
+  return best;
+}
+
+/** True if the provider has a fresh result for this view (does not count as a hit). */
+export function hasCachedDetections(hash: FrameHash, providerId: string, now = Date.now()): boolean {
+  return findEntry(hash, providerId, now) != null;
+}
+
+/** The provider's cached raw detections for a near-identical frame, or null on a miss. */
+export function lookupCachedDetections(hash: FrameHash, providerId: string, now = Date.now()): DetectedItem[] | null {
+  const entry = findEntry(hash, providerId, now);
+  if (!entry) {
+    misses++;
+    return null;
+  }
+  hits++;
+  entry.lastUsedAt = now;
+  return entry.items.map((item) => ({ ...item, bbox: { ...item.bbox } }));
+}
+
+/**
+ * Remember a provider result for this frame. Empty results are not cached: they usually mean the
+ * model missed the part, and asking again on the next tick is worth the call.
+ */
+export function storeCachedDetections(hash: FrameHash, items: DetectedItem[], providerId: string, now = Date.now()): void {
+  if (items.length === 0) return;
+  const key = entryKey(hash, providerId);
+  const entry: CacheEntry = { key, hash, items, providerId, createdAt: now, lastUsedAt: now };
+  entries.set(key, entry);
+  persist(entry);
+  if (entries.size > MAX_ENTRIES) {
+    // Evict expired entries first, then least recently used
+    const byAge = [...entries.values()].sort((a, b) => {
+      const aExpired = now - a.createdAt > ENTRY_TTL_MS ? 0 : 1;
+      const bExpired = now - b.createdAt > ENTRY_TTL_MS ? 0 : 1;
+      return aExpired - bExpired || a.lastUsedAt - b.lastUsedAt;
+    });
+    for (const e of byAge.slice(0, entries.size - MAX_ENTRIES)) forget(e.key);
+  }
+}
+
+export function clearDetectionCache(): void {
+  entries.clear();
+  hits = 0;
+  misses = 0;
+  getDb()
+    .then((db) => idbClear(db, STORE))
+    .catch(() => {});
+}
+
+export function getDetectionCacheStats(): DetectionCacheStats {
+  return { entries: entries.size, hits, misses };
+}
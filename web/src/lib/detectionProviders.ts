@@ -0,0 +1,234 @@
+/**
+ * Detection provider registry: each backend (AeroDetect, Dedalus, Gemini REST, …) registers a provider.
+ * The active provider is chosen at runtime ("auto" = first available by priority, or a pinned provider id
+ * persisted in localStorage) and failed calls fail over to the next available provider. The AeroDetect URL
+ * and the vision API key can be set at runtime too (detection panel), overriding the build-time .env values.
+ */
+
+import type { DetectedItem } from './detection';
+import { env } from './env';
+
+export interface DetectionProvider {
+  /** Stable id used for selection and stats, e.g. "aerodetect" */
+  id: string;
+  /** Display name for the detection panel */
+  name: string;
+  /** Lower runs first in auto mode */
+  priority: number;
+  /** Suggested delay between detection ticks (rate limits differ per backend) */
+  intervalMs: number;
+  /** True for backends on the local network: send full-resolution frames, no shared rate limit */
+  local?: boolean;
+  /** True if this provider can run with the current config/key. */
+  isAvailable(apiKey: string): boolean;
+  detect(jpegBase64: string, apiKey: string): Promise<DetectedItem[]>;
+}
+
+export interface ProviderStats {
+  calls: number;
+  failures: number;
+  lastLatencyMs: number | null;
+  /** Exponential moving average of successful call latency */
+  avgLatencyMs: number | null;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  /** Provider is skipped by failover until this time (after a rate limit) */
+  cooldownUntil: number;
+}
+
+/** Backend settings entered in the detection panel; empty fields fall back to .env */
+export interface DetectionSettings {
+  /** AeroDetect server base URL, e.g. "http://192.168.1.20:8000" */
+  aeroDetectUrl?: string;
+  /** Gemini or Dedalus (dsk-…) key for the vision providers */
+  apiKey?: string;
+}
+
+/** "auto" or a registered provider id */
+export type ProviderSelection = string;
+
+export const AUTO_PROVIDER = 'auto';
+
+const SELECTION_STORAGE_KEY = 'flightsight_detection_provider';
+const SETTINGS_STORAGE_KEY = 'flightsight_detection_settings';
+const LATENCY_EMA_WEIGHT = 0.3;
+/** How long a rate-limited provider is skipped before it is tried again */
+const RATE_LIMIT_COOLDOWN_MS = 45_000;
+
+const providers = new Map<string, DetectionProvider>();
+const stats = new Map<string, ProviderStats>();
+const listeners = new Set<() => void>();
+
+function emptyStats(): ProviderStats {
+  return { calls: 0, failures: 0, lastLatencyMs: null, avgLatencyMs: null, lastError: null, lastErrorAt: null, cooldownUntil: 0 };
+}
+
+function notify(): void {
+  for (const l of listeners) l();
+}
+
+/** Register (or replace) a detection provider. */
+export function registerDetectionProvider(provider: DetectionProvider): void {
+  providers.set(provider.id, provider);
+  if (!stats.has(provider.id)) stats.set(provider.id, emptyStats());
+  notify();
+}
+
+export function unregisterDetectionProvider(id: string): void {
+  providers.delete(id);
+  stats.delete(id);
+  notify();
+}
+
+/** All registered providers, in priority order. */
+export function listDetectionProviders(): DetectionProvider[] {
+  return [...providers.values()].sort((a, b) => a.priority - b.priority);
+}
+
+export function getProviderStats(id: string): ProviderStats {
+  return stats.get(id) ?? emptyStats();
+}
+
+/** Subscribe to registry, selection and stats changes. Returns unsubscribe. */
+export function subscribeDetectionProviders(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getDetectionSettings(): DetectionSettings {
+  try {
+    const raw = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as DetectionSettings) : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Persist the panel's backend settings; blank values are dropped so .env applies again. */
+export function setDetectionSettings(settings: DetectionSettings): void {
+  const aeroDetectUrl = settings.aeroDetectUrl?.trim();
+  const apiKey = settings.apiKey?.trim();
+  try {
+    if (!aeroDetectUrl && !apiKey) localStorage.removeItem(SETTINGS_STORAGE_KEY);
+    else localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify({ aeroDetectUrl: aeroDetectUrl || undefined, apiKey: apiKey || undefined }));
+  } catch {
+    // ignore
+  }
+  notify();
+}
+
+/** AeroDetect base URL: the panel's, else VITE_AERODETECT_API_URL; empty when not configured. */
+export function getAeroDetectUrl(): string {
+  return getDetectionSettings().aeroDetectUrl || env.aeroDetectApiUrl;
+}
+
+/** Key passed to the vision providers: the panel's, else VITE_GEMINI_API_KEY. */
+export function getDetectionApiKey(): string {
+  return getDetectionSettings().apiKey || env.geminiApiKey;
+}
+
+/** Session-only selection that wins over the stored one (e.g. the replay provider); never persisted */
+let selectionOverride: ProviderSelection | null = null;
+
+export function getProviderSelection(): ProviderSelection {
+  if (selectionOverride) return selectionOverride;
+  try {
+    return localStorage.getItem(SELECTION_STORAGE_KEY) || AUTO_PROVIDER;
+  } catch {
+    return AUTO_PROVIDER;
+  }
+}
+
+/** Pin a provider (or "auto"); persisted so it survives reloads without rebuilding. */
+export function setProviderSelection(selection: ProviderSelection): void {
+  try {
+    if (selection === AUTO_PROVIDER) localStorage.removeItem(SELECTION_STORAGE_KEY);
+    else localStorage.setItem(SELECTION_STORAGE_KEY, selection);
+  } catch {
+    // ignore
+  }
+  notify();
+}
+
+/** Temporarily force a provider without touching the persisted pin; null restores the stored selection. */
+export function setProviderOverride(selection: ProviderSelection | null): void {
+  selectionOverride = selection;
+  notify();
+}
+
+/** True if the error is a rate limit (429 / free-tier quota) rather than a hard failure. */
+export function isRateLimitError(err: unknown): boolean {
+  const msg = err instanceof Error ? err.message : String(err);
+  return msg.includes('429') || /rate limit|too many/i.test(msg);
+}
+
+/**
+ * Providers to try for one detection call, in order: the pinned provider (if available) first,
+ * then the remaining available providers by priority. Providers cooling down after a 429 go last.
+ * With an override set, only the overriding provider is returned.
+ */
+export function getProviderChain(apiKey: string, now = Date.now()): DetectionProvider[] {
+  const available = listDetectionProviders().filter((p) => p.isAvailable(apiKey));
+  // An override is exclusive: a replay must never fail over to a live backend
+  if (selectionOverride) return available.filter((p) => p.id === selectionOverride);
+  const selection = getProviderSelection();
+  const pinned = available.find((p) => p.id === selection);
+  const ordered = pinned ? [pinned, ...available.filter((p) => p !== pinned)] : available;
+  const ready = ordered.filter((p) => getProviderStats(p.id).cooldownUntil <= now);
+  const cooling = ordered.filter((p) => getProviderStats(p.id).cooldownUntil > now);
+  return [...ready, ...cooling];
+}
+
+/** Provider the next detection call will start with (null if none is available). */
+export function getActiveDetectionProvider(apiKey: string): DetectionProvider | null {
+  return getProviderChain(apiKey)[0] ?? null;
+}
+
+function recordSuccess(id: string, latencyMs: number): void {
+  const s = { ...getProviderStats(id) };
+  s.calls += 1;
+  s.lastLatencyMs = latencyMs;
+  s.avgLatencyMs = s.avgLatencyMs == null ? latencyMs : s.avgLatencyMs + (latencyMs - s.avgLatencyMs) * LATENCY_EMA_WEIGHT;
+  s.cooldownUntil = 0;
+  stats.set(id, s);
+  notify();
+}
+
+function recordFailure(id: string, err: unknown): void {
+  const s = { ...getProviderStats(id) };
+  const now = Date.now();
+  s.calls += 1;
+  s.failures += 1;
+  s.lastError = err instanceof Error ? err.message : String(err);
+  s.lastErrorAt = now;
+  if (isRateLimitError(err)) s.cooldownUntil = now + RATE_LIMIT_COOLDOWN_MS;
+  stats.set(id, s);
+  notify();
+}
+
+/**
+ * Run detection through the provider chain. Any failure falls over to the next provider;
+ * if every provider fails, the first error is rethrown so callers keep the primary backend's message.
+ */
+export async function runDetectionProviders(
+  jpegBase64: string,
+  apiKey: string
+): Promise<{ items: DetectedItem[]; provider: DetectionProvider }> {
+  const chain = getProviderChain(apiKey);
+  if (chain.length === 0) throw new Error('No detection provider configured. Set an AeroDetect URL or API key in the detection settings or .env');
+  let firstError: unknown = null;
+  for (const provider of chain) {
+    const started = performance.now();
+    try {
+      const items = await provider.detect(jpegBase64, apiKey);
+      recordSuccess(provider.id, performance.now() - started);
+      return { items, provider };
+    } catch (e) {
+      recordFailure(provider.id, e);
+      if (firstError == null) firstError = e;
+    }
+  }
+  throw firstError;
+}
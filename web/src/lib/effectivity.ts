@@ -0,0 +1,90 @@
+/**
+ * Manual and chunk effectivity: which aircraft types, models and serial ranges a manual (or one
+ * chunk of it) applies to. The active profile's WorkContext picks the aircraft; the KB only loads
+ * and cites content effective for it, so a 172N technician is never pointed at a 172Q-only page.
+ */
+
+import type { WorkContext } from './rag';
+
+export interface SerialRange {
+  from: string;
+  /** Inclusive; open-ended when omitted */
+  to?: string;
+}
+
+export interface Effectivity {
+  /** Aircraft types, e.g. "Cessna 172", "MD-11" */
+  aircraft?: string[];
+  /** Models / variants, e.g. "172N", "F172P" */
+  models?: string[];
+  serials?: SerialRange[];
+}
+
+/** The aircraft being worked on, from the profile's work context */
+export interface AircraftIdentity {
+  /** Free text as entered, e.g. "Cessna 172N" */
+  type: string;
+  serial?: string;
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/** "Cessna 172N" names a model ("172n"); "Cessna 172" or "MD-11" only a type. */
+function namesModel(type: string): boolean {
+  return type.split(' ').some((t) => /\d/.test(t) && /[a-z]/.test(t));
+}
+
+function compareSerials(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+}
+
+export function getAircraftIdentity(workContext: WorkContext | undefined | null): AircraftIdentity | null {
+  const type = workContext?.aircraftType?.trim();
+  if (!type) return null;
+  const serial = workContext?.aircraftSerial?.trim();
+  return serial ? { type, serial } : { type };
+}
+
+export function sameAircraft(a: AircraftIdentity | null, b: AircraftIdentity | null): boolean {
+  return (a?.type ?? '') === (b?.type ?? '') && (a?.serial ?? '') === (b?.serial ?? '');
+}
+
+/**
+ * True if content with this effectivity applies to the aircraft. Anything is effective when either
+ * side is unspecified; a type without a model ("Cessna 172") matches every model of that type, and
+ * a serial range only excludes when the profile gives a serial.
+ */
+export function isEffective(effectivity: Effectivity | undefined | null, aircraft: AircraftIdentity | null): boolean {
+  if (!effectivity || !aircraft) return true;
+  const type = normalize(aircraft.type);
+  const modelMatch = (effectivity.models ?? []).some((m) => {
+    const model = normalize(m);
+    return type === model || type.endsWith(` ${model}`);
+  });
+  if (effectivity.aircraft?.length && !modelMatch) {
+    const typeMatch = effectivity.aircraft.some((a) => {
+      const name = normalize(a);
+      return type === name || type.startsWith(name);
+    });
+    if (!typeMatch) return false;
+  }
+  if (effectivity.models?.length && namesModel(type) && !modelMatch) return false;
+  if (effectivity.serials?.length && aircraft.serial) {
+    const serial = aircraft.serial;
+    const inRange = effectivity.serials.some((r) => compareSerials(serial, r.from) >= 0 && (!r.to || compareSerials(serial, r.to) <= 0));
+    if (!inRange) return false;
+  }
+  return true;
+}
+
+/** "172N, F172N" / "S/N 17267585 and on" style summary for prompts and labels. */
+export function formatEffectivity(effectivity: Effectivity | undefined | null): string {
+  if (!effectivity) return '';
+  const parts: string[] = [];
+  if (effectivity.models?.length) parts.push(effectivity.models.join(', '));
+  else if (effectivity.aircraft?.length) parts.push(effectivity.aircraft.join(', '));
+  for (const r of effectivity.serials ?? []) parts.push(r.to ? `S/N ${r.from}–${r.to}` : `S/N ${r.from} and on`);
+  return parts.join('; ');
+}
@@ -1,49 +1,57 @@
 // Env vars (Vite exposes VITE_* to client)
 // Copy .env.example to .env and fill in.
 
+// Undefined outside Vite (unit tests under node): every setting then reads as unset
+const vars: Partial<ImportMetaEnv> = import.meta.env ?? {};
+
 export const env = {
   get geminiApiKey(): string {
-    return import.meta.env.VITE_GEMINI_API_KEY ?? '';
+    return vars.VITE_GEMINI_API_KEY ?? '';
   },
   get openClawHost(): string {
-    return import.meta.env.VITE_OPENCLAW_HOST ?? '';
+    return vars.VITE_OPENCLAW_HOST ?? '';
   },
   get openClawPort(): string {
-    return import.meta.env.VITE_OPENCLAW_PORT ?? '18789';
+    return vars.VITE_OPENCLAW_PORT ?? '18789';
   },
   get openClawToken(): string {
-    return import.meta.env.VITE_OPENCLAW_GATEWAY_TOKEN ?? '';
+    return vars.VITE_OPENCLAW_GATEWAY_TOKEN ?? '';
   },
   get aeroDetectApiUrl(): string {
-    return import.meta.env.VITE_AERODETECT_API_URL ?? '';
+    return vars.VITE_AERODETECT_API_URL ?? '';
   },
   /** Optional: Dedalus key for voice Q&A only. If set, voice uses Dedalus (not Gemini). Falls back to VITE_GEMINI_API_KEY. */
   get dedalusVoiceApiKey(): string {
-    return import.meta.env.VITE_DEDALUS_VOICE_API_KEY ?? import.meta.env.VITE_GEMINI_API_KEY ?? '';
+    return vars.VITE_DEDALUS_VOICE_API_KEY ?? vars.VITE_GEMINI_API_KEY ?? '';
   },
   /** Dedalus model for voice Q&A. Use same as detection (google/gemini-2.0-flash) for compatibility. */
   get dedalusVoiceModel(): string {
-    return import.meta.env.VITE_DEDALUS_VOICE_MODEL ?? 'google/gemini-2.0-flash';
+    return vars.VITE_DEDALUS_VOICE_MODEL ?? 'google/gemini-2.0-flash';
   },
   /** Optional: use a separate key for Gemini Live (Google). Set when using Dedalus for detection. */
   get geminiLiveApiKey(): string {
-    return import.meta.env.VITE_GEMINI_LIVE_API_KEY ?? env.geminiApiKey ?? '';
+    return vars.VITE_GEMINI_LIVE_API_KEY ?? env.geminiApiKey ?? '';
   },
   /** Optional: Google API key for voice when Dedalus returns 404. Get one at aistudio.google.com/apikey */
   get googleVoiceFallbackKey(): string {
-    return (import.meta.env.VITE_GOOGLE_VOICE_API_KEY as string)?.trim() ?? '';
+    return (vars.VITE_GOOGLE_VOICE_API_KEY as string)?.trim() ?? '';
   },
   /** ElevenLabs API key for TTS (conversational voice responses). */
   get elevenLabsApiKey(): string {
-    return import.meta.env.VITE_ELEVENLABS_API_KEY ?? '';
+    return vars.VITE_ELEVENLABS_API_KEY ?? '';
   },
   /** ElevenLabs voice ID. Default: Rachel (conversational). */
   get elevenLabsVoiceId(): string {
-    return import.meta.env.VITE_ELEVENLABS_VOICE_ID ?? '21m00Tcm4TlvDq8ikWAM';
+    return vars.VITE_ELEVENLABS_VOICE_ID ?? '21m00Tcm4TlvDq8ikWAM';
+  },
+  /** Minimum detection confidence (0-1) to show a box. Detections without a reported confidence are kept. */
+  get detectionMinConfidence(): number {
+    const v = Number(vars.VITE_DETECTION_MIN_CONFIDENCE);
+    return Number.isFinite(v) && v >= 0 && v <= 1 ? v : 0.35;
   },
   /** Optional: full URL to manual PDF if local /manuals/ file fails (e.g. symlink on Windows). Example: https://yoursite.com/cessna172-sm.pdf */
   get manualPdfBaseUrl(): string {
-    return (import.meta.env.VITE_MANUAL_PDF_URL as string)?.trim() ?? '';
+    return (vars.VITE_MANUAL_PDF_URL as string)?.trim() ?? '';
   },
 };
 
@@ -70,7 +78,3 @@ export function isOpenClawConfigured(): boolean {
       env.openClawToken !== 'YOUR_OPENCLAW_GATEWAY_TOKEN'
   );
 }
-
-export function isAeroDetectConfigured(): boolean {
-  return Boolean(env.aeroDetectApiUrl && env.aeroDetectApiUrl !== '');
-}
@@ -0,0 +1,163 @@
+/**
+ * Grounded answer mode (AnswerMode 'grounded', see rag.ts): numeric specs — torque, gaps, clearances,
+ * pressures, temperatures, capacities — are only stated when a retrieved manual page has them. The
+ * prompt asks the model for that; groundAnswer enforces it on the reply by dropping sentences with
+ * values no retrieved page states in the same unit (35 ft-lbs is not grounded by a "35" elsewhere on
+ * a page that gives 300–360 in-lbs) and pointing to the closest retrieved section instead.
+ */
+
+import { getManualRef, type KBChunk, type ManualRef } from './knowledgeBase';
+
+const NOT_IN_MANUALS = 'not in loaded manuals';
+
+export interface GroundedText {
+  /** The text without sentences stating unsupported values */
+  text: string;
+  /** Removed values as written, e.g. "450 in-lbs" */
+  ungrounded: string[];
+  /** Best retrieved section, to look in instead */
+  closest: ManualRef | null;
+}
+
+const NUMBER = String.raw`(?:\d+(?:,\d{3})*(?:\.\d+)?|\.\d+)`;
+const UNIT = String.raw`(?:°\s?[FC]\b|degrees?\b|(?:in|ft)[.-]?\s?-?\s?lbs?\b|(?:inch|foot)[- ]pounds?\b|N\s?[·.]?\s?m\b|psi\b|inch(?:es)?\b|in\.|"|qts?\b\.?|quarts?\b|gal(?:lons?)?\b|rpm\b|mm\b)`;
+/** A number or range with a spec unit: "300–360 in-lbs", "0.016-0.021\"", "60 to 90 psi", "500°F", "6 qts" */
+const SPEC_RE = new RegExp(String.raw`(?<![\w.])[±~]?${NUMBER}(?:\s*(?:-|–|to)\s*${NUMBER})?\s*${UNIT}`, 'gi');
+/** A unit named in a table title, column heading or row label: "Tension (in-lbs)", "Rated speed, RPM" */
+const HEADING_UNIT_RE = /°\s?[FC]\b|\bdegrees?\b|\b(?:in|ft)[.-]?\s?-?\s?lbs?\b|\b(?:inch|foot)[- ]pounds?\b|\bN\s?[·.]?\s?m\b|\bpsi\b|\binch(?:es)?\b|\bmm\b|\bqts?\b|\bquarts?\b|\bgal(?:lons?)?\b|\brpm\b/i;
+const NUMBER_RE = new RegExp(NUMBER, 'g');
+/** "INSTALLATION: " prefix of a structured reply line, kept when its sentences are dropped */
+const LINE_LABEL_RE = /^[A-Z][A-Z /]*:\s*/;
+/** Sentence end, but not after a unit or citation abbreviation: "35 ft. lbs.", "p. 26" */
+const SENTENCE_BREAK_RE = /(?<=[.!?])(?<!\b(?:ft|in|lbs?|qts?|gal|pp?|Fig|approx)\.)\s+/i;
+/** Converted values (ft-lbs → in-lbs, °C → °F, mm → in) match within this fraction */
+const VALUE_TOLERANCE = 0.015;
+
+/** degrees: a bare "degrees" (temperature or crank angle), compared as written */
+type Quantity = 'torque' | 'temperature' | 'degrees' | 'pressure' | 'length' | 'volume' | 'speed';
+
+/** Units normalized to in-lbs, °F, psi, inches, quarts and rpm */
+const UNITS: { re: RegExp; quantity: Quantity; toBase: (n: number) => number }[] = [
+  { re: /°\s?F/i, quantity: 'temperature', toBase: (n) => n },
+  { re: /°\s?C/i, quantity: 'temperature', toBase: (n) => (n * 9) / 5 + 32 },
+  { re: /degree/i, quantity: 'degrees', toBase: (n) => n },
+  { re: /^ft|foot/i, quantity: 'torque', toBase: (n) => n * 12 },
+  { re: /lb|pound/i, quantity: 'torque', toBase: (n) => n },
+  { re: /^N/, quantity: 'torque', toBase: (n) => n * 8.8507 },
+  { re: /psi/i, quantity: 'pressure', toBase: (n) => n },
+  { re: /mm/i, quantity: 'length', toBase: (n) => n / 25.4 },
+  { re: /^(?:in|")/i, quantity: 'length', toBase: (n) => n },
+  { re: /gal/i, quantity: 'volume', toBase: (n) => n * 4 },
+  { re: /^(?:qt|quart)/i, quantity: 'volume', toBase: (n) => n },
+  { re: /rpm/i, quantity: 'speed', toBase: (n) => n },
+];
+
+interface SpecValue {
+  quantity: Quantity;
+  /** In the quantity's base unit */
+  value: number;
+  /** As written, before conversion */
+  raw: number;
+}
+
+function numbers(text: string): number[] {
+  return (text.match(NUMBER_RE) ?? []).map((n) => parseFloat(n.replace(/,/g, '')));
+}
+
+function specValues(nums: number[], unitText: string): SpecValue[] {
+  const unit = UNITS.find((u) => u.re.test(unitText.trim()));
+  return unit ? nums.map((raw) => ({ quantity: unit.quantity, value: unit.toBase(raw), raw })) : [];
+}
+
+/** Each number of a spec match ("300–360 in-lbs") with the unit after it. */
+function parseSpec(spec: string): SpecValue[] {
+  const unitText = spec.slice(spec.search(/\d(?!.*\d)/s) + 1);
+  return specValues(numbers(spec), unitText);
+}
+
+function specsIn(text: string): SpecValue[] {
+  return (text.match(SPEC_RE) ?? []).flatMap(parseSpec);
+}
+
+/**
+ * Every value the retrieved pages state with a unit: in the chunk text, and in table cells — with the
+ * cell's own unit, else the one its row label, column heading or table title names.
+ */
+function manualValues(chunks: KBChunk[]): SpecValue[] {
+  const out: SpecValue[] = [];
+  for (const chunk of chunks) {
+    out.push(...specsIn(chunk.content));
+    for (const table of chunk.tables ?? []) {
+      for (const row of table.rows) {
+        row.forEach((cell, i) => {
+          const own = specsIn(cell);
+          if (own.length || i === 0 || !/\d/.test(cell)) {
+            out.push(...own);
+            return;
+          }
+          const heading = [row[0], table.columns?.[i], table.title].find((h) => h && HEADING_UNIT_RE.test(h));
+          if (heading) out.push(...specValues(numbers(cell), heading.match(HEADING_UNIT_RE)?.[0] ?? ''));
+        });
+      }
+    }
+  }
+  return out;
+}
+
+function close(a: number, b: number): boolean {
+  return Math.abs(a - b) <= VALUE_TOLERANCE * Math.max(Math.abs(a), Math.abs(b)) + 1e-9;
+}
+
+/** Same quantity and value; a bare "degrees" matches a temperature or angle by the number as written. */
+function matches(stated: SpecValue, known: SpecValue): boolean {
+  if (stated.quantity === 'degrees' || known.quantity === 'degrees') {
+    return (known.quantity === 'degrees' || known.quantity === 'temperature') && (stated.quantity === 'degrees' || stated.quantity === 'temperature') && close(stated.raw, known.raw);
+  }
+  return stated.quantity === known.quantity && close(stated.value, known.value);
+}
+
+/** Spec values in the text that no retrieved page states with the same unit (after conversion). */
+function unsupportedValues(text: string, known: SpecValue[]): string[] {
+  return (text.match(SPEC_RE) ?? [])
+    .filter((spec) => {
+      const stated = parseSpec(spec);
+      return stated.length === 0 || !stated.every((v) => known.some((k) => matches(v, k)));
+    })
+    .map((spec) => spec.trim());
+}
+
+/** Prompt rules for grounded mode, appended after the manual references. */
+export function groundingInstructions(hasManualContext: boolean): string {
+  return hasManualContext
+    ? `GROUNDED MODE: State a numeric spec (torque, gap, clearance, pressure, temperature, limit, capacity) only if it appears in the MANUAL REFERENCES above, with its page. If a value that was asked for is not there, say it is "${NOT_IN_MANUALS}" and name the closest manual section above instead. Never estimate or use general knowledge for numbers.`
+    : `GROUNDED MODE: No manual pages were found for this. Do not state any numeric spec (torque, gap, clearance, pressure, temperature, limit, capacity); say it is "${NOT_IN_MANUALS}".`;
+}
+
+/** Drop the sentences of a reply that state spec values absent from the retrieved chunks (line labels are kept). */
+export function groundAnswer(text: string, chunks: KBChunk[]): GroundedText {
+  const known = manualValues(chunks);
+  const ungrounded: string[] = [];
+  const lines = text.split('\n').map((line) => {
+    const label = line.match(LINE_LABEL_RE)?.[0] ?? '';
+    const kept = line
+      .slice(label.length)
+      .split(SENTENCE_BREAK_RE)
+      .filter((sentence) => {
+        const missing = unsupportedValues(sentence, known);
+        ungrounded.push(...missing);
+        return missing.length === 0;
+      });
+    return label + kept.join(' ');
+  });
+  return { text: lines.join('\n').trim(), ungrounded: [...new Set(ungrounded)], closest: chunks[0] ? getManualRef(chunks[0]) : null };
+}
+
+/** "Not in loaded manuals: 450 in-lbs. Closest section: Section 2 (General Airframe Practices), Cessna SM p.17." */
+export function groundingNote(grounded: GroundedText): string {
+  const closest = grounded.closest;
+  // Manual name right before the page, so the note's own citation verifies and links (see citations.ts)
+  const where = closest
+    ? ` Closest section: Section ${closest.section} (${closest.sectionTitle}), ${closest.manualName || 'SM'} p.${closest.page}.`
+    : ' No manual section matched.';
+  return `Not in loaded manuals: ${grounded.ungrounded.join(', ')}.${where}`;
+}
@@ -1,9 +1,10 @@
 /**
- * Map click (clientX, clientY) to video-normalized coords (0-1) and find which item bbox contains the point.
+ * Map click (clientX, clientY) to video-normalized coords (0-1) and find which item (outline, else bbox) contains the point.
  * Accounts for video element's object-fit: contain (letterboxing).
  */
 
 import type { DetectedItem } from './detection';
+import { distanceToPolygonEdge, pointInPolygon, polygonArea, polygonBounds } from './polygon';
 
 export function getVideoNormFromClick(
   video: HTMLVideoElement,
@@ -35,26 +36,41 @@ export function getVideoNormFromClick(
   return { x, y };
 }
 
-export function findItemAtPoint(
-  items: DetectedItem[],
-  normX: number,
-  normY: number
-): DetectedItem | null {
-  const hit: DetectedItem[] = [];
-  for (const item of items) {
-    const b = item.bbox;
+/** Taps within this distance (normalized) of an outline still select it: cables and fuel lines are only a few pixels wide */
+const OUTLINE_TAP_TOLERANCE = 0.015;
+
+function containsPoint(item: DetectedItem, normX: number, normY: number): boolean {
+  const b = item.bbox;
+  if (item.polygon) {
+    // Prefilter on the outline's own bounds: its points may lie outside the detection box
+    const p = polygonBounds(item.polygon);
     if (
-      normX >= b.x &&
-      normX <= b.x + b.width &&
-      normY >= b.y &&
-      normY <= b.y + b.height
+      normX < p.x - OUTLINE_TAP_TOLERANCE ||
+      normX > p.x + p.width + OUTLINE_TAP_TOLERANCE ||
+      normY < p.y - OUTLINE_TAP_TOLERANCE ||
+      normY > p.y + p.height + OUTLINE_TAP_TOLERANCE
     ) {
-      hit.push(item);
+      return false;
     }
+    return pointInPolygon(item.polygon, normX, normY) || distanceToPolygonEdge(item.polygon, normX, normY) <= OUTLINE_TAP_TOLERANCE;
   }
+  return normX >= b.x && normX <= b.x + b.width && normY >= b.y && normY <= b.y + b.height;
+}
+
+function itemArea(item: DetectedItem): number {
+  return item.polygon ? polygonArea(item.polygon) : item.bbox.width * item.bbox.height;
+}
+
+/** Item under the point: point-in-polygon for outlined items, bbox otherwise; smallest area wins. */
+export function findItemAtPoint<T extends DetectedItem>(
+  items: T[],
+  normX: number,
+  normY: number
+): T | null {
+  const hit = items.filter((item) => containsPoint(item, normX, normY));
   if (hit.length === 0) return null;
   if (hit.length === 1) return hit[0];
-  // Prefer smallest bbox (most specific)
-  hit.sort((a, b) => a.bbox.width * a.bbox.height - b.bbox.width * b.bbox.height);
+  // Prefer smallest area (most specific)
+  hit.sort((a, b) => itemArea(a) - itemArea(b));
   return hit[0];
 }
@@ -0,0 +1,75 @@
+/**
+ * Hungarian (Kuhn–Munkres) assignment for small cost matrices, O(n³).
+ * Used by tracking to match detections to tracks with minimum total cost instead of greedy IoU.
+ */
+
+/** Cost at or above this marks a forbidden pairing (outside the tracking gate). */
+export const INFEASIBLE_COST = 1e6;
+
+/**
+ * Solve a (possibly rectangular) assignment problem.
+ * Returns, for each row, the assigned column index or -1 (unassigned or only infeasible pairings left).
+ */
+export function solveAssignment(cost: number[][]): number[] {
+  const rows = cost.length;
+  const cols = rows > 0 ? cost[0].length : 0;
+  if (rows === 0) return [];
+  if (cols === 0) return new Array(rows).fill(-1);
+
+  // Pad to square; padded cells are cheap dummies so every real row/col can stay unassigned
+  const n = Math.max(rows, cols);
+  const at = (i: number, j: number): number => (i < rows && j < cols ? cost[i][j] : 0);
+
+  // 1-indexed potentials formulation: u (rows), v (cols), p[j] = row matched to column j
+  const u = new Array<number>(n + 1).fill(0);
+  const v = new Array<number>(n + 1).fill(0);
+  const p = new Array<number>(n + 1).fill(0);
+  const way = new Array<number>(n + 1).fill(0);
+
+  for (let i = 1; i <= n; i++) {
+    p[0] = i;
+    let j0 = 0;
+    const minv = new Array<number>(n + 1).fill(Infinity);
+    const used = new Array<boolean>(n + 1).fill(false);
+    do {
+      used[j0] = true;
+      const i0 = p[j0];
+      let delta = Infinity;
+      let j1 = 0;
+      for (let j = 1; j <= n; j++) {
+        if (used[j]) continue;
+        const cur = at(i0 - 1, j - 1) - u[i0] - v[j];
+        if (cur < minv[j]) {
+          minv[j] = cur;
+          way[j] = j0;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          j1 = j;
+        }
+      }
+      for (let j = 0; j <= n; j++) {
+        if (used[j]) {
+          u[p[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (p[j0] !== 0);
+    do {
+      const j1 = way[j0];
+      p[j0] = p[j1];
+      j0 = j1;
+    } while (j0 !== 0);
+  }
+
+  const out = new Array<number>(rows).fill(-1);
+  for (let j = 1; j <= n; j++) {
+    const i = p[j] - 1;
+    const col = j - 1;
+    if (i >= 0 && i < rows && col < cols && cost[i][col] < INFEASIBLE_COST) out[i] = col;
+  }
+  return out;
+}
@@ -0,0 +1,45 @@
+/**
+ * Minimal promise wrapper around IndexedDB for small object stores (one database per feature).
+ * All helpers reject if IndexedDB is unavailable (private browsing, old WebViews); callers treat
+ * persistence as best-effort and keep working from memory.
+ */
+
+export type UpgradeHandler = (db: IDBDatabase, oldVersion: number) => void;
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+export function openDatabase(name: string, version: number, upgrade: UpgradeHandler): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') return Promise.reject(new Error('IndexedDB not available'));
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (e) => upgrade(request.result, e.oldVersion);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error(`Could not open IndexedDB "${name}"`));
+    request.onblocked = () => reject(new Error(`IndexedDB "${name}" upgrade blocked by another tab`));
+  });
+}
+
+export function idbGetAll<T>(db: IDBDatabase, store: string): Promise<T[]> {
+  return promisify(db.transaction(store, 'readonly').objectStore(store).getAll() as IDBRequest<T[]>);
+}
+
+export function idbGet<T>(db: IDBDatabase, store: string, key: IDBValidKey): Promise<T | undefined> {
+  return promisify(db.transaction(store, 'readonly').objectStore(store).get(key) as IDBRequest<T | undefined>);
+}
+
+export async function idbPut<T>(db: IDBDatabase, store: string, value: T): Promise<void> {
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).put(value));
+}
+
+export async function idbDelete(db: IDBDatabase, store: string, key: IDBValidKey): Promise<void> {
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+}
+
+export async function idbClear(db: IDBDatabase, store: string): Promise<void> {
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).clear());
+}
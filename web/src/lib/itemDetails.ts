@@ -3,7 +3,9 @@
  * Replace mock data with live API or maintenance database later.
  */
 
+import type { Citation } from './citations';
 import type { ManualRef } from './knowledgeBase';
+import type { ManualTable } from './manualValues';
 
 export interface ItemDetails {
   name: string;
@@ -22,9 +24,19 @@ export interface ItemDetails {
   /** Relevant AD or service bulletin references */
   adReferences?: Record<string, string>;
   voiceAnswer?: string;
+  /** Verified manual pages cited in voiceAnswer */
+  voiceAnswerRefs?: ManualRef[];
   compatibilitySummary?: string;
   /** Manual page references from knowledge base RAG */
   manualRefs?: ManualRef[];
+  /** Torque and limit tables from the manual pages found for the component */
+  manualTables?: ManualTable[];
+  /** Page citations in the model's answer that matched no retrieved manual page (removed from the text) */
+  unsupportedCitations?: Citation[];
+  /** Grounded mode: spec values the model gave that no retrieved page states (removed from the text) */
+  ungroundedValues?: string[];
+  /** ATA iSpec 2200 chapter-section the component is filed under, e.g. "74-20" */
+  ata?: string;
 }
 
 export function getMockItemDetails(label: string): ItemDetails {
@@ -1,14 +1,19 @@
 /**
  * Fetch aircraft component details (specs, maintenance, safety) from Gemini/Dedalus.
  * When profile is provided, analysis is tailored to current work context (aircraft type, task card, certifications).
+ * Page citations the model makes are checked against the retrieved manual pages before parsing (see citations.ts).
  */
 
 import { env, isDedalusApiKey } from './env';
 import { setDedalus429 } from './dedalusRateLimit';
 import type { ItemDetails } from './itemDetails';
 import type { PersonProfile } from './rag';
-import { profileSummary } from './rag';
+import { getAnswerMode, profileSummary } from './rag';
 import { searchKB } from './knowledgeBase';
+import { getManualTables } from './manualValues';
+import { verifyCitations } from './citations';
+import { groundAnswer, groundingInstructions } from './grounding';
+import { canonicalizeLabel } from './taxonomy';
 
 const DEDALUS_BASE = 'https://api.dedaluslabs.ai';
 
@@ -17,7 +22,7 @@ function buildDetailsPrompt(label: string, profile: PersonProfile | null, withIm
   const kbSection = kbContext ? `\n\nMAINTENANCE MANUAL REFERENCES (real data from the Cessna 172 SM D2065-3-13 and/or Lycoming O-320 Operator's Manual 60297-22):\n${kbContext}` : '';
   return `You are an aircraft maintenance expert with knowledge of the Cessna 172 Service Manual (D2065-3-13), the Lycoming O-320 Operator's Manual (60297-22), and general aviation maintenance practices. You MUST always give concrete answers. Never respond with "Unknown", "check manual", or "—" as a final answer.
 ${withImage ? 'Look at the aircraft component in the image. Identify the exact part (manufacturer and part number) if visible; otherwise infer from shape/context and aircraft type.' : ''}
-${kbSection ? 'IMPORTANT: The MANUAL REFERENCES section below contains REAL data from the Cessna 172 SM and/or Lycoming O-320 OM. Use this data for your response — cite the exact page numbers, section numbers, and which manual (Cessna SM or O-320 OM) the data is from.' : ''}
+${kbSection ? 'IMPORTANT: The MANUAL REFERENCES section below contains REAL data from the Cessna 172 SM and/or Lycoming O-320 OM. Use this data for your response — cite the exact page numbers, section numbers, and which manual (Cessna SM or O-320 OM) the data is from. Torque values and operating limits must come from the MANUAL REFERENCES only: quote them exactly with their page, and leave out any torque or limit the references do not give rather than estimating it.' : ''}
 For the component "${label}":
 - Use the image, the manual reference data below, and your maintenance knowledge to identify the part and provide all fields.
 - If the part number is not visible, give your best estimate for this type of component on the likely aircraft.
@@ -40,9 +45,12 @@ PROCEDURES: key maintenance steps with manual page references
 COMPATIBILITY: aircraft models
 PRICE: Aircraft Spruce $X.XX, Aviall $X.XX, ...
 INSTALLATION: torque values, tools, sequence
-AD REFERENCES: applicable ADs or SBs`;
+AD REFERENCES: applicable ADs or SBs${getAnswerMode(profile) === 'grounded' ? `\n\n${groundingInstructions(Boolean(kbContext))} This overrides the rule against "check manual" answers.` : ''}`;
 }
 
+/** Item separators in SAFETY/PROCEDURES lines; a period only ends an item before a space, so "p.305" stays whole */
+const SENTENCE_SPLIT_RE = /;|\.(?=\s|$)/;
+
 function parseDetailsText(label: string, text: string): ItemDetails {
   const details: ItemDetails = { name: label };
   const lines = text.split(/\n/).map((l) => l.trim()).filter(Boolean);
@@ -71,12 +79,12 @@ function parseDetailsText(label: string, text: string): ItemDetails {
     }
     if (line.toUpperCase().startsWith('SAFETY:')) {
       const v = line.replace(/^safety:\s*/i, '').trim();
-      if (v) details.safetyInfo = v.split(/[;.]/).map((s) => s.trim()).filter(Boolean);
+      if (v) details.safetyInfo = v.split(SENTENCE_SPLIT_RE).map((s) => s.trim()).filter(Boolean);
     }
     if (line.toUpperCase().startsWith('PROCEDURES:')) {
       const v = line.replace(/^procedures:\s*/i, '').trim();
       if (v) {
-        details.procedures = v.split(/[;.]/).map((s) => s.trim()).filter(Boolean);
+        details.procedures = v.split(SENTENCE_SPLIT_RE).map((s) => s.trim()).filter(Boolean);
       }
     }
     if (line.toUpperCase().startsWith('PRICE:')) {
@@ -118,7 +126,7 @@ function parseDetailsText(label: string, text: string): ItemDetails {
   return details;
 }
 
-async function fetchDetailsDedalus(label: string, apiKey: string, profile: PersonProfile | null, imageBase64?: string, kbContext?: string): Promise<ItemDetails> {
+async function fetchDetailsDedalus(label: string, apiKey: string, profile: PersonProfile | null, imageBase64?: string, kbContext?: string): Promise<string> {
   const content: Array<{ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }> = [
     { type: 'text', text: buildDetailsPrompt(label, profile, Boolean(imageBase64), kbContext) },
   ];
@@ -143,11 +151,10 @@ async function fetchDetailsDedalus(label: string, apiKey: string, profile: Perso
     throw new Error(`Dedalus details: ${res.status}`);
   }
   const data = (await res.json()) as { choices?: Array<{ message?: { content?: string } }> };
-  const text = data.choices?.[0]?.message?.content?.trim() ?? '';
-  return parseDetailsText(label, text);
+  return data.choices?.[0]?.message?.content?.trim() ?? '';
 }
 
-async function fetchDetailsGoogle(label: string, apiKey: string, profile: PersonProfile | null, imageBase64?: string, kbContext?: string): Promise<ItemDetails> {
+async function fetchDetailsGoogle(label: string, apiKey: string, profile: PersonProfile | null, imageBase64?: string, kbContext?: string): Promise<string> {
   const url = `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`;
   const parts: Array<{ text: string } | { inlineData: { mimeType: string; data: string } }> = [
     { text: buildDetailsPrompt(label, profile, Boolean(imageBase64), kbContext) },
@@ -167,8 +174,7 @@ async function fetchDetailsGoogle(label: string, apiKey: string, profile: Person
   const data = (await res.json()) as {
     candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
   };
-  const text = data.candidates?.[0]?.content?.parts?.[0]?.text?.trim() ?? '';
-  return parseDetailsText(label, text);
+  return data.candidates?.[0]?.content?.parts?.[0]?.text?.trim() ?? '';
 }
 
 export async function fetchItemDetailsFromGemini(
@@ -183,17 +189,26 @@ export async function fetchItemDetailsFromGemini(
   const kbResult = await searchKB(label, 4);
   const kbContext = kbResult.contextText || undefined;
 
-  let details: ItemDetails;
-  if (isDedalusApiKey(apiKey)) {
-    details = await fetchDetailsDedalus(label, apiKey, profile, imageBase64, kbContext);
-  } else {
-    details = await fetchDetailsGoogle(label, apiKey, profile, imageBase64, kbContext);
-  }
+  const text = isDedalusApiKey(apiKey)
+    ? await fetchDetailsDedalus(label, apiKey, profile, imageBase64, kbContext)
+    : await fetchDetailsGoogle(label, apiKey, profile, imageBase64, kbContext);
+  // Grounded mode: drop spec values no retrieved page states (the panel points to the closest section)
+  const grounded = getAnswerMode(profile) === 'grounded' ? groundAnswer(text, kbResult.chunks) : null;
+  // Drop page citations that point at no retrieved page before they reach the panel
+  const verified = verifyCitations(grounded?.text ?? text, kbResult.chunks);
+  const details = parseDetailsText(label, verified.text);
+  if (verified.unsupported.length > 0) details.unsupportedCitations = verified.unsupported;
+  if (grounded?.ungrounded.length) details.ungroundedValues = grounded.ungrounded;
 
   // Attach manual references from KB
   if (kbResult.refs.length > 0) {
     details.manualRefs = kbResult.refs;
   }
+  const manualTables = getManualTables(kbResult.chunks);
+  if (manualTables.length > 0) details.manualTables = manualTables;
+
+  const ata = canonicalizeLabel(label)?.ata ?? kbResult.refs[0]?.ata;
+  if (ata) details.ata = ata;
 
   return details;
 }
@@ -1,9 +1,16 @@
 /**
- * RAG knowledge base: loads pre-extracted manual content (Cessna 172 SM + Lycoming O-320 OM),
- * searches by component keywords, and returns relevant chunks with page references.
+ * RAG knowledge base: loads pre-extracted manual content (Cessna 172 SM + Lycoming O-320 OM, plus
+ * any manual registered in public/kb/manifest.json by scripts/ingestManual.ts) effective for the
+ * profile's aircraft (see effectivity.ts), ranks chunks with BM25F (see bm25.ts) plus a
+ * component-taxonomy boost, and returns relevant chunks with page references.
  */
 
 import { env } from './env';
+import { matchesAta } from './ata';
+import { buildBM25Index, type BM25Field, type BM25Index } from './bm25';
+import { getAircraftIdentity, isEffective, sameAircraft, type AircraftIdentity, type Effectivity } from './effectivity';
+import type { WorkContext } from './rag';
+import { canonicalizeLabel, getComponent } from './taxonomy';
 
 export interface ManualRef {
   page: number;
@@ -14,11 +21,49 @@ export interface ManualRef {
   pdfUrl: string;        // e.g. "/manuals/cessna172-sm.pdf#page=377"
   /** Which manual this ref is from */
   manualName?: string;
+  /** ATA iSpec 2200 chapter-section of the referenced content, e.g. "61-10" */
+  ata?: string;
+  /** Manual revision the cited page was taken from */
+  revision?: string;
+  /** Revision currently in effect per the KB manifest */
+  currentRevision?: string;
+  /** The cited revision is older than the current one: the page may have changed */
+  superseded?: boolean;
+  /** KBChunk.id of the cited passage, so a viewer can highlight it on the page */
+  chunkId?: string;
+  /** Where the cited figure is drawn, for a cropped preview */
+  figureRegion?: FigureRegion;
+}
+
+/** Figure drawing area as fractions of the page, top-left origin */
+export interface FigureRegion {
+  /** PDF page the figure is on (a chunk's figure can be on a later page than its text) */
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** A table parsed into rows, e.g. torque values or operating limits */
+export interface KBTable {
+  /** Table number when captioned, e.g. "1-1" */
+  table?: string;
+  /** Caption or the run-in label above it, e.g. "Oil Pressure, psi" */
+  title?: string;
+  /** Column headings; "" over a row-label column */
+  columns?: string[];
+  /** First cell is the row label, e.g. ["Normal operation", "90", "60", "15"] */
+  rows: string[][];
+  /** PDF page, when not the chunk's */
+  page?: number;
 }
 
 export interface KBChunk {
   id: string;
   component: string;
+  /** ATA iSpec 2200 chapter-section, e.g. "74-10"; falls back to the component's taxonomy entry */
+  ata?: string;
   keywords: string[];
   section: string;
   sectionTitle: string;
@@ -27,8 +72,15 @@ export interface KBChunk {
   figureTitle?: string | null;
   content: string;
   table?: string | null;
-  /** Which manual: undefined/'cessna172' = Cessna SM, 'o320' = Lycoming O-320 OM */
+  /** Tables on the chunk's pages, parsed into rows */
+  tables?: KBTable[];
+  figureRegion?: FigureRegion;
+  /** Manual id from the KB manifest; undefined = the manual whose chunk file it is in */
   manual?: string;
+  /** Manual revision the chunk was extracted from; defaults to its chunk file's manual.revision */
+  revision?: string;
+  /** Narrower than the manual's effectivity, e.g. {"models": ["172N", "F172N"]} for an O-320-H2AD-only page */
+  effectivity?: Effectivity;
 }
 
 export interface KBSearchResult {
@@ -41,214 +93,407 @@ export interface KBSearchResult {
   contextText: string;
 }
 
-interface KBData {
+export interface KBSearchOptions {
+  /** Only return chunks under this ATA chapter ("79") or chapter-section ("79-20") */
+  ata?: string;
+  /** Only return chunks of this manual (KBManualInfo.id, e.g. "o320") */
+  manual?: string;
+}
+
+export interface KBData {
   manual: {
     title: string;
     documentNumber: string;
     revision: string;
+    /** Revision date, e.g. "1 July 1995" */
+    date?: string;
     totalPages: number;
     pdfFile: string;
   };
   chunks: KBChunk[];
 }
 
-/** PDF paths per manual source */
-const MANUAL_PDFS: Record<string, string> = {
-  cessna172: '/manuals/cessna172-sm.pdf',
-  o320: '/manuals/o320-operators-manual.pdf',
-};
+/** One manual in public/kb/manifest.json; `npm run kb:ingest` adds entries */
+export interface KBManualInfo {
+  /** Value of KBChunk.manual for this manual's chunks */
+  id: string;
+  /** Short display name for overlay badges, e.g. "O-320 OM" */
+  name: string;
+  title: string;
+  documentNumber?: string;
+  /** Revision in effect; chunks extracted from any other revision are cited as superseded */
+  revision?: string;
+  /** Served PDF, e.g. "/manuals/o320-operators-manual.pdf" */
+  pdf: string;
+  /** Chunk file (KBData JSON); omitted when the chunks live in another manual's file, tagged with this id */
+  chunks?: string;
+  /** Aircraft types/models/serials the manual covers; omitted = applies to every aircraft */
+  effectivity?: Effectivity;
+}
 
-/** Short display names for overlay badges */
-const MANUAL_NAMES: Record<string, string> = {
-  cessna172: 'Cessna SM',
-  o320: 'O-320 OM',
-};
+export interface KBManifest {
+  manuals: KBManualInfo[];
+}
+
+export const KB_MANIFEST_URL = '/kb/manifest.json';
+/** Base manual's chunk file, loaded unfiltered when the manifest is unavailable */
+const BASE_KB_URL = '/cessna172-kb.json';
+const BASE_KB_MANUAL_ID = 'cessna172';
+/** A KB loaded without the manifest (or empty after a failure) is reloaded after this long */
+const KB_RETRY_MS = 30_000;
+
+/** Manuals by id, filled from the manifest when the KB loads */
+const _manuals = new Map<string, KBManualInfo>();
+
+/** Registered manuals (empty until the KB has loaded). */
+export function getManuals(): KBManualInfo[] {
+  return Array.from(_manuals.values());
+}
 
 function getPdfForChunk(chunk: KBChunk, defaultPdf: string): string {
-  const key = chunk.manual || 'cessna172';
-  return MANUAL_PDFS[key] || defaultPdf;
+  return (chunk.manual && _manuals.get(chunk.manual)?.pdf) || defaultPdf;
 }
 
 function getManualName(chunk: KBChunk): string {
-  const key = chunk.manual || 'cessna172';
-  return MANUAL_NAMES[key] || 'SM';
+  return (chunk.manual && _manuals.get(chunk.manual)?.name) || 'SM';
+}
+
+/** "Rev 3" / "Revision 3" / "3" compare equal; so do "2nd Edition" and "2nd ed." */
+export function normalizeRevision(revision: string): string {
+  return revision
+    .toLowerCase()
+    .replace(/\b(?:revision|rev|edition|ed)\b\.?/g, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/** "3" → "Rev 3"; labels that already say what they are ("Rev B", "2nd Edition") are kept. */
+export function formatRevision(revision: string): string {
+  return /^[\w.-]+$/.test(revision) ? `Rev ${revision}` : revision;
+}
+
+/** True when the chunk's revision is known and differs from the manual's current revision. */
+export function isSuperseded(revision: string | undefined, currentRevision: string | undefined): boolean {
+  return Boolean(revision && currentRevision && normalizeRevision(revision) !== normalizeRevision(currentRevision));
+}
+
+/** "Rev 3 superseded by Rev 4" for a stale citation, else null. */
+export function describeSuperseded(ref: ManualRef): string | null {
+  return ref.superseded && ref.revision && ref.currentRevision
+    ? `${formatRevision(ref.revision)} superseded by ${formatRevision(ref.currentRevision)}`
+    : null;
+}
+
+function getCurrentRevision(chunk: KBChunk): string | undefined {
+  return chunk.manual ? _manuals.get(chunk.manual)?.revision : undefined;
 }
 
+/** KB filtered for _aircraft: only manuals and chunks effective for it */
 let _kb: KBData | null = null;
+/** Inverted index over _kb.chunks, built once when the KB loads */
+let _index: BM25Index<KBChunk> | null = null;
 let _loading: Promise<KBData> | null = null;
+/** Aircraft from the active profile; null = no aircraft selected, every manual applies */
+let _aircraft: AircraftIdentity | null = null;
+/** Bumped on every aircraft change so a superseded load doesn't install its result */
+let _generation = 0;
+/** When _kb was installed from the fallback (base file unfiltered, or empty); null for a full load */
+let _degradedAt: number | null = null;
+let _manifest: Promise<KBManifest> | null = null;
+const listeners = new Set<() => void>();
+/** Chunk files by URL, chunks tagged with their manual id; shared across aircraft selections */
+const _chunkFiles = new Map<string, Promise<KBData>>();
+
+/** BM25F fields: the component name and keywords say what a chunk is about, the body only mentions things */
+const KB_FIELDS: BM25Field<KBChunk>[] = [
+  { name: 'component', boost: 4, b: 0.3, text: (c) => c.component },
+  { name: 'keywords', boost: 3, b: 0.5, text: (c) => c.keywords.join(' ') },
+  { name: 'sectionTitle', boost: 1.5, text: (c) => c.sectionTitle },
+  { name: 'figureTitle', boost: 1.5, text: (c) => c.figureTitle ?? '' },
+  // Table titles and row labels name the value ("Spark Plugs … Torque"), so "torque for spark plug" finds the row
+  { name: 'tables', boost: 1.5, text: (c) => (c.tables ?? []).map(tableText).join('\n') },
+  { name: 'content', boost: 1, text: (c) => c.content },
+];
+
+function tableText(table: KBTable): string {
+  return [table.title ?? '', ...(table.columns ?? []), ...table.rows.map((row) => row.join(' '))].join('\n');
+}
+
+function setKnowledgeBase(data: KBData): KBData {
+  _kb = data;
+  _index = buildBM25Index(data.chunks, KB_FIELDS);
+  return data;
+}
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`${url}: ${res.status}`);
+  return res.json() as Promise<T>;
+}
+
+const EMPTY_KB: KBData = {
+  manual: { title: '', documentNumber: '', revision: '', totalPages: 0, pdfFile: '' },
+  chunks: [],
+};
+
+function loadManifest(): Promise<KBManifest> {
+  if (!_manifest) {
+    _manifest = fetchJson<KBManifest>(KB_MANIFEST_URL).then((manifest) => {
+      for (const manual of manifest.manuals) _manuals.set(manual.id, manual);
+      return manifest;
+    });
+    _manifest.catch(() => {
+      _manifest = null;
+    });
+  }
+  return _manifest;
+}
+
+function loadChunkFile(url: string, ownerId: string): Promise<KBData> {
+  let file = _chunkFiles.get(url);
+  if (!file) {
+    file = fetchJson<KBData>(url).then((data) => ({
+      ...data,
+      chunks: data.chunks.map((chunk) =>
+        chunk.manual && chunk.manual !== ownerId
+          ? chunk
+          : { ...chunk, manual: ownerId, revision: chunk.revision ?? (data.manual.revision || undefined) },
+      ),
+    }));
+    file.catch(() => _chunkFiles.delete(url));
+    _chunkFiles.set(url, file);
+  }
+  return file;
+}
+
+/**
+ * Chunk files of the manuals effective for the aircraft, minus chunks whose manual or own
+ * effectivity excludes it. A chunk file that fails to load only loses its own manuals.
+ */
+async function fetchKnowledgeBase(aircraft: AircraftIdentity | null): Promise<KBData> {
+  const manifest = await loadManifest();
+  const effective = new Set(manifest.manuals.filter((m) => isEffective(m.effectivity, aircraft)).map((m) => m.id));
+  const files = new Map<string, string>();
+  for (const manual of manifest.manuals) {
+    if (manual.chunks && effective.has(manual.id) && !files.has(manual.chunks)) files.set(manual.chunks, manual.id);
+  }
+  const loaded = await Promise.all(
+    [...files].map(([url, ownerId]) =>
+      loadChunkFile(url, ownerId).catch((err) => {
+        console.warn(`KB chunks ${url} failed to load:`, err);
+        return null;
+      }),
+    ),
+  );
+  const data = loaded.filter((d): d is KBData => d !== null);
+  if (files.size > 0 && data.length === 0) throw new Error('no KB chunk file could be loaded');
+  const chunks = data
+    .flatMap((d) => d.chunks)
+    .filter((chunk) => chunk.manual !== undefined && effective.has(chunk.manual) && isEffective(chunk.effectivity, aircraft));
+  return { manual: data[0]?.manual ?? EMPTY_KB.manual, chunks };
+}
 
-/** Load the knowledge base JSON (cached after first load). */
+/**
+ * Load the knowledge base for the selected aircraft (cached until the aircraft changes). Without the
+ * manifest the base chunk file is used with no effectivity filtering; such a KB is kept while a
+ * later call, KB_RETRY_MS on, tries the full load again.
+ */
 export async function loadKnowledgeBase(): Promise<KBData> {
-  if (_kb) return _kb;
   if (_loading) return _loading;
-  _loading = fetch('/cessna172-kb.json')
-    .then((res) => {
-      if (!res.ok) throw new Error(`KB load failed: ${res.status}`);
-      return res.json() as Promise<KBData>;
+  if (_kb && (_degradedAt === null || Date.now() - _degradedAt < KB_RETRY_MS)) return _kb;
+  const generation = _generation;
+  const loading = fetchKnowledgeBase(_aircraft)
+    .then((data) => ({ data, degraded: false }))
+    .catch(async (err) => {
+      console.warn('Knowledge base load failed, using the base chunk file without effectivity filtering:', err);
+      const data = await loadChunkFile(BASE_KB_URL, BASE_KB_MANUAL_ID).catch((baseErr) => {
+        console.warn('Base KB chunk file failed to load:', baseErr);
+        return EMPTY_KB;
+      });
+      return { data, degraded: true };
     })
-    .then((data) => {
-      _kb = data;
+    .then(({ data, degraded }) => {
+      if (generation !== _generation) return data;
+      _degradedAt = degraded ? Date.now() : null;
+      if (degraded) _loading = null;
+      setKnowledgeBase(data);
+      listeners.forEach((l) => l());
       return data;
-    })
-    .catch((err) => {
-      console.warn('Knowledge base load failed:', err);
-      _loading = null;
-      // Return empty KB
-      const empty: KBData = {
-        manual: { title: '', documentNumber: '', revision: '', totalPages: 0, pdfFile: '' },
-        chunks: [],
-      };
-      _kb = empty;
-      return empty;
     });
-  return _loading;
+  _loading = loading;
+  // A fallback KB stays in use while the retry runs
+  return _kb ?? loading;
 }
 
-/** Preload KB on module import (non-blocking). */
-loadKnowledgeBase();
+/** True while the KB is the manifest-less fallback: no effectivity filtering, pages for any model or serial. */
+export function isKnowledgeBaseDegraded(): boolean {
+  return _degradedAt !== null;
+}
 
-/** Search the knowledge base for chunks relevant to a component label. */
-export async function searchKB(componentLabel: string, maxChunks = 5): Promise<KBSearchResult> {
-  const kb = await loadKnowledgeBase();
-  if (!kb.chunks.length) {
-    return { chunks: [], primaryRef: null, refs: [], contextText: '' };
-  }
+/** Subscribe to KB loads (a new aircraft, the fallback, a retry that recovered). Returns unsubscribe. */
+export function subscribeKnowledgeBase(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
 
-  const query = componentLabel.toLowerCase().replace(/[^a-z0-9\s]/g, '');
-  const queryWords = query.split(/\s+/).filter(Boolean);
-
-  // Score each chunk by keyword overlap with the query
-  const scored = kb.chunks.map((chunk) => {
-    let score = 0;
-    const allKeywords = [...chunk.keywords, chunk.component, chunk.sectionTitle].map((k) =>
-      k.toLowerCase()
-    );
-
-    for (const word of queryWords) {
-      // Direct keyword match
-      for (const kw of allKeywords) {
-        if (kw === word) { score += 10; break; }
-        if (kw.includes(word)) { score += 5; break; }
-        if (word.includes(kw) && kw.length > 3) { score += 3; break; }
-      }
-    }
+/**
+ * Point the KB at the profile's aircraft: reloads with only the manuals and chunks effective for
+ * it (a 172N profile never sees 172Q-only pages). No-op when the aircraft is unchanged.
+ */
+export function selectAircraft(workContext: WorkContext | undefined | null): Promise<KBData> {
+  const aircraft = getAircraftIdentity(workContext);
+  if (!sameAircraft(aircraft, _aircraft)) {
+    _aircraft = aircraft;
+    _generation++;
+    _kb = null;
+    _index = null;
+    _loading = null;
+  }
+  return loadKnowledgeBase();
+}
 
-    // Full phrase match in keywords
-    for (const kw of chunk.keywords) {
-      if (kw.toLowerCase() === query) { score += 20; break; }
-      if (query.includes(kw.toLowerCase()) && kw.length > 3) score += 8;
-    }
+/** Aircraft the KB is currently filtered for (null = none selected). */
+export function getSelectedAircraft(): AircraftIdentity | null {
+  return _aircraft;
+}
 
-    // Component name match
-    if (chunk.component.toLowerCase() === query) score += 25;
-    if (query.includes(chunk.component.toLowerCase())) score += 12;
-    if (chunk.component.toLowerCase().includes(query)) score += 12;
+/** A chunk of the loaded KB by id (e.g. ManualRef.chunkId), if it is still loaded. */
+export function getChunkById(id: string): KBChunk | undefined {
+  return _kb?.chunks.find((c) => c.id === id);
+}
 
-    // Content contains query words
-    const contentLower = chunk.content.toLowerCase();
-    for (const word of queryWords) {
-      if (word.length > 3 && contentLower.includes(word)) score += 2;
-    }
+/** Preload KB on module import (non-blocking). */
+loadKnowledgeBase();
 
-    return { chunk, score };
-  });
+interface ChunkComponents {
+  /** Taxonomy ID of the chunk's component field */
+  primary: string | null;
+  /** Taxonomy IDs its keywords map to */
+  keywords: Set<string>;
+}
 
-  // Filter and sort
-  const matches = scored
-    .filter((s) => s.score > 0)
-    .sort((a, b) => b.score - a.score)
-    .slice(0, maxChunks);
+const chunkComponents = new WeakMap<KBChunk, ChunkComponents>();
 
-  if (matches.length === 0) {
-    return { chunks: [], primaryRef: null, refs: [], contextText: '' };
+function getChunkComponents(chunk: KBChunk): ChunkComponents {
+  let c = chunkComponents.get(chunk);
+  if (!c) {
+    const keywords = new Set<string>();
+    for (const kw of chunk.keywords) {
+      const id = canonicalizeLabel(kw)?.id;
+      if (id) keywords.add(id);
+    }
+    c = { primary: canonicalizeLabel(chunk.component)?.id ?? null, keywords };
+    chunkComponents.set(chunk, c);
   }
+  return c;
+}
 
-  const defaultPdf = env.manualPdfBaseUrl || kb.manual.pdfFile || '/manuals/cessna172-sm.pdf';
-
-  const refs: ManualRef[] = matches.map((m) => {
-    const pdf = getPdfForChunk(m.chunk, defaultPdf);
-    return {
-      page: m.chunk.page,
-      section: m.chunk.section,
-      sectionTitle: m.chunk.sectionTitle,
-      figure: m.chunk.figure,
-      figureTitle: m.chunk.figureTitle,
-      pdfUrl: `${pdf}#page=${m.chunk.page}`,
-      manualName: getManualName(m.chunk),
-    };
-  });
+/** ATA code of a chunk: its own tag, else the taxonomy entry of its component. */
+export function getChunkAta(chunk: KBChunk): string | undefined {
+  return chunk.ata ?? getComponent(getChunkComponents(chunk).primary)?.ata;
+}
 
-  // Deduplicate refs by page+manual
-  const seenKeys = new Set<string>();
-  const uniqueRefs = refs.filter((r) => {
-    const key = `${r.manualName}:${r.page}`;
-    if (seenKeys.has(key)) return false;
-    seenKeys.add(key);
-    return true;
-  });
-
-  const contextText = matches
-    .map((m) => {
-      const fig = m.chunk.figure ? ` (Figure ${m.chunk.figure}: ${m.chunk.figureTitle})` : '';
-      const mName = getManualName(m.chunk);
-      return `[${mName} Section ${m.chunk.section}, p.${m.chunk.page}${fig}]: ${m.chunk.content}`;
-    })
-    .join('\n\n');
+/**
+ * Taxonomy boost for chunks about the queried component, so "prop", "propeller blades" and
+ * "Propeller blade" retrieve the same pages. Direct parent/child assemblies score lower.
+ * On the BM25 scale: a same-component chunk gains about as much as two strong term matches.
+ */
+function componentScore(chunk: KBChunk, componentId: string | undefined): number {
+  if (!componentId) return 0;
+  const { primary, keywords } = getChunkComponents(chunk);
+  if (primary === componentId) return 6;
+  let score = keywords.has(componentId) ? 3 : 0;
+  if (primary && (getComponent(componentId)?.parent === primary || getComponent(primary)?.parent === componentId)) score += 1.5;
+  return score;
+}
+
+/**
+ * The one ranking behind searchKB and searchKBSync: BM25F over the chunk fields plus the taxonomy
+ * boost. An ATA filter narrows the candidates; every chunk under it stays eligible, ranked by the query.
+ */
+function rankChunks(kb: KBData, index: BM25Index<KBChunk>, componentLabel: string, maxChunks: number, options: KBSearchOptions): KBChunk[] {
+  const componentId = canonicalizeLabel(componentLabel)?.id;
+  const bm25 = index.scores(componentLabel);
+  const { ata, manual } = options;
+  return kb.chunks
+    .map((chunk, i) => ({ chunk, i, score: bm25[i] + componentScore(chunk, componentId) }))
+    .filter((s) => (!manual || s.chunk.manual === manual) && (ata ? matchesAta(getChunkAta(s.chunk), ata) : s.score > 0))
+    .sort((a, b) => b.score - a.score || a.i - b.i)
+    .slice(0, maxChunks)
+    .map((s) => s.chunk);
+}
 
+function toManualRef(chunk: KBChunk, defaultPdf: string): ManualRef {
   return {
-    chunks: matches.map((m) => m.chunk),
-    primaryRef: uniqueRefs[0] ?? null,
-    refs: uniqueRefs,
-    contextText,
+    page: chunk.page,
+    section: chunk.section,
+    sectionTitle: chunk.sectionTitle,
+    figure: chunk.figure,
+    figureTitle: chunk.figureTitle,
+    pdfUrl: `${getPdfForChunk(chunk, defaultPdf)}#page=${chunk.page}`,
+    manualName: getManualName(chunk),
+    ata: getChunkAta(chunk),
+    revision: chunk.revision,
+    currentRevision: getCurrentRevision(chunk),
+    superseded: isSuperseded(chunk.revision, getCurrentRevision(chunk)),
+    chunkId: chunk.id,
+    ...(chunk.figureRegion ? { figureRegion: chunk.figureRegion } : {}),
   };
 }
 
-/** Quick synchronous lookup — returns null if KB not loaded yet. */
-export function searchKBSync(componentLabel: string, maxChunks = 3): KBSearchResult | null {
-  if (!_kb) return null;
-  const query = componentLabel.toLowerCase().replace(/[^a-z0-9\s]/g, '');
-  const queryWords = query.split(/\s+/).filter(Boolean);
+function getDefaultPdf(kb: KBData | null): string {
+  return env.manualPdfBaseUrl || kb?.manual.pdfFile || '/manuals/cessna172-sm.pdf';
+}
 
-  const scored = _kb.chunks.map((chunk) => {
-    let score = 0;
-    const allKw = [...chunk.keywords, chunk.component].map((k) => k.toLowerCase());
-    for (const word of queryWords) {
-      for (const kw of allKw) {
-        if (kw.includes(word) || word.includes(kw)) { score += 5; break; }
-      }
-    }
-    if (chunk.component.toLowerCase().includes(query) || query.includes(chunk.component.toLowerCase())) score += 15;
-    return { chunk, score };
-  });
+/** Citation for one chunk of the loaded KB (search results dedupe refs by page, this does not). */
+export function getManualRef(chunk: KBChunk): ManualRef {
+  return toManualRef(chunk, getDefaultPdf(_kb));
+}
 
-  const matches = scored.filter((s) => s.score > 0).sort((a, b) => b.score - a.score).slice(0, maxChunks);
-  if (!matches.length) return null;
+/** The same citation pointing at another page of the chunk (a table or figure on the next page). */
+export function withPage(ref: ManualRef, page: number): ManualRef {
+  return page === ref.page ? ref : { ...ref, page, pdfUrl: ref.pdfUrl.replace(/#page=\d+$/, `#page=${page}`) };
+}
+
+function toSearchResult(kb: KBData, chunks: KBChunk[]): KBSearchResult {
+  const defaultPdf = getDefaultPdf(kb);
 
-  const defaultPdf = env.manualPdfBaseUrl || _kb.manual.pdfFile || '/manuals/cessna172-sm.pdf';
+  // Deduplicate refs by page+manual
   const seenKeys = new Set<string>();
   const refs: ManualRef[] = [];
-  for (const m of matches) {
-    const pdf = getPdfForChunk(m.chunk, defaultPdf);
-    const mName = getManualName(m.chunk);
-    const key = `${mName}:${m.chunk.page}`;
-    if (!seenKeys.has(key)) {
-      seenKeys.add(key);
-      refs.push({
-        page: m.chunk.page,
-        section: m.chunk.section,
-        sectionTitle: m.chunk.sectionTitle,
-        figure: m.chunk.figure,
-        figureTitle: m.chunk.figureTitle,
-        pdfUrl: `${pdf}#page=${m.chunk.page}`,
-        manualName: mName,
-      });
-    }
+  for (const chunk of chunks) {
+    const key = `${getManualName(chunk)}:${chunk.page}`;
+    if (seenKeys.has(key)) continue;
+    seenKeys.add(key);
+    refs.push(toManualRef(chunk, defaultPdf));
   }
 
-  return {
-    chunks: matches.map((m) => m.chunk),
-    primaryRef: refs[0] ?? null,
-    refs,
-    contextText: matches.map((m) => `[${getManualName(m.chunk)} p.${m.chunk.page}]: ${m.chunk.content}`).join('\n'),
-  };
+  const contextText = chunks
+    .map((chunk) => {
+      const fig = chunk.figure ? ` (Figure ${chunk.figure}: ${chunk.figureTitle})` : '';
+      const ata = getChunkAta(chunk);
+      const rev = chunk.revision ? ` ${formatRevision(chunk.revision)}` : '';
+      const current = getCurrentRevision(chunk);
+      const stale = current && isSuperseded(chunk.revision, current) ? ` — SUPERSEDED by ${formatRevision(current)}, verify against the current revision` : '';
+      return `[${getManualName(chunk)}${rev} Section ${chunk.section}${ata ? `, ATA ${ata}` : ''}, p.${chunk.page}${fig}${stale}]: ${chunk.content}`;
+    })
+    .join('\n\n');
+
+  return { chunks, primaryRef: refs[0] ?? null, refs, contextText };
+}
+
+/** Search the knowledge base for chunks relevant to a component label, optionally within one ATA chapter. */
+export async function searchKB(componentLabel: string, maxChunks = 5, options: KBSearchOptions = {}): Promise<KBSearchResult> {
+  const kb = await loadKnowledgeBase();
+  if (!_index) return { chunks: [], primaryRef: null, refs: [], contextText: '' };
+  return toSearchResult(kb, rankChunks(kb, _index, componentLabel, maxChunks, options));
+}
+
+/** Quick synchronous lookup with the same ranking as searchKB — returns null if KB not loaded yet or nothing matches. */
+export function searchKBSync(componentLabel: string, maxChunks = 3, options: KBSearchOptions = {}): KBSearchResult | null {
+  if (!_kb || !_index) return null;
+  const chunks = rankChunks(_kb, _index, componentLabel, maxChunks, options);
+  return chunks.length ? toSearchResult(_kb, chunks) : null;
 }
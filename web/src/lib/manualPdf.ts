@@ -0,0 +1,124 @@
+/**
+ * Manual PDFs for the in-app viewer: loads documents with pdf.js (imported lazily so the library
+ * and its worker stay out of the main bundle), locates a cited KB chunk's passage on the page and
+ * crops figures out of their page for previews. Chunk text is extracted or hand-written from the manual, so the passage is found by word overlap
+ * per text run rather than by exact string match.
+ */
+
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import type { FigureRegion, ManualRef } from './knowledgeBase';
+
+/** Rectangle in page units at scale 1, top-left origin (multiply by the render scale to draw) */
+export interface HighlightRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** A text run counts as part of the passage when this share of its words occur in it */
+const MIN_RUN_OVERLAP = 0.6;
+/** Unmatched runs allowed inside a passage (figure callouts, column breaks) */
+const MAX_GAP_RUNS = 2;
+/** Passages with fewer matched words than this are coincidence, not a match */
+const MIN_PASSAGE_WORDS = 4;
+
+const _documents = new Map<string, Promise<PDFDocumentProxy>>();
+const _figures = new Map<string, Promise<string>>();
+
+/** The PDF file of a ref, without its #page fragment. */
+export function manualPdfUrl(ref: ManualRef): string {
+  return ref.pdfUrl.split('#')[0];
+}
+
+/** Load a manual PDF (cached per URL; a failed load is retried next time). */
+export function loadManualPdf(url: string): Promise<PDFDocumentProxy> {
+  let doc = _documents.get(url);
+  if (!doc) {
+    doc = (async () => {
+      const [pdfjs, worker] = await Promise.all([import('pdfjs-dist'), import('pdfjs-dist/build/pdf.worker.min.mjs?url')]);
+      pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+      return pdfjs.getDocument({ url }).promise;
+    })();
+    doc.catch(() => _documents.delete(url));
+    _documents.set(url, doc);
+  }
+  return doc;
+}
+
+function words(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+(?:[.-][a-z0-9]+)*/g) ?? []).filter((w) => w.length >= 3 || /\d/.test(w));
+}
+
+/**
+ * Indices of the text runs that make up the passage: runs mostly made of the passage's words, taken
+ * from the densest stretch of the page (so a repeated heading elsewhere is not lit up too).
+ */
+export function findPassageRuns(runs: string[], passage: string): number[] {
+  const vocabulary = new Set(words(passage));
+  if (!vocabulary.size) return [];
+
+  let best: { runs: number[]; words: number } = { runs: [], words: 0 };
+  let current: { runs: number[]; words: number } = { runs: [], words: 0 };
+  let gap = 0;
+  runs.forEach((text, i) => {
+    const tokens = words(text);
+    if (!tokens.length) return;
+    const hits = tokens.filter((t) => vocabulary.has(t)).length;
+    if (hits / tokens.length >= MIN_RUN_OVERLAP) {
+      current.runs.push(i);
+      current.words += hits;
+      gap = 0;
+      if (current.words > best.words) best = { runs: [...current.runs], words: current.words };
+    } else if (current.runs.length && ++gap > MAX_GAP_RUNS) {
+      current = { runs: [], words: 0 };
+      gap = 0;
+    }
+  });
+  return best.words >= MIN_PASSAGE_WORDS ? best.runs : [];
+}
+
+/** Where the passage is on the page, one rectangle per matched text run. */
+export async function findPassageRects(page: PDFPageProxy, passage: string): Promise<HighlightRect[]> {
+  const content = await page.getTextContent();
+  const items = content.items.filter((item): item is TextItem => 'str' in item);
+  const viewport = page.getViewport({ scale: 1 });
+  return findPassageRuns(
+    items.map((item) => item.str),
+    passage,
+  ).map((i) => {
+    const item = items[i];
+    const [, , c, d, x, y] = item.transform as number[];
+    const height = item.height || Math.hypot(c, d);
+    // Baseline to cap height, with room for descenders
+    const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([x, y - height * 0.25, x + item.width, y + height]) as number[];
+    return { x: Math.min(x1, x2), y: Math.min(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) };
+  });
+}
+
+/**
+ * A figure cropped out of its manual page as a PNG data URL, `width` CSS pixels wide at device
+ * resolution; the whole page without a region. Cached like loadManualPdf.
+ */
+export function renderFigureImage(url: string, page: number, region: FigureRegion | null, width: number): Promise<string> {
+  const crop = region ?? { x: 0, y: 0, width: 1, height: 1 };
+  const key = `${url}#${page}@${width}:${crop.x},${crop.y},${crop.width},${crop.height}`;
+  let image = _figures.get(key);
+  if (!image) {
+    image = (async () => {
+      const pdfPage = await (await loadManualPdf(url)).getPage(page);
+      const scale = (width * (window.devicePixelRatio || 1)) / (pdfPage.getViewport({ scale: 1 }).width * crop.width);
+      const viewport = pdfPage.getViewport({ scale });
+      // pdf.js does not size the canvas; render only the crop by shifting the page up and left
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.floor(viewport.width * crop.width);
+      canvas.height = Math.floor(viewport.height * crop.height);
+      await pdfPage.render({ canvas, viewport, transform: [1, 0, 0, 1, -crop.x * viewport.width, -crop.y * viewport.height] }).promise;
+      return canvas.toDataURL('image/png');
+    })();
+    image.catch(() => _figures.delete(key));
+    _figures.set(key, image);
+  }
+  return image;
+}
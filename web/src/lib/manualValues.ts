@@ -0,0 +1,47 @@
+/**
+ * Torque values and operating limits from the manuals' own tables (KBChunk.tables), so the detail
+ * panel shows the published numbers with the page they are on instead of figures the LLM recalls.
+ */
+
+import { getManualRef, withPage, type KBChunk, type KBTable, type ManualRef } from './knowledgeBase';
+
+export type ManualTableKind = 'torque' | 'limits';
+
+export interface ManualTable {
+  table: KBTable;
+  kind: ManualTableKind;
+  /** Citation of the page the table is on */
+  ref: ManualRef;
+}
+
+const TORQUE_RE = /\btorque\b|\b(?:in|ft)[.-]?\s?lbs?\b|\bn\s?[·.]?\s?m\b/i;
+/** Words in a title, heading or row label that make the table a set of limits */
+const LIMIT_WORD_RE = /\b(?:limits?|max(?:imum)?|min(?:imum)?|permissible|wear|clearance|gap|pressure|temperature|capacity)\b/i;
+/** Units in a value cell that make it a limit */
+const LIMIT_UNIT_RE = /\bpsi\b|°\s?[FC]\b|\bqts?\b/i;
+
+function hasValues(table: KBTable): boolean {
+  return table.rows.some((row) => row.slice(1).some((cell) => /\d/.test(cell)));
+}
+
+/** Torque table, limits table or neither (grade charts, drive ratios, troubleshooting). */
+export function classifyTable(table: KBTable): ManualTableKind | null {
+  if (!hasValues(table)) return null;
+  const headings = [table.title ?? '', ...(table.columns ?? []), ...table.rows.map((row) => row[0] ?? '')].join('\n');
+  const values = table.rows.map((row) => row.slice(1).join(' ')).join('\n');
+  if (TORQUE_RE.test(headings) || TORQUE_RE.test(values)) return 'torque';
+  if (LIMIT_WORD_RE.test(headings) || LIMIT_UNIT_RE.test(values)) return 'limits';
+  return null;
+}
+
+/** Torque and limit tables of the given chunks (e.g. a search result), torque tables first. */
+export function getManualTables(chunks: KBChunk[]): ManualTable[] {
+  const tables: ManualTable[] = [];
+  for (const chunk of chunks) {
+    for (const table of chunk.tables ?? []) {
+      const kind = classifyTable(table);
+      if (kind) tables.push({ table, kind, ref: withPage(getManualRef(chunk), table.page ?? chunk.page) });
+    }
+  }
+  return tables.sort((a, b) => (a.kind === b.kind ? 0 : a.kind === 'torque' ? -1 : 1));
+}
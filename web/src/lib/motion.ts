@@ -0,0 +1,94 @@
+/**
+ * Between-detection box propagation: estimates how each tracked box moved since the previous
+ * animation frame with block matching on tiny grayscale frames. The matching runs on CPU in a
+ * Web Worker (motionWorker.ts) so the camera/overlay thread never blocks. A shift arrives a few
+ * frames after its capture; if a detection round corrected the boxes in between, the shift is
+ * dropped rather than applied on top of the corrected boxes.
+ */
+
+import type { BoundingBox } from './detection';
+import type { GrayFrame } from './camera';
+
+export interface MotionBox {
+  id: string;
+  bbox: BoundingBox;
+}
+
+/** Shift of one box since the previous frame, normalized 0-1 units */
+export interface MotionShift {
+  dx: number;
+  dy: number;
+}
+
+export interface MotionRequest {
+  frame: GrayFrame;
+  boxes: MotionBox[];
+  /** Capture time (ms); frames too far apart are not compared */
+  at: number;
+}
+
+export interface MotionResult {
+  /** Per-box shift keyed by box id; boxes with no reliable match get the global shift */
+  shifts: Record<string, MotionShift>;
+  /** Whole-frame (camera) shift estimate */
+  global: MotionShift;
+}
+
+export class MotionEstimator {
+  private worker: Worker | null = null;
+  private busy = false;
+  /** Results for frames captured before this time (ms) are dropped; see invalidateBefore */
+  private staleBefore = -Infinity;
+
+  constructor() {
+    try {
+      this.worker = new Worker(new URL('./motionWorker.ts', import.meta.url), { type: 'module' });
+    } catch (e) {
+      console.warn('Motion worker unavailable:', e);
+      this.worker = null;
+    }
+  }
+
+  get available(): boolean {
+    return this.worker != null;
+  }
+
+  /** True while the previous frame is still being matched; callers should skip the frame. */
+  get pending(): boolean {
+    return this.busy;
+  }
+
+  /** The boxes were corrected at this time (a detection round): drop shifts of frames captured earlier. */
+  invalidateBefore(at: number): void {
+    this.staleBefore = Math.max(this.staleBefore, at);
+  }
+
+  /**
+   * Match a new frame against the previous one. Resolves null for the first frame, when the worker
+   * is unavailable, if a previous frame is still in flight (frames are dropped, never queued), or
+   * when the boxes were corrected after the frame was captured.
+   */
+  estimate(frame: GrayFrame, boxes: MotionBox[], at: number): Promise<MotionResult | null> {
+    const worker = this.worker;
+    if (!worker || this.busy) return Promise.resolve(null);
+    this.busy = true;
+    return new Promise((resolve) => {
+      worker.onmessage = (e: MessageEvent<MotionResult | null>) => {
+        this.busy = false;
+        resolve(at < this.staleBefore ? null : e.data);
+      };
+      worker.onerror = () => {
+        this.busy = false;
+        resolve(null);
+      };
+      const request: MotionRequest = { frame, boxes, at };
+      worker.postMessage(request, [frame.data.buffer]);
+    });
+  }
+
+  dispose(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.busy = false;
+  }
+}
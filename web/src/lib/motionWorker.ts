@@ -0,0 +1,123 @@
+/**
+ * Web Worker: block-matching motion estimation between consecutive grayscale frames.
+ * For each box, the pixels inside it in the previous frame are searched for in the current frame
+ * within ±SEARCH_RADIUS px (sum of absolute differences). Textureless boxes fall back to the
+ * whole-frame shift so flat cowling panels still follow a head turn.
+ */
+
+import type { GrayFrame } from './camera';
+import type { MotionRequest, MotionResult, MotionShift } from './motion';
+
+const ctx = self as unknown as Worker;
+
+/** Search window in pixels of the downscaled frame (~4% of a 160px frame) */
+const SEARCH_RADIUS = 6;
+/** Sample every Nth pixel inside a block to keep matching cheap */
+const SAMPLE_STEP = 2;
+const MIN_BLOCK = 8;
+/** Best match must beat the zero-shift cost by this ratio, else report no motion (noise) */
+const MIN_IMPROVEMENT = 0.85;
+/** Mean absolute deviation below which a block has too little texture to match */
+const MIN_TEXTURE = 4;
+/** Frames further apart than this (e.g. after a pause with no tracks) are not compared */
+const MAX_FRAME_GAP_MS = 250;
+
+let previous: GrayFrame | null = null;
+let previousAt = 0;
+
+interface Block {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+function blockCost(prev: GrayFrame, cur: GrayFrame, b: Block, dx: number, dy: number): number {
+  let sum = 0;
+  let n = 0;
+  for (let y = b.y0; y < b.y1; y += SAMPLE_STEP) {
+    const cy = y + dy;
+    if (cy < 0 || cy >= cur.height) continue;
+    for (let x = b.x0; x < b.x1; x += SAMPLE_STEP) {
+      const cx = x + dx;
+      if (cx < 0 || cx >= cur.width) continue;
+      sum += Math.abs(prev.data[y * prev.width + x] - cur.data[cy * cur.width + cx]);
+      n++;
+    }
+  }
+  return n > 0 ? sum / n : Infinity;
+}
+
+function texture(frame: GrayFrame, b: Block): number {
+  let sum = 0;
+  let n = 0;
+  for (let y = b.y0; y < b.y1; y += SAMPLE_STEP) {
+    for (let x = b.x0; x < b.x1; x += SAMPLE_STEP) {
+      sum += frame.data[y * frame.width + x];
+      n++;
+    }
+  }
+  if (n === 0) return 0;
+  const mean = sum / n;
+  let dev = 0;
+  for (let y = b.y0; y < b.y1; y += SAMPLE_STEP) {
+    for (let x = b.x0; x < b.x1; x += SAMPLE_STEP) {
+      dev += Math.abs(frame.data[y * frame.width + x] - mean);
+    }
+  }
+  return dev / n;
+}
+
+/** Pixel shift of the block from prev to cur, or null if it can't be matched reliably. */
+function matchBlock(prev: GrayFrame, cur: GrayFrame, b: Block): { dx: number; dy: number } | null {
+  if (b.x1 - b.x0 < MIN_BLOCK || b.y1 - b.y0 < MIN_BLOCK) return null;
+  if (texture(prev, b) < MIN_TEXTURE) return null;
+  const zeroCost = blockCost(prev, cur, b, 0, 0);
+  let best = { dx: 0, dy: 0, cost: zeroCost };
+  for (let dy = -SEARCH_RADIUS; dy <= SEARCH_RADIUS; dy++) {
+    for (let dx = -SEARCH_RADIUS; dx <= SEARCH_RADIUS; dx++) {
+      if (dx === 0 && dy === 0) continue;
+      const c = blockCost(prev, cur, b, dx, dy);
+      if (c < best.cost) best = { dx, dy, cost: c };
+    }
+  }
+  if (best.cost > zeroCost * MIN_IMPROVEMENT) return { dx: 0, dy: 0 };
+  return { dx: best.dx, dy: best.dy };
+}
+
+function toBlock(frame: GrayFrame, x: number, y: number, w: number, h: number): Block {
+  return {
+    x0: Math.max(0, Math.floor(x * frame.width)),
+    y0: Math.max(0, Math.floor(y * frame.height)),
+    x1: Math.min(frame.width, Math.ceil((x + w) * frame.width)),
+    y1: Math.min(frame.height, Math.ceil((y + h) * frame.height)),
+  };
+}
+
+function estimate(prev: GrayFrame, cur: GrayFrame, request: MotionRequest): MotionResult {
+  const toNorm = (p: { dx: number; dy: number }): MotionShift => ({ dx: p.dx / cur.width, dy: p.dy / cur.height });
+  // Camera motion from the central half of the frame
+  const globalPx = matchBlock(prev, cur, toBlock(cur, 0.25, 0.25, 0.5, 0.5)) ?? { dx: 0, dy: 0 };
+  const global = toNorm(globalPx);
+  const shifts: Record<string, MotionShift> = {};
+  for (const box of request.boxes) {
+    const { x, y, width, height } = box.bbox;
+    const m = matchBlock(prev, cur, toBlock(cur, x, y, width, height));
+    shifts[box.id] = m ? toNorm(m) : global;
+  }
+  return { shifts, global };
+}
+
+ctx.onmessage = (e: MessageEvent<MotionRequest>) => {
+  const request = e.data;
+  const cur = request.frame;
+  const prev = previous;
+  const gap = request.at - previousAt;
+  previous = cur;
+  previousAt = request.at;
+  if (!prev || prev.width !== cur.width || prev.height !== cur.height || gap > MAX_FRAME_GAP_MS) {
+    ctx.postMessage(null);
+    return;
+  }
+  ctx.postMessage(estimate(prev, cur, request));
+};
@@ -2,9 +2,11 @@
  * Per-item overlay relevance from technician profile + knowledge base manual refs.
  */
 
+import { formatHistoryDate, getLastInspected } from './aircraftRegistry';
 import type { PersonProfile } from './rag';
 import { isOnTaskCard } from './rag';
 import { searchKBSync, type ManualRef } from './knowledgeBase';
+import { stepMatchesLabel, type TaskCardStep } from './taskCard';
 
 export type EmphasisLevel = 'high' | 'medium' | 'none';
 
@@ -16,10 +18,19 @@ export interface OverlaySnippet {
   line?: string;
   /** Manual page reference for quick display */
   manualRef?: ManualRef;
+  /** The component of the task card's current step */
+  currentStep?: boolean;
+  /** Last signed-off inspection of the component on the profile's aircraft, "2026-03-02" */
+  lastInspected?: string;
 }
 
 /** Compute overlay snippet: task card badge + manual ref + optional API relevance. */
-export function getOverlaySnippet(label: string, profile: PersonProfile | null, relevanceFromApi?: string): OverlaySnippet {
+export function getOverlaySnippet(
+  label: string,
+  profile: PersonProfile | null,
+  relevanceFromApi?: string,
+  currentStep?: { step: TaskCardStep; number: number } | null,
+): OverlaySnippet {
   // Always try to get a manual reference, even without a profile
   const kbResult = searchKBSync(label, 1);
   const manualRef = kbResult?.primaryRef ?? undefined;
@@ -33,6 +44,18 @@ export function getOverlaySnippet(label: string, profile: PersonProfile | null,
     return { emphasis: 'none' };
   }
 
+  const inspectedAt = getLastInspected(profile.workContext?.aircraftTailNumber, label);
+  const history = inspectedAt ? { lastInspected: formatHistoryDate(inspectedAt) } : {};
+
+  // The current step's component: its instruction and the step's own manual page win over the rest
+  if (currentStep && stepMatchesLabel(currentStep.step, label)) {
+    const { step, number } = currentStep;
+    const stepRef = step.refs?.[0] ?? manualRef;
+    const instruction = step.instruction.length > 24 ? `${step.instruction.slice(0, 23)}…` : step.instruction;
+    const line = stepRef ? `${stepRef.manualName || 'SM'} p.${stepRef.page}${stepRef.figure ? `, Fig ${stepRef.figure}` : ''}` : undefined;
+    return { emphasis: 'high', badge: `Step ${number}: ${instruction}`, line, manualRef: stepRef, currentStep: true, ...history };
+  }
+
   const onCard = isOnTaskCard(label, profile);
   const hasRelevance = Boolean(relevanceFromApi?.trim());
 
@@ -47,13 +70,13 @@ export function getOverlaySnippet(label: string, profile: PersonProfile | null,
   }
 
   if (onCard && line) {
-    return { emphasis: 'high', badge: 'On task card', line, manualRef };
+    return { emphasis: 'high', badge: 'On task card', line, manualRef, ...history };
   }
   if (onCard) {
-    return { emphasis: 'high', badge: 'On task card', manualRef };
+    return { emphasis: 'high', badge: 'On task card', manualRef, ...history };
   }
   if (line) {
-    return { emphasis: manualRef ? 'medium' : 'high', line, manualRef };
+    return { emphasis: manualRef ? 'medium' : 'high', line, manualRef, ...history };
   }
-  return { emphasis: 'none', manualRef };
+  return { emphasis: 'none', manualRef, ...history };
 }
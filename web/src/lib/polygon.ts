@@ -0,0 +1,83 @@
+/**
+ * Outline polygons for thin or diagonal parts (wing struts, fuel lines, control cables) whose
+ * axis-aligned box covers half the frame. Points are normalized 0-1 like BoundingBox. A tracked
+ * item's polygon always corresponds to its displayed bbox and is remapped whenever the box moves.
+ */
+
+import type { BoundingBox, Polygon } from './detection';
+
+/** Models asked for a polygon sometimes return a dense mask trace; more points add nothing on screen */
+const MAX_POLYGON_POINTS = 32;
+
+/**
+ * Parse a model polygon: [[x, y], ...] or [{ x, y }, ...], normalized 0-1 (0-1000 accepted, as
+ * Gemini uses for its own box/mask output). Null unless it has at least 3 valid points.
+ */
+export function normalizePolygon(raw: unknown): Polygon | null {
+  if (!Array.isArray(raw)) return null;
+  const points: Polygon = [];
+  for (const p of raw) {
+    const point = p as { x?: unknown; y?: unknown } | null;
+    const nx = Number(Array.isArray(p) ? p[0] : point?.x);
+    const ny = Number(Array.isArray(p) ? p[1] : point?.y);
+    if (!Number.isFinite(nx) || !Number.isFinite(ny)) continue;
+    points.push({ x: nx, y: ny });
+  }
+  if (points.length < 3) return null;
+  const scale = points.some((p) => p.x > 1 || p.y > 1) ? 1000 : 1;
+  const clamped = points.map((p) => ({ x: Math.max(0, Math.min(1, p.x / scale)), y: Math.max(0, Math.min(1, p.y / scale)) }));
+  if (clamped.length <= MAX_POLYGON_POINTS) return clamped;
+  const step = clamped.length / MAX_POLYGON_POINTS;
+  return Array.from({ length: MAX_POLYGON_POINTS }, (_, i) => clamped[Math.floor(i * step)]);
+}
+
+/** Map a polygon drawn inside box `from` onto box `to` (same relative position and scale). */
+export function remapPolygon(polygon: Polygon, from: BoundingBox, to: BoundingBox): Polygon {
+  const sx = from.width > 0 ? to.width / from.width : 1;
+  const sy = from.height > 0 ? to.height / from.height : 1;
+  return polygon.map((p) => ({ x: to.x + (p.x - from.x) * sx, y: to.y + (p.y - from.y) * sy }));
+}
+
+/** Axis-aligned box around the polygon's points. */
+export function polygonBounds(polygon: Polygon): BoundingBox {
+  const xs = polygon.map((p) => p.x);
+  const ys = polygon.map((p) => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/** Shoelace area (normalized units²). */
+export function polygonArea(polygon: Polygon): number {
+  let sum = 0;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    sum += (polygon[j].x + polygon[i].x) * (polygon[j].y - polygon[i].y);
+  }
+  return Math.abs(sum) / 2;
+}
+
+/** Even-odd ray casting. */
+export function pointInPolygon(polygon: Polygon, x: number, y: number): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.y > y !== b.y > y && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+}
+
+/** Shortest distance from a point to the polygon outline. */
+export function distanceToPolygonEdge(polygon: Polygon, x: number, y: number): number {
+  let best = Infinity;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[j];
+    const b = polygon[i];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const len2 = dx * dx + dy * dy;
+    const t = len2 > 0 ? Math.max(0, Math.min(1, ((x - a.x) * dx + (y - a.y) * dy) / len2)) : 0;
+    best = Math.min(best, Math.hypot(x - (a.x + t * dx), y - (a.y + t * dy)));
+  }
+  return best;
+}
@@ -0,0 +1,134 @@
+/**
+ * Guided procedure mode: walks the technician through a task card hands-free. Each step is spoken
+ * (instruction, torque, tools, manual page); "done" signs the step off as the current profile and
+ * moves on, "next" moves on once a step is already done. Required safety items (SafetyRequirement)
+ * must be confirmed before the first step; until then every other command is refused.
+ */
+
+import type { PersonProfile, SafetyRequirement } from './rag';
+import { getCurrentStepIndex, isStepDone, signOffBlocker, signOffStep, type TaskCard, type TaskCardStep } from './taskCard';
+
+export type ProcedureCommand = 'next' | 'done' | 'repeat' | 'confirm' | 'stop';
+
+export interface ProcedureState {
+  /** Step being read; -1 once every step is done */
+  stepIndex: number;
+  /** Required safety items not yet confirmed, in order */
+  pendingSafety: SafetyRequirement[];
+  finished: boolean;
+}
+
+export interface ProcedureResult {
+  state: ProcedureState;
+  /** Card after a sign-off (the same card when nothing changed) */
+  card: TaskCard;
+  /** What to say back */
+  say: string;
+}
+
+/** The whole utterance must be the command: "done, checked the gap" or "check what?" is conversation, not a sign-off */
+const COMMAND_PATTERNS: [ProcedureCommand, RegExp][] = [
+  ['stop', /^(?:(?:stop|exit|end|cancel)(?: the)? (?:procedure|guidance)|stop|exit)$/],
+  ['confirm', /^(?:confirm(?:ed)?|acknowledged?|got it|wearing it|have it|i have it)$/],
+  ['done', /^(?:done|complete(?:d)?|finished|sign(?:ed)? off|step (?:done|complete))$/],
+  ['next', /^(?:next(?: step)?|continue|go on|move on)$/],
+  ['repeat', /^(?:repeat(?: that)?|again|say that again|what was that)$/],
+];
+/** "I'm not done yet", "hold on, I haven't completed it": never a command, whatever else is said */
+const NEGATION_RE = /\b(?:not|no|never|nope)\b|n t\b/;
+/** Lead-in the recognizer often catches ahead of the command: "okay, done" */
+const FILLER_RE = /^(?:okay|ok|alright|all right|right|so)\s+/;
+
+/** The procedure command a transcript consists of ("okay, done" → 'done'), or null. */
+export function parseProcedureCommand(transcript: string): ProcedureCommand | null {
+  const text = transcript.toLowerCase().replace(/[^\w\s]/g, ' ').replace(/\s+/g, ' ').trim();
+  if (NEGATION_RE.test(text)) return null;
+  const command = text.replace(FILLER_RE, '');
+  return COMMAND_PATTERNS.find(([, re]) => re.test(command))?.[0] ?? null;
+}
+
+/** Items that block the procedure until confirmed: required ones (and those without a severity). */
+function requiredSafety(profile: PersonProfile): SafetyRequirement[] {
+  return profile.safetyRequirements.filter((s) => (s.severity ?? 'required') === 'required');
+}
+
+/** Manual shorthand read aloud: "300–360 in-lbs" → "300 to 360 inch-pounds", "p.290" → "page 290". */
+export function toSpeech(text: string): string {
+  return text
+    // Only ranges with a unit: "AD 2024-15-06" and "figure 11-3" stay as they are
+    .replace(/(\d)\s*[–-]\s*(\d+(?:\.\d+)?)(?=\s*(?:in[.-]?\s?lbs?|inch|ft[.-]?\s?lbs?|psi|qts?|rpm|°|"))/gi, '$1 to $2')
+    .replace(/\bin[.-]?\s?lbs?\b/gi, 'inch-pounds')
+    .replace(/\bft[.-]?\s?lbs?\b/gi, 'foot-pounds')
+    .replace(/±/g, 'plus or minus ')
+    .replace(/°/g, ' degrees')
+    .replace(/\bpp?\.\s*(\d)/g, 'page $1')
+    .replace(/\bSM\b/g, 'service manual')
+    .replace(/\bOM\b/g, "operator's manual")
+    .replace(/\bRII\b/g, 'required inspection item');
+}
+
+function stepPrompt(step: TaskCardStep, index: number, total: number): string {
+  const parts = [`Step ${index + 1} of ${total}: ${step.instruction}.`];
+  if (step.torque) parts.push(`Torque: ${step.torque}.`);
+  if (step.tools?.length) parts.push(`Tools: ${step.tools.join(', ')}.`);
+  const ref = step.refs?.[0];
+  if (ref) parts.push(`See ${ref.manualName || 'SM'} p.${ref.page}${ref.figure ? `, figure ${ref.figure}` : ''}.`);
+  if (step.rii) parts.push('This is a required inspection item.');
+  parts.push(step.completeOnDetection ? 'Show me the part when you are there, or say done.' : 'Say done when complete.');
+  return toSpeech(parts.join(' '));
+}
+
+function safetyPrompt(item: SafetyRequirement): string {
+  return `Safety check: ${item.item}${item.notes ? `, for ${item.notes.toLowerCase()}` : ''}. Say confirmed when you have it.`;
+}
+
+/** Start at the card's first open step; required safety items come first. */
+export function startProcedure(card: TaskCard, profile: PersonProfile): ProcedureState {
+  const stepIndex = getCurrentStepIndex(card);
+  return { stepIndex, pendingSafety: requiredSafety(profile), finished: stepIndex < 0 };
+}
+
+/** What to say for the current state: the next safety check, the current step, or that the card is done. */
+export function procedurePrompt(state: ProcedureState, card: TaskCard): string {
+  if (state.pendingSafety.length) return safetyPrompt(state.pendingSafety[0]);
+  const step = card.steps[state.stepIndex];
+  if (state.finished || !step) {
+    const awaiting = card.steps.filter((s) => s.rii && !s.inspectorSignOff).length;
+    return awaiting
+      ? `All steps are done. ${awaiting === 1 ? 'One required inspection item needs' : `${awaiting} required inspection items need`} an inspector's sign-off.`
+      : 'All steps are complete. The task card is done.';
+  }
+  return stepPrompt(step, state.stepIndex, card.steps.length);
+}
+
+function advance(state: ProcedureState, card: TaskCard, lead: string): ProcedureResult {
+  // Steps later on that were already done (signed in the panel, seen by detection) are passed over
+  const stepIndex = card.steps.findIndex((step, i) => i > state.stepIndex && !isStepDone(step));
+  const next: ProcedureState = { ...state, stepIndex, finished: stepIndex < 0 };
+  return { state: next, card, say: `${lead} ${procedurePrompt(next, card)}`.trim() };
+}
+
+/** Apply a voice command. Anything but "repeat" and "stop" is refused while a safety item is unconfirmed. */
+export function handleProcedureCommand(state: ProcedureState, card: TaskCard, profile: PersonProfile, command: ProcedureCommand): ProcedureResult {
+  if (command === 'repeat') return { state, card, say: procedurePrompt(state, card) };
+  if (command === 'stop') return { state: { ...state, finished: true }, card, say: 'Procedure guidance stopped.' };
+
+  if (state.pendingSafety.length) {
+    const [item, ...rest] = state.pendingSafety;
+    if (command !== 'confirm') return { state, card, say: `Confirm ${item.item} first. ${safetyPrompt(item)}` };
+    const next = { ...state, pendingSafety: rest };
+    return { state: next, card, say: `${item.item} confirmed. ${procedurePrompt(next, card)}` };
+  }
+
+  const step = card.steps[state.stepIndex];
+  if (state.finished || !step) return { state, card, say: procedurePrompt(state, card) };
+  if (command === 'confirm') return { state, card, say: 'Nothing to confirm. Say done when the step is complete.' };
+
+  if (isStepDone(step)) return advance(state, card, `Step ${state.stepIndex + 1} is done.`);
+  if (command === 'next') return { state, card, say: `Step ${state.stepIndex + 1} is not signed off. Say done when it is complete.` };
+
+  const blocker = signOffBlocker(card, step.id, 'mechanic', profile);
+  if (blocker) return { state, card, say: `Can't sign off step ${state.stepIndex + 1}: ${blocker}.` };
+  const signed = signOffStep(card, step.id, 'mechanic', profile);
+  return advance(state, signed, `Step ${state.stepIndex + 1} signed off${step.rii ? '; it still needs an inspector' : ''}.`);
+}
@@ -3,6 +3,9 @@
  * Each technician profile drives overlay emphasis and Gemini analysis.
  */
 
+import type { ManualRef } from './knowledgeBase';
+import { TASK_CARD_AD_COMPLIANCE, TASK_CARD_CESSNA_ANNUAL, matchesTaskItem, type TaskCard } from './taskCard';
+
 export type Certification =
   | 'ap_mechanic'
   | 'ia_inspector'
@@ -23,8 +26,10 @@ export interface SafetyRequirement {
 export interface WorkContext {
   /** Current aircraft tail number or fleet designation */
   aircraftTailNumber?: string;
-  /** Aircraft type (e.g. "Cessna 172", "MD-11") */
+  /** Aircraft type (e.g. "Cessna 172", "MD-11"); a model ("Cessna 172N") narrows the KB to that model's effectivity */
   aircraftType?: string;
+  /** Manufacturer serial number, for serial-range effectivity */
+  aircraftSerial?: string;
   /** Current work order / task card number */
   workOrderNumber?: string;
   /** Type of maintenance: "scheduled", "unscheduled", "inspection", "AD compliance", "modification" */
@@ -33,6 +38,13 @@ export interface WorkContext {
   workNotes?: string;
 }
 
+/**
+ * How answers treat numeric specs (torque, gaps, pressures, limits): 'grounded' states only values
+ * found in the retrieved manual pages and otherwise says they are not in the loaded manuals;
+ * 'open' lets the model fill in from general knowledge.
+ */
+export type AnswerMode = 'grounded' | 'open';
+
 export interface PersonProfile {
   id: string;
   name: string;
@@ -43,6 +55,10 @@ export interface PersonProfile {
   notes?: string;
   /** Work context: aircraft, work order, maintenance type */
   workContext?: WorkContext;
+  /** Default: grounded for IA inspectors, open otherwise (see getAnswerMode) */
+  answerMode?: AnswerMode;
+  /** Ordered steps with refs and sign-offs; without one, taskCardItems become the steps (see taskCard.ts) */
+  taskCard?: TaskCard;
 }
 
 export const PRESET_CESSNA_ANNUAL: PersonProfile = {
@@ -55,6 +71,7 @@ export const PRESET_CESSNA_ANNUAL: PersonProfile = {
     { item: 'Hearing protection', severity: 'recommended', notes: 'Engine run-up' },
   ],
   taskCardItems: ['engine oil change', 'spark plug inspection', 'magneto timing check', 'brake pad inspection', 'oil filter replacement', 'compression test'],
+  taskCard: TASK_CARD_CESSNA_ANNUAL,
   notes: 'Annual inspection on Cessna 172N, N12345. Reference: Cessna 172 Service Manual D2065-3-13.',
   workContext: {
     aircraftTailNumber: 'N12345',
@@ -94,6 +111,7 @@ export const PRESET_AD_COMPLIANCE: PersonProfile = {
     { item: 'Torque wrench calibrated', severity: 'required' },
   ],
   taskCardItems: ['engine mount bolt inspection', 'torque verification', 'control surface inspection', 'trailing edge crack check'],
+  taskCard: TASK_CARD_AD_COMPLIANCE,
   notes: 'AD compliance check. Reference: AD 2024-15-06 (engine mount bolts), Cessna SM TR5 (trailing edge cracks).',
   workContext: {
     aircraftTailNumber: 'N67890',
@@ -102,6 +120,7 @@ export const PRESET_AD_COMPLIANCE: PersonProfile = {
     maintenanceType: ['AD compliance', 'inspection'],
     workNotes: 'Biennial AD compliance review. Verify engine mount bolt torque values per TR4.',
   },
+  answerMode: 'grounded',
 };
 
 export const PRESET_PROFILES: PersonProfile[] = [
@@ -111,6 +130,15 @@ export const PRESET_PROFILES: PersonProfile[] = [
 ];
 
 const STORAGE_KEY = 'flightsight_profiles';
+/** Answer mode chosen in the profiles panel, by profile id (presets can't be edited in place) */
+const ANSWER_MODE_STORAGE_KEY = 'flightsight_answer_modes';
+/** Manual pages pinned to a profile's current task in the manual browser, by profile id */
+const PINNED_REFS_STORAGE_KEY = 'flightsight_pinned_refs';
+/** Work orders imported for existing profiles, by profile id (see workOrderImport.ts) */
+const IMPORTED_WORK_STORAGE_KEY = 'flightsight_imported_work';
+
+/** What a work order import replaces on a profile */
+export type ImportedWork = Pick<PersonProfile, 'workContext' | 'taskCard' | 'taskCardItems'>;
 
 export function loadCustomProfiles(): PersonProfile[] {
   try {
@@ -131,10 +159,92 @@ export function saveCustomProfiles(profiles: PersonProfile[]): void {
   }
 }
 
-/** Check if label is on task card (fuzzy: lowercase, includes). */
+function loadAnswerModes(): Record<string, AnswerMode> {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(ANSWER_MODE_STORAGE_KEY) ?? '{}') as Record<string, AnswerMode>;
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/** The profile's answer mode: the one picked in the profiles panel, else its own, else grounded for IA inspectors. */
+export function getAnswerMode(profile: PersonProfile | null): AnswerMode {
+  if (!profile) return 'open';
+  return loadAnswerModes()[profile.id] ?? profile.answerMode ?? (profile.certifications.includes('ia_inspector') ? 'grounded' : 'open');
+}
+
+export function saveAnswerMode(profileId: string, mode: AnswerMode): void {
+  try {
+    localStorage.setItem(ANSWER_MODE_STORAGE_KEY, JSON.stringify({ ...loadAnswerModes(), [profileId]: mode }));
+  } catch {
+    // ignore
+  }
+}
+
+function loadAllPinnedRefs(): Record<string, ManualRef[]> {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(PINNED_REFS_STORAGE_KEY) ?? '{}') as Record<string, ManualRef[]>;
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function samePinnedRef(a: ManualRef, b: ManualRef): boolean {
+  return a.manualName === b.manualName && a.page === b.page && a.chunkId === b.chunkId;
+}
+
+/** Manual references pinned to the profile's task, in pinning order. */
+export function loadPinnedRefs(profileId: string): ManualRef[] {
+  const refs = loadAllPinnedRefs()[profileId];
+  return Array.isArray(refs) ? refs : [];
+}
+
+export function isPinnedRef(pinned: ManualRef[], ref: ManualRef): boolean {
+  return pinned.some((p) => samePinnedRef(p, ref));
+}
+
+/** Pin the reference to the profile's task, or unpin it if already pinned; returns the new list. */
+export function togglePinnedRef(profileId: string, ref: ManualRef): ManualRef[] {
+  const pinned = loadPinnedRefs(profileId);
+  const next = isPinnedRef(pinned, ref) ? pinned.filter((p) => !samePinnedRef(p, ref)) : [...pinned, ref];
+  try {
+    localStorage.setItem(PINNED_REFS_STORAGE_KEY, JSON.stringify({ ...loadAllPinnedRefs(), [profileId]: next }));
+  } catch {
+    // ignore
+  }
+  return next;
+}
+
+function loadAllImportedWork(): Record<string, ImportedWork> {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(IMPORTED_WORK_STORAGE_KEY) ?? '{}') as Record<string, ImportedWork>;
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/** The profile with its last imported work order, if any, in place of its own work context and task card. */
+export function withImportedWork(profile: PersonProfile): PersonProfile {
+  const work = loadAllImportedWork()[profile.id];
+  if (!work) return profile;
+  return { ...profile, workContext: work.workContext, taskCard: work.taskCard, taskCardItems: work.taskCardItems ?? [] };
+}
+
+export function saveImportedWork(profileId: string, work: ImportedWork): void {
+  try {
+    localStorage.setItem(IMPORTED_WORK_STORAGE_KEY, JSON.stringify({ ...loadAllImportedWork(), [profileId]: work }));
+  } catch {
+    // ignore
+  }
+}
+
+/** Check if a component is on the task card: one of its items or a step's component covers it (see matchesTaskItem). */
 export function isOnTaskCard(label: string, profile: PersonProfile): boolean {
-  const lower = label.toLowerCase();
-  return profile.taskCardItems.some((item) => lower.includes(item.toLowerCase()) || item.toLowerCase().includes(lower));
+  const stepComponents = profile.taskCard?.steps.flatMap((step) => (step.component ? [step.component] : [])) ?? [];
+  return [...profile.taskCardItems, ...stepComponents].some((item) => matchesTaskItem(label, item));
 }
 
 /** One-line summary of profile for prompts. */
@@ -153,12 +263,16 @@ export function profileSummary(profile: PersonProfile): string {
   }
   const wc = profile.workContext;
   if (wc?.aircraftType) {
-    parts.push(`Aircraft: ${wc.aircraftType}${wc.aircraftTailNumber ? ` (${wc.aircraftTailNumber})` : ''}.`);
+    const ids = [wc.aircraftTailNumber, wc.aircraftSerial ? `S/N ${wc.aircraftSerial}` : ''].filter(Boolean).join(', ');
+    parts.push(`Aircraft: ${wc.aircraftType}${ids ? ` (${ids})` : ''}.`);
   }
   if (wc?.maintenanceType?.length) {
     parts.push(`Maintenance type: ${wc.maintenanceType.join(', ')}.`);
   }
   if (wc?.workNotes) parts.push(wc.workNotes);
+  if (profile.taskCard) {
+    parts.push(`Task card: ${profile.taskCard.title} (${profile.taskCard.steps.length} steps).`);
+  }
   if (profile.taskCardItems.length > 0) {
     parts.push(`Task card items: ${profile.taskCardItems.slice(0, 12).join(', ')}${profile.taskCardItems.length > 12 ? '...' : ''}.`);
   }
@@ -0,0 +1,173 @@
+/**
+ * Session recording: thumbnails of the camera feed, every detection response, the tracker output after
+ * each merge, and the optical-flow shifts applied in between — saved as one JSON file so a hangar
+ * session can be replayed offline (see sessionReplay.ts) to reproduce tracking/overlay bugs.
+ * All times are milliseconds since the recording started.
+ */
+
+import { captureFrameToJpegForDetection } from './camera';
+import type { DetectedItem } from './detection';
+import type { MotionShift } from './motion';
+import type { TrackedItem } from './tracking';
+
+export const SESSION_RECORDING_VERSION = 1;
+
+export interface RecordedFrame {
+  t: number;
+  /** Downscaled JPEG, base64 (no data: prefix) */
+  jpeg: string;
+}
+
+export interface RecordedDetection {
+  t: number;
+  /** Index into frames of the thumbnail captured when the detection was sent */
+  frame: number;
+  providerId: string;
+  /** What detectItemsInImage returned (already filtered); empty for a failed round */
+  items: DetectedItem[];
+  /** Set when the round failed (network error, 429): the tracker coasted instead of merging */
+  error?: string;
+  /** Tracker output right after merging these items (expected result for replay) */
+  tracks: TrackedItem[];
+}
+
+export interface RecordedMotion {
+  t: number;
+  shifts: Record<string, MotionShift>;
+}
+
+export interface SessionRecording {
+  version: number;
+  /** ISO wall-clock start time */
+  startedAt: string;
+  frames: RecordedFrame[];
+  detections: RecordedDetection[];
+  motion: RecordedMotion[];
+}
+
+/** Feed thumbnails between detections (2 fps keeps a 10 min session around 10 MB) */
+const FRAME_INTERVAL_MS = 500;
+const FRAME_MAX_SIZE = 320;
+const FRAME_QUALITY = 0.5;
+/** Stop recording automatically after this long so the tab doesn't run out of memory */
+const MAX_DURATION_MS = 10 * 60_000;
+
+export class SessionRecorder {
+  private readonly recording: SessionRecording;
+  private readonly origin: number;
+  private lastFrameAt = -Infinity;
+  private stopped = false;
+
+  /** @param origin performance.now() at start; all recorded times are relative to it */
+  constructor(origin = performance.now()) {
+    this.origin = origin;
+    this.recording = {
+      version: SESSION_RECORDING_VERSION,
+      startedAt: new Date().toISOString(),
+      frames: [],
+      detections: [],
+      motion: [],
+    };
+  }
+
+  get active(): boolean {
+    return !this.stopped;
+  }
+
+  get durationMs(): number {
+    const { frames } = this.recording;
+    return frames.length ? frames[frames.length - 1].t : 0;
+  }
+
+  private relative(now: number): number {
+    return Math.round((now - this.origin) * 1000) / 1000;
+  }
+
+  private accepting(now: number): boolean {
+    if (this.stopped) return false;
+    if (now - this.origin > MAX_DURATION_MS) this.stopped = true;
+    return !this.stopped;
+  }
+
+  private addFrame(video: HTMLVideoElement, now: number): number {
+    const jpeg = captureFrameToJpegForDetection(video, FRAME_MAX_SIZE, FRAME_QUALITY);
+    if (!jpeg) return -1;
+    this.lastFrameAt = now;
+    this.recording.frames.push({ t: this.relative(now), jpeg });
+    return this.recording.frames.length - 1;
+  }
+
+  /** Throttled thumbnail of the feed; call every animation frame. */
+  recordFrame(video: HTMLVideoElement, now: number): void {
+    if (!this.accepting(now) || now - this.lastFrameAt < FRAME_INTERVAL_MS) return;
+    this.addFrame(video, now);
+  }
+
+  /**
+   * Record a detection response, or a failed round when error is given. Returns the entry so the caller
+   * can attach the tracker output with setDetectionTracks once the merge has run.
+   */
+  recordDetection(video: HTMLVideoElement, items: DetectedItem[], providerId: string, now: number, error?: string): RecordedDetection | null {
+    if (!this.accepting(now)) return null;
+    const frame = this.addFrame(video, now);
+    if (frame < 0) return null;
+    const entry: RecordedDetection = { t: this.relative(now), frame, providerId, items, tracks: [], ...(error != null ? { error } : {}) };
+    this.recording.detections.push(entry);
+    return entry;
+  }
+
+  /** Attach the merged tracks to a detection entry (idempotent, safe inside a state updater). */
+  setDetectionTracks(entry: RecordedDetection, tracks: TrackedItem[]): void {
+    entry.tracks = tracks.map((t) => ({ ...t, lastUpdateAt: this.relative(t.lastUpdateAt) }));
+  }
+
+  recordMotion(shifts: Record<string, MotionShift>, now: number): void {
+    if (!this.accepting(now) || Object.keys(shifts).length === 0) return;
+    this.recording.motion.push({ t: this.relative(now), shifts });
+  }
+
+  stop(): SessionRecording {
+    this.stopped = true;
+    return this.recording;
+  }
+}
+
+/** Save a recording as a .json download. */
+export function downloadSessionRecording(recording: SessionRecording): void {
+  const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `flightsight-session-${recording.startedAt.replace(/[:.]/g, '-')}.json`;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/** Parse and sanity-check a recording file. Throws with a user-facing message if it isn't one. */
+export function parseSessionRecording(text: string): SessionRecording {
+  let data: Partial<SessionRecording>;
+  try {
+    data = JSON.parse(text) as Partial<SessionRecording>;
+  } catch {
+    throw new Error('Not a session recording (invalid JSON)');
+  }
+  if (data.version !== SESSION_RECORDING_VERSION) {
+    throw new Error(`Unsupported session recording version: ${String(data.version)}`);
+  }
+  if (!Array.isArray(data.frames) || !Array.isArray(data.detections)) {
+    throw new Error('Not a session recording (missing frames or detections)');
+  }
+  const frameCount = data.frames.length;
+  if (data.detections.some((d) => d.frame < 0 || d.frame >= frameCount)) {
+    throw new Error('Session recording is corrupt (detection references a missing frame)');
+  }
+  return {
+    version: data.version,
+    startedAt: data.startedAt ?? '',
+    frames: data.frames,
+    detections: data.detections,
+    motion: Array.isArray(data.motion) ? data.motion : [],
+  };
+}
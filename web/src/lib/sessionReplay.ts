@@ -0,0 +1,184 @@
+/**
+ * Deterministic offline replay of a SessionRecording through the real pipeline: recorded detections
+ * are served by a fake "replay" provider via detectItemsInImage, merged with mergeWithPrevious (failed
+ * rounds fail again and coast the tracks, as live),
+ * shifted by the recorded optical flow and eased with stepDisplayedTowardTarget on a fixed clock.
+ * No network is used. The tracker output is compared against what was recorded live, so a change
+ * to tracking or filtering that alters behaviour on real footage shows up as mismatches.
+ */
+
+import { detectItemsInImage, type DetectedItem } from './detection';
+import {
+  registerDetectionProvider,
+  setProviderOverride,
+  unregisterDetectionProvider,
+  type DetectionProvider,
+} from './detectionProviders';
+import type { RecordedDetection, SessionRecording } from './sessionRecording';
+import {
+  applyMotion,
+  coastTracks,
+  getVisibleTracks,
+  mergeWithPrevious,
+  resetTrackIds,
+  stepDisplayedTowardTarget,
+  type TrackedItem,
+} from './tracking';
+
+export const REPLAY_PROVIDER_ID = 'replay';
+
+/** Fixed animation step: replays are identical regardless of machine speed */
+export const REPLAY_STEP_MS = 1000 / 60;
+/** Max per-coordinate drift between recorded and replayed track state before it counts as a mismatch */
+const STATE_TOLERANCE = 1e-3;
+
+export interface ReplayFrame {
+  t: number;
+  jpeg: string;
+  /** Visible tracks as the overlay would have drawn them at this frame */
+  tracks: TrackedItem[];
+}
+
+export interface ReplayMismatch {
+  t: number;
+  /** Index of the recorded detection whose merge diverged */
+  detection: number;
+  message: string;
+}
+
+export interface ReplayResult {
+  frames: ReplayFrame[];
+  mismatches: ReplayMismatch[];
+}
+
+function cloneItems(items: DetectedItem[]): DetectedItem[] {
+  return items.map((item) => ({ ...item, bbox: { ...item.bbox } }));
+}
+
+/**
+ * Detection provider that answers with the recorded response for a recorded frame, or throws the
+ * recorded error for a failed round. Responses for the same JPEG are served in recording order.
+ * Local, so the frame-hash cache is bypassed.
+ */
+export function createReplayProvider(recording: SessionRecording): DetectionProvider {
+  const queues = new Map<string, RecordedDetection[]>();
+  for (const d of recording.detections) {
+    const jpeg = recording.frames[d.frame].jpeg;
+    const queue = queues.get(jpeg) ?? [];
+    queue.push(d);
+    queues.set(jpeg, queue);
+  }
+  const gaps = recording.detections.slice(1).map((d, i) => d.t - recording.detections[i].t);
+  const medianGap = gaps.length ? gaps.sort((a, b) => a - b)[Math.floor(gaps.length / 2)] : 1500;
+  return {
+    id: REPLAY_PROVIDER_ID,
+    name: 'Replay',
+    priority: -1,
+    intervalMs: Math.max(250, Math.round(medianGap)),
+    local: true,
+    isAvailable: () => true,
+    detect: async (jpegBase64) => {
+      const recorded = queues.get(jpegBase64)?.shift();
+      if (!recorded) throw new Error('Replay: frame is not in the recording');
+      if (recorded.error != null) throw new Error(recorded.error);
+      return cloneItems(recorded.items);
+    },
+  };
+}
+
+/** Replays share the provider registry and track-id counter, so they run one at a time */
+let replayQueue: Promise<unknown> = Promise.resolve();
+
+/** Route detectItemsInImage to the replay provider (exclusively) while fn runs. */
+export function withReplayProvider<T>(recording: SessionRecording, fn: () => Promise<T>): Promise<T> {
+  const run = async (): Promise<T> => {
+    registerDetectionProvider(createReplayProvider(recording));
+    setProviderOverride(REPLAY_PROVIDER_ID);
+    try {
+      return await fn();
+    } finally {
+      setProviderOverride(null);
+      unregisterDetectionProvider(REPLAY_PROVIDER_ID);
+    }
+  };
+  const result = replayQueue.then(run, run);
+  replayQueue = result.catch(() => {});
+  return result;
+}
+
+function diffTracks(expected: TrackedItem[], actual: TrackedItem[]): string[] {
+  const out: string[] = [];
+  const byId = new Map(actual.map((t) => [t.trackId, t]));
+  for (const e of expected) {
+    const a = byId.get(e.trackId);
+    if (!a) {
+      out.push(`${e.trackId} (${e.label}) missing`);
+      continue;
+    }
+    byId.delete(e.trackId);
+    if (a.label !== e.label) out.push(`${e.trackId} label "${a.label}", expected "${e.label}"`);
+    if (a.confirmed !== e.confirmed) out.push(`${e.trackId} confirmed=${a.confirmed}, expected ${e.confirmed}`);
+    const drift = Math.max(
+      Math.abs(a.state.x - e.state.x),
+      Math.abs(a.state.y - e.state.y),
+      Math.abs(a.state.width - e.state.width),
+      Math.abs(a.state.height - e.state.height)
+    );
+    if (drift > STATE_TOLERANCE) out.push(`${e.trackId} state drifted by ${drift.toFixed(4)}`);
+  }
+  for (const extra of byId.values()) out.push(`${extra.trackId} (${extra.label}) unexpected`);
+  return out;
+}
+
+type ReplayEvent =
+  | { t: number; kind: 'detection'; index: number }
+  | { t: number; kind: 'motion'; index: number };
+
+/**
+ * Replay a recording from a fresh tracker (track ids restart at t1, as at the start of a recording).
+ * Must not run while live detection is active: it resets track ids and overrides the provider.
+ */
+export function replaySession(recording: SessionRecording, stepMs = REPLAY_STEP_MS): Promise<ReplayResult> {
+  return withReplayProvider(recording, async () => {
+    resetTrackIds();
+    const events: ReplayEvent[] = [
+      ...recording.detections.map((d, index) => ({ t: d.t, kind: 'detection' as const, index })),
+      ...recording.motion.map((m, index) => ({ t: m.t, kind: 'motion' as const, index })),
+    ].sort((a, b) => a.t - b.t);
+    const frames: ReplayFrame[] = [];
+    const mismatches: ReplayMismatch[] = [];
+    let tracks: TrackedItem[] = [];
+    let ei = 0;
+    let fi = 0;
+
+    for (let step = 0; ei < events.length || fi < recording.frames.length; step++) {
+      const now = step * stepMs;
+      for (; ei < events.length && events[ei].t <= now; ei++) {
+        const event = events[ei];
+        if (event.kind === 'motion') {
+          tracks = applyMotion(tracks, recording.motion[event.index].shifts);
+          continue;
+        }
+        const d = recording.detections[event.index];
+        if (d.error != null) {
+          // Same path as live: the provider fails, the tracker coasts
+          const failed = await detectItemsInImage(recording.frames[d.frame].jpeg, '').then(() => false, () => true);
+          if (!failed) mismatches.push({ t: d.t, detection: event.index, message: 'recorded failure replayed as a response' });
+          tracks = coastTracks(tracks, d.t);
+        } else {
+          const items = await detectItemsInImage(recording.frames[d.frame].jpeg, '');
+          tracks = mergeWithPrevious(tracks, items, d.t);
+        }
+        for (const message of diffTracks(d.tracks, tracks)) {
+          mismatches.push({ t: d.t, detection: event.index, message });
+        }
+      }
+      tracks = stepDisplayedTowardTarget(tracks, now);
+      for (; fi < recording.frames.length && recording.frames[fi].t <= now; fi++) {
+        const { t, jpeg } = recording.frames[fi];
+        frames.push({ t, jpeg, tracks: getVisibleTracks(tracks) });
+      }
+    }
+    return { frames, mismatches };
+  });
+}
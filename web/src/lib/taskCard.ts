@@ -0,0 +1,328 @@
+/**
+ * Structured task cards: ordered steps, each with manual references, tools, torque and an RII
+ * (required inspection item) flag, signed off by the mechanic and — for RII steps — by a second,
+ * qualified inspector. Detections of a step's component verify the current step, and complete
+ * locate/access steps. Profiles without a card get one built from their flat taskCardItems.
+ */
+
+import { getChunkById, getManualRef, type ManualRef } from './knowledgeBase';
+import type { Certification, PersonProfile } from './rag';
+import { canonicalizeLabel, isSameOrDescendant } from './taxonomy';
+
+export interface StepSignOff {
+  name: string;
+  profileId: string;
+  /** ISO timestamp */
+  at: string;
+}
+
+export interface TaskCardStep {
+  id: string;
+  instruction: string;
+  /** Component the step works on: highlighted in the AR view and matched against detections */
+  component?: string;
+  refs?: ManualRef[];
+  /** KB chunk ids to cite, resolved into refs on the loaded KB (see resolveStepRefs) so pages follow manual revisions */
+  refChunks?: string[];
+  tools?: string[];
+  /** Torque to apply, as in the manual, e.g. "300–360 in-lbs (with anti-seize)" */
+  torque?: string;
+  /** Required inspection item: a second, qualified person inspects and signs before the card closes */
+  rii?: boolean;
+  /** Locate/access step: detecting the component completes it without a sign-off */
+  completeOnDetection?: boolean;
+  mechanicSignOff?: StepSignOff;
+  inspectorSignOff?: StepSignOff;
+  /** First detection of the component while the step was current (ms since epoch) */
+  detectedAt?: number;
+}
+
+export interface TaskCard {
+  id: string;
+  title: string;
+  workOrderNumber?: string;
+  steps: TaskCardStep[];
+}
+
+export type SignOffRole = 'mechanic' | 'inspector';
+
+/** Step state kept in localStorage; the card itself comes from the profile */
+type StepProgress = Pick<TaskCardStep, 'mechanicSignOff' | 'inspectorSignOff' | 'detectedAt'>;
+
+const PROGRESS_STORAGE_KEY = 'flightsight_task_card_progress';
+/** Certifications that may inspect and sign an RII step */
+const RII_INSPECTOR_CERTIFICATIONS: Certification[] = ['ia_inspector', 'rts_authority'];
+
+export const TASK_CARD_CESSNA_ANNUAL: TaskCard = {
+  id: 'tc-cessna-annual',
+  title: 'Cessna 172N Annual Inspection – Engine',
+  workOrderNumber: 'WO-2026-0214',
+  steps: [
+    { id: 'open-cowling', instruction: 'Remove the upper and lower cowling', component: 'engine cowling', refChunks: ['engine-inspection-checklist'], tools: ['Screwdriver'], completeOnDetection: true },
+    {
+      id: 'oil-change',
+      instruction: 'Drain engine oil, replace the oil filter; cut the old filter open and inspect the media for metal',
+      component: 'oil filter',
+      refChunks: ['oil-system'],
+      tools: ['Oil drain container', 'Filter wrench', 'Filter can cutter'],
+      torque: 'Hand-tight plus 3/4 turn',
+    },
+    {
+      id: 'spark-plugs',
+      instruction: 'Remove, clean, gap and rotate the spark plugs top-to-bottom',
+      component: 'spark plug',
+      refChunks: ['ignition-system'],
+      tools: ['Spark plug socket', 'Torque wrench', 'Gap gauge', 'Anti-seize compound'],
+      torque: '300–360 in-lbs (with anti-seize)',
+    },
+    {
+      id: 'magneto-timing',
+      instruction: 'Check magneto-to-engine timing; both breakers open within ±2°',
+      component: 'magneto',
+      refChunks: ['o320-magneto-timing'],
+      tools: ['Timing light', 'Top dead center indicator'],
+      torque: '150 in-lbs (magneto clamps)',
+      rii: true,
+    },
+    { id: 'brakes', instruction: 'Inspect brake discs for wear and scoring, pads for minimum thickness', component: 'brake', refChunks: ['brake-system'], tools: ['Flashlight', 'Thickness gauge'] },
+    {
+      id: 'engine-mount-bolts',
+      instruction: 'Verify engine mount bolt torque (AD 2024-15-06)',
+      component: 'engine mount',
+      refChunks: ['engine-mount', 'torque-table'],
+      tools: ['Calibrated torque wrench'],
+      torque: 'Per SM TR4',
+      rii: true,
+    },
+    { id: 'compression', instruction: 'Differential compression test, all cylinders', component: 'cylinder', refChunks: ['engine-inspection-checklist'], tools: ['Differential compression tester', 'Compressed air source'] },
+  ],
+};
+
+export const TASK_CARD_AD_COMPLIANCE: TaskCard = {
+  id: 'tc-ad-compliance',
+  title: 'AD 2024-15-06 Engine Mount Bolts – Cessna 172P',
+  workOrderNumber: 'WO-2026-0215',
+  steps: [
+    { id: 'open-cowling', instruction: 'Remove the cowling for access to the engine mount', component: 'engine cowling', refChunks: ['engine-inspection-checklist'], tools: ['Screwdriver'], completeOnDetection: true },
+    {
+      id: 'mount-inspection',
+      instruction: 'Inspect mount bolts, shock mounts and mount structure for cracks, especially at weld joints',
+      component: 'engine mount',
+      refChunks: ['engine-mount'],
+      tools: ['Flashlight', 'Inspection mirror'],
+    },
+    {
+      id: 'mount-torque',
+      instruction: 'Torque engine mount bolts per TR4',
+      component: 'engine mount',
+      refChunks: ['engine-mount', 'torque-table'],
+      tools: ['Calibrated torque wrench'],
+      torque: 'Per SM TR4',
+      rii: true,
+    },
+    { id: 'trailing-edge', instruction: 'Inspect control surface trailing edges for cracks (SM TR5)', component: 'aileron', refChunks: ['aileron-control'], tools: ['Flashlight', '10x magnifier'] },
+  ],
+};
+
+/**
+ * Whether a task item covers a component label. Both sides are mapped to taxonomy IDs: an item covers
+ * its component and its sub-assemblies ("magneto timing check" covers the magneto). Labels or items
+ * outside the taxonomy fall back to fuzzy text matching.
+ */
+export function matchesTaskItem(label: string, item: string): boolean {
+  const componentId = canonicalizeLabel(label)?.id;
+  const itemId = canonicalizeLabel(item)?.id;
+  if (componentId && itemId) return isSameOrDescendant(componentId, itemId);
+  const lower = label.toLowerCase();
+  return lower.includes(item.toLowerCase()) || item.toLowerCase().includes(lower);
+}
+
+/** A card for profiles that only have flat task card items: one step per item, in order. */
+export function taskCardFromItems(id: string, title: string, items: string[]): TaskCard {
+  return {
+    id,
+    title,
+    steps: items.map((item, i) => ({ id: `item-${i + 1}`, instruction: item.charAt(0).toUpperCase() + item.slice(1), component: item })),
+  };
+}
+
+/** FNV-1a, base 36: a short stable key for step content */
+function contentHash(text: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) h = Math.imul(h ^ text.charCodeAt(i), 0x01000193);
+  return (h >>> 0).toString(36);
+}
+
+/**
+ * Step ids from what each step says (instruction, torque, RII), not where it stands, so a re-imported
+ * or re-scanned card with a step inserted or moved keeps each sign-off on the work it was given for;
+ * a step whose wording or spec changed gets a new id and starts unsigned. Repeats are numbered.
+ */
+export function contentStepIds(prefix: string, steps: Pick<TaskCardStep, 'instruction' | 'torque' | 'rii'>[]): string[] {
+  const seen = new Map<string, number>();
+  return steps.map((step) => {
+    const key = `${prefix}-${contentHash(`${step.instruction.trim().toLowerCase()}\u0000${step.torque?.trim() ?? ''}\u0000${step.rii ? 'rii' : ''}`)}`;
+    const n = (seen.get(key) ?? 0) + 1;
+    seen.set(key, n);
+    return n > 1 ? `${key}-${n}` : key;
+  });
+}
+
+/** Card id for a work order's card (imported or scanned), so sign-offs follow the work order: "WO 2026/14" → "wo-WO-2026-14". */
+export function workOrderCardId(workOrderNumber: string): string {
+  return `wo-${workOrderNumber.trim().replace(/[^\w-]+/g, '-')}`;
+}
+
+/** The profile's task card without sign-offs (null when it has no task). */
+export function getTaskCard(profile: PersonProfile): TaskCard | null {
+  if (profile.taskCard) return profile.taskCard;
+  if (profile.taskCardItems.length === 0) return null;
+  const wc = profile.workContext;
+  return {
+    ...taskCardFromItems(`tc-${profile.id}`, wc?.workOrderNumber ? `Work order ${wc.workOrderNumber}` : `${profile.name} task card`, profile.taskCardItems),
+    workOrderNumber: wc?.workOrderNumber,
+  };
+}
+
+function loadAllProgress(): Record<string, Record<string, StepProgress>> {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(PROGRESS_STORAGE_KEY) ?? '{}') as Record<string, Record<string, StepProgress>>;
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function storeProgress(cardId: string, progress: Record<string, StepProgress> | null): void {
+  try {
+    const all = loadAllProgress();
+    if (progress) all[cardId] = progress;
+    else delete all[cardId];
+    localStorage.setItem(PROGRESS_STORAGE_KEY, JSON.stringify(all));
+  } catch {
+    // ignore
+  }
+}
+
+/** Refs of steps that cite KB chunks, from the KB as loaded now; chunks not in it (not loaded yet, not effective) are left out. */
+export function resolveStepRefs(card: TaskCard): TaskCard {
+  if (!card.steps.some((step) => step.refChunks)) return card;
+  return {
+    ...card,
+    steps: card.steps.map((step) => {
+      if (!step.refChunks) return step;
+      const refs = step.refChunks.flatMap((id) => {
+        const chunk = getChunkById(id);
+        return chunk ? [getManualRef(chunk)] : [];
+      });
+      return { ...step, refs };
+    }),
+  };
+}
+
+/** The profile's task card with its saved sign-offs and detections. */
+export function loadTaskCard(profile: PersonProfile | null): TaskCard | null {
+  const card = profile ? getTaskCard(profile) : null;
+  if (!card) return null;
+  const progress = loadAllProgress()[card.id] ?? {};
+  return resolveStepRefs({ ...card, steps: card.steps.map((step) => ({ ...step, ...progress[step.id] })) });
+}
+
+/** Saved steps of a card that carry a sign-off but aren't among these step ids (a replaced card's dropped or changed steps). */
+export function orphanedSignOffs(cardId: string, stepIds: string[]): number {
+  const ids = new Set(stepIds);
+  return Object.entries(loadAllProgress()[cardId] ?? {}).filter(([id, p]) => !ids.has(id) && (p.mechanicSignOff || p.inspectorSignOff)).length;
+}
+
+/** Drop the saved progress of steps no longer on the card, so a step that later comes back starts unsigned. */
+export function pruneTaskCardProgress(card: TaskCard): void {
+  const progress = loadAllProgress()[card.id];
+  if (!progress) return;
+  const ids = new Set(card.steps.map((s) => s.id));
+  const kept = Object.fromEntries(Object.entries(progress).filter(([id]) => ids.has(id)));
+  storeProgress(card.id, Object.keys(kept).length ? kept : null);
+}
+
+export function saveTaskCardProgress(card: TaskCard): void {
+  const progress: Record<string, StepProgress> = {};
+  for (const { id, mechanicSignOff, inspectorSignOff, detectedAt } of card.steps) {
+    if (mechanicSignOff || inspectorSignOff || detectedAt) progress[id] = { mechanicSignOff, inspectorSignOff, detectedAt };
+  }
+  storeProgress(card.id, progress);
+}
+
+/** Clear every sign-off and detection, to start the card over. */
+export function resetTaskCard(card: TaskCard): TaskCard {
+  storeProgress(card.id, null);
+  return { ...card, steps: card.steps.map(({ mechanicSignOff: _m, inspectorSignOff: _i, detectedAt: _d, ...step }) => step) };
+}
+
+/** The work is done: signed by the mechanic, or a locate/access step whose component was seen. */
+export function isStepDone(step: TaskCardStep): boolean {
+  return Boolean(step.mechanicSignOff || (step.completeOnDetection && step.detectedAt));
+}
+
+/** Done and, for an RII step, inspected. */
+export function isStepComplete(step: TaskCardStep): boolean {
+  return isStepDone(step) && (!step.rii || Boolean(step.inspectorSignOff));
+}
+
+/** Index of the step to work on: the first not done, else the first awaiting inspection; -1 when the card is complete. */
+export function getCurrentStepIndex(card: TaskCard): number {
+  const next = card.steps.findIndex((step) => !isStepDone(step));
+  return next >= 0 ? next : card.steps.findIndex((step) => !isStepComplete(step));
+}
+
+export function getCurrentStep(card: TaskCard | null): TaskCardStep | null {
+  return card ? card.steps[getCurrentStepIndex(card)] ?? null : null;
+}
+
+export function stepMatchesLabel(step: TaskCardStep, label: string): boolean {
+  return step.component ? matchesTaskItem(label, step.component) : false;
+}
+
+/**
+ * Apply a detection round: the current step's component in view verifies the step (detectedAt), and
+ * completes it when it is a locate/access step. Returns the same card when nothing changed.
+ */
+export function recordStepDetections(card: TaskCard, labels: string[], at: number): TaskCard {
+  const index = card.steps.findIndex((step) => !isStepDone(step));
+  const step = card.steps[index];
+  if (!step || step.detectedAt || !labels.some((label) => stepMatchesLabel(step, label))) return card;
+  return { ...card, steps: card.steps.map((s, i) => (i === index ? { ...s, detectedAt: at } : s)) };
+}
+
+/** Whether the profile may inspect RII steps (IA or RTS authority). */
+export function canInspectRii(profile: PersonProfile): boolean {
+  return profile.certifications.some((c) => RII_INSPECTOR_CERTIFICATIONS.includes(c));
+}
+
+/** Why the profile can't sign the step in this role, or null when it can. */
+export function signOffBlocker(card: TaskCard, stepId: string, role: SignOffRole, profile: PersonProfile): string | null {
+  const index = card.steps.findIndex((s) => s.id === stepId);
+  const step = card.steps[index];
+  if (!step) return 'Unknown step';
+  if (role === 'mechanic') {
+    if (step.mechanicSignOff) return `Signed by ${step.mechanicSignOff.name}`;
+    if (profile.certifications.length === 0) return 'Profile has no certification';
+    const open = card.steps.slice(0, index).findIndex((s) => !isStepDone(s));
+    return open >= 0 ? `Step ${open + 1} is not done yet` : null;
+  }
+  if (!step.rii) return 'Not a required inspection item';
+  if (step.inspectorSignOff) return `Inspected by ${step.inspectorSignOff.name}`;
+  if (!isStepDone(step)) return 'Mechanic sign-off first';
+  if (step.mechanicSignOff?.profileId === profile.id) return 'RII needs an inspector other than the mechanic';
+  if (!canInspectRii(profile)) return 'RII needs an IA or RTS-authorized inspector';
+  return null;
+}
+
+/** Sign the step off as the profile (throws when signOffBlocker says it can't). */
+export function signOffStep(card: TaskCard, stepId: string, role: SignOffRole, profile: PersonProfile, at = new Date()): TaskCard {
+  const blocker = signOffBlocker(card, stepId, role, profile);
+  if (blocker) throw new Error(blocker);
+  const signOff: StepSignOff = { name: profile.name, profileId: profile.id, at: at.toISOString() };
+  return {
+    ...card,
+    steps: card.steps.map((s) => (s.id !== stepId ? s : role === 'mechanic' ? { ...s, mechanicSignOff: signOff } : { ...s, inspectorSignOff: signOff })),
+  };
+}
@@ -0,0 +1,223 @@
+/**
+ * Task card scan: a photo of the paper task card or work order ticket is read into the work context
+ * (WO number, tail number, aircraft) and task items. The vision model used for detection reads it
+ * (see askVisionModel); without one, or when it fails, the browser's on-device text detection
+ * (Shape Detection API TextDetector) reads the text and simple field patterns pick out the values.
+ * Nothing is applied until the technician has checked the result.
+ */
+
+import { askVisionModel } from './detection';
+import { getDetectionApiKey } from './detectionProviders';
+import { saveImportedWork, type PersonProfile, type WorkContext } from './rag';
+import { contentStepIds, orphanedSignOffs, pruneTaskCardProgress, taskCardFromItems, workOrderCardId, type TaskCard } from './taskCard';
+
+export interface TaskCardScan {
+  workOrderNumber?: string;
+  tailNumber?: string;
+  aircraftType?: string;
+  aircraftSerial?: string;
+  maintenanceType: string[];
+  /** Task or step lines, in card order */
+  taskItems: string[];
+  /** Squawk / discrepancy text or remarks */
+  notes?: string;
+  /** What read the card: the vision model's name, or on-device text detection */
+  readBy: string;
+  /** Why on-device text detection was used instead of the vision model */
+  fallbackReason?: string;
+}
+
+type ScannedFields = Omit<TaskCardScan, 'readBy' | 'fallbackReason'>;
+
+export const TASK_CARD_SCAN_PROMPT = `You are reading a photo of an aircraft maintenance task card or work order (paper or on a screen). Transcribe only what is printed or handwritten on it; never guess a value.
+
+Respond with ONLY a JSON object:
+{ "workOrderNumber": string|null, "tailNumber": string|null, "aircraftType": string|null, "aircraftSerial": string|null, "maintenanceType": string[], "taskItems": string[], "notes": string|null }
+- workOrderNumber: the work order or task card number, e.g. "WO-2026-0214"
+- tailNumber: the aircraft registration, e.g. "N12345"
+- aircraftType: make and model as written, e.g. "Cessna 172N"
+- aircraftSerial: the aircraft serial number (not a part serial number)
+- maintenanceType: those of "scheduled", "unscheduled", "inspection", "AD compliance", "modification" the card states
+- taskItems: each task or step line, in order, as written; leave out sign-off boxes, signatures, stamps and dates
+- notes: squawk / discrepancy text or remarks, if any
+Use null for anything not on the card. If the image is not a task card or work order, return {"taskItems": []}.`;
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() && value.trim().toLowerCase() !== 'null' ? value.trim() : undefined;
+}
+
+function textList(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(text).filter((s): s is string => Boolean(s)) : [];
+}
+
+/** The vision model's JSON answer, or null when it isn't one. */
+function parseScanJson(answer: string): ScannedFields | null {
+  const cleaned = answer.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/i, '').trim();
+  try {
+    const parsed = JSON.parse(cleaned) as unknown;
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+    const o = parsed as Record<string, unknown>;
+    return {
+      workOrderNumber: text(o.workOrderNumber),
+      tailNumber: text(o.tailNumber)?.toUpperCase(),
+      aircraftType: text(o.aircraftType),
+      aircraftSerial: text(o.aircraftSerial),
+      maintenanceType: textList(o.maintenanceType),
+      taskItems: textList(o.taskItems),
+      notes: text(o.notes),
+    };
+  } catch {
+    return null;
+  }
+}
+
+const WO_RE = /\b(?:W\/?O|work\s*order|task\s*card)\s*(?:no\.?|number|#)?\s*[:#.]?\s*([A-Z0-9][A-Z0-9/-]{2,})/gi;
+const TAIL_LABEL_RE = /\b(?:tail|reg(?:istration)?|a\/c\s*reg)\s*(?:no\.?|number|#)?\s*[:#.]?\s*([A-Z0-9]{1,3}-?[A-Z0-9]{2,5})\b/i;
+const N_NUMBER_RE = /\bN[1-9]\d{0,4}[A-HJ-NP-Z]{0,2}\b/;
+// Up to the next column: a wide gap, or the next label on the same line
+const AIRCRAFT_LABEL_RE = /\b(?:aircraft(?:\s*type)?|make\s*\/\s*model|model)\s*[:#]\s*([^\n,;]+?)(?=\s{2,}|\s+(?:S\/N|serial|MSN|reg|tail)\b|[,;\n]|$)/im;
+const AIRCRAFT_MAKE_RE = /\b(?:Cessna|Piper|Beech(?:craft)?|Cirrus|Diamond|Mooney)\s+[A-Z]{0,2}-?\d{2,3}[A-Z]?\b/i;
+const SERIAL_RE = /\b(?:S\/N|serial(?:\s*(?:no\.?|number))?|MSN)\s*[:#.]?\s*([A-Z0-9-]{3,})/i;
+const NOTES_RE = /\b(?:squawk|discrepancy|remarks?)\s*[:#]\s*(.+)/i;
+/** Numbered, bulleted or check-box lines: "3. Gap spark plugs", "☐ Inspect brakes" */
+const ITEM_RE = /^(?:\d{1,2}[.)]|[-•*☐□▢]|\[\s?\])\s+(.{3,})$/;
+const MAINTENANCE_TYPE_PATTERNS: [string, RegExp][] = [
+  ['scheduled', /\b(?<!un)scheduled\b|\bannual\b|\b100[- ]?h(?:ou)?r\b/i],
+  ['unscheduled', /\bunscheduled\b/i],
+  ['inspection', /\binspection\b|\bannual\b|\b100[- ]?h(?:ou)?r\b/i],
+  ['AD compliance', /\bAD\s*\d{2,4}-\d|\bairworthiness directive\b/i],
+  ['modification', /\bmodification\b|\bSTC\b/i],
+];
+
+/** Card fields from plain OCR text, by label ("W/O #:", "Reg:") and line patterns. */
+export function parseTaskCardText(ocrText: string): ScannedFields {
+  const lines = ocrText.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
+  // "Task card items" is a heading, not a number: the first labelled value with a digit
+  const workOrderNumber = [...ocrText.matchAll(WO_RE)].map((m) => m[1]).find((v) => /\d/.test(v));
+  return {
+    workOrderNumber,
+    tailNumber: (ocrText.match(TAIL_LABEL_RE)?.[1] ?? ocrText.match(N_NUMBER_RE)?.[0])?.toUpperCase(),
+    aircraftType: ocrText.match(AIRCRAFT_LABEL_RE)?.[1].trim() ?? ocrText.match(AIRCRAFT_MAKE_RE)?.[0],
+    aircraftSerial: ocrText.match(SERIAL_RE)?.[1],
+    maintenanceType: MAINTENANCE_TYPE_PATTERNS.filter(([, re]) => re.test(ocrText)).map(([type]) => type),
+    taskItems: lines.flatMap((line) => {
+      const item = line.match(ITEM_RE)?.[1]
+        // Sign-off blanks and initials columns printed after the task
+        .replace(/\s*(?:[_.]{3,}|\b(?:mech|insp|init(?:ials)?|sign(?:ed)?)\b\s*[:_]).*$/i, '')
+        .trim();
+      return item && item.length >= 3 ? [item] : [];
+    }),
+    notes: ocrText.match(NOTES_RE)?.[1].trim(),
+  };
+}
+
+interface DetectedText {
+  rawValue: string;
+  boundingBox: DOMRectReadOnly;
+}
+
+type TextDetectorConstructor = new () => { detect(image: ImageBitmapSource): Promise<DetectedText[]> };
+
+function getTextDetector(): TextDetectorConstructor | undefined {
+  return typeof window === 'undefined' ? undefined : (window as unknown as { TextDetector?: TextDetectorConstructor }).TextDetector;
+}
+
+/** Whether the browser can read text on-device (Chrome with the Shape Detection API). */
+export function isLocalTextDetectionAvailable(): boolean {
+  return Boolean(getTextDetector());
+}
+
+/** Text in the image, one line per printed line: detected words are grouped by vertical position. */
+async function detectTextLocally(jpegBase64: string): Promise<string> {
+  const Detector = getTextDetector();
+  if (!Detector) throw new Error('On-device text detection is not available in this browser');
+  const blob = await (await fetch(`data:image/jpeg;base64,${jpegBase64}`)).blob();
+  const bitmap = await createImageBitmap(blob);
+  try {
+    const found = await new Detector().detect(bitmap);
+    const byTop = [...found].sort((a, b) => a.boundingBox.top - b.boundingBox.top);
+    const lines: DetectedText[][] = [];
+    for (const word of byTop) {
+      const center = word.boundingBox.top + word.boundingBox.height / 2;
+      const line = lines.find((l) => Math.abs(l[0].boundingBox.top + l[0].boundingBox.height / 2 - center) < l[0].boundingBox.height * 0.6);
+      if (line) line.push(word);
+      else lines.push([word]);
+    }
+    return lines.map((l) => l.sort((a, b) => a.boundingBox.left - b.boundingBox.left).map((w) => w.rawValue).join(' ')).join('\n');
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Read a task card photo: the vision model first, on-device text detection when the model is not
+ * configured, fails, or answers with something other than the JSON asked for.
+ */
+export async function scanTaskCard(jpegBase64: string, apiKey = getDetectionApiKey()): Promise<TaskCardScan> {
+  let fallbackReason: string;
+  try {
+    const { text: answer, model } = await askVisionModel(jpegBase64, apiKey, TASK_CARD_SCAN_PROMPT);
+    const fields = parseScanJson(answer);
+    if (fields) return { ...fields, readBy: model };
+    fallbackReason = `${model} did not return the card fields`;
+  } catch (e) {
+    fallbackReason = e instanceof Error ? e.message : String(e);
+  }
+  if (!isLocalTextDetectionAvailable()) {
+    throw new Error(`${fallbackReason}. On-device text detection is not available in this browser either.`);
+  }
+  const ocrText = await detectTextLocally(jpegBase64);
+  return { ...parseTaskCardText(ocrText), readBy: 'on-device text detection', fallbackReason };
+}
+
+/** Whether the scan found anything worth applying. */
+export function hasScanResult(scan: ScannedFields): boolean {
+  return Boolean(scan.workOrderNumber || scan.tailNumber || scan.aircraftType || scan.taskItems.length);
+}
+
+/** The card a scan's task items make, with content-derived item ids (see contentStepIds); undefined without items. */
+function scannedTaskCard(scan: ScannedFields, workContext: WorkContext): TaskCard | undefined {
+  if (!scan.taskItems.length) return undefined;
+  const wo = workContext.workOrderNumber;
+  const card = taskCardFromItems(
+    wo ? workOrderCardId(wo) : `scan-${Date.now()}`,
+    wo ? `Work order ${wo}${workContext.aircraftTailNumber ? ` – ${workContext.aircraftTailNumber}` : ''}` : 'Scanned task card',
+    scan.taskItems,
+  );
+  const ids = contentStepIds('item', card.steps);
+  return { ...card, workOrderNumber: wo, steps: card.steps.map((step, i) => ({ ...step, id: ids[i] })) };
+}
+
+/** Signed-off items of the work order's saved card that a re-scan no longer has; applying clears their sign-offs. */
+export function scanClearedSignOffs(profile: PersonProfile, scan: ScannedFields): number {
+  const wo = scan.workOrderNumber ?? profile.workContext?.workOrderNumber;
+  const card = wo ? scannedTaskCard(scan, { workOrderNumber: wo }) : undefined;
+  return card ? orphanedSignOffs(card.id, card.steps.map((s) => s.id)) : 0;
+}
+
+/**
+ * Apply a checked scan to the profile and save it (as imported work, so presets keep it too).
+ * Aircraft details the card doesn't show carry over when the tail number is unchanged; the work
+ * notes and maintenance type carry over only for the same work order. The task items replace the
+ * task card; a scan without task items (only the work order or tail number read) keeps it.
+ */
+export function applyTaskCardScan(profile: PersonProfile, scan: ScannedFields): PersonProfile {
+  const existing = profile.workContext ?? {};
+  const sameAircraft = !scan.tailNumber || scan.tailNumber === existing.aircraftTailNumber;
+  const sameWorkOrder = !scan.workOrderNumber || scan.workOrderNumber === existing.workOrderNumber;
+  const workContext: WorkContext = {
+    aircraftTailNumber: scan.tailNumber ?? existing.aircraftTailNumber,
+    aircraftType: scan.aircraftType ?? (sameAircraft ? existing.aircraftType : undefined),
+    aircraftSerial: scan.aircraftSerial ?? (sameAircraft ? existing.aircraftSerial : undefined),
+    workOrderNumber: scan.workOrderNumber ?? existing.workOrderNumber,
+    maintenanceType: scan.maintenanceType.length ? scan.maintenanceType : sameWorkOrder ? existing.maintenanceType : undefined,
+    workNotes: scan.notes ?? (sameWorkOrder ? existing.workNotes : undefined),
+  };
+  const taskCard = scannedTaskCard(scan, workContext);
+  if (taskCard) pruneTaskCardProgress(taskCard);
+  const work = taskCard
+    ? { workContext, taskCard, taskCardItems: scan.taskItems.map((item) => item.toLowerCase()) }
+    : { workContext, taskCard: profile.taskCard, taskCardItems: profile.taskCardItems };
+  saveImportedWork(profile.id, work);
+  return { ...profile, ...work };
+}
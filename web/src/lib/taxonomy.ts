@@ -0,0 +1,209 @@
+/**
+ * Canonical component taxonomy. Free-text labels from the vision models ("Propeller blade", "prop",
+ * "propeller blades") are mapped onto one entry with a stable ID, display name, ATA chapter-section
+ * (see ata.ts) and parent assembly. IDs match aero-detect-server/classes.txt where a class exists.
+ * Detection, KB search, task-card matching and the safety panel all key off the ID instead of
+ * comparing strings.
+ */
+
+export interface ComponentEntry {
+  /** Stable kebab-case ID, e.g. "oil-filter" */
+  id: string;
+  displayName: string;
+  /** Lowercase free-text variants the models and manuals use */
+  synonyms: string[];
+  /** ATA iSpec 2200 chapter-section, e.g. "79-20" (oil distribution); undefined for the whole aircraft */
+  ata?: string;
+  /** Parent assembly ID (e.g. propeller-blade → propeller); undefined for top-level systems */
+  parent?: string;
+}
+
+function entry(id: string, displayName: string, ata: string | undefined, parent: string | undefined, synonyms: string[]): ComponentEntry {
+  return { id, displayName, ata, parent, synonyms };
+}
+
+export const COMPONENT_TAXONOMY: ComponentEntry[] = [
+  entry('aircraft', 'Aircraft', undefined, undefined, ['airplane', 'aeroplane', 'plane', 'cessna', 'cessna 172', 'skyhawk', 'cessna skyhawk', 'cessna 172 skyhawk']),
+
+  // Powerplant
+  entry('engine', 'Engine', '71-00', undefined, ['engine assembly', 'powerplant', 'power plant', 'lycoming', 'o 320', 'o320', 'lycoming o 320', 'aircraft engine']),
+  entry('engine-cowling', 'Engine cowling', '71-10', 'engine', ['cowling', 'cowl', 'engine cover', 'upper cowling', 'lower cowling', 'cowl fastener']),
+  entry('engine-mount', 'Engine mount', '71-20', 'engine', ['engine mount bolt', 'mount bolt', 'shock mount', 'lord mount', 'engine mount frame']),
+  entry('engine-baffles', 'Engine baffles', '75-20', 'engine', ['baffle', 'baffle seal', 'cooling baffle', 'engine baffle']),
+  entry('cylinder', 'Cylinder', '85-00', 'engine', ['cylinder head', 'cylinder barrel', 'piston', 'cooling fin', 'cylinder fin', 'rocker box', 'rocker cover', 'valve cover']),
+  entry('crankcase', 'Crankcase', '85-00', 'engine', ['crankshaft', 'engine case', 'crankcase half', 'accessory case', 'connecting rod']),
+  entry('valve-train', 'Valve train', '85-00', 'engine', ['valve', 'camshaft', 'tappet', 'hydraulic tappet', 'lifter', 'valve spring', 'rocker arm', 'valve rocker']),
+  entry('oil-system', 'Oil system', '79-00', 'engine', ['oil', 'engine oil', 'oil change', 'oil sump', 'oil pan', 'oil pump', 'oil line', 'oil pressure line']),
+  entry('oil-filter', 'Oil filter', '79-20', 'oil-system', ['oil filter housing', 'spin on filter', 'spin on oil filter', 'oil filter adapter']),
+  entry('oil-cooler', 'Oil cooler', '79-20', 'oil-system', ['oil radiator']),
+  entry('oil-dipstick', 'Oil dipstick', '79-30', 'oil-system', ['dipstick', 'oil filler cap', 'oil filler', 'oil filler neck']),
+  entry('ignition-system', 'Ignition system', '74-00', 'engine', ['ignition', 'ignition harness', 'ignition lead', 'spark plug lead', 'spark plug wire', 'ignition wire']),
+  entry('magneto', 'Magneto', '74-10', 'ignition-system', ['mag', 'left magneto', 'right magneto', 'dual magneto']),
+  entry('spark-plug', 'Spark plug', '74-20', 'ignition-system', ['sparkplug', 'top spark plug', 'bottom spark plug']),
+  entry('carburetor', 'Carburetor', '73-10', 'engine', ['carb', 'carburettor', 'marvel schebler carburetor', 'carburetor body', 'carb heat box']),
+  entry('air-filter', 'Air filter', '71-60', 'engine', ['induction filter', 'induction air filter', 'air intake', 'air intake filter', 'airbox', 'air box']),
+  entry('exhaust-system', 'Exhaust system', '78-00', 'engine', ['exhaust', 'exhaust pipe', 'exhaust riser', 'exhaust manifold']),
+  entry('exhaust-stack', 'Exhaust stack', '78-10', 'exhaust-system', ['tailpipe', 'exhaust tailpipe', 'exhaust outlet']),
+  entry('muffler', 'Muffler', '78-10', 'exhaust-system', ['heat exchanger', 'heat muff', 'muffler shroud']),
+  entry('starter', 'Starter', '80-10', 'engine', ['starter motor', 'starter solenoid', 'ring gear', 'starter ring gear']),
+  entry('alternator', 'Alternator', '24-30', 'engine', ['generator', 'alternator belt', 'alternator drive belt']),
+  entry('vacuum-pump', 'Vacuum pump', '37-10', 'engine', ['dry air pump', 'vacuum pump filter']),
+
+  // Propeller
+  entry('propeller', 'Propeller', '61-00', undefined, ['prop', 'propeller assembly', 'mccauley propeller', 'propeller hub', 'prop hub']),
+  entry('propeller-blade', 'Propeller blade', '61-10', 'propeller', ['prop blade', 'blade', 'blade tip', 'propeller tip']),
+  entry('propeller-spinner', 'Propeller spinner', '61-10', 'propeller', ['spinner', 'prop spinner', 'nose cone']),
+  entry('spinner-bulkhead', 'Spinner bulkhead', '61-10', 'propeller-spinner', ['spinner back plate', 'spinner backplate']),
+
+  // Landing gear
+  entry('landing-gear', 'Landing gear', '32-00', undefined, ['undercarriage', 'gear']),
+  entry('landing-gear-strut', 'Main landing gear strut', '32-10', 'landing-gear', ['main gear strut', 'main landing gear strut', 'landing gear strut', 'gear leg', 'main gear leg', 'tubular spring', 'spring steel gear leg', 'main gear']),
+  entry('nose-gear-strut', 'Nose gear strut', '32-20', 'landing-gear', ['nose gear', 'nose strut', 'oleo strut', 'shock strut', 'nose landing gear']),
+  entry('shimmy-damper', 'Shimmy damper', '32-50', 'nose-gear-strut', ['shimmy dampener', 'nose gear damper']),
+  entry('main-wheel', 'Main wheel', '32-40', 'landing-gear', ['wheel', 'tire', 'tyre', 'main tire', 'main wheel tire', 'wheel assembly']),
+  entry('nose-wheel', 'Nose wheel', '32-40', 'nose-gear-strut', ['nose tire', 'nose wheel tire', 'nosewheel']),
+  entry('wheel-fairing', 'Wheel fairing', '32-10', 'landing-gear', ['wheel pant', 'wheel pants', 'speed fairing', 'wheel fairings']),
+  entry('brake-assembly', 'Brake assembly', '32-40', 'landing-gear', ['brake', 'brake caliper', 'brake disc', 'brake rotor', 'brake pad', 'brake lining', 'brake line', 'disc brake']),
+
+  // Flight controls
+  entry('flight-controls', 'Flight controls', '27-00', undefined, ['flight control', 'control surface', 'flight control surface']),
+  entry('aileron', 'Aileron', '27-10', 'flight-controls', ['aileron hinge', 'aileron surface']),
+  entry('flap', 'Wing flap', '27-50', 'flight-controls', ['wing flap', 'flap track', 'flap actuator', 'flap roller']),
+  entry('elevator', 'Elevator', '27-30', 'flight-controls', ['elevator surface', 'elevator hinge']),
+  entry('rudder', 'Rudder', '27-20', 'flight-controls', ['rudder surface', 'rudder hinge', 'rudder stop']),
+  entry('trim-tab', 'Trim tab', '27-30', 'elevator', ['elevator trim tab', 'elevator trim', 'trim']),
+  entry('control-cable', 'Control cable', '27-00', 'flight-controls', ['cable', 'pulley', 'bellcrank', 'pushrod', 'turnbuckle', 'control cable pulley']),
+
+  // Airframe
+  entry('wing', 'Wing', '57-00', undefined, ['wing skin', 'wing tip', 'wingtip', 'leading edge', 'trailing edge', 'wing surface', 'wing root']),
+  entry('wing-strut', 'Wing strut', '57-40', 'wing', ['lift strut', 'wing lift strut', 'wing strut fitting']),
+  entry('fuselage', 'Fuselage', '53-00', undefined, ['fuselage skin', 'skin', 'skin panel', 'rivet', 'tail cone', 'tailcone', 'belly']),
+  entry('empennage', 'Empennage', '55-00', undefined, ['tail', 'tail section', 'horizontal stabilizer', 'vertical stabilizer', 'stabilizer', 'fin', 'stabilator']),
+  entry('windshield', 'Windshield', '56-00', undefined, ['windscreen', 'window', 'cabin window', 'side window', 'rear window']),
+  entry('door', 'Cabin door', '52-10', undefined, ['cabin door', 'door latch', 'baggage door', 'door hinge']),
+  entry('fastener', 'Fastener', '20-00', undefined, ['bolt', 'nut', 'safety wire', 'cotter pin', 'screw', 'an bolt', 'lock nut']),
+
+  // Fuel
+  entry('fuel-system', 'Fuel system', '28-00', undefined, ['fuel', 'fuel tank', 'fuel selector', 'fuel selector valve', 'fuel strainer', 'gascolator', 'fuel vent', 'fuel pump', 'fuel quantity sender']),
+  entry('fuel-line', 'Fuel line', '28-20', 'fuel-system', ['fuel hose', 'fuel lines', 'fuel tube']),
+  entry('fuel-drain-valve', 'Fuel drain valve', '28-20', 'fuel-system', ['fuel drain', 'sump drain', 'quick drain', 'fuel sump', 'drain valve', 'fuel sump drain']),
+  entry('fuel-cap', 'Fuel cap', '28-10', 'fuel-system', ['fuel filler cap', 'filler cap', 'gas cap', 'fuel filler']),
+
+  // Electrical, lights, instruments
+  entry('electrical-power', 'Electrical power', '24-00', undefined, ['electrical system', 'electrical', 'bus bar', 'circuit breaker', 'master switch', 'voltage regulator', 'wiring', 'wiring harness']),
+  entry('battery', 'Battery', '24-30', 'electrical-power', ['battery box', 'aircraft battery', 'battery terminal']),
+  entry('lights', 'Lights', '33-00', undefined, ['lighting', 'exterior lights']),
+  entry('navigation-light', 'Navigation light', '33-40', 'lights', ['nav light', 'position light', 'wingtip light', 'navigation lights']),
+  entry('beacon', 'Beacon', '33-40', 'lights', ['anti collision light', 'strobe', 'strobe light', 'rotating beacon', 'beacon light']),
+  entry('landing-light', 'Landing light', '33-40', 'lights', ['taxi light', 'landing lights']),
+  entry('pitot-static', 'Pitot-static system', '34-10', undefined, ['pitot static system', 'pitot static']),
+  entry('pitot-tube', 'Pitot tube', '34-10', 'pitot-static', ['pitot', 'pitot head', 'heated pitot', 'pitot probe']),
+  entry('static-port', 'Static port', '34-10', 'pitot-static', ['static source', 'static vent']),
+  entry('avionics-panel', 'Instrument panel', '31-00', undefined, ['instrument panel', 'avionics', 'avionics stack', 'radio stack', 'panel mounted radio', 'gauges', 'instruments', 'instrument']),
+  entry('antenna', 'Antenna', '23-00', undefined, ['comm antenna', 'nav antenna', 'vor antenna', 'transponder antenna', 'elt antenna', 'gps antenna']),
+  entry('vacuum-system', 'Vacuum system', '37-00', undefined, ['vacuum', 'gyro', 'suction gauge', 'vacuum regulator']),
+];
+
+/** Vague part words that say nothing about which component it is */
+const GENERIC_LABELS = new Set(['metal', 'panel', 'tube', 'wire', 'hose', 'part', 'component', 'piece', 'object', 'thing', 'item', 'surface', 'structure', 'assembly', 'bracket', 'cover', 'unit']);
+/** Scene content that is never an aircraft component */
+const NON_COMPONENT_LABELS = new Set(['sky', 'ground', 'grass', 'concrete', 'building', 'person', 'people', 'hand', 'tool', 'floor', 'hangar', 'wall', 'tarmac']);
+
+/** "Propeller-Blades" → "propeller blade": lowercase, hyphens/underscores to spaces, naive singular. */
+export function normalizeLabel(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/[-_]+/g, ' ')
+    .replace(/[^a-z0-9 ]+/g, '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((w) => (w.length > 3 && w.endsWith('s') && !w.endsWith('ss') ? w.slice(0, -1) : w))
+    .join(' ');
+}
+
+/** True for vague labels like "panel" or "part" that a more specific detection should replace. */
+export function isGenericLabel(label: string): boolean {
+  return GENERIC_LABELS.has(normalizeLabel(label));
+}
+
+/** True for scene labels ("sky", "person", "tool") that are never components. */
+export function isNonComponentLabel(label: string): boolean {
+  return NON_COMPONENT_LABELS.has(normalizeLabel(label));
+}
+
+const byId = new Map(COMPONENT_TAXONOMY.map((e) => [e.id, e]));
+
+/** Normalized phrase (ID, display name or synonym) → entry. First entry wins on duplicates. */
+const phraseIndex = new Map<string, ComponentEntry>();
+for (const e of COMPONENT_TAXONOMY) {
+  for (const phrase of [e.id, e.displayName, ...e.synonyms]) {
+    const key = normalizeLabel(phrase);
+    if (key && !phraseIndex.has(key)) phraseIndex.set(key, e);
+  }
+}
+/** Longest phrases first so "oil filter housing" beats "oil" */
+const phrasesByLength = [...phraseIndex.keys()].sort((a, b) => b.split(' ').length - a.split(' ').length || b.length - a.length);
+
+const canonicalCache = new Map<string, ComponentEntry | null>();
+
+export function getComponent(id: string | undefined | null): ComponentEntry | undefined {
+  return id ? byId.get(id) : undefined;
+}
+
+/**
+ * Map a free-text label to its taxonomy entry: exact match on a normalized ID/name/synonym first,
+ * else the longest known phrase contained in the label ("left main wheel tire" → main-wheel).
+ */
+export function canonicalizeLabel(label: string): ComponentEntry | null {
+  const key = normalizeLabel(label);
+  const cached = canonicalCache.get(key);
+  if (cached !== undefined) return cached;
+  let found = phraseIndex.get(key) ?? null;
+  if (!found && key) {
+    const padded = ` ${key} `;
+    const phrase = phrasesByLength.find((p) => padded.includes(` ${p} `));
+    found = phrase ? phraseIndex.get(phrase) ?? null : null;
+  }
+  canonicalCache.set(key, found);
+  return found;
+}
+
+/** Entry and its parent chain up to the top-level system, nearest first. */
+export function getAncestry(id: string): ComponentEntry[] {
+  const out: ComponentEntry[] = [];
+  for (let e = byId.get(id); e && out.length < 10; e = e.parent ? byId.get(e.parent) : undefined) out.push(e);
+  return out;
+}
+
+/** Top-level system of a component (e.g. spark-plug → engine). */
+export function getRootComponent(id: string): ComponentEntry | undefined {
+  const chain = getAncestry(id);
+  return chain[chain.length - 1];
+}
+
+/** True if `id` is `ancestorId` or sits below it in the assembly tree. */
+export function isSameOrDescendant(id: string, ancestorId: string): boolean {
+  return getAncestry(id).some((e) => e.id === ancestorId);
+}
+
+const unmappedCounts = new Map<string, number>();
+
+/** Labels the taxonomy could not map this session, most frequent first (shown in the detection panel, for adding synonyms). */
+export function getUnmappedLabels(): Array<{ label: string; count: number }> {
+  return [...unmappedCounts].map(([label, count]) => ({ label, count })).sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Attach componentId and replace the label with the canonical display name (original kept in rawLabel).
+ * Unmapped labels pass through unchanged and are counted for getUnmappedLabels.
+ */
+export function canonicalizeDetections<T extends { label: string; componentId?: string; rawLabel?: string }>(items: T[]): T[] {
+  return items.map((item) => {
+    const raw = item.rawLabel ?? item.label;
+    const component = canonicalizeLabel(raw);
+    if (component) return { ...item, label: component.displayName, rawLabel: raw, componentId: component.id };
+    const key = normalizeLabel(raw);
+    unmappedCounts.set(key, (unmappedCounts.get(key) ?? 0) + 1);
+    return item;
+  });
+}
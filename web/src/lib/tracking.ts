@@ -1,8 +1,34 @@
 /**
- * Match and smooth detections across frames so boxes follow items as the camera moves.
+ * Multi-object tracking so boxes follow items as the camera moves.
+ * Each detection is assigned to a persistent track (Hungarian assignment on IoU/center distance),
+ * tracks carry a constant-velocity motion model between the slow detection ticks, and birth/death
+ * hysteresis keeps a box alive through one missed detection and hides one-off guesses.
  */
 
 import type { BoundingBox, DetectedItem } from './detection';
+import { INFEASIBLE_COST, solveAssignment } from './hungarian';
+import type { MotionShift } from './motion';
+import { remapPolygon } from './polygon';
+import { isGenericLabel, isSameOrDescendant } from './taxonomy';
+
+/**
+ * A detection with a persistent identity and motion state. Key React state by trackId, never by label.
+ * `polygon`, when present, always matches the displayed `bbox` (remapped whenever the box moves).
+ */
+export interface TrackedItem extends DetectedItem {
+  trackId: string;
+  /** Filtered box at lastUpdateAt (the displayed bbox eases toward its prediction) */
+  state: BoundingBox;
+  /** Rate of change of state, normalized units per second */
+  velocity: BoundingBox;
+  /** Timestamp (ms) of the last detection assigned to this track */
+  lastUpdateAt: number;
+  hits: number;
+  /** Consecutive detection ticks without a match */
+  misses: number;
+  /** Shown in the overlay once confirmed (birth hysteresis) */
+  confirmed: boolean;
+}
 
 export function iou(a: BoundingBox, b: BoundingBox): number {
   const ax1 = a.x;
@@ -34,100 +60,223 @@ export function lerpBbox(a: BoundingBox, b: BoundingBox, t: number): BoundingBox
   };
 }
 
+function centerDistance(a: BoundingBox, b: BoundingBox): number {
+  const dx = a.x + a.width / 2 - (b.x + b.width / 2);
+  const dy = a.y + a.height / 2 - (b.y + b.height / 2);
+  return Math.hypot(dx, dy);
+}
+
 const MATCH_IOU_THRESH = 0.15;
+/** Small or fast-moving boxes may not overlap their prediction; also accept close centers */
+const CENTER_GATE = 0.08;
+/** Added to the assignment cost when labels disagree, so same-label matches win ties */
+const LABEL_MISMATCH_COST = 0.3;
 const LERP_SPEED = 0.18;
 /** When camera is still, new bbox is almost the same as current → freeze position and label to avoid jitter/flicker */
 const STABILITY_IOU = 0.82;
 
-/** Generic labels that we should replace when we get a more specific detection (e.g. "boxes" → "canned fish"). */
-const GENERIC_LABELS = new Set(['box', 'boxes', 'bottle', 'bottles', 'can', 'cans', 'container', 'containers', 'item', 'items']);
+/** Alpha-beta (steady-state Kalman) gains for position and velocity */
+const POSITION_GAIN = 0.6;
+const VELOCITY_GAIN = 0.2;
+/** Velocity decays with this time constant so a 10s gap between detections can't fling a box off-screen */
+const VELOCITY_DECAY_S = 1.5;
+const MAX_SPEED = 0.5; // normalized units per second
+
+/** New tracks at or above this confidence are shown immediately; others need a second hit */
+const BIRTH_CONFIDENCE = 0.7;
+/** Confirmed tracks survive this many consecutive missed detection ticks */
+const MAX_MISSES = 1;
 
-function isGenericLabel(label: string): boolean {
-  const lower = label.toLowerCase().trim();
-  return GENERIC_LABELS.has(lower) || lower.length <= 3;
+let nextTrackId = 1;
+
+/** Restart track ids at t1 (new camera session, deterministic replays). */
+export function resetTrackIds(): void {
+  nextTrackId = 1;
 }
 
-function isMoreSpecificThan(prevLabel: string, newLabel: string): boolean {
-  if (!isGenericLabel(prevLabel)) return false;
-  if (isGenericLabel(newLabel)) return false;
-  return newLabel.length >= prevLabel.length || newLabel.split(/\s+/).length > 1;
+function isVagueLabel(label: string): boolean {
+  return isGenericLabel(label) || label.trim().length <= 3;
 }
 
 /**
- * Merge new API detections with previous displayed items: match by IoU, lerp positions so boxes follow.
- * Keeps previous label on match (stops flicker) unless the new label is more specific (e.g. "boxes" → "canned fish").
+ * True if `next` names the same thing more precisely: a sub-assembly in the taxonomy
+ * (propeller → propeller blade), or a real name replacing a generic one ("panel" → "oil filter").
  */
-export function mergeWithPrevious(
-  displayed: DetectedItem[],
-  target: DetectedItem[],
-  lerpT = 0.35
-): DetectedItem[] {
-  const used = new Set<number>();
-  const out: DetectedItem[] = [];
-
-  for (const t of target) {
-    let bestIdx = -1;
-    let bestIou = MATCH_IOU_THRESH;
-    for (let i = 0; i < displayed.length; i++) {
-      if (used.has(i)) continue;
-      const o = iou(displayed[i].bbox, t.bbox);
-      if (o > bestIou) {
-        bestIou = o;
-        bestIdx = i;
-      }
-    }
-    if (bestIdx >= 0) {
-      used.add(bestIdx);
-      const prev = displayed[bestIdx];
-      const useNewLabel = isMoreSpecificThan(prev.label, t.label);
-      const stableLabel = useNewLabel ? t.label : prev.label;
-      const stableBbox = bestIou >= STABILITY_IOU ? prev.bbox : lerpBbox(prev.bbox, t.bbox, lerpT);
-      out.push({ label: stableLabel, bbox: stableBbox });
-    } else {
-      out.push({ label: t.label, bbox: { ...t.bbox } });
-    }
+function isMoreSpecificThan(prev: DetectedItem, next: DetectedItem): boolean {
+  if (prev.componentId && next.componentId) {
+    return prev.componentId !== next.componentId && isSameOrDescendant(next.componentId, prev.componentId);
   }
+  if (!isVagueLabel(prev.label)) return false;
+  if (isVagueLabel(next.label)) return false;
+  return next.label.length >= prev.label.length || next.label.split(/\s+/).length > 1;
+}
 
-  return out;
+function labelsCompatible(a: DetectedItem, b: DetectedItem): boolean {
+  if (a.componentId && a.componentId === b.componentId) return true;
+  return a.label.toLowerCase().trim() === b.label.toLowerCase().trim() || isMoreSpecificThan(a, b) || isMoreSpecificThan(b, a);
+}
+
+const ZERO_VELOCITY: BoundingBox = { x: 0, y: 0, width: 0, height: 0 };
+
+function clampSpeed(v: number): number {
+  return Math.max(-MAX_SPEED, Math.min(MAX_SPEED, v));
+}
+
+/** Constant-velocity prediction with exponential velocity decay: displacement = v·τ·(1 − e^(−dt/τ)). */
+function predictBox(state: BoundingBox, velocity: BoundingBox, dtMs: number): BoundingBox {
+  if (dtMs <= 0) return state;
+  const dt = dtMs / 1000;
+  const k = VELOCITY_DECAY_S * (1 - Math.exp(-dt / VELOCITY_DECAY_S));
+  return {
+    x: state.x + velocity.x * k,
+    y: state.y + velocity.y * k,
+    width: Math.max(0.01, state.width + velocity.width * k),
+    height: Math.max(0.01, state.height + velocity.height * k),
+  };
+}
+
+function decayVelocity(velocity: BoundingBox, dtMs: number): BoundingBox {
+  const f = Math.exp(-Math.max(0, dtMs) / 1000 / VELOCITY_DECAY_S);
+  return { x: velocity.x * f, y: velocity.y * f, width: velocity.width * f, height: velocity.height * f };
+}
+
+/** Predicted box of a track at time `now`. */
+export function predictTrack(track: TrackedItem, now: number): BoundingBox {
+  return predictBox(track.state, track.velocity, now - track.lastUpdateAt);
+}
+
+function birthTrack(d: DetectedItem, now: number): TrackedItem {
+  return {
+    ...d,
+    bbox: { ...d.bbox },
+    trackId: `t${nextTrackId++}`,
+    state: { ...d.bbox },
+    velocity: { ...ZERO_VELOCITY },
+    lastUpdateAt: now,
+    hits: 1,
+    misses: 0,
+    confirmed: d.confidence == null || d.confidence >= BIRTH_CONFIDENCE,
+  };
+}
+
+function correctTrack(track: TrackedItem, d: DetectedItem, now: number): TrackedItem {
+  const dtMs = Math.max(1, now - track.lastUpdateAt);
+  const predicted = predictTrack(track, now);
+  const decayed = decayVelocity(track.velocity, dtMs);
+  const dt = Math.max(0.1, dtMs / 1000);
+  const r = {
+    x: d.bbox.x - predicted.x,
+    y: d.bbox.y - predicted.y,
+    width: d.bbox.width - predicted.width,
+    height: d.bbox.height - predicted.height,
+  };
+  const state: BoundingBox = {
+    x: predicted.x + POSITION_GAIN * r.x,
+    y: predicted.y + POSITION_GAIN * r.y,
+    width: predicted.width + POSITION_GAIN * r.width,
+    height: predicted.height + POSITION_GAIN * r.height,
+  };
+  const velocity: BoundingBox = {
+    x: clampSpeed(decayed.x + (VELOCITY_GAIN * r.x) / dt),
+    y: clampSpeed(decayed.y + (VELOCITY_GAIN * r.y) / dt),
+    width: clampSpeed(decayed.width + (VELOCITY_GAIN * r.width) / dt),
+    height: clampSpeed(decayed.height + (VELOCITY_GAIN * r.height) / dt),
+  };
+  const useNewLabel = isMoreSpecificThan(track, d);
+  return {
+    ...track,
+    // The new outline, placed in the displayed box so it eases along with it
+    polygon: d.polygon ? remapPolygon(d.polygon, d.bbox, track.bbox) : undefined,
+    label: useNewLabel ? d.label : track.label,
+    componentId: useNewLabel ? d.componentId : track.componentId,
+    rawLabel: useNewLabel ? d.rawLabel : track.rawLabel,
+    confidence: d.confidence,
+    state,
+    velocity,
+    lastUpdateAt: now,
+    hits: track.hits + 1,
+    misses: 0,
+    confirmed: true,
+  };
+}
+
+function assignmentCost(track: TrackedItem, d: DetectedItem, now: number): number {
+  const predicted = predictTrack(track, now);
+  const overlap = iou(predicted, d.bbox);
+  const dist = centerDistance(predicted, d.bbox);
+  if (overlap < MATCH_IOU_THRESH && dist > CENTER_GATE) return INFEASIBLE_COST;
+  return 1 - overlap + dist + (labelsCompatible(track, d) ? 0 : LABEL_MISMATCH_COST);
 }
 
 /**
- * Move displayed items toward target items (one step of smooth follow).
- * Keeps displayed label (no flicker) and freezes position when already very close (camera still).
+ * Assign a new detection tick to the existing tracks (Hungarian, gated on IoU/center distance).
+ * Matched tracks are corrected by the motion model and keep their label unless the new one is more
+ * specific (e.g. "propeller" → "propeller blade"); unmatched detections start tracks; unmatched tracks coast
+ * and are dropped after MAX_MISSES ticks (tentative tracks after one).
  */
-export function stepDisplayedTowardTarget(
-  displayed: DetectedItem[],
-  target: DetectedItem[],
-  lerpT = LERP_SPEED
-): DetectedItem[] {
-  const used = new Set<number>();
-  const out: DetectedItem[] = [];
-
-  for (const d of displayed) {
-    let bestIdx = -1;
-    let bestIou = 0.05;
-    for (let i = 0; i < target.length; i++) {
-      if (used.has(i)) continue;
-      const o = iou(d.bbox, target[i].bbox);
-      if (o > bestIou) {
-        bestIou = o;
-        bestIdx = i;
-      }
-    }
-    if (bestIdx >= 0) {
-      used.add(bestIdx);
-      const t = target[bestIdx];
-      const overlap = iou(d.bbox, t.bbox);
-      const bbox = overlap >= STABILITY_IOU ? d.bbox : lerpBbox(d.bbox, t.bbox, lerpT);
-      const useNewLabel = isMoreSpecificThan(d.label, t.label);
-      out.push({ label: useNewLabel ? t.label : d.label, bbox });
+export function mergeWithPrevious(tracks: TrackedItem[], detections: DetectedItem[], now: number): TrackedItem[] {
+  const cost = tracks.map((t) => detections.map((d) => assignmentCost(t, d, now)));
+  const assignment = solveAssignment(cost);
+  const usedDetections = new Set<number>();
+  const out: TrackedItem[] = [];
+
+  tracks.forEach((track, i) => {
+    const j = assignment[i] ?? -1;
+    if (j >= 0) {
+      usedDetections.add(j);
+      out.push(correctTrack(track, detections[j], now));
+      return;
     }
-  }
+    const misses = track.misses + 1;
+    if (!track.confirmed || misses > MAX_MISSES) return;
+    out.push({ ...track, misses });
+  });
 
-  for (let i = 0; i < target.length; i++) {
-    if (used.has(i)) continue;
-    out.push({ label: target[i].label, bbox: { ...target[i].bbox } });
-  }
+  detections.forEach((d, j) => {
+    if (!usedDetections.has(j)) out.push(birthTrack(d, now));
+  });
 
   return out;
 }
+
+/** A detection tick that failed (network error, 429): no detections, so every track coasts one miss. */
+export function coastTracks(tracks: TrackedItem[], now: number): TrackedItem[] {
+  return mergeWithPrevious(tracks, [], now);
+}
+
+function withDisplayedBbox(track: TrackedItem, bbox: BoundingBox): TrackedItem {
+  return { ...track, bbox, polygon: track.polygon && remapPolygon(track.polygon, track.bbox, bbox) };
+}
+
+/**
+ * One animation-frame step: ease each displayed box toward its track's motion-model prediction.
+ * Freezes position when already very close (camera still) to avoid jitter.
+ */
+export function stepDisplayedTowardTarget(tracks: TrackedItem[], now: number, lerpT = LERP_SPEED): TrackedItem[] {
+  return tracks.map((track) => {
+    const target = predictTrack(track, now);
+    if (iou(track.bbox, target) >= STABILITY_IOU) return track;
+    return withDisplayedBbox(track, lerpBbox(track.bbox, target, lerpT));
+  });
+}
+
+/**
+ * Shift tracks by per-frame optical-flow estimates (see motion.ts). Measured motion supersedes the
+ * constant-velocity extrapolation, so the positional velocity is cleared for shifted tracks.
+ */
+export function applyMotion(tracks: TrackedItem[], shifts: Record<string, MotionShift>): TrackedItem[] {
+  return tracks.map((track) => {
+    const s = shifts[track.trackId];
+    if (!s || (s.dx === 0 && s.dy === 0)) return track;
+    return {
+      ...withDisplayedBbox(track, { ...track.bbox, x: track.bbox.x + s.dx, y: track.bbox.y + s.dy }),
+      state: { ...track.state, x: track.state.x + s.dx, y: track.state.y + s.dy },
+      velocity: { ...track.velocity, x: 0, y: 0 },
+    };
+  });
+}
+
+/** Tracks that should be drawn and be selectable (confirmed by birth hysteresis). */
+export function getVisibleTracks(tracks: TrackedItem[]): TrackedItem[] {
+  return tracks.filter((t) => t.confirmed);
+}
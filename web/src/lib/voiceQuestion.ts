@@ -1,17 +1,22 @@
 /**
  * Send user's question (e.g. from voice transcript) + component context to Dedalus or Gemini; get text answer.
  * Uses Dedalus when the API key is a Dedalus key (dsk-...) or when VITE_DEDALUS_VOICE_API_KEY is set.
+ * Page citations in the answer are checked against the retrieved manual pages (see citations.ts); in
+ * grounded mode so are its numeric specs (see grounding.ts).
  */
 
 import { env, isDedalusApiKey } from './env';
 import { setDedalus429 } from './dedalusRateLimit';
 import type { PersonProfile } from './rag';
-import { profileSummary } from './rag';
+import { getAnswerMode, profileSummary } from './rag';
 import { searchKB } from './knowledgeBase';
+import { findAtaReference } from './ata';
+import { verifyCitations, type VerifiedText } from './citations';
+import { groundAnswer, groundingInstructions, groundingNote } from './grounding';
 
 const DEDALUS_BASE = 'https://api.dedaluslabs.ai';
 
-function buildPrompt(question: string, componentContext: string, techProfileSummary?: string, kbContext?: string): string {
+function buildPrompt(question: string, componentContext: string, techProfileSummary?: string, kbContext?: string, grounded = false): string {
   const context = techProfileSummary
     ? `\nTechnician context (answer with this in mind): ${techProfileSummary}\n`
     : '';
@@ -24,7 +29,7 @@ Component: ${componentContext || 'No specific component selected.'}
 ${context}${kbSection}
 User's question: "${question}"
 
-Answer as an aircraft maintenance expert in a conversational, instructional way — as if you're talking to the technician. Use the MANUAL REFERENCES data above if relevant — cite the exact page numbers and which manual (e.g. "per Cessna SM p.377, Fig 15-2" or "per O-320 OM p.34"). Mention part numbers, torque values, safety warnings, and compliance where relevant. Keep it concise (2–4 sentences). If the question is too broad (e.g. "what am I looking at" with no specific part), briefly say to select or point at one component and ask something focused like: any issues with this part? what is this component? or inspection checklist for this part.`;
+Answer as an aircraft maintenance expert in a conversational, instructional way — as if you're talking to the technician. Use the MANUAL REFERENCES data above if relevant — cite the exact page numbers and which manual (e.g. "per Cessna SM p.377, Fig 15-2" or "per O-320 OM p.34"). Mention part numbers, torque values, safety warnings, and compliance where relevant. Keep it concise (2–4 sentences). If the question is too broad (e.g. "what am I looking at" with no specific part), briefly say to select or point at one component and ask something focused like: any issues with this part? what is this component? or inspection checklist for this part.${grounded ? `\n\n${groundingInstructions(Boolean(kbContext))}` : ''}`;
 }
 
 /** Message spoken when user says "help" in Flightsight voice mode. */
@@ -51,7 +56,7 @@ async function askDedalus(question: string, componentContext: string, apiKey: st
     },
     body: JSON.stringify({
       model,
-      messages: [{ role: 'user', content: buildPrompt(question, componentContext, profile ? profileSummary(profile) : undefined, kbContext) }],
+      messages: [{ role: 'user', content: buildPrompt(question, componentContext, profile ? profileSummary(profile) : undefined, kbContext, getAnswerMode(profile) === 'grounded') }],
       max_tokens: 400,
       temperature: 0.3,
     }),
@@ -85,30 +90,42 @@ async function askGoogleWithPrompt(promptText: string, apiKey: string): Promise<
 }
 
 async function askGoogle(question: string, componentContext: string, apiKey: string, profile: PersonProfile | null, kbContext?: string): Promise<string> {
-  const promptText = buildPrompt(question, componentContext, profile ? profileSummary(profile) : undefined, kbContext);
+  const promptText = buildPrompt(question, componentContext, profile ? profileSummary(profile) : undefined, kbContext, getAnswerMode(profile) === 'grounded');
   return askGoogleWithPrompt(promptText, apiKey);
 }
 
-export async function askGeminiAboutProduct(question: string, componentContext: string, profile: PersonProfile | null = null): Promise<string> {
-  if (isHelpIntent(question)) return FLIGHTSIGHT_HELP_MESSAGE;
+/**
+ * Answer a question about the component. `text` is the answer without page citations that don't
+ * point at a retrieved manual page; those are listed in `unsupported`, the verified ones in `refs`.
+ */
+export async function askGeminiAboutProduct(question: string, componentContext: string, profile: PersonProfile | null = null): Promise<VerifiedText> {
+  if (isHelpIntent(question)) return { text: FLIGHTSIGHT_HELP_MESSAGE, refs: [], unsupported: [] };
 
   const apiKey = env.dedalusVoiceApiKey;
   if (!apiKey) throw new Error('No API key (set VITE_GEMINI_API_KEY or VITE_DEDALUS_VOICE_API_KEY)');
 
-  const kbResult = await searchKB(componentContext, 3);
+  // "What does ATA 79 say about…" narrows the manual lookup to that chapter
+  const ata = findAtaReference(question);
+  const kbResult = await searchKB(ata ? `${componentContext} ${question}` : componentContext, 3, ata ? { ata } : {});
   const kbContext = kbResult.contextText || undefined;
 
+  let answer: string;
   if (isDedalusApiKey(apiKey)) {
     try {
-      return await askDedalus(question, componentContext, apiKey, profile, kbContext);
+      answer = await askDedalus(question, componentContext, apiKey, profile, kbContext);
     } catch (err) {
       const status = (err as Error & { status?: number }).status;
       const fallbackKey = env.googleVoiceFallbackKey;
-      if ((status === 404 || status === 502) && fallbackKey && !fallbackKey.startsWith('dsk-')) {
-        return askGoogle(question, componentContext, fallbackKey, profile, kbContext);
-      }
-      throw err;
+      if (!((status === 404 || status === 502) && fallbackKey && !fallbackKey.startsWith('dsk-'))) throw err;
+      answer = await askGoogle(question, componentContext, fallbackKey, profile, kbContext);
     }
+  } else {
+    answer = await askGoogle(question, componentContext, apiKey, profile, kbContext);
+  }
+  if (getAnswerMode(profile) === 'grounded') {
+    // Grounded mode: values the retrieved pages don't state are dropped and pointed elsewhere
+    const grounded = groundAnswer(answer, kbResult.chunks);
+    if (grounded.ungrounded.length) answer = `${grounded.text} ${groundingNote(grounded)}`.trim();
   }
-  return askGoogle(question, componentContext, apiKey, profile, kbContext);
+  return verifyCitations(answer, kbResult.chunks);
 }
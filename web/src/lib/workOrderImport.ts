@@ -0,0 +1,537 @@
+/**
+ * Work order import from MRO system exports (CSV or JSON): work order number, tail number, squawks,
+ * task card steps and the assigned technician. Parsing validates every row and plans the import
+ * without saving anything (the dry run shown in the profiles panel); applying the plan sets each
+ * assigned profile's work context and task card, or adds a profile for a technician not on file.
+ *
+ * Column and key names are matched loosely ("WO #", "Work Order No", "work_order" are all the work
+ * order number), so exports can be imported as they come out of the MRO system. A CSV has one row per
+ * task card step, with the work order's own fields repeated or on its first row only; JSON is a list
+ * of work orders with a `tasks` (or `steps`) list, or the same flat rows as the CSV.
+ */
+
+import { findCitations } from './citations';
+import { getManualRef, getManuals, loadKnowledgeBase, type KBChunk, type ManualRef } from './knowledgeBase';
+import { loadCustomProfiles, saveCustomProfiles, saveImportedWork, type ImportedWork, type PersonProfile, type WorkContext } from './rag';
+import { contentStepIds, orphanedSignOffs, pruneTaskCardProgress, workOrderCardId, type TaskCard, type TaskCardStep } from './taskCard';
+import { canonicalizeLabel } from './taxonomy';
+
+export interface ImportIssue {
+  /** Where in the file: "line 4" (CSV), "work order 2, task 3" (JSON), or the file as a whole */
+  where: string;
+  message: string;
+  /** Errors leave the row out of the import; warnings keep it */
+  severity: 'error' | 'warning';
+}
+
+export interface ImportedWorkOrder {
+  workOrderNumber: string;
+  tailNumber?: string;
+  aircraftType?: string;
+  aircraftSerial?: string;
+  maintenanceType: string[];
+  squawks: string[];
+  notes?: string;
+  /** Assigned technician as named in the export */
+  technician?: string;
+  steps: TaskCardStep[];
+  /** Rows it was read from, for the preview */
+  source: string;
+}
+
+export interface WorkOrderParseResult {
+  workOrders: ImportedWorkOrder[];
+  issues: ImportIssue[];
+}
+
+export interface WorkOrderImportAction {
+  workOrder: ImportedWorkOrder;
+  /** 'update' replaces an existing profile's work; 'create' adds a profile for a technician not on file */
+  action: 'update' | 'create';
+  /** Existing profile id; empty for 'create' */
+  profileId: string;
+  profileName: string;
+}
+
+export interface WorkOrderImportPlan {
+  actions: WorkOrderImportAction[];
+  /** Parse issues followed by those of assigning work orders to profiles */
+  issues: ImportIssue[];
+}
+
+type Field =
+  | 'workOrderNumber'
+  | 'tailNumber'
+  | 'aircraftType'
+  | 'aircraftSerial'
+  | 'maintenanceType'
+  | 'squawks'
+  | 'notes'
+  | 'technician'
+  | 'tasks'
+  | 'stepNumber'
+  | 'instruction'
+  | 'component'
+  | 'torque'
+  | 'tools'
+  | 'rii'
+  | 'refs';
+
+/** Column/key names per field, normalized (lowercase, letters and digits only) */
+const FIELD_ALIASES: Record<Field, string[]> = {
+  workOrderNumber: ['wo', 'wonumber', 'wono', 'woid', 'workorder', 'workordernumber', 'workorderno', 'workorderid', 'ordernumber', 'orderno'],
+  tailNumber: ['tail', 'tailnumber', 'tailno', 'registration', 'reg', 'regno', 'aircraftregistration', 'aircraftreg', 'nnumber'],
+  aircraftType: ['aircrafttype', 'aircraftmodel', 'model', 'actype', 'aircraft'],
+  aircraftSerial: ['serial', 'serialnumber', 'serialno', 'sn', 'msn', 'aircraftserial'],
+  maintenanceType: ['maintenancetype', 'worktype', 'wotype', 'category', 'checktype'],
+  squawks: ['squawk', 'squawks', 'discrepancy', 'discrepancies', 'defect', 'defects', 'writeup', 'writeups', 'complaint'],
+  notes: ['notes', 'wonotes', 'remarks', 'comments', 'summary'],
+  technician: ['technician', 'tech', 'assignedto', 'assignedtechnician', 'assignee', 'mechanic', 'employee'],
+  tasks: ['tasks', 'steps', 'taskcard', 'taskcards', 'taskcardsteps'],
+  stepNumber: ['stepno', 'stepnumber', 'step', 'seq', 'sequence', 'itemno', 'line', 'lineno'],
+  instruction: ['task', 'taskdescription', 'instruction', 'instructions', 'stepdescription', 'description', 'action', 'operation'],
+  component: ['component', 'part', 'partname', 'location'],
+  torque: ['torque', 'torquevalue', 'torquespec'],
+  tools: ['tools', 'tooling', 'toolsrequired', 'equipment'],
+  rii: ['rii', 'requiredinspection', 'requiredinspectionitem', 'inspectionrequired', 'buyback'],
+  refs: ['refs', 'ref', 'reference', 'references', 'manualref', 'manualreference', 'manualreferences', 'manualpage', 'amm', 'ammref', 'ammreference', 'smref'],
+};
+
+/** Fields of a task card step; a row with any of them is a step */
+const STEP_FIELDS: Field[] = ['instruction', 'component', 'torque', 'tools', 'rii', 'refs'];
+
+/** One step row (or work order header row), values as text; lists are newline-separated */
+interface Row {
+  where: string;
+  values: Partial<Record<Field, string>>;
+}
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+const FIELD_BY_KEY = new Map<string, Field>(
+  (Object.entries(FIELD_ALIASES) as [Field, string[]][]).flatMap(([field, aliases]) => aliases.map((a) => [a, field] as const)),
+);
+
+function fieldForKey(key: string): Field | undefined {
+  return FIELD_BY_KEY.get(normalizeKey(key));
+}
+
+function splitList(value: string | undefined, separators: RegExp): string[] {
+  return (value ?? '').split(separators).map((s) => s.trim()).filter(Boolean);
+}
+
+// --- CSV ---
+
+/** The delimiter used most on the header line (outside quotes): comma, semicolon or tab. */
+function detectDelimiter(text: string): string {
+  const header = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+  return [',', ';', '\t'].reduce((best, d) => (header.split(d).length > header.split(best).length ? d : best), ',');
+}
+
+/** RFC 4180 records (quoted fields may hold delimiters, quotes as "" and line breaks), with their first line number. */
+function parseCsvRecords(text: string): { line: number; cells: string[] }[] {
+  const delimiter = detectDelimiter(text);
+  const records: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.some((c) => c.trim())) records.push({ line: recordLine, cells });
+    cells = [];
+    cell = '';
+  };
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        if (ch === '\n') line++;
+        cell += ch;
+      }
+    } else if (ch === '"' && !cell.trim()) {
+      quoted = true;
+      cell = '';
+    } else if (ch === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      cell += ch;
+    }
+  }
+  endRecord();
+  return records;
+}
+
+function csvRows(text: string, issues: ImportIssue[]): Row[] {
+  const [header, ...records] = parseCsvRecords(text.replace(/^\uFEFF/, ''));
+  if (!header) {
+    issues.push({ where: 'file', message: 'The file is empty', severity: 'error' });
+    return [];
+  }
+  // A "Task Card" / "Tasks" column holds one step per row
+  const columns = header.cells.map((name) => (fieldForKey(name) === 'tasks' ? 'instruction' : fieldForKey(name)));
+  const ignored = header.cells.filter((name, i) => name.trim() && !columns[i]);
+  if (ignored.length) issues.push({ where: 'header', message: `Ignored columns: ${ignored.join(', ')}`, severity: 'warning' });
+  if (!columns.includes('workOrderNumber')) {
+    issues.push({ where: 'header', message: 'No work order number column (e.g. "WO Number", "Work Order")', severity: 'error' });
+    return [];
+  }
+  return records.map(({ line, cells }) => {
+    const values: Row['values'] = {};
+    cells.forEach((raw, i) => {
+      const field = columns[i];
+      const value = raw.trim();
+      // A repeated column ("Squawk 1", "Squawk 2" both map to squawks) adds to the list
+      if (field && value) values[field] = values[field] ? `${values[field]}\n${value}` : value;
+    });
+    if (cells.length > header.cells.length && cells.slice(header.cells.length).some((c) => c.trim())) {
+      issues.push({ where: `line ${line}`, message: `${cells.length} fields but the header has ${header.cells.length}; extra fields ignored`, severity: 'warning' });
+    }
+    return { where: `line ${line}`, values };
+  });
+}
+
+// --- JSON ---
+
+function jsonText(value: unknown): string | undefined {
+  if (value === null || value === undefined) return undefined;
+  if (Array.isArray(value)) return value.map(jsonText).filter(Boolean).join('\n') || undefined;
+  if (typeof value === 'object') {
+    // { "text": ... } / { "description": ... } for squawk and reference objects
+    const obj = value as Record<string, unknown>;
+    return jsonText(obj.text ?? obj.description ?? obj.title ?? obj.name);
+  }
+  return String(value).trim() || undefined;
+}
+
+function jsonValues(obj: Record<string, unknown>, unknownKeys: Set<string>): { values: Row['values']; tasks?: unknown[] } {
+  const values: Row['values'] = {};
+  let tasks: unknown[] | undefined;
+  for (const [key, value] of Object.entries(obj)) {
+    const field = fieldForKey(key);
+    if (!field) {
+      unknownKeys.add(key);
+    } else if (field === 'tasks' && Array.isArray(value)) {
+      tasks = value;
+    } else if (field !== 'tasks') {
+      const text = jsonText(value);
+      if (text) values[field] = text;
+    }
+  }
+  return { values, tasks };
+}
+
+function jsonRows(text: string, issues: ImportIssue[]): Row[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    issues.push({ where: 'file', message: `Not valid JSON: ${e instanceof Error ? e.message : String(e)}`, severity: 'error' });
+    return [];
+  }
+  const container = data && typeof data === 'object' && !Array.isArray(data) ? (data as Record<string, unknown>) : null;
+  const list = Array.isArray(data)
+    ? data
+    : container && Object.entries(container).find(([key, value]) => Array.isArray(value) && /^(?:workorders?|orders|data|items|records)$/.test(normalizeKey(key)))?.[1];
+  if (!Array.isArray(list)) {
+    issues.push({ where: 'file', message: 'Expected a list of work orders, or an object with a "workOrders" list', severity: 'error' });
+    return [];
+  }
+
+  const unknownKeys = new Set<string>();
+  const rows: Row[] = [];
+  list.forEach((item, i) => {
+    const where = `work order ${i + 1}`;
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      issues.push({ where, message: 'Not an object', severity: 'error' });
+      return;
+    }
+    const { values, tasks } = jsonValues(item as Record<string, unknown>, unknownKeys);
+    // With a task list, the work order's own description is its notes, not a step
+    if (tasks && values.instruction) {
+      values.notes ??= values.instruction;
+      delete values.instruction;
+    }
+    rows.push({ where, values });
+    tasks?.forEach((task, j) => {
+      const taskWhere = `${where}, task ${j + 1}`;
+      if (typeof task === 'string') {
+        rows.push({ where: taskWhere, values: { workOrderNumber: values.workOrderNumber, instruction: task.trim() } });
+      } else if (task && typeof task === 'object' && !Array.isArray(task)) {
+        const step = jsonValues(task as Record<string, unknown>, unknownKeys).values;
+        rows.push({ where: taskWhere, values: { ...step, workOrderNumber: values.workOrderNumber } });
+      } else {
+        issues.push({ where: taskWhere, message: 'Not a task description or object', severity: 'error' });
+      }
+    });
+  });
+  if (unknownKeys.size) issues.push({ where: 'file', message: `Ignored fields: ${[...unknownKeys].join(', ')}`, severity: 'warning' });
+  return rows;
+}
+
+// --- Rows → work orders ---
+
+const RII_YES = new Set(['y', 'yes', 'true', '1', 'x', 'rii', 'required']);
+const RII_NO = new Set(['n', 'no', 'false', '0', '-']);
+
+/** Manual references in a refs cell ("Cessna SM p.290; O-320 OM p.39"), resolved to KB pages. */
+function resolveRefs(value: string, chunks: KBChunk[], where: string, issues: ImportIssue[]): ManualRef[] {
+  const manuals = getManuals();
+  const citations = findCitations(value, manuals.map((m) => m.name));
+  if (!citations.length) {
+    issues.push({ where, message: `No manual page in reference "${value}" (expected e.g. "Cessna SM p.290")`, severity: 'warning' });
+    return [];
+  }
+  const refs: ManualRef[] = [];
+  for (const citation of citations) {
+    const manual = manuals.find((m) => m.name === citation.manualName);
+    if (!manual) {
+      issues.push({ where, message: `"${citation.text}" names no manual in the knowledge base; reference skipped`, severity: 'warning' });
+      continue;
+    }
+    const page = citation.pages[0];
+    const chunk = chunks.find((c) => c.manual === manual.id && c.page === page && (!citation.figure || c.figure === citation.figure));
+    // Pages outside the extracted chunks still open in the viewer, just without a section title
+    refs.push(chunk ? getManualRef(chunk) : { page, section: '', sectionTitle: '', pdfUrl: `${manual.pdf}#page=${page}`, manualName: manual.name });
+  }
+  return refs;
+}
+
+/** A step from a row, or null (with an error) when the row can't be one. */
+function rowStep(row: Row, chunks: KBChunk[], issues: ImportIssue[]): TaskCardStep | null {
+  const v = row.values;
+  if (!v.instruction) {
+    issues.push({ where: row.where, message: 'Task row has no task description; row skipped', severity: 'error' });
+    return null;
+  }
+  let rii = false;
+  if (v.rii) {
+    const flag = v.rii.toLowerCase();
+    if (RII_YES.has(flag)) rii = true;
+    else if (!RII_NO.has(flag)) {
+      issues.push({ where: row.where, message: `RII must be yes or no, got "${v.rii}"; row skipped`, severity: 'error' });
+      return null;
+    }
+  }
+  if (v.torque && !/\d/.test(v.torque)) issues.push({ where: row.where, message: `Torque "${v.torque}" has no value`, severity: 'warning' });
+  const tools = splitList(v.tools, /[;,|\n]/);
+  const refs = v.refs ? resolveRefs(v.refs, chunks, row.where, issues) : [];
+  const component = v.component?.toLowerCase() ?? canonicalizeLabel(v.instruction)?.displayName.toLowerCase();
+  return {
+    id: '',
+    instruction: v.instruction,
+    ...(component ? { component } : {}),
+    ...(refs.length ? { refs } : {}),
+    ...(tools.length ? { tools } : {}),
+    ...(v.torque ? { torque: v.torque } : {}),
+    ...(rii ? { rii } : {}),
+  };
+}
+
+const HEADER_FIELDS = ['tailNumber', 'aircraftType', 'aircraftSerial', 'technician', 'notes'] as const;
+const FIELD_LABELS: Record<(typeof HEADER_FIELDS)[number], string> = {
+  tailNumber: 'tail number',
+  aircraftType: 'aircraft type',
+  aircraftSerial: 'serial number',
+  technician: 'technician',
+  notes: 'notes',
+};
+
+function buildWorkOrders(rows: Row[], chunks: KBChunk[], issues: ImportIssue[]): ImportedWorkOrder[] {
+  const byNumber = new Map<string, { order: ImportedWorkOrder; wheres: string[]; stepNumbers: (number | null)[] }>();
+  for (const row of rows) {
+    const v = row.values;
+    if (!v.workOrderNumber) {
+      if (Object.keys(v).length) issues.push({ where: row.where, message: 'No work order number; row skipped', severity: 'error' });
+      continue;
+    }
+    let entry = byNumber.get(v.workOrderNumber);
+    if (!entry) {
+      entry = { order: { workOrderNumber: v.workOrderNumber, maintenanceType: [], squawks: [], steps: [], source: '' }, wheres: [], stepNumbers: [] };
+      byNumber.set(v.workOrderNumber, entry);
+    }
+    const { order } = entry;
+    entry.wheres.push(row.where);
+
+    // Work order fields: the first value wins; a different one later is reported
+    for (const field of HEADER_FIELDS) {
+      const value = v[field];
+      if (!value) continue;
+      if (!order[field]) order[field] = value;
+      else if (order[field] !== value) {
+        issues.push({ where: row.where, message: `${FIELD_LABELS[field]} "${value}" differs from "${order[field]}" earlier in ${order.workOrderNumber}; kept the first`, severity: 'warning' });
+      }
+    }
+    for (const type of splitList(v.maintenanceType, /[,;|\n]/)) if (!order.maintenanceType.includes(type)) order.maintenanceType.push(type);
+    for (const squawk of splitList(v.squawks, /[|\n]/)) if (!order.squawks.includes(squawk)) order.squawks.push(squawk);
+
+    if (!STEP_FIELDS.some((f) => v[f])) continue;
+    const step = rowStep(row, chunks, issues);
+    if (!step) continue;
+    const stepNumber = Number(v.stepNumber);
+    const validNumber = Number.isInteger(stepNumber) && stepNumber > 0;
+    if (v.stepNumber && !validNumber) {
+      issues.push({ where: row.where, message: `Step number "${v.stepNumber}" is not a positive whole number; kept in file order`, severity: 'warning' });
+    }
+    order.steps.push(step);
+    entry.stepNumbers.push(validNumber ? stepNumber : null);
+  }
+
+  return [...byNumber.values()].map(({ order, wheres, stepNumbers }) => {
+    // Step numbers reorder the steps only when every step has a distinct one
+    const numbered = stepNumbers.every((n) => n !== null) && new Set(stepNumbers).size === stepNumbers.length;
+    if (!numbered && stepNumbers.some((n) => n !== null)) {
+      issues.push({ where: order.workOrderNumber, message: 'Step numbers are missing or repeated; steps kept in file order', severity: 'warning' });
+    }
+    const steps = numbered ? order.steps.map((step, i) => ({ step, n: stepNumbers[i] ?? 0 })).sort((a, b) => a.n - b.n).map((s) => s.step) : order.steps;
+    if (order.tailNumber && !/^[A-Z0-9]{1,3}-?[A-Z0-9]{1,6}$/i.test(order.tailNumber)) {
+      issues.push({ where: order.workOrderNumber, message: `Tail number "${order.tailNumber}" doesn't look like a registration`, severity: 'warning' });
+    }
+    if (!steps.length && !order.squawks.length) {
+      issues.push({ where: order.workOrderNumber, message: 'No tasks or squawks; only the work context is imported', severity: 'warning' });
+    }
+    const ids = contentStepIds('step', steps);
+    return {
+      ...order,
+      steps: steps.map((step, i) => ({ ...step, id: ids[i] })),
+      // "line 2 – line 6"; a JSON work order is one entry with its tasks
+      source: wheres.length > 1 && !wheres[wheres.length - 1].startsWith(wheres[0]) ? `${wheres[0]} – ${wheres[wheres.length - 1]}` : wheres[0],
+    };
+  });
+}
+
+/**
+ * Parse and validate an export; nothing is saved. JSON is recognized by the file extension or a
+ * leading `[`/`{`, anything else is read as CSV (comma, semicolon or tab separated).
+ */
+export async function parseWorkOrders(text: string, fileName = ''): Promise<WorkOrderParseResult> {
+  const issues: ImportIssue[] = [];
+  const isJson = /\.json$/i.test(fileName) || /^\s*[[{]/.test(text);
+  const rows = isJson ? jsonRows(text, issues) : csvRows(text, issues);
+  // Manual references resolve against the loaded KB (and its manifest)
+  const { chunks } = await loadKnowledgeBase();
+  const workOrders = buildWorkOrders(rows, chunks, issues);
+  if (!workOrders.length && !issues.some((i) => i.severity === 'error')) {
+    issues.push({ where: 'file', message: 'No work orders found', severity: 'error' });
+  }
+  return { workOrders, issues };
+}
+
+/** Profiles the export's technician name can mean: the id, the full name, or the name before "(…)" ("Mike"). */
+function matchTechnician(name: string, profiles: PersonProfile[]): PersonProfile[] {
+  const wanted = name.trim().toLowerCase();
+  const exact = profiles.filter((p) => p.id === name.trim() || p.name.toLowerCase() === wanted);
+  if (exact.length) return exact;
+  return profiles.filter((p) => p.name.replace(/\s*\(.*\)\s*$/, '').trim().toLowerCase() === wanted);
+}
+
+/**
+ * Dry run: which profile each work order goes to. A work order without a technician goes to the
+ * current profile; a technician not on file gets a new profile. A profile holds one work order at a
+ * time, so the last of several for the same technician wins.
+ */
+export function planWorkOrderImport(result: WorkOrderParseResult, profiles: PersonProfile[], currentProfile: PersonProfile | null): WorkOrderImportPlan {
+  const issues = [...result.issues];
+  const actions: WorkOrderImportAction[] = [];
+  for (const order of result.workOrders) {
+    let action: WorkOrderImportAction;
+    if (!order.technician) {
+      if (!currentProfile) {
+        issues.push({ where: order.workOrderNumber, message: 'No assigned technician and no profile selected; not imported', severity: 'error' });
+        continue;
+      }
+      issues.push({ where: order.workOrderNumber, message: `No assigned technician; goes to the current profile, ${currentProfile.name}`, severity: 'warning' });
+      action = { workOrder: order, action: 'update', profileId: currentProfile.id, profileName: currentProfile.name };
+    } else {
+      const matches = matchTechnician(order.technician, profiles);
+      if (matches.length > 1) {
+        issues.push({ where: order.workOrderNumber, message: `Technician "${order.technician}" matches ${matches.map((p) => p.name).join(' and ')}; not imported`, severity: 'error' });
+        continue;
+      }
+      action = matches[0]
+        ? { workOrder: order, action: 'update', profileId: matches[0].id, profileName: matches[0].name }
+        : { workOrder: order, action: 'create', profileId: '', profileName: order.technician };
+    }
+    const previous = actions.findIndex((a) => (a.profileId ? a.profileId === action.profileId : a.profileName.toLowerCase() === action.profileName.toLowerCase()));
+    if (previous >= 0) {
+      issues.push({ where: actions[previous].workOrder.workOrderNumber, message: `Replaced by ${order.workOrderNumber} for ${action.profileName} (one work order per profile)`, severity: 'warning' });
+      actions.splice(previous, 1);
+    }
+    // Re-import of a work order already on file: sign-offs follow their steps by content (see contentStepIds)
+    const orphaned = orphanedSignOffs(workOrderCardId(order.workOrderNumber), order.steps.map((s) => s.id));
+    if (orphaned) {
+      issues.push({
+        where: order.workOrderNumber,
+        message: `${orphaned} signed-off step${orphaned === 1 ? ' is' : 's are'} not in this export (removed or changed); ${orphaned === 1 ? 'its sign-off is' : 'their sign-offs are'} cleared`,
+        severity: 'warning',
+      });
+    }
+    if (action.action === 'create' && order.steps.length) {
+      issues.push({ where: order.workOrderNumber, message: `New profile ${action.profileName} has no certifications; add them before signing off steps`, severity: 'warning' });
+    }
+    actions.push(action);
+  }
+  return { actions, issues };
+}
+
+/** Work context from the work order; the profile's aircraft details carry over when the tail number is unchanged. */
+function importedWork(order: ImportedWorkOrder, existing?: WorkContext): ImportedWork {
+  const sameAircraft = existing && (!order.tailNumber || order.tailNumber === existing.aircraftTailNumber);
+  const squawks = order.squawks.length ? `Squawks: ${order.squawks.map((s, i) => `(${i + 1}) ${s}`).join(' ')}` : '';
+  const workNotes = [order.notes?.replace(/[.\s]*$/, '.'), squawks].filter(Boolean).join(' ');
+  const taskCard: TaskCard | undefined = order.steps.length
+    ? {
+        id: workOrderCardId(order.workOrderNumber),
+        title: `Work order ${order.workOrderNumber}${order.tailNumber ? ` – ${order.tailNumber}` : ''}`,
+        workOrderNumber: order.workOrderNumber,
+        steps: order.steps,
+      }
+    : undefined;
+  return {
+    workContext: {
+      aircraftTailNumber: order.tailNumber ?? (sameAircraft ? existing.aircraftTailNumber : undefined),
+      aircraftType: order.aircraftType ?? (sameAircraft ? existing.aircraftType : undefined),
+      aircraftSerial: order.aircraftSerial ?? (sameAircraft ? existing.aircraftSerial : undefined),
+      workOrderNumber: order.workOrderNumber,
+      maintenanceType: order.maintenanceType.length ? order.maintenanceType : undefined,
+      workNotes: workNotes || undefined,
+    },
+    taskCard,
+    taskCardItems: [...new Set(order.steps.flatMap((step) => (step.component ? [step.component] : [])))],
+  };
+}
+
+/** Save the plan: imported work for existing profiles, new custom profiles for the rest. Returns the profiles as they now are. */
+export function applyWorkOrderImport(plan: WorkOrderImportPlan, profiles: PersonProfile[]): PersonProfile[] {
+  const customProfiles = loadCustomProfiles();
+  const created: PersonProfile[] = [];
+  const updated: PersonProfile[] = [];
+  const now = Date.now();
+  plan.actions.forEach(({ workOrder, action, profileId, profileName }, i) => {
+    const existing = action === 'update' ? profiles.find((p) => p.id === profileId) : undefined;
+    const work = importedWork(workOrder, existing?.workContext);
+    if (work.taskCard) pruneTaskCardProgress(work.taskCard);
+    if (existing) {
+      saveImportedWork(existing.id, work);
+      updated.push({ ...existing, ...work });
+    } else {
+      created.push({ id: `custom-${now}-${i}`, name: profileName, certifications: [], experienceLevel: false, safetyRequirements: [], ...work });
+    }
+  });
+  if (created.length) saveCustomProfiles([...customProfiles, ...created]);
+  return [...updated, ...created];
+}
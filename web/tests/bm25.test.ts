@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { buildBM25Index, tokenize, type BM25Field } from '../src/lib/bm25';
+
+interface Doc {
+  title: string;
+  body: string;
+}
+
+const FIELDS: BM25Field<Doc>[] = [
+  { name: 'title', boost: 3, text: (d) => d.title },
+  { name: 'body', boost: 1, text: (d) => d.body },
+];
+
+const docs: Doc[] = [
+  { title: 'Brake system', body: 'Inspect the magneto cable routing near the brake lines.' },
+  { title: 'Magneto', body: 'Time the magneto to the engine.' },
+  { title: 'Oil system', body: 'Drain the oil and replace the filter.' },
+  { title: 'Cowling', body: 'Remove the cowling fasteners.' },
+];
+
+describe('tokenize', () => {
+  it('drops question filler and de-pluralizes', () => {
+    assert.deepEqual(tokenize('What is the torque for the spark plugs?'), ['torque', 'spark', 'plug']);
+  });
+});
+
+describe('buildBM25Index', () => {
+  const index = buildBM25Index(docs, FIELDS);
+
+  it('ranks a hit in a boosted field above the same term in body text', () => {
+    assert.deepEqual(index.search('magneto').map((h) => h.doc.title), ['Magneto', 'Brake system']);
+  });
+
+  it('returns only documents matching a query term', () => {
+    assert.deepEqual(index.search('the oil filters').map((h) => h.index), [2]);
+    assert.deepEqual(index.search('the and of'), []);
+  });
+
+  it('saturates repeated terms', () => {
+    const repeated = buildBM25Index([{ title: '', body: 'oil' }, { title: '', body: 'oil oil oil oil oil oil' }, { title: '', body: 'fuel' }], FIELDS);
+    const [once, many] = repeated.scores('oil');
+    assert.ok(many > once);
+    assert.ok(many < 2 * once, `${many} should be less than twice ${once}`);
+  });
+
+  it('keeps document order on ties', () => {
+    const tied = buildBM25Index([{ title: 'Fuel', body: '' }, { title: 'Fuel', body: '' }, { title: 'Oil', body: '' }], FIELDS);
+    assert.deepEqual(tied.search('fuel').map((h) => h.index), [0, 1]);
+  });
+});
@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { findCitations, verifyCitations } from '../src/lib/citations';
+import type { KBChunk } from '../src/lib/knowledgeBase';
+
+function chunk(page: number, figure?: string): KBChunk {
+  return { id: `sm-${page}`, component: 'tire', keywords: [], section: '5', sectionTitle: 'Landing Gear', page, figure, content: '' };
+}
+
+const retrieved = [chunk(377, '15-2'), chunk(26)];
+
+describe('findCitations', () => {
+  it('reads the manual, pages and figure', () => {
+    const [c] = findCitations('Torque per Cessna SM p.377, Fig 15-2.', ['SM']);
+    assert.equal(c.text, 'SM p.377, Fig 15-2');
+    assert.equal(c.manualName, 'SM');
+    assert.deepEqual(c.pages, [377]);
+    assert.equal(c.figure, '15-2');
+  });
+
+  it('expands a page range', () => {
+    assert.deepEqual(findCitations('See pages 400–402.')[0].pages, [400, 401, 402]);
+  });
+
+  it('flags a document the KB does not have', () => {
+    assert.equal(findCitations('Part number in the IPC p.45.', ['SM'])[0].unknownManual, true);
+  });
+
+  it('does not take a unit for a manual name', () => {
+    const [c] = findCitations('Oil pressure 60-90 PSI p.26.', ['SM']);
+    assert.equal(c.manualName, undefined);
+    assert.equal(c.unknownManual, false);
+    assert.equal(c.text, 'p.26');
+  });
+});
+
+describe('verifyCitations', () => {
+  it('keeps citations of retrieved pages as refs', () => {
+    const result = verifyCitations('Inflate to 29 psi (SM p.377).', retrieved);
+    assert.equal(result.text, 'Inflate to 29 psi (SM p.377).');
+    assert.deepEqual(result.refs.map((r) => r.page), [377]);
+    assert.deepEqual(result.unsupported, []);
+  });
+
+  it('removes a parenthetical or trailing citation of a page not retrieved', () => {
+    assert.equal(verifyCitations('Inflate to 29 psi (SM p.999).', retrieved).text, 'Inflate to 29 psi.');
+    assert.equal(verifyCitations('Inflate to 29 psi per SM p.999.', retrieved).text, 'Inflate to 29 psi.');
+    assert.equal(verifyCitations('Oil pressure 60-90 PSI p.999.', retrieved).text, 'Oil pressure 60-90 PSI.');
+    assert.equal(verifyCitations('Inflate to 29 psi (see SM p.998; SM p.999) cold.', retrieved).text, 'Inflate to 29 psi cold.');
+  });
+
+  it('rejects a figure that is not on the cited page', () => {
+    assert.equal(verifyCitations('See SM p.377, Fig 9-9.', retrieved).unsupported.length, 1);
+  });
+
+  it('drops a sentence built around an unsupported citation', () => {
+    const result = verifyCitations('Set to 25 psi. SM p.999 says so, and SM p.377 confirms.', retrieved);
+    assert.equal(result.text, 'Set to 25 psi.');
+    assert.equal(result.unsupported[0].text, 'SM p.999');
+  });
+
+  it('removes an unsupported item from a list of citations', () => {
+    assert.equal(verifyCitations('Refer to page 377 and pages 400-402.', retrieved).text, 'Refer to page 377.');
+    assert.equal(verifyCitations('See SM p.999 and SM p.26.', retrieved).text, 'See SM p.26.');
+  });
+
+  it('drops the sentence when every cited page is unsupported', () => {
+    assert.equal(verifyCitations('Refer to page 998 and pages 400-402. Inflate to 29 psi.', retrieved).text, 'Inflate to 29 psi.');
+  });
+});
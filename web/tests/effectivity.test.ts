@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { formatEffectivity, getAircraftIdentity, isEffective, type Effectivity } from '../src/lib/effectivity';
+
+const C172N: Effectivity = { aircraft: ['Cessna 172'], models: ['172N', 'F172N'], serials: [{ from: '17267585', to: '17274009' }] };
+
+describe('isEffective', () => {
+  it('applies when either side is unspecified', () => {
+    assert.equal(isEffective(undefined, { type: 'Cessna 172N' }), true);
+    assert.equal(isEffective(C172N, null), true);
+  });
+
+  it('matches a named model and rejects another model of the type', () => {
+    assert.equal(isEffective(C172N, { type: 'Cessna 172N' }), true);
+    assert.equal(isEffective(C172N, { type: 'Reims F172N' }), true);
+    assert.equal(isEffective(C172N, { type: 'Cessna 172Q' }), false);
+  });
+
+  it('matches every model when the profile only names the type', () => {
+    assert.equal(isEffective(C172N, { type: 'Cessna 172' }), true);
+    assert.equal(isEffective(C172N, { type: 'Piper PA-28' }), false);
+  });
+
+  it('checks serial ranges numerically, only when a serial is given', () => {
+    assert.equal(isEffective(C172N, { type: 'Cessna 172N', serial: '17270123' }), true);
+    assert.equal(isEffective(C172N, { type: 'Cessna 172N', serial: '17274010' }), false);
+    assert.equal(isEffective({ serials: [{ from: '900' }] }, { type: 'Cessna 172N', serial: '1000' }), true);
+  });
+});
+
+describe('getAircraftIdentity', () => {
+  it('needs an aircraft type', () => {
+    assert.equal(getAircraftIdentity({ aircraftSerial: '17270123' }), null);
+    assert.deepEqual(getAircraftIdentity({ aircraftType: ' Cessna 172N ', aircraftSerial: '' }), { type: 'Cessna 172N' });
+  });
+});
+
+describe('formatEffectivity', () => {
+  it('summarizes models and serial ranges', () => {
+    assert.equal(formatEffectivity(C172N), '172N, F172N; S/N 17267585–17274009');
+    assert.equal(formatEffectivity({ aircraft: ['Cessna 172'], serials: [{ from: '17280001' }] }), 'Cessna 172; S/N 17280001 and on');
+  });
+});
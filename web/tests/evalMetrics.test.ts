@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { evaluateDetections, mapLabelToClass } from '../scripts/evalMetrics';
+
+const box = { x: 0.2, y: 0.2, width: 0.3, height: 0.3 };
+
+describe('mapLabelToClass', () => {
+  it('maps a component to the nearest class on its ancestry', () => {
+    assert.equal(mapLabelToClass('Propeller blade', ['propeller', 'spark-plug']), 'propeller');
+    assert.equal(mapLabelToClass('Propeller blade', ['propeller', 'propeller-blade']), 'propeller-blade');
+  });
+
+  it('matches class names written as display names', () => {
+    assert.equal(mapLabelToClass('prop blade', ['Propeller']), 'Propeller');
+  });
+
+  it('returns null when no class is on the ancestry', () => {
+    assert.equal(mapLabelToClass('Propeller blade', ['spark-plug']), null);
+    assert.equal(mapLabelToClass('coffee mug', ['propeller']), null);
+  });
+});
+
+describe('evaluateDetections', () => {
+  it('scores a sub-component prediction against its assembly class', () => {
+    const report = evaluateDetections([{ id: 'a', groundTruth: [{ className: 'propeller', bbox: box }], predictions: [{ label: 'Propeller blade', bbox: box, confidence: 0.9 }] }], ['propeller']);
+    assert.equal(report.classes[0].ap, 1);
+    assert.deepEqual(report.labelMismatches, []);
+    assert.deepEqual(report.notInTaxonomy, []);
+  });
+
+  it('reports unknown labels apart from components without a class, and counts both as false positives', () => {
+    const report = evaluateDetections(
+      [
+        {
+          id: 'a',
+          groundTruth: [{ className: 'propeller', bbox: box }],
+          predictions: [
+            { label: 'propeller', bbox: box, confidence: 0.9 },
+            { label: 'coffee mug', bbox: { ...box, x: 0.6 }, confidence: 0.8 },
+            { label: 'spark plug', bbox: { ...box, y: 0.6 }, confidence: 0.7 },
+          ],
+        },
+      ],
+      ['propeller']
+    );
+    assert.deepEqual(report.notInTaxonomy, [{ label: 'coffee mug', count: 1 }]);
+    assert.deepEqual(report.noEvalClass, [{ label: 'spark plug', count: 1 }]);
+    assert.equal(report.classes[0].precision, 1);
+    assert.equal(report.overall.falsePositives, 2);
+    assert.equal(report.overall.precision, 1 / 3);
+    assert.equal(report.overall.recall, 1);
+  });
+});
@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { groundAnswer } from '../src/lib/grounding';
+import type { KBChunk, KBTable } from '../src/lib/knowledgeBase';
+
+function chunk(content: string, tables?: KBTable[]): KBChunk {
+  return { id: 'sm-17', component: 'spark-plug', keywords: [], section: '2', sectionTitle: 'General Airframe Practices', page: 17, content, tables };
+}
+
+describe('groundAnswer', () => {
+  it('keeps a value the page states in another unit', () => {
+    const result = groundAnswer('Torque the plug to 25 ft-lbs.', [chunk('Spark plug torque: 300 in-lbs.')]);
+    assert.equal(result.text, 'Torque the plug to 25 ft-lbs.');
+    assert.deepEqual(result.ungrounded, []);
+  });
+
+  it('drops a value the page does not state, even when the number appears elsewhere', () => {
+    const result = groundAnswer('Set the gap. Torque to 35 ft-lbs.', [chunk('Torque 300-360 in-lbs. See note 35.')]);
+    assert.equal(result.text, 'Set the gap.');
+    assert.deepEqual(result.ungrounded, ['35 ft-lbs']);
+    assert.equal(result.closest?.page, 17);
+  });
+
+  it('does not end a sentence at a unit abbreviation', () => {
+    const result = groundAnswer('Torque to 35 ft. lbs. and safety-wire it. Check the gap.', [chunk('Torque 300 in-lbs.')]);
+    assert.equal(result.text, 'Check the gap.');
+    assert.deepEqual(result.ungrounded, ['35 ft. lbs']);
+  });
+
+  it('takes a table value unit from its column heading', () => {
+    const table: KBTable = { title: 'Spark plug torque', columns: ['', 'Torque (in-lbs)'], rows: [['Plug', '360']] };
+    assert.deepEqual(groundAnswer('Torque to 30 ft-lbs.', [chunk('', [table])]).ungrounded, []);
+    assert.deepEqual(groundAnswer('Torque to 40 ft-lbs.', [chunk('', [table])]).ungrounded, ['40 ft-lbs']);
+  });
+
+  it('converts Celsius to Fahrenheit', () => {
+    const pages = [chunk('Oil temperature limit 245°F.')];
+    assert.deepEqual(groundAnswer('Oil must stay under 118°C.', pages).ungrounded, []);
+    assert.deepEqual(groundAnswer('Oil must stay under 130°C.', pages).ungrounded, ['130°C']);
+  });
+
+  it('keeps the line label of a structured reply', () => {
+    assert.equal(groundAnswer('INSTALLATION: Torque to 35 ft-lbs.', [chunk('Torque 300 in-lbs.')]).text, 'INSTALLATION:');
+  });
+});
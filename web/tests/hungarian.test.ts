@@ -0,0 +1,25 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { INFEASIBLE_COST, solveAssignment } from '../src/lib/hungarian';
+
+describe('solveAssignment', () => {
+  it('finds the minimum total cost where greedy would not', () => {
+    // Greedy takes row 0 → col 0 (cost 1) and leaves row 1 the 100; the optimum is 2 + 2
+    assert.deepEqual(solveAssignment([[1, 2], [2, 100]]), [1, 0]);
+  });
+
+  it('leaves extra rows unassigned in a rectangular problem', () => {
+    assert.deepEqual(solveAssignment([[5], [1], [3]]), [-1, 0, -1]);
+    assert.deepEqual(solveAssignment([[4, 1, 3]]), [1]);
+  });
+
+  it('never assigns an infeasible pairing', () => {
+    assert.deepEqual(solveAssignment([[INFEASIBLE_COST, 1], [INFEASIBLE_COST, INFEASIBLE_COST]]), [1, -1]);
+    assert.deepEqual(solveAssignment([[INFEASIBLE_COST]]), [-1]);
+  });
+
+  it('handles empty problems', () => {
+    assert.deepEqual(solveAssignment([]), []);
+    assert.deepEqual(solveAssignment([[], []]), [-1, -1]);
+  });
+});
@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { handleProcedureCommand, parseProcedureCommand, startProcedure } from '../src/lib/procedureRunner';
+import { PRESET_ENGINE_OVERHAUL } from '../src/lib/rag';
+import type { TaskCard } from '../src/lib/taskCard';
+
+describe('parseProcedureCommand', () => {
+  it('reads a bare command word', () => {
+    assert.equal(parseProcedureCommand('Done.'), 'done');
+    assert.equal(parseProcedureCommand('okay, done'), 'done');
+    assert.equal(parseProcedureCommand('Next'), 'next');
+    assert.equal(parseProcedureCommand('Confirmed'), 'confirm');
+    assert.equal(parseProcedureCommand('say that again'), 'repeat');
+    assert.equal(parseProcedureCommand('Stop the procedure'), 'stop');
+  });
+
+  it('ignores negated commands', () => {
+    assert.equal(parseProcedureCommand("I'm not done yet"), null);
+    assert.equal(parseProcedureCommand('not finished'), null);
+    assert.equal(parseProcedureCommand("hold on, I haven't completed it"), null);
+    assert.equal(parseProcedureCommand("it isn't done"), null);
+    assert.equal(parseProcedureCommand('no'), null);
+  });
+
+  it('ignores a command word inside a longer utterance', () => {
+    assert.equal(parseProcedureCommand('done, checked the gap'), null);
+    assert.equal(parseProcedureCommand('is the next one the torque?'), null);
+  });
+
+  it('does not take "check" as a safety confirmation', () => {
+    assert.equal(parseProcedureCommand('check what?'), null);
+    assert.equal(parseProcedureCommand('checked'), null);
+  });
+});
+
+describe('handleProcedureCommand', () => {
+  // Three required safety items, plus a recommended one that must not block
+  const profile = { ...PRESET_ENGINE_OVERHAUL, safetyRequirements: [...PRESET_ENGINE_OVERHAUL.safetyRequirements, { item: 'Ear plugs', severity: 'recommended' as const }] };
+  const card: TaskCard = {
+    id: 'tc-procedure',
+    title: 'Procedure test',
+    steps: [
+      { id: 'a', instruction: 'Remove cowling' },
+      { id: 'b', instruction: 'Inspect cylinders' },
+    ],
+  };
+
+  it('asks only for required safety items', () => {
+    const state = startProcedure(card, profile);
+    assert.deepEqual(
+      state.pendingSafety.map((s) => s.item),
+      ['Safety glasses', 'Chemical-resistant gloves', 'Fire extinguisher nearby']
+    );
+  });
+
+  it('refuses done and next until every required item is confirmed', () => {
+    let state = startProcedure(card, profile);
+    for (const command of ['done', 'next'] as const) {
+      const result = handleProcedureCommand(state, card, profile, command);
+      assert.equal(result.card, card);
+      assert.equal(result.state, state);
+      assert.match(result.say, /^Confirm Safety glasses first/);
+    }
+    for (let i = 0; i < 3; i++) state = handleProcedureCommand(state, card, profile, 'confirm').state;
+    assert.deepEqual(state.pendingSafety, []);
+    const result = handleProcedureCommand(state, card, profile, 'done');
+    assert.equal(result.card.steps[0].mechanicSignOff?.profileId, profile.id);
+    assert.equal(result.state.stepIndex, 1);
+  });
+
+  it('still repeats and stops while safety is pending', () => {
+    const state = startProcedure(card, profile);
+    assert.match(handleProcedureCommand(state, card, profile, 'repeat').say, /^Safety check: Safety glasses/);
+    assert.equal(handleProcedureCommand(state, card, profile, 'stop').state.finished, true);
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Browser globals the lib modules use, for running them under node:test: an in-memory localStorage,
+ * and fetch of app paths ("/cessna172-kb.json") served from public/.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+const store = new Map<string, string>();
+globalThis.localStorage = {
+  get length() {
+    return store.size;
+  },
+  clear: () => store.clear(),
+  getItem: (key) => store.get(key) ?? null,
+  key: (index) => [...store.keys()][index] ?? null,
+  removeItem: (key) => void store.delete(key),
+  setItem: (key, value) => void store.set(key, String(value)),
+};
+
+const publicDir = join(import.meta.dirname, '..', 'public');
+const nodeFetch = globalThis.fetch;
+globalThis.fetch = async (input, init) => {
+  const url = String(input instanceof Request ? input.url : input);
+  if (!url.startsWith('/')) return nodeFetch(input, init);
+  try {
+    return new Response(await readFile(join(publicDir, url.split(/[?#]/)[0])));
+  } catch {
+    return new Response('Not found', { status: 404 });
+  }
+};
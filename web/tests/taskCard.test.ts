@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { loadKnowledgeBase } from '../src/lib/knowledgeBase';
+import { PRESET_AD_COMPLIANCE, PRESET_CESSNA_ANNUAL, PRESET_ENGINE_OVERHAUL } from '../src/lib/rag';
+import { TASK_CARD_CESSNA_ANNUAL, resolveStepRefs, signOffBlocker, signOffStep, type TaskCard } from '../src/lib/taskCard';
+
+const card: TaskCard = {
+  id: 'tc-test',
+  title: 'Test card',
+  steps: [
+    { id: 'a', instruction: 'Remove cowling' },
+    { id: 'b', instruction: 'Time magnetos', rii: true },
+  ],
+};
+
+/** Both steps done by the mechanic (an IA here, which doesn't let them inspect their own work) */
+const worked = signOffStep(signOffStep(card, 'a', 'mechanic', PRESET_CESSNA_ANNUAL), 'b', 'mechanic', PRESET_CESSNA_ANNUAL);
+
+describe('signOffBlocker', () => {
+  it('keeps steps in order for the mechanic', () => {
+    assert.equal(signOffBlocker(card, 'b', 'mechanic', PRESET_CESSNA_ANNUAL), 'Step 1 is not done yet');
+    assert.equal(signOffBlocker(card, 'a', 'mechanic', PRESET_CESSNA_ANNUAL), null);
+  });
+
+  it('takes an inspector only on RII steps, after the mechanic', () => {
+    assert.equal(signOffBlocker(worked, 'a', 'inspector', PRESET_AD_COMPLIANCE), 'Not a required inspection item');
+    assert.equal(signOffBlocker(card, 'b', 'inspector', PRESET_AD_COMPLIANCE), 'Mechanic sign-off first');
+  });
+
+  it('does not let the mechanic inspect their own work', () => {
+    assert.equal(signOffBlocker(worked, 'b', 'inspector', PRESET_CESSNA_ANNUAL), 'RII needs an inspector other than the mechanic');
+  });
+
+  it('needs IA or RTS authority to inspect', () => {
+    assert.equal(signOffBlocker(worked, 'b', 'inspector', PRESET_ENGINE_OVERHAUL), 'RII needs an IA or RTS-authorized inspector');
+    assert.equal(signOffBlocker(worked, 'b', 'inspector', PRESET_AD_COMPLIANCE), null);
+  });
+
+  it('blocks a second inspection and signOffStep throws the reason', () => {
+    const inspected = signOffStep(worked, 'b', 'inspector', PRESET_AD_COMPLIANCE);
+    assert.equal(inspected.steps[1].inspectorSignOff?.profileId, PRESET_AD_COMPLIANCE.id);
+    assert.throws(() => signOffStep(inspected, 'b', 'inspector', PRESET_AD_COMPLIANCE), /Inspected by/);
+  });
+});
+
+describe('resolveStepRefs', () => {
+  it('resolves preset chunk ids through the loaded KB', async () => {
+    await loadKnowledgeBase();
+    const resolved = resolveStepRefs(TASK_CARD_CESSNA_ANNUAL);
+    for (const step of resolved.steps) assert.equal(step.refs?.length, step.refChunks?.length, step.id);
+    const mount = resolved.steps.find((s) => s.id === 'engine-mount-bolts');
+    assert.ok(mount?.refs?.every((ref) => ref.pdfUrl && ref.page && ref.chunkId));
+  });
+});
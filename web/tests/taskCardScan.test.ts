@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { PRESET_CESSNA_ANNUAL } from '../src/lib/rag';
+import { loadTaskCard, saveTaskCardProgress, signOffStep } from '../src/lib/taskCard';
+import { applyTaskCardScan, parseTaskCardText, scanClearedSignOffs } from '../src/lib/taskCardScan';
+
+const OCR = `TASK CARD ITEMS
+W/O #: WO-2026-0301    Reg: N734XY
+Aircraft: Cessna 172N   S/N: 17270123
+100 HR INSPECTION
+1. Remove cowling ______ Mech: ____
+2. Gap spark plugs
+☐ Inspect brakes
+Squawk: left brake soft`;
+
+describe('parseTaskCardText', () => {
+  it('reads labelled fields and numbered, bulleted or check-box items', () => {
+    const fields = parseTaskCardText(OCR);
+    assert.equal(fields.workOrderNumber, 'WO-2026-0301');
+    assert.equal(fields.tailNumber, 'N734XY');
+    assert.equal(fields.aircraftType, 'Cessna 172N');
+    assert.equal(fields.aircraftSerial, '17270123');
+    assert.deepEqual(fields.maintenanceType, ['scheduled', 'inspection']);
+    assert.deepEqual(fields.taskItems, ['Remove cowling', 'Gap spark plugs', 'Inspect brakes']);
+    assert.equal(fields.notes, 'left brake soft');
+  });
+
+  it('falls back to an N-number and a make and model in the text', () => {
+    const fields = parseTaskCardText('Cessna 172P N5213K\nAD 2024-15-06 engine mount bolts');
+    assert.equal(fields.tailNumber, 'N5213K');
+    assert.equal(fields.aircraftType, 'Cessna 172P');
+    assert.deepEqual(fields.maintenanceType, ['AD compliance']);
+    assert.equal(fields.workOrderNumber, undefined);
+  });
+});
+
+describe('applyTaskCardScan', () => {
+  const scan = (taskItems: string[]) => ({ workOrderNumber: 'WO-7', tailNumber: 'N734XY', maintenanceType: [], taskItems });
+
+  it('keeps the task card when the scan read no items', () => {
+    const profile = applyTaskCardScan(PRESET_CESSNA_ANNUAL, scan(['Remove cowling', 'Inspect brakes']));
+    const kept = applyTaskCardScan(profile, scan([]));
+    assert.deepEqual(kept.taskCard, profile.taskCard);
+    assert.deepEqual(kept.taskCardItems, ['remove cowling', 'inspect brakes']);
+  });
+
+  it('keeps sign-offs on their items across a re-scan and clears those of items gone', () => {
+    const profile = applyTaskCardScan(PRESET_CESSNA_ANNUAL, scan(['Remove cowling', 'Inspect brakes']));
+    const card = loadTaskCard(profile)!;
+    saveTaskCardProgress(signOffStep(card, card.steps[0].id, 'mechanic', PRESET_CESSNA_ANNUAL));
+
+    const reordered = applyTaskCardScan(profile, scan(['Check logbook', 'Remove cowling', 'Inspect brakes']));
+    assert.deepEqual(loadTaskCard(reordered)!.steps.map((s) => Boolean(s.mechanicSignOff)), [false, true, false]);
+
+    assert.equal(scanClearedSignOffs(reordered, scan(['Check logbook', 'Inspect brakes'])), 1);
+    const rescanned = applyTaskCardScan(reordered, scan(['Check logbook', 'Inspect brakes']));
+    assert.ok(loadTaskCard(rescanned)!.steps.every((s) => !s.mechanicSignOff));
+  });
+});
@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import type { DetectedItem } from '../src/lib/detection';
+import { coastTracks, getVisibleTracks, mergeWithPrevious, resetTrackIds } from '../src/lib/tracking';
+
+const box = (x: number, y: number, label: string, confidence = 0.9): DetectedItem => ({ label, bbox: { x, y, width: 0.2, height: 0.2 }, confidence });
+
+describe('mergeWithPrevious', () => {
+  beforeEach(resetTrackIds);
+
+  it('keeps track ids as boxes move between ticks', () => {
+    const first = mergeWithPrevious([], [box(0.1, 0.1, 'oil filter'), box(0.6, 0.6, 'magneto')], 0);
+    const second = mergeWithPrevious(first, [box(0.62, 0.61, 'magneto'), box(0.12, 0.1, 'oil filter')], 1000);
+    assert.deepEqual(
+      second.map((t) => [t.trackId, t.label]),
+      [['t1', 'oil filter'], ['t2', 'magneto']]
+    );
+  });
+
+  it('keeps two overlapping boxes of the same label on their own tracks', () => {
+    const first = mergeWithPrevious([], [box(0.3, 0.3, 'spark plug'), box(0.4, 0.3, 'spark plug')], 0);
+    // Both moved right by 0.05, listed in the other order; each track is corrected 60% toward its own box
+    const second = mergeWithPrevious(first, [box(0.45, 0.3, 'spark plug'), box(0.35, 0.3, 'spark plug')], 1000);
+    assert.equal(second.find((t) => t.trackId === 't1')?.state.x.toFixed(2), (0.3 + 0.6 * 0.05).toFixed(2));
+    assert.equal(second.find((t) => t.trackId === 't2')?.state.x.toFixed(2), (0.4 + 0.6 * 0.05).toFixed(2));
+  });
+
+  it('starts a box outside the gate as a new track', () => {
+    const first = mergeWithPrevious([], [box(0.1, 0.1, 'brake')], 0);
+    const second = mergeWithPrevious(first, [box(0.7, 0.7, 'brake')], 1000);
+    assert.deepEqual(second.map((t) => t.trackId), ['t1', 't2']);
+  });
+
+  it('shows a low-confidence track only after a second hit', () => {
+    const first = mergeWithPrevious([], [box(0.2, 0.2, 'cylinder', 0.4)], 0);
+    assert.equal(getVisibleTracks(first).length, 0);
+    assert.equal(mergeWithPrevious(first, [], 1000).length, 0, 'tentative tracks drop on the first miss');
+    const second = mergeWithPrevious(first, [box(0.21, 0.2, 'cylinder', 0.4)], 1000);
+    assert.equal(getVisibleTracks(second).length, 1);
+  });
+
+  it('coasts a confirmed track through one failed tick, then drops it', () => {
+    const first = mergeWithPrevious([], [box(0.2, 0.2, 'propeller')], 0);
+    const coasted = coastTracks(first, 1000);
+    assert.equal(coasted.length, 1);
+    assert.equal(coasted[0].misses, 1);
+    assert.equal(coastTracks(coasted, 2000).length, 0);
+  });
+});
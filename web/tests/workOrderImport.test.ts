@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { PRESET_PROFILES } from '../src/lib/rag';
+import { loadTaskCard, saveTaskCardProgress, signOffStep, workOrderCardId } from '../src/lib/taskCard';
+import { applyWorkOrderImport, parseWorkOrders, planWorkOrderImport } from '../src/lib/workOrderImport';
+
+const mike = PRESET_PROFILES[0];
+
+const HEADER = 'WO Number,Tail,Technician,Step,Task Description,Torque,RII,AMM Ref';
+
+describe('parseWorkOrders', () => {
+  it('reads CSV rows into work orders, steps ordered by step number', async () => {
+    const csv = [HEADER, 'WO-1,N12345,Mike,2,Install spark plugs,300-360 in-lbs,yes,Cessna SM p.290', 'WO-1,,,1,Remove spark plugs,,no,'].join('\n');
+    const { workOrders, issues } = await parseWorkOrders(csv, 'export.csv');
+    assert.deepEqual(issues, []);
+    assert.equal(workOrders.length, 1);
+    const [order] = workOrders;
+    assert.equal(order.tailNumber, 'N12345');
+    assert.deepEqual(order.steps.map((s) => s.instruction), ['Remove spark plugs', 'Install spark plugs']);
+    assert.equal(order.steps[1].rii, true);
+    assert.equal(order.steps[1].refs?.[0].page, 290);
+  });
+
+  it('skips invalid rows with an error and keeps going', async () => {
+    const csv = [HEADER, ',N1,,1,No work order,,,', 'WO-2,N1,,1,,25 in-lbs,,', 'WO-2,N1,,2,Check oil,,maybe,', 'WO-2,N1,,3,Check tires,,,IPC p.45'].join('\n');
+    const { workOrders, issues } = await parseWorkOrders(csv, 'export.csv');
+    assert.deepEqual(
+      issues.map((i) => [i.where, i.severity]),
+      [
+        ['line 2', 'error'],
+        ['line 3', 'error'],
+        ['line 4', 'error'],
+        ['line 5', 'warning'],
+      ]
+    );
+    assert.deepEqual(workOrders[0].steps.map((s) => s.instruction), ['Check tires']);
+  });
+
+  it('rejects a CSV without a work order column', async () => {
+    const { workOrders, issues } = await parseWorkOrders('Tail,Task\nN1,Check oil', 'export.csv');
+    assert.equal(workOrders.length, 0);
+    assert.equal(issues[0].message, 'No work order number column (e.g. "WO Number", "Work Order")');
+  });
+
+  it('reads JSON work orders with a task list', async () => {
+    const json = JSON.stringify({ workOrders: [{ wo: 'WO-3', registration: 'N54321', description: 'Annual', tasks: ['Drain oil', { task: 'Replace filter', torque: '16 ft-lbs' }], color: 'red' }] });
+    const { workOrders, issues } = await parseWorkOrders(json);
+    assert.equal(workOrders[0].notes, 'Annual');
+    assert.deepEqual(workOrders[0].steps.map((s) => s.instruction), ['Drain oil', 'Replace filter']);
+    assert.deepEqual(issues.map((i) => i.message), ['Ignored fields: color']);
+  });
+
+  it('reports malformed JSON', async () => {
+    const { issues } = await parseWorkOrders('{"workOrders": [', 'export.json');
+    assert.match(issues[0].message, /^Not valid JSON/);
+  });
+});
+
+describe('re-importing a work order', () => {
+  const csv = (...tasks: string[]) => [HEADER, ...tasks.map((t, i) => `WO-9,N12345,Mike,${i + 1},${t},,,`)].join('\n');
+
+  it('keeps sign-offs on their steps when a step is inserted, and clears those of removed steps', async () => {
+    const first = await parseWorkOrders(csv('Remove cowling', 'Inspect exhaust'));
+    const [profile] = applyWorkOrderImport(planWorkOrderImport(first, [mike], mike), [mike]);
+    const card = loadTaskCard(profile)!;
+    assert.equal(card.id, workOrderCardId('WO-9'));
+    saveTaskCardProgress(signOffStep(card, card.steps[0].id, 'mechanic', mike));
+
+    const inserted = await parseWorkOrders(csv('Check logbook', 'Remove cowling', 'Inspect exhaust'));
+    const plan = planWorkOrderImport(inserted, [mike], mike);
+    assert.deepEqual(plan.issues, []);
+    const [reimported] = applyWorkOrderImport(plan, [mike]);
+    const steps = loadTaskCard(reimported)!.steps;
+    assert.deepEqual(steps.map((s) => Boolean(s.mechanicSignOff)), [false, true, false]);
+
+    const removed = await parseWorkOrders(csv('Check logbook', 'Inspect exhaust'));
+    const removalPlan = planWorkOrderImport(removed, [mike], mike);
+    assert.deepEqual(removalPlan.issues.map((i) => i.message), ['1 signed-off step is not in this export (removed or changed); its sign-off is cleared']);
+    const [pruned] = applyWorkOrderImport(removalPlan, [mike]);
+    assert.ok(loadTaskCard(pruned)!.steps.every((s) => !s.mechanicSignOff));
+  });
+});